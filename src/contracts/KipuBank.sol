@@ -1,594 +1,728 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import "@openzeppelin/contracts/access/AccessControl.sol";
-import "@openzeppelin/contracts/utils/math/Math.sol";
-import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-
-/// @title Chainlink Price Feed Interface
-interface AggregatorV3Interface {
-    function latestRoundData() external view returns (
-		uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound
-	);
-    function decimals() external view returns (uint8);
-}
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./KipuBankBase.sol";
+
+/// @title My KipuBank
+/// @author Giovane Pimentel de Sousa
+/// @notice A simple bank contract with deposit and withdraw functionalities
+/// @dev I got 1-2-3-4-5-6-7-8 M`s in my bank account. Deployed behind a KipuBankProxy and upgraded by the
+///      DEFAULT_ADMIN_ROLE (UUPS); its state lives in KipuBankBase's ERC-7201 namespace
+contract KipuBank is KipuBankBase, UUPSUpgradeable {
+	using SafeCast for uint256;
+	using SafeERC20 for IERC20;
 
-/// @title Uniswap V4 Hook Interface
-interface IHooks {}
+	/// @notice Module holding the admin functions, run through delegatecall
+	address public immutable adminModule;
 
-/// @title Permit2 Interface
-/// @notice Uniswap's token approval contract
-interface IPermit2 {
-    function approve(address token, address spender, uint160 amount, uint48 expiration) external;
-    function transferFrom(address from, address to, uint160 amount, address token) external;
-}
+	/// @notice Module holding the permit and swap deposits, run through delegatecall
+	address public immutable depositsModule;
 
-/// @title Universal Router Interface
-/// @notice Uniswap's universal router for executing swaps
-interface IUniversalRouter {
-    function execute(
-        bytes calldata commands,
-        bytes[] calldata inputs,
-        uint256 deadline
-    ) external payable;
-}
+	/// @notice Module holding the account functions (transfers, delayed withdrawals, intents, operators), run through delegatecall
+	address public immutable accountsModule;
 
-/// @title Currency Type
-/// @notice Type for representing currencies in Uniswap V4
-type Currency is address;
+    /// =========================== FUNCTIONS ===========================
+
+    /// @notice Implementation constructor; the proxy's state is set up by initialize
+    /// @param _adminModule The KipuBankAdmin deployment the admin functions are delegated to
+    /// @param _depositsModule The KipuBankDeposits deployment the permit and swap deposits are delegated to
+    /// @param _accountsModule The KipuBankAccounts deployment the account functions are delegated to
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor(address _adminModule, address _depositsModule, address _accountsModule) {
+		if (_adminModule.code.length == 0) {
+			revert InvalidModule(_adminModule);
+		}
+		if (_depositsModule.code.length == 0) {
+			revert InvalidModule(_depositsModule);
+		}
+		if (_accountsModule.code.length == 0) {
+			revert InvalidModule(_accountsModule);
+		}
+		adminModule = _adminModule;
+		depositsModule = _depositsModule;
+		accountsModule = _accountsModule;
+	}
 
-/// @notice Helper library for Currency type
-library CurrencyLibrary {
-    function isNative(Currency currency) internal pure returns (bool) {
-        return Currency.unwrap(currency) == address(0);
+    /// @notice The actual deposit ether function
+	/// @dev The whole value counts against the cap; the DepositEth fee then moves to the treasury
+    function depositEth() external payable whenNotPaused(Operation.Deposits) onlyValidValue(msg.value) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+        if (msg.value > $.currentBankCapEth) {
+            revert BankCapEthExceeded({
+                requested: msg.value,
+                available: $.currentBankCapEth
+            });
+        }
+
+        $.currentBankCapEth -= msg.value;
+        $.balances[_msgSender()][ETH] += msg.value;
+        incrementDepositCount();
+
+        emit Deposit(_msgSender(), ETH, msg.value);
+		_chargeFee(FeeOperation.DepositEth, _msgSender(), _msgSender(), ETH, msg.value);
     }
-}
 
-/// @title Pool Key Structure
-/// @notice Identifies a Uniswap V4 pool
-struct PoolKey {
-    Currency currency0;
-    Currency currency1;
-    uint24 fee;
-    int24 tickSpacing;
-    IHooks hooks;
-}
+	/// @notice The actual deposit USDC function
+	/// @param amount The amount of USDC to deposit
+	function depositUsdc(uint256 amount) external whenNotPaused(Operation.Deposits) onlyValidValue(amount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		IERC20($.USDC).safeTransferFrom(_msgSender(), address(this), amount);
+		_creditUsdc(_msgSender(), amount, FeeOperation.DepositUsdc);
+	}
 
-/// @title Commands Library
-/// @notice Command types for Universal Router
-library Commands {
-    uint256 constant V4_SWAP = 0x10;
-    uint256 constant PERMIT2_PERMIT = 0x0a;
-    uint256 constant PERMIT2_TRANSFER_FROM = 0x0b;
-}
+	// the permit and swap deposits are implemented and documented in KipuBankDeposits
+
+	/// @notice Deposit USDC in a single transaction, approving the bank with an EIP-2612 permit
+	function depositUsdcWithPermit(
+		uint256 /* amount */,
+		uint256 /* deadline */,
+		uint8 /* v */,
+		bytes32 /* r */,
+		bytes32 /* s */
+	) external {
+		_delegateToDeposits();
+	}
 
-/// @title Actions Library
-/// @notice Action types for Uniswap V4 swaps
-library Actions {
-    uint256 constant SWAP_EXACT_IN = 0x00;
-    uint256 constant SWAP_EXACT_OUT = 0x01;
-    uint256 constant SWAP_EXACT_IN_SINGLE = 0x00;
-}
+	/// @notice Deposit USDC in a single transaction, pulled through Permit2 with a signed permit
+	function depositUsdcWithPermit2(
+		uint256 /* amount */,
+		IPermit2.PermitTransferFrom calldata /* permit */,
+		bytes calldata /* signature */
+	) external {
+		_delegateToDeposits();
+	}
 
-/// @title My KipuBank
-/// @author Giovane Pimentel de Sousa
-/// @notice A simple bank contract with deposit and withdraw functionalities
-/// @dev I got 1-2-3-4-5-6-7-8 M`s in my bank account
-contract KipuBank is AccessControl, ReentrancyGuard {
-	using Math for uint256;
-	using SafeERC20 for IERC20;
+    /// @notice Deposit any ERC20 token supported by Uniswap V4, swap to USDC, and credit user balance
+    function depositArbitraryToken(
+        address /* tokenIn */,
+        uint256 /* amountIn */,
+        PoolKey calldata /* poolKey */,
+        uint256 /* minAmountOut */
+    ) external {
+        _delegateToDeposits();
+    }
 
-	/// =========================== ROLES ===========================
-    /// @notice recovery role constant
-    bytes32 public constant RECOVERY_ROLE = keccak256("RECOVERY_ROLE");
+	/// @notice Same as depositArbitraryToken, pulling the token through Permit2 with a signed permit
+	function depositArbitraryTokenWithPermit(
+		uint256 /* amountIn */,
+		PoolKey calldata /* poolKey */,
+		uint256 /* minAmountOut */,
+		IPermit2.PermitTransferFrom calldata /* permit */,
+		bytes calldata /* signature */
+	) external {
+		_delegateToDeposits();
+	}
 
-    /// =========================== STATE VARIABLES ===========================
+	/// @notice Deposit an ERC20 token without a direct USDC pool, swap it to USDC along a path of pools
+	function depositArbitraryTokenMultiHop(
+		address /* tokenIn */,
+		uint256 /* amountIn */,
+		PoolKey[] calldata /* path */,
+		uint256 /* minAmountOut */
+	) external {
+		_delegateToDeposits();
+	}
 
-    /// @notice Maximum value of Ether that can be withdrawn in a single transaction
-    uint256 public constant ETHER_WITHDRAW_LIMIT = 10 ether;
+	/// @notice Deposit ETH, swap it to USDC through a native Uniswap V4 pool, and credit user balance
+	function depositEthAsUsdc(PoolKey calldata /* poolKey */, uint256 /* minAmountOut */) external payable {
+		_delegateToDeposits();
+	}
 
-	/// @notice Per-withdrawal limit in USDC with 6 decimals
-    uint256 public constant USDC_WITHDRAW_LIMIT = 1_000 * 1e6;
+	/// @notice Deposit a listed asset, held natively without swapping
+	/// @param token The address of the listed asset
+	/// @param amount The amount to deposit in token units
+	function depositAsset(address token, uint256 amount) external nonReentrant whenNotPaused(Operation.Deposits) onlyValidValue(amount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		AssetConfig storage asset = $.assets[token];
+		if (!asset.listed) {
+			revert UnsupportedToken(token);
+		}
 
-    /// @notice oracle data freshness guard
-    uint256 public constant MAX_ORACLE_DELAY = 3 hours;
+		IERC20(token).safeTransferFrom(_msgSender(), address(this), amount);
 
-	/// @notice Minimum output amount for swaps (1 unit = 0.000001 USDC)
-    /// @dev Acts as slippage protection - can be overridden per swap
-    uint256 public constant DEFAULT_MIN_SWAP_OUTPUT = 1;
+		if (amount > asset.currentCap) {
+			revert BankCapTokenExceeded({
+				token: token,
+				requested: amount,
+				available: asset.currentCap
+			});
+		}
 
-    /// @notice Maximum deadline extension for swaps (10 minutes)
-    uint256 public constant MAX_SWAP_DEADLINE = 10 minutes;
+		asset.currentCap -= amount;
+		$.balances[_msgSender()][token] += amount;
+		incrementDepositCount();
 
-	/// @notice Chainlink ETH/USD aggregator (immutable) and its decimals
-    AggregatorV3Interface public immutable ethUsdFeed;
+		emit Deposit(_msgSender(), token, amount);
+	}
 
-	/// @notice decimals of the feed
-    uint8 private immutable feedDecimals;
+    /// @notice The actual withdraw function
+	/// @dev The limits apply to the requested amount; the Withdraw fee stays in the bank and the rest is paid out
+	/// @param token The address of the token to withdraw (ETH address is 0x0)
+    /// @param _value The amount of token to withdraw
+    function withdraw(address token, uint256 _value) external whenNotPaused(Operation.Withdrawals) onlyValidValue(_value) {
+		_withdraw(_msgSender(), _msgSender(), token, _value);
+    }
 
-	/// @notice Uniswap V4 Universal Router
-    IUniversalRouter public immutable universalRouter;
+	/// @notice Withdraw part of the USDC balance as another token, swapped through Uniswap V4
+	/// @param tokenOut The token to receive
+	/// @param usdcAmount The amount of the USDC balance to withdraw; the rest after the Withdraw fee is swapped
+	/// @param poolKey The Uniswap V4 pool key pairing USDC with tokenOut
+	/// @param minAmountOut Minimum amount of tokenOut to receive (slippage protection)
+	function withdrawAsToken(
+		address tokenOut,
+		uint256 usdcAmount,
+		PoolKey calldata poolKey,
+		uint256 minAmountOut
+	) external nonReentrant whenNotPaused(Operation.Withdrawals) whenNotPaused(Operation.Swaps) onlyValidValue(usdcAmount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (tokenOut == ETH || tokenOut == address(0) || tokenOut == $.USDC) {
+			revert UnsupportedToken(tokenOut);
+		}
 
-    /// @notice Permit2 contract for token approvals
-    IPermit2 public immutable permit2;
+		uint256 bal = _usdcBalanceOf(_msgSender());
+		if (usdcAmount > bal) {
+			revert InsufficientBalance({
+				requested: usdcAmount,
+				available: bal
+			});
+		}
 
-	/// @notice ETH token
-	/// @dev https://eips.ethereum.org/EIPS/eip-7528
-	address public constant ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+		(, uint256 usdcLimit) = withdrawLimitsOf(_msgSender());
+		uint256 usdcValue = _stableToUsdc($.USDC, usdcAmount);
+		if (usdcValue > usdcLimit) {
+			revert WithdrawLimitExceeded({
+				requested: usdcValue,
+				limit: usdcLimit
+			});
+		}
+		_consumeDailyQuota(_msgSender(), usdcValue);
 
-	/// @notice USDC token
-	address public immutable USDC;
+		_accrueUsdcYield();
+		usdcAmount -= _chargeFee(FeeOperation.Withdraw, _msgSender(), _msgSender(), $.USDC, usdcAmount);
+		_burnUsdcShares(_msgSender(), usdcAmount);
+		$.currentBankCapUsdc += _stableToUsdc($.USDC, usdcAmount);
+		$.countWithdraws += 1;
 
-    /// @notice Maximum bank capacity
-    uint256 public immutable MAX_BANK_CAP_ETH;
+		uint256 amountOut = _swapUsdcForToken(tokenOut, usdcAmount, poolKey, minAmountOut);
+		IERC20(tokenOut).safeTransfer(_msgSender(), amountOut);
 
-	/// @notice Maximum bank capacity in USDC
-	uint256 public immutable MAX_BANK_CAP_USDC;
+		emit TokenSwappedOut(_msgSender(), tokenOut, usdcAmount, amountOut);
+		emit Withdraw(_msgSender(), $.USDC, usdcAmount);
+	}
 
-    /// @notice Current bank capacity
-    uint256 public currentBankCapEth;
+    /// @notice Function to get the balance of a specific account
+    /// @param account The address of the account to check the balance
+    function getBalance(address account, address token) external view onlyAdminRole returns (uint256) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        return token == $.USDC ? _usdcBalanceOf(account) : $.balances[account][token];
+    }
 
-	/// @notice Current bank capacity in USDC
-	uint256 public currentBankCapUsdc;
+    /// @notice Function to get the balance of the caller
+	/// @dev The USDC balance is the current value of the caller's USDC pool shares, yield included
+    function getMyBalance(address token) external view returns (uint256) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        return token == $.USDC ? _usdcBalanceOf(_msgSender()) : $.balances[_msgSender()][token];
+    }
 
-    /// @notice Total number of deposits made to the bank
-    uint256 public countDeposits = 0;
+	/// @notice Shares of the USDC pool held by an account
+	/// @param account The address of the account
+	function usdcSharesOf(address account) external view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return $.balances[account][$.USDC];
+	}
 
-    /// @notice Total number of withdraws made from the bank
-    uint256 public countWithdraws = 0;
+	/// @notice Shares of the USDC pool a USDC deposit of `amount` mints at the current share price
+	/// @param amount The USDC amount
+	function convertToUsdcShares(uint256 amount) external view returns (uint256) {
+		return _convertToUsdcShares(amount, Math.Rounding.Floor);
+	}
 
-    /// @notice Per-user per-token balances
-    mapping(address => mapping(address => uint256)) private balances;
+	/// @notice USDC value of shares of the USDC pool at the current share price
+	/// @param shares The amount of shares
+	function convertToUsdcAssets(uint256 shares) external view returns (uint256) {
+		return _convertToUsdcAssets(shares, Math.Rounding.Floor);
+	}
 
-    /// =========================== EVENTS ===========================
+	function previewToUsdc(address token, uint256 amount) public view returns (uint256) {
+		return _toUsdc(token, amount);
+	}
 
-    /// @notice Event emitted when a deposit is made
-    /// @param account The address of the account making the deposit
-	/// @param token The address of the token deposited (ETH address is 0x0)
-    /// @param amount The amount of Ether deposited in wei
-    event Deposit(address indexed account, address indexed token, uint256 amount);
+	/// @notice Fee an account pays on an operation, and the amount left after it
+	/// @dev For deposits the net is what the balance is credited; for withdrawals, what is paid out
+	/// @param operation The operation
+	/// @param account The account charged (fee-exempt accounts pay 0)
+	/// @param amount The amount deposited, received from the swap, or withdrawn
+	/// @return net The amount after the fee
+	/// @return fee The fee
+	function previewFee(FeeOperation operation, address account, uint256 amount) external view returns (uint256 net, uint256 fee) {
+		fee = _feeOf(operation, account, amount);
+		net = amount - fee;
+	}
 
-    /// @notice Event emitted when a withdraw is made
-    /// @param account The address of the account making the withdrawal
-	/// @param token The address of the token withdrawn (ETH address is 0x0)
-    /// @param value The amount of Ether withdrawn in wei
-    event Withdraw(address indexed account, address indexed token, uint256 value);
+	/// @notice Fees accrued to the treasury and not withdrawn yet
+	/// @param token The token (ETH address for ETH)
+	function treasuryBalance(address token) external view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return token == $.USDC ? _usdcBalanceOf(TREASURY) : $.balances[TREASURY][token];
+	}
 
-    /// @notice Emitted whenever an admin adjusts a user's internal balance.
-    event BalanceAdjusted(
-        address indexed admin,
-        address indexed account,
-		address indexed token,
-        uint256 previousBalance,
-        uint256 newBalance,
-        int256 capDelta // +X means cap increased (debited user), -X means cap decreased (credited user)
-    );
+	/// @notice Addresses of every listed asset
+	function getListedAssets() external view returns (address[] memory) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return $.assetList;
+	}
 
-    /// @notice Emitted when an arbitrary token is swapped to USDC
-    event TokenSwapped(
-        address indexed user,
-        address indexed tokenIn,
-        uint256 amountIn,
-        uint256 amountOut
-    );
+	/// @notice What the bank holds of ETH, USDC and each listed asset against what it owes its accounts
+	/// @return list The reserve of ETH, then USDC, then the listed assets in getListedAssets order
+	function reserves() external view returns (Reserve[] memory list) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		list = new Reserve[]($.assetList.length + 2);
+		for (uint256 i = 0; i < list.length; i++) {
+			list[i] = _reserveOf(i == 0 ? ETH : i == 1 ? $.USDC : $.assetList[i - 2]);
+		}
+	}
 
-    /// =========================== ERRORS ===========================
+	/// @notice Operators an account granted permissions to, expired grants included
+	/// @param account The address of the account
+	/// @return operators The operators
+	/// @return grants Their grants, in the same order
+	function operatorsOf(
+		address account
+	) external view returns (address[] memory operators, OperatorGrant[] memory grants) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		operators = $.operatorList[account];
+		grants = new OperatorGrant[](operators.length);
+		for (uint256 i = 0; i < operators.length; i++) {
+			grants[i] = $.operatorGrants[account][operators[i]];
+		}
+	}
 
-    /// @notice Invalid value transaction request
-    error InvalidValue();
+	/// @notice Pending delayed withdrawals of an account
+	/// @param account The address of the account
+	/// @return ids The ids of the withdrawals
+	/// @return requests The withdrawals, in the same order
+	function pendingWithdrawalsOf(
+		address account
+	) external view returns (uint256[] memory ids, DelayedWithdrawal[] memory requests) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		ids = $.pendingWithdrawalIds[account];
+		requests = new DelayedWithdrawal[](ids.length);
+		for (uint256 i = 0; i < ids.length; i++) {
+			requests[i] = $.delayedWithdrawals[ids[i]];
+		}
+	}
 
-    /// @notice Bank capacity exceeded
-    /// @param requested The amount requested to deposit
-    /// @param available The available capacity in the bank
-    error BankCapEthExceeded(uint256 requested, uint256 available);
+    function incrementDepositCount() private {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        $.countDeposits += 1;
+    }
 
-	/// @notice Bank capacity exceeded for USDC
-	/// @param requested The amount requested to deposit
-	/// @param available The available capacity in the bank
-	error BankCapUsdcExceeded(uint256 requested, uint256 available);
+	/// @notice Oracle-implied USDC output of a swap deposit, to prefill minAmountOut
+	/// @dev Returns zeros when `tokenIn` has no swap reference
+	/// @param tokenIn The input token (ETH for native swaps)
+	/// @param amountIn The amount of tokenIn to swap
+	/// @return expectedAmountOut The USDC value of amountIn at the reference price
+	/// @return minAmountOut The lowest output the bank accepts (expectedAmountOut minus the tolerance)
+	function previewSwapOutput(
+		address tokenIn,
+		uint256 amountIn
+	) external view returns (uint256 expectedAmountOut, uint256 minAmountOut) {
+		return _previewSwapOutput(tokenIn, amountIn);
+	}
 
-    /// @notice Insufficient balance for withdraw
-    /// @param requested The amount requested to withdraw
-    /// @param available The available balance of the account
-    error InsufficientBalance(uint256 requested, uint256 available);
+	/// ========================== STATE GETTERS ===========================
+	// the bank's state lives in KipuBankBase's ERC-7201 namespace, read here under the names it was public with
 
-    /// @notice Withdraw limit exceeded
-    /// @param requested The value requested to withdraw
-    /// @param limit The maximum withdraw limit
-    error WithdrawLimitExceeded(uint256 requested, uint256 limit);
+	/// @notice Maximum value of Ether that can be withdrawn in a single transaction
+	function etherWithdrawLimit() external view returns (uint256) {
+		return _getKipuBankStorage().etherWithdrawLimit;
+	}
 
-    /// @notice Error for failed transfer
-    error TransferFailed();
+	/// @notice Per-withdrawal limit in USDC with 6 decimals
+	function usdcWithdrawLimit() external view returns (uint256) {
+		return _getKipuBankStorage().usdcWithdrawLimit;
+	}
 
-	/// @notice Oracle price is invalid
-	error OraclePriceInvalid();
+	/// @notice USDC value an account can withdraw per DAILY_WITHDRAW_WINDOW, across all tokens
+	function dailyWithdrawQuota() external view returns (uint256) {
+		return _getKipuBankStorage().dailyWithdrawQuota;
+	}
 
-	/// @notice Oracle data is stale
-	error OracleStale(uint256 updateAt, uint256 nowTs);
+	/// @notice oracle data freshness guard: max age of a feed answer
+	function oracleMaxDelay() external view returns (uint256) {
+		return _getKipuBankStorage().oracleMaxDelay;
+	}
 
-	/// @notice Unsupported token error
-	error UnsupportedToken(address token);
+	/// @notice Max deviation in basis points between the primary and fallback ETH/USD prices
+	function maxFeedDeviationBps() external view returns (uint256) {
+		return _getKipuBankStorage().maxFeedDeviationBps;
+	}
 
-    /// @notice Slippage tolerance exceeded
-    error SlippageExceeded(uint256 amountOut, uint256 minAmountOut);
+	/// @notice Chainlink ETH/USD aggregator
+	function ethUsdFeed() external view returns (AggregatorV3Interface) {
+		return _getKipuBankStorage().ethUsdFeed;
+	}
 
-    /// @notice Invalid swap parameters
-    error InvalidSwapParams();
+	/// @notice Secondary ETH/USD aggregator, used when the primary one is down, invalid or stale (0 = none)
+	function fallbackEthUsdFeed() external view returns (AggregatorV3Interface) {
+		return _getKipuBankStorage().fallbackEthUsdFeed;
+	}
 
-    /// =========================== MODIFIERS ===========================
-	modifier onlyAdminRole() {
-		_checkRole(DEFAULT_ADMIN_ROLE, msg.sender);
-		_;
+	/// @notice Chainlink L2 sequencer uptime feed (0 = not on an L2, no check)
+	function sequencerUptimeFeed() external view returns (AggregatorV3Interface) {
+		return _getKipuBankStorage().sequencerUptimeFeed;
 	}
 
-    modifier onlyValidValue(uint256 value) {
-        if (value <= 0) {
-            revert InvalidValue();
-        }
-        _;
-    }
+	/// @notice Uniswap V4 Universal Router
+	function universalRouter() external view returns (IUniversalRouter) {
+		return _getKipuBankStorage().universalRouter;
+	}
 
-    /// =========================== FUNCTIONS ===========================
+	/// @notice Permit2 contract for token approvals
+	function permit2() external view returns (IPermit2) {
+		return _getKipuBankStorage().permit2;
+	}
 
-    /// @notice Contract constructor
-    /// @param _maxBankCapEthWei The maximum capacity of the bank in ETH
-    /// @param _maxBankCapUsdc The maximum capacity of the bank in USDC
-    /// @param _ethUsdFeed The Chainlink ETH/USD price feed address
-    /// @param _usdc The USDC token address
-    /// @param _universalRouter The Uniswap V4 Universal Router address
-    /// @param _permit2 The Permit2 contract address
-    constructor(
-        uint256 _maxBankCapEthWei,
-        uint256 _maxBankCapUsdc,
-        address _ethUsdFeed,
-        address _usdc,
-        address _universalRouter,
-        address _permit2
-    ) {
-		if (_maxBankCapEthWei == 0) {
-			revert InvalidValue();
-		}
+	/// @notice USDC token
+	function USDC() external view returns (address) {
+		return _getKipuBankStorage().USDC;
+	}
 
-		if (_maxBankCapUsdc == 0) {
-			revert InvalidValue();
-		}
+	/// @notice Maximum bank capacity
+	function MAX_BANK_CAP_ETH() external view returns (uint256) {
+		return _getKipuBankStorage().MAX_BANK_CAP_ETH;
+	}
 
-		if (_usdc == address(0)) {
-			revert InvalidValue();
-		}
+	/// @notice Maximum bank capacity in USDC
+	function MAX_BANK_CAP_USDC() external view returns (uint256) {
+		return _getKipuBankStorage().MAX_BANK_CAP_USDC;
+	}
 
-		if (_ethUsdFeed == address(0)) {
-			revert OraclePriceInvalid();
-		}
+	/// @notice Current bank capacity
+	function currentBankCapEth() external view returns (uint256) {
+		return _getKipuBankStorage().currentBankCapEth;
+	}
 
-        if (_universalRouter == address(0)) {
-            revert InvalidValue();
-        }
+	/// @notice Current bank capacity in USDC
+	/// @dev With a USDC strategy, accrued yield consumes capacity like a deposit (see _accrueUsdcYield)
+	function currentBankCapUsdc() external view returns (uint256) {
+		return _getKipuBankStorage().currentBankCapUsdc;
+	}
 
-        if (_permit2 == address(0)) {
-            revert InvalidValue();
-        }
+	/// @notice ERC-4626 vault the USDC pool is invested in (0 = USDC held idle by the bank)
+	function usdcStrategy() external view returns (IERC4626) {
+		return _getKipuBankStorage().usdcStrategy;
+	}
 
-        MAX_BANK_CAP_ETH = _maxBankCapEthWei;
-        currentBankCapEth = MAX_BANK_CAP_ETH;
+	/// @notice Shares of the USDC pool held by all accounts
+	function totalUsdcShares() external view returns (uint256) {
+		return _getKipuBankStorage().totalUsdcShares;
+	}
 
-		MAX_BANK_CAP_USDC = _maxBankCapUsdc;
-		currentBankCapUsdc = MAX_BANK_CAP_USDC;
+	/// @notice Total number of deposits made to the bank
+	function countDeposits() external view returns (uint256) {
+		return _getKipuBankStorage().countDeposits;
+	}
 
-		USDC = _usdc;
+	/// @notice Total number of withdraws made from the bank
+	function countWithdraws() external view returns (uint256) {
+		return _getKipuBankStorage().countWithdraws;
+	}
 
-		ethUsdFeed = AggregatorV3Interface(_ethUsdFeed);
-		feedDecimals = ethUsdFeed.decimals();
+	/// @notice Withdraw limit overrides for verified high-volume accounts
+	function withdrawLimitOverrides(address account) external view returns (uint256 etherLimit, uint256 usdcLimit, bool enabled) {
+		WithdrawLimitOverride storage s = _getKipuBankStorage().withdrawLimitOverrides[account];
+		return (s.etherLimit, s.usdcLimit, s.enabled);
+	}
 
-        universalRouter = IUniversalRouter(_universalRouter);
-        permit2 = IPermit2(_permit2);
+	/// @notice Registry of supported assets, valued through their own feed (or 1:1 with USD when it has none)
+	function assets(address token) external view returns (
+		bool listed,
+		uint8 decimals,
+		AggregatorV3Interface feed,
+		uint8 feedDecimals,
+		uint256 maxCap,
+		uint256 currentCap,
+		uint256 withdrawLimit
+	) {
+		AssetConfig storage s = _getKipuBankStorage().assets[token];
+		return (s.listed, s.decimals, s.feed, s.feedDecimals, s.maxCap, s.currentCap, s.withdrawLimit);
+	}
 
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        _grantRole(RECOVERY_ROLE, msg.sender);
-    }
+	/// @notice Current pause of each operation group
+	function pauses(Operation operation) external view returns (bool paused, uint64 pausedUntil, bytes32 reason) {
+		Pause storage s = _getKipuBankStorage().pauses[operation];
+		return (s.paused, s.pausedUntil, s.reason);
+	}
 
-    /// @notice The actual deposit ether function
-    function depositEth() external payable onlyValidValue(msg.value) {
-        if (msg.value > currentBankCapEth) {
-            revert BankCapEthExceeded({
-                requested: msg.value,
-                available: currentBankCapEth
-            });
-        }
+	/// @notice Optional per-token reference feeds (keyed by ETH for native swaps)
+	function swapReferences(address token) external view returns (
+		AggregatorV3Interface feed,
+		uint8 feedDecimals,
+		uint8 tokenDecimals,
+		uint16 toleranceBps
+	) {
+		SwapReference storage s = _getKipuBankStorage().swapReferences[token];
+		return (s.feed, s.feedDecimals, s.tokenDecimals, s.toleranceBps);
+	}
 
-        currentBankCapEth -= msg.value;
-        balances[msg.sender][ETH] += msg.value;
-        incrementDepositCount();
+	/// @notice Amount of a token a spender may move out of an owner's balance with transferFrom (owner => spender => token)
+	/// @dev type(uint256).max never decreases; USDC allowances are in USDC, not pool shares
+	function allowance(address owner, address spender, address token) external view returns (uint256) {
+		return _getKipuBankStorage().allowance[owner][spender][token];
+	}
 
-        emit Deposit(msg.sender, ETH, msg.value);
-    }
+	/// @notice Time a requested withdrawal stays locked before its account can execute it
+	function withdrawalDelay() external view returns (uint256) {
+		return _getKipuBankStorage().withdrawalDelay;
+	}
 
-	/// @notice The actual deposit USDC function
-	/// @param amount The amount of USDC to deposit
-	function depositUsdc(uint256 amount) external onlyValidValue(amount) {
-		IERC20(USDC).safeTransferFrom(msg.sender, address(this), amount);
-
-		// usdc has 6 decimals. If it has more, convert to 6 decimals
-		uint256 usdc = _stableToUsdc(USDC, amount);
-		if (usdc > currentBankCapUsdc) {
-			revert BankCapUsdcExceeded({
-				requested: usdc,
-				available: currentBankCapUsdc
-			});
-		}
+	/// @notice Id of the next delayed withdrawal
+	function nextWithdrawalId() external view returns (uint256) {
+		return _getKipuBankStorage().nextWithdrawalId;
+	}
 
-		currentBankCapUsdc -= usdc;
-		balances[msg.sender][USDC] += amount;
-		incrementDepositCount();
+	/// @notice Fee of each operation in basis points of the amount
+	function feeBps(FeeOperation operation) external view returns (uint256) {
+		return _getKipuBankStorage().feeBps[operation];
+	}
 
-		emit Deposit(msg.sender, USDC, amount);
+	/// @notice Nonce the next signed intent of each account must carry; submitting an intent consumes it
+	function nonces(address account) external view returns (uint256) {
+		return _getKipuBankStorage().nonces[account];
 	}
 
-    /// @notice Deposit any ERC20 token supported by Uniswap V4, swap to USDC, and credit user balance
-    /// @param tokenIn The address of the token to deposit
-    /// @param amountIn The amount of tokenIn to deposit
-    /// @param poolKey The Uniswap V4 pool key for swapping tokenIn to USDC
-    /// @param minAmountOut Minimum USDC to receive (slippage protection)
-    function depositArbitraryToken(
-        address tokenIn,
-        uint256 amountIn,
-        PoolKey calldata poolKey,
-        uint256 minAmountOut
-    ) external nonReentrant onlyValidValue(amountIn) {
-        if (tokenIn == ETH || tokenIn == address(0)) {
-            revert UnsupportedToken(tokenIn);
-        }
-        if (tokenIn == USDC) {
-            revert UnsupportedToken(tokenIn);
-        }
+	/// @notice Operator grants of each account (account => operator); permissions 0 means none
+	/// @dev An expired grant stays listed until the account revokes or renews it, but allows nothing
+	function operatorGrants(address account, address operator) external view returns (uint8 permissions, uint64 expiry) {
+		OperatorGrant storage s = _getKipuBankStorage().operatorGrants[account][operator];
+		return (s.permissions, s.expiry);
+	}
 
-        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
-        uint256 usdcReceived = _swapExactInputSingle(tokenIn, amountIn, poolKey, minAmountOut);
-        if (usdcReceived > currentBankCapUsdc) {
-            revert BankCapUsdcExceeded({
-                requested: usdcReceived,
-                available: currentBankCapUsdc
-            });
-        }
+	/// ========================== ADMIN FUNCTIONS ===========================
+	// implemented and documented in KipuBankAdmin, which also enforces their roles
+
+	/// @notice Initialize the bank behind its proxy: caps, oracle, tokens, default limits and every role to the admin
+	function initialize(
+		address /* admin */,
+		uint256 /* maxBankCapEthWei */,
+		uint256 /* maxBankCapUsdc */,
+		address /* ethUsdFeed */,
+		address /* usdc */,
+		address /* universalRouter */,
+		address /* permit2 */
+	) external {
+		_delegateToAdmin();
+	}
 
-        currentBankCapUsdc -= usdcReceived;
-        balances[msg.sender][USDC] += usdcReceived;
-        incrementDepositCount();
+	/// @notice Admin Recovery: set user's internal ETH balance.
+	function setInternalBalance(address /* account */, address /* token */, uint256 /* newBalance */) external {
+		_delegateToAdmin();
+	}
 
-        emit TokenSwapped(msg.sender, tokenIn, amountIn, usdcReceived);
-        emit Deposit(msg.sender, USDC, usdcReceived);
-    }
+	/// @notice Admin Recovery: set the internal balances of many accounts at once, e.g. to migrate a previous bank's ledger
+	function setInternalBalances(address[] calldata /* accounts */, address[] calldata /* tokens */, uint256[] calldata /* newBalances */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice The actual withdraw function
-	/// @param token The address of the token to withdraw (ETH address is 0x0)
-    /// @param _value The amount of token to withdraw
-    function withdraw(address token, uint256 _value) external onlyValidValue(_value) {
-		if (token != ETH && token != USDC) {
-			revert UnsupportedToken(token);
-		}
+	/// @notice Admin: send the ETH backing balances seeded by recovery (e.g. a migration), without crediting anyone
+	function fundEth() external payable {
+		_delegateToAdmin();
+	}
 
-		uint256 bal = balances[msg.sender][token];
+	/// @notice Grant recovery role to another admin
+	function grantRecovery(address /* admin */) external {
+		_delegateToAdmin();
+	}
 
-        if (_value > bal) {
-            revert InsufficientBalance({
-                requested: _value,
-                available: bal
-            });
-        }
+	/// @notice Revoke recovery role
+	function revokeRecovery(address /* admin */) external {
+		_delegateToAdmin();
+	}
 
-        if (token == ETH && _value > ETHER_WITHDRAW_LIMIT) {
-            revert WithdrawLimitExceeded({
-                requested: _value,
-                limit: ETHER_WITHDRAW_LIMIT
-            });
-        }
+	/// @notice Update the global per-transaction withdraw limits
+	function setWithdrawLimits(uint256 /* etherLimit */, uint256 /* usdcLimit */) external {
+		_delegateToAdmin();
+	}
 
-		uint256 usdcAmount = _toUsdc(token, _value);
-		if (usdcAmount > USDC_WITHDRAW_LIMIT) {
-			revert WithdrawLimitExceeded({
-				requested: usdcAmount,
-				limit: USDC_WITHDRAW_LIMIT
-			});
-		}
+	/// @notice Update the USDC value each account can withdraw per DAILY_WITHDRAW_WINDOW
+	function setDailyWithdrawQuota(uint256 /* quota */) external {
+		_delegateToAdmin();
+	}
 
-        balances[msg.sender][token] -= _value;
+	/// @notice Update the delay of withdrawals requested from now on (pending ones keep theirs)
+	function setWithdrawalDelay(uint256 /* delay */) external {
+		_delegateToAdmin();
+	}
 
-		if (token == ETH) {
-			currentBankCapEth += _value;
-		} else {
-			currentBankCapUsdc += usdcAmount;
-		}
-		incrementWithdrawCount();
-
-		if (token == ETH) {
-			(bool success, ) = msg.sender.call{value: _value}("");
-			if (!success) {
-				revert TransferFailed();
-			}
-		} else {
-			IERC20(USDC).safeTransfer(msg.sender, _value);
-		}
+	/// @notice Give an account its own withdraw limits instead of the global ones
+	function setWithdrawLimitOverride(address /* account */, uint256 /* etherLimit */, uint256 /* usdcLimit */) external {
+		_delegateToAdmin();
+	}
 
-        emit Withdraw(msg.sender, token, _value);
-    }
+	/// @notice Remove an account's override so the global limits apply again
+	function clearWithdrawLimitOverride(address /* account */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice Function to get the balance of a specific account
-    /// @param account The address of the account to check the balance
-    function getBalance(address account, address token) external view onlyAdminRole returns (uint256) {
-        return balances[account][token];
-    }
+	/// @notice Add an asset to the registry so it can be deposited and withdrawn natively
+	function listAsset(address /* token */, address /* feed */, uint256 /* maxCap */, uint256 /* withdrawLimit */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice Function to get the balance of the caller
-    function getMyBalance(address token) external view returns (uint256) {
-        return balances[msg.sender][token];
-    }
+	/// @notice Change the feed, cap and withdraw limit of a listed asset
+	/// @dev The current cap moves by the same amount as the max cap, so holdings are preserved
+	function updateAsset(address /* token */, address /* feed */, uint256 /* maxCap */, uint256 /* withdrawLimit */) external {
+		_delegateToAdmin();
+	}
 
-	function previewToUsdc(address token, uint256 amount) public view returns (uint256) {
-		return _toUsdc(token, amount);
+	/// @notice Remove an asset from the registry once no account holds it
+	function delistAsset(address /* token */) external {
+		_delegateToAdmin();
 	}
 
-    function incrementDepositCount() private {
-        countDeposits += 1;
-    }
+	/// @notice Configure the ETH/USD fallback feed, the L2 sequencer uptime feed and the oracle bounds
+	function setOracleConfig(address /* fallbackFeed */, address /* sequencerFeed */, uint256 /* maxDelay */, uint256 /* maxDeviationBps */) external {
+		_delegateToAdmin();
+	}
 
-    function incrementWithdrawCount() private {
-        countWithdraws += 1;
-    }
+	/// @notice Set the reference feed that swap deposits of `token` are checked against
+	function setSwapReference(address /* token */, address /* feed */, uint256 /* toleranceBps */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice Admin Recovery: set user's internal ETH balance.
-	/// @param account The address of the account to adjust
-	/// @param newBalance The new balance to set for the account
-    function setInternalBalance(address account, address token, uint256 newBalance) external onlyRole(RECOVERY_ROLE) {
-		if (token != ETH && token != USDC) {
-			revert UnsupportedToken(token);
-		}
+	/// @notice Invest the USDC pool in an ERC-4626 strategy, or move it back to the bank
+	function setUsdcStrategy(address /* strategy */) external {
+		_delegateToAdmin();
+	}
 
-        uint256 oldBalance = balances[account][token];
+	/// @notice Pause an operation group, e.g. Swaps when the router misbehaves while withdrawals keep working
+	function pause(Operation /* operation */, bytes32 /* reason */, uint256 /* duration */) external {
+		_delegateToAdmin();
+	}
 
-        if (newBalance == oldBalance) {
-            emit BalanceAdjusted(msg.sender, account, token, oldBalance, newBalance, 0);
-            return;
-        }
+	/// @notice Lift the pause of an operation group
+	function unpause(Operation /* operation */) external {
+		_delegateToAdmin();
+	}
 
-		if (newBalance > oldBalance) {
-			uint256 delta = newBalance - oldBalance;
-
-			if (token == ETH) {
-				if (delta > currentBankCapEth) {
-					revert BankCapEthExceeded({
-						requested: delta,
-						available: currentBankCapEth
-					});
-				}
-				currentBankCapEth -= delta;
-				balances[account][ETH] = newBalance;
-				emit BalanceAdjusted(msg.sender, account, ETH, oldBalance, newBalance, -int256(delta));
-			} else {
-				uint256 usdc = _stableToUsdc(USDC, delta);
-                if (usdc > currentBankCapUsdc) revert BankCapUsdcExceeded(usdc, currentBankCapUsdc);
-                currentBankCapUsdc -= usdc;
-                balances[account][USDC] = newBalance;
-                emit BalanceAdjusted(msg.sender, account, USDC, oldBalance, newBalance, -int256(usdc));
-			}
-
-		} else {
-			uint256 delta = oldBalance - newBalance;
-
-			if (token == ETH) {
-				currentBankCapEth += delta;
-				balances[account][ETH] = newBalance;
-				emit BalanceAdjusted(msg.sender, account, ETH, oldBalance, newBalance, int256(delta));
-			} else {
-				uint256 usdc = _stableToUsdc(USDC, delta);
-				currentBankCapUsdc += usdc;
-				balances[account][USDC] = newBalance;
-				emit BalanceAdjusted(msg.sender, account, USDC, oldBalance, newBalance, int256(usdc));
-			}
-		}
-    }
+	/// @notice Set the fee of an operation
+	function setFee(FeeOperation /* operation */, uint256 /* bps */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice Grant recovery role to another admin
-    function grantRecovery(address admin) external onlyRole(getRoleAdmin(RECOVERY_ROLE)) {
-        _grantRole(RECOVERY_ROLE, admin);
-    }
+	/// @notice Send fees accrued to the treasury out of the bank
+	function withdrawTreasury(address /* token */, uint256 /* amount */, address /* to */) external {
+		_delegateToAdmin();
+	}
 
-    /// @notice Revoke recovery role
-    function revokeRecovery(address admin) external onlyRole(getRoleAdmin(RECOVERY_ROLE)) {
-        _revokeRole(RECOVERY_ROLE, admin);
-    }
+	/// @notice Send the surplus of a token above what the bank owes its accounts out of the bank
+	function sweepExcess(address /* token */, address /* to */) external returns (uint256) {
+		return abi.decode(_delegateToAdmin(), (uint256));
+	}
 
-	/// ========================== INTERNAL FUNCTIONS ===========================
+	/// ========================== ACCOUNT FUNCTIONS ===========================
+	// implemented and documented in KipuBankAccounts
 
-	/// @notice Internal function to convert ETH amount to USD with 6 decimals
-	/// @param token The address of the token (ETH or stablecoin)
-	/// @param amount The amount of ETH in wei
-    function _toUsdc(address token, uint256 amount) internal view returns (uint256) {
-        return (token == ETH) ? _ethToUsdc(amount) : _stableToUsdc(token, amount);
-    }
+	/// @notice Move part of the caller's balance to another KipuBank account, without touching the bank caps
+	function transfer(address /* to */, address /* token */, uint256 /* amount */) external {
+		_delegateToAccounts();
+	}
 
-	/// @notice Internal function to convert wei amount to USDC amount using Chainlink oracle
-	/// @param weiAmount The amount in wei to convert
-	function _ethToUsdc(uint256 weiAmount) internal view returns (uint256 usdc) {
-		(, int256 answer, , uint256 updatedAt, ) = ethUsdFeed.latestRoundData();
-		if (answer <= 0) {
-			revert OraclePriceInvalid();
-		}
-		if (MAX_ORACLE_DELAY != 0 && block.timestamp - updatedAt > MAX_ORACLE_DELAY) {
-			revert OracleStale({
-				updateAt: updatedAt,
-				nowTs: block.timestamp
-			});
-		}
+	/// @notice Move parts of the caller's balances to several accounts in one transaction
+	function transferBatch(address[] calldata /* to */, address[] calldata /* tokens */, uint256[] calldata /* amounts */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Allow a spender (e.g. a merchant contract) to move the caller's balance of a token with transferFrom
+	function approve(address /* spender */, address /* token */, uint256 /* amount */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Move part of another account's balance, spending the allowance it gave the caller
+	function transferFrom(address /* from */, address /* to */, address /* token */, uint256 /* amount */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Grant an operator permissions on the caller's account until expiry, or revoke it with permissions 0
+	function setOperator(address /* operator */, uint8 /* permissions */, uint64 /* expiry */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Withdraw part of an account's balance as its operator
+	function withdrawFor(address /* account */, address /* token */, uint256 /* amount */, address /* to */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Deposit the operator's tokens for an account, swapped to USDC
+	function depositArbitraryTokenFor(
+		address /* account */,
+		address /* tokenIn */,
+		uint256 /* amountIn */,
+		PoolKey calldata /* poolKey */,
+		uint256 /* minAmountOut */
+	) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Queue a withdrawal above the withdraw limits, locking the amount until withdrawalDelay has passed
+	function requestWithdrawal(address /* token */, uint256 /* amount */) external returns (uint256) {
+		return abi.decode(_delegateToAccounts(), (uint256));
+	}
 
-		uint256 price = uint256(answer);
-		uint256 scaledPrice = price * 1e6;
-		uint256 denom = (10 ** uint256(feedDecimals)) * 1e18;
+	/// @notice Pay out one of the caller's delayed withdrawals once its delay has passed
+	function executeWithdrawal(uint256 /* id */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Cancel a pending delayed withdrawal, unlocking its amount back to the account
+	function cancelWithdrawal(uint256 /* id */) external {
+		_delegateToAccounts();
+	}
+
+	/// @notice Withdraw on behalf of an account that signed the intent, paying the relayer fee to the caller
+	function withdrawWithSig(WithdrawIntent calldata /* intent */, bytes calldata /* signature */) external {
+		_delegateToAccounts();
+	}
 
-		usdc = Math.mulDiv(weiAmount, scaledPrice, denom);
+	/// @notice Transfer on behalf of an account that signed the intent, paying the relayer fee to the caller
+	function transferWithSig(TransferIntent calldata /* intent */, bytes calldata /* signature */) external {
+		_delegateToAccounts();
 	}
 
-	/// @notice Internal function to convert stablecoin amount to USDC amount
-	/// @param token The address of the stablecoin token
-	/// @param amount The amount of stablecoin to convert
-	function _stableToUsdc(address token, uint256 amount) internal view returns (uint256 usdc) {
-		uint8 d = IERC20Metadata(token).decimals();
-		if (d == 6) {
-			return amount;
-		} else if (d > 6) {
-			return amount / (10 ** (d - 6));
+	/// @notice Run several calls to the bank in one transaction, as the caller, returning each call's return data
+	function multicall(bytes[] calldata /* data */) external payable returns (bytes[] memory) {
+		bytes memory result = _delegateToAccounts();
+		// the module already ABI-encoded the bytes[]: return it as is instead of decoding and re-encoding it
+		assembly ("memory-safe") {
+			return(add(result, 32), mload(result))
 		}
+	}
 
-		return amount * (10 ** (6 - d));
-	}
-
-    /// @notice Swap exact input amount of tokenIn for USDC using Uniswap V4
-    /// @param tokenIn The input token address
-    /// @param amountIn The exact amount of input token to swap
-    /// @param poolKey The Uniswap V4 pool key
-    /// @param minAmountOut Minimum amount of USDC to receive (slippage protection)
-    /// @return amountOut The amount of USDC received
-    function _swapExactInputSingle(
-        address tokenIn,
-        uint256 amountIn,
-        PoolKey calldata poolKey,
-        uint256 minAmountOut
-    ) internal returns (uint256 amountOut) {
-        if (amountIn == 0) revert InvalidValue();
-        if (tokenIn == address(0)) revert InvalidSwapParams();
-
-        bool validPool = (
-            (Currency.unwrap(poolKey.currency0) == tokenIn && Currency.unwrap(poolKey.currency1) == USDC) ||
-            (Currency.unwrap(poolKey.currency0) == USDC && Currency.unwrap(poolKey.currency1) == tokenIn)
-        );
-        if (!validPool) revert InvalidSwapParams();
-        uint256 usdcBefore = IERC20(USDC).balanceOf(address(this));
-        IERC20(tokenIn).safeIncreaseAllowance(address(universalRouter), amountIn);
-        bytes memory commands = abi.encodePacked(uint8(Commands.V4_SWAP));
-        bool zeroForOne = Currency.unwrap(poolKey.currency0) == tokenIn;
-
-        bytes memory swapInput = abi.encode(
-            address(this),
-            amountIn,
-            minAmountOut,
-            poolKey,
-            zeroForOne
-        );
-
-        bytes[] memory inputs = new bytes[](1);
-        inputs[0] = swapInput;
-        uint256 deadline = block.timestamp + MAX_SWAP_DEADLINE;
-        universalRouter.execute(commands, inputs, deadline);
-        uint256 usdcAfter = IERC20(USDC).balanceOf(address(this));
-        amountOut = usdcAfter - usdcBefore;
-
-        if (amountOut < minAmountOut) {
-            revert SlippageExceeded(amountOut, minAmountOut);
-        }
+	/// ========================== INTERNAL FUNCTIONS ===========================
 
-        return amountOut;
-    }
+	/// @notice Internal function to restrict upgrades to the admin
+	function _authorizeUpgrade(address /* newImplementation */) internal view override onlyAdminRole {}
+
+	/// @notice Internal function to run the called KipuBankAdmin function on this contract's storage, bubbling up its revert
+	/// @dev Forwards msg.data as is: the module declares the same function
+	function _delegateToAdmin() internal returns (bytes memory) {
+		return Address.functionDelegateCall(adminModule, msg.data);
+	}
+
+	/// @notice Internal function to run the called KipuBankDeposits function on this contract's storage, bubbling up its revert
+	/// @dev Forwards msg.data as is: the module declares the same function
+	function _delegateToDeposits() internal returns (bytes memory) {
+		return Address.functionDelegateCall(depositsModule, msg.data);
+	}
+
+	/// @notice Internal function to run the called KipuBankAccounts function on this contract's storage, bubbling up its revert
+	/// @dev Forwards msg.data as is: the module declares the same function
+	function _delegateToAccounts() internal returns (bytes memory) {
+		return Address.functionDelegateCall(accountsModule, msg.data);
+	}
 
 	/// ========================== FALLBACK FUNCTION ===========================
 	/// @notice Fallback function to prevent direct ETH transfers
@@ -0,0 +1,487 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "./KipuBank.sol";
+import "./KipuBankBase.sol";
+
+/// @title KipuBank accounts module
+/// @notice Transfers and allowances between KipuBank accounts, timelocked withdrawals, withdrawals swapped out of USDC,
+///         signed intents submitted by relayers and operators acting for an account
+/// @dev Deployed on its own and passed to the KipuBank constructor;
+///      KipuBank delegatecalls into it so these functions run on the bank's storage.
+///      Called directly it only touches its own storage, which is never initialized and holds no balances.
+///      Intents are signed over the EIP-712 domain {name: "KipuBank", version: "1", chainId, verifyingContract: the bank}:
+///      under delegatecall, EIP712 rebuilds the separator with the bank's address.
+contract KipuBankAccounts is KipuBankBase, EIP712 {
+	using SafeERC20 for IERC20;
+
+	/// @notice EIP-712 type hash of WithdrawIntent
+	bytes32 private constant WITHDRAW_INTENT_TYPEHASH = keccak256(
+		"WithdrawIntent(address account,address token,uint256 amount,uint256 fee,uint256 nonce,uint256 deadline)"
+	);
+
+	/// @notice EIP-712 type hash of TransferIntent
+	bytes32 private constant TRANSFER_INTENT_TYPEHASH = keccak256(
+		"TransferIntent(address account,address to,address token,uint256 amount,uint256 fee,uint256 nonce,uint256 deadline)"
+	);
+
+    /// =========================== FUNCTIONS ===========================
+
+    /// @notice Module constructor
+    constructor() EIP712("KipuBank", "1") {}
+
+	/// @notice Move part of the caller's balance to another KipuBank account, without touching the bank caps
+	/// @param to The account to credit
+	/// @param token The token to move (ETH address for ETH)
+	/// @param amount The amount to move (wei for ETH, USDC for USDC, token units for listed assets)
+	function transfer(address to, address token, uint256 amount) external whenNotPaused(Operation.Withdrawals) {
+		_transferBalance(_msgSender(), to, token, amount);
+	}
+
+	/// @notice Move parts of the caller's balances to several accounts in one transaction
+	/// @param to The accounts to credit
+	/// @param tokens The token of each transfer
+	/// @param amounts The amount of each transfer
+	function transferBatch(
+		address[] calldata to,
+		address[] calldata tokens,
+		uint256[] calldata amounts
+	) external whenNotPaused(Operation.Withdrawals) {
+		if (to.length != tokens.length || to.length != amounts.length) {
+			revert ArrayLengthMismatch();
+		}
+
+		for (uint256 i = 0; i < to.length; i++) {
+			_transferBalance(_msgSender(), to[i], tokens[i], amounts[i]);
+		}
+	}
+
+	/// @notice Allow a spender (e.g. a merchant contract) to move the caller's balance of a token with transferFrom
+	/// @param spender The account allowed to move the balance
+	/// @param token The token of the allowance
+	/// @param amount The allowance, type(uint256).max for an unlimited one
+	function approve(address spender, address token, uint256 amount) external {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		$.allowance[_msgSender()][spender][token] = amount;
+		emit InternalApproval(_msgSender(), spender, token, amount);
+	}
+
+	/// @notice Move part of another account's balance, spending the allowance it gave the caller
+	/// @param from The account to debit
+	/// @param to The account to credit
+	/// @param token The token to move (ETH address for ETH)
+	/// @param amount The amount to move
+	function transferFrom(
+		address from,
+		address to,
+		address token,
+		uint256 amount
+	) external whenNotPaused(Operation.Withdrawals) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint256 allowed = $.allowance[from][_msgSender()][token];
+		if (allowed != type(uint256).max) {
+			if (amount > allowed) {
+				revert InsufficientAllowance(allowed, amount);
+			}
+			$.allowance[from][_msgSender()][token] = allowed - amount;
+		}
+
+		_transferBalance(from, to, token, amount);
+	}
+
+	/// @notice Withdraw on behalf of an account that signed the intent, paying the relayer fee to the caller
+	/// @dev Lets accounts without ETH for gas withdraw: the withdrawal runs as if the account called withdraw
+	///      (limits, daily quota and Withdraw fee apply to `amount`) and pays the account. The relayer fee is moved
+	///      to the caller's KipuBank balance first, so the balance must cover amount + fee
+	/// @param intent The withdrawal signed by intent.account
+	/// @param signature The account's EIP-712 signature over the intent
+	function withdrawWithSig(
+		WithdrawIntent calldata intent,
+		bytes calldata signature
+	) external nonReentrant whenNotPaused(Operation.Withdrawals) onlyValidValue(intent.amount) {
+		_useIntent(intent.account, intent.nonce, intent.deadline, keccak256(abi.encode(WITHDRAW_INTENT_TYPEHASH, intent)), signature);
+		_payRelayer(intent.account, intent.token, intent.fee);
+		_withdraw(intent.account, intent.account, intent.token, intent.amount);
+
+		emit IntentRelayed(intent.account, _msgSender(), intent.nonce, intent.token, intent.fee);
+	}
+
+	/// @notice Transfer on behalf of an account that signed the intent, paying the relayer fee to the caller
+	/// @dev The balance must cover amount + fee
+	/// @param intent The transfer signed by intent.account
+	/// @param signature The account's EIP-712 signature over the intent
+	function transferWithSig(
+		TransferIntent calldata intent,
+		bytes calldata signature
+	) external whenNotPaused(Operation.Withdrawals) {
+		_useIntent(intent.account, intent.nonce, intent.deadline, keccak256(abi.encode(TRANSFER_INTENT_TYPEHASH, intent)), signature);
+		_payRelayer(intent.account, intent.token, intent.fee);
+		_transferBalance(intent.account, intent.to, intent.token, intent.amount);
+
+		emit IntentRelayed(intent.account, _msgSender(), intent.nonce, intent.token, intent.fee);
+	}
+
+	/// @notice Run several calls to the bank in one transaction, as the caller, returning each call's return data
+	/// @dev Each call is a call from the bank to itself that acts for the caller (see _msgSender) and runs its own
+	///      modifiers: nonReentrant functions work since the calls run one after the other. Only the ETH deposit
+	///      (depositEth or depositEthAsUsdc) receives msg.value, so a batch sending ETH needs exactly one and the
+	///      other operations stay non-payable. The first failing call reverts the whole batch
+	/// @param data The ABI-encoded calls (selector and arguments)
+	/// @return results The return data of each call
+	function multicall(bytes[] calldata data) external payable returns (bytes[] memory results) {
+		// restored at the end, so an account called back during the batch runs its own multicall as itself
+		address previousSender = multicallSender;
+		multicallSender = _msgSender();
+
+		uint256 value = msg.value;
+		results = new bytes[](data.length);
+		for (uint256 i = 0; i < data.length; i++) {
+			uint256 callValue;
+			bytes4 selector = bytes4(data[i]);
+			if (selector == KipuBank.depositEth.selector || selector == KipuBank.depositEthAsUsdc.selector) {
+				if (value == 0 && msg.value > 0) {
+					revert MulticallValueReused();
+				}
+				callValue = value;
+				value = 0;
+			}
+
+			(bool success, bytes memory result) = address(this).call{value: callValue}(data[i]);
+			if (!success) {
+				revert MulticallFailed(i, result);
+			}
+			results[i] = result;
+		}
+
+		if (value > 0) {
+			revert MulticallValueUnused(value);
+		}
+		multicallSender = previousSender;
+	}
+
+	/// @notice Grant an operator permissions on the caller's account until expiry, or revoke it with permissions 0
+	/// @dev Replaces any previous grant of the operator; the expiry is ignored when revoking
+	/// @param operator The address allowed to act for the caller
+	/// @param permissions OPERATOR_DEPOSIT_FOR (1), OPERATOR_WITHDRAW_TO_OWNER (2) and OPERATOR_WITHDRAW_ANYWHERE (4) bits
+	/// @param expiry The last timestamp the grant is valid at
+	function setOperator(address operator, uint8 permissions, uint64 expiry) external {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (operator == address(0) || operator == _msgSender()) {
+			revert InvalidOperator(operator);
+		}
+
+		OperatorGrant storage grant = $.operatorGrants[_msgSender()][operator];
+		if (permissions == 0) {
+			if (grant.permissions != 0) {
+				delete $.operatorGrants[_msgSender()][operator];
+				_removeOperator(_msgSender(), operator);
+				emit OperatorRevoked(_msgSender(), operator);
+			}
+			return;
+		}
+
+		if (permissions > OPERATOR_DEPOSIT_FOR | OPERATOR_WITHDRAW_TO_OWNER | OPERATOR_WITHDRAW_ANYWHERE || expiry < block.timestamp) {
+			revert InvalidOperatorGrant(permissions, expiry);
+		}
+		if (grant.permissions == 0) {
+			$.operatorList[_msgSender()].push(operator);
+		}
+		grant.permissions = permissions;
+		grant.expiry = expiry;
+
+		emit OperatorSet(_msgSender(), operator, permissions, expiry);
+	}
+
+	/// @notice Withdraw part of an account's balance as its operator, within the account's limits and quota
+	/// @dev Paying the account needs OPERATOR_WITHDRAW_TO_OWNER or OPERATOR_WITHDRAW_ANYWHERE, any other recipient
+	///      OPERATOR_WITHDRAW_ANYWHERE; the Withdraw fee is charged to the account
+	/// @param account The account to withdraw from
+	/// @param token The token to withdraw (ETH address for ETH)
+	/// @param amount The amount to withdraw (wei for ETH, USDC for USDC, token units for listed assets)
+	/// @param to The recipient of the funds
+	function withdrawFor(
+		address account,
+		address token,
+		uint256 amount,
+		address to
+	) external nonReentrant whenNotPaused(Operation.Withdrawals) onlyValidValue(amount) {
+		if (to == address(0)) {
+			revert InvalidRecipient(to);
+		}
+		_checkOperator(account, to == account ? OPERATOR_WITHDRAW_TO_OWNER : OPERATOR_WITHDRAW_ANYWHERE);
+
+		_withdraw(account, to, token, amount);
+		emit OperatorWithdrawal(account, _msgSender(), to, token, amount);
+	}
+
+	/// @notice Deposit ERC20 tokens for an account as its operator, swapped to USDC through Uniswap V4
+	/// @dev Pulls tokenIn from the operator, which must have approved the bank, and credits the account;
+	///      needs OPERATOR_DEPOSIT_FOR
+	/// @param account The account to deposit for
+	/// @param tokenIn The address of the token to deposit
+	/// @param amountIn The amount of tokenIn to deposit
+	/// @param poolKey The Uniswap V4 pool key for swapping tokenIn to USDC
+	/// @param minAmountOut Minimum USDC to receive (slippage protection)
+	function depositArbitraryTokenFor(
+		address account,
+		address tokenIn,
+		uint256 amountIn,
+		PoolKey calldata poolKey,
+		uint256 minAmountOut
+	) external nonReentrant whenNotPaused(Operation.Deposits) whenNotPaused(Operation.Swaps) onlyValidValue(amountIn) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		_checkOperator(account, OPERATOR_DEPOSIT_FOR);
+		if (tokenIn == ETH || tokenIn == address(0) || tokenIn == $.USDC) {
+			revert UnsupportedToken(tokenIn);
+		}
+
+		IERC20(tokenIn).safeTransferFrom(_msgSender(), address(this), amountIn);
+		uint256 usdcReceived = _swapExactInputSingle(tokenIn, amountIn, poolKey, minAmountOut);
+		_creditSwappedUsdc(account, tokenIn, amountIn, usdcReceived);
+	}
+
+	/// @notice Queue a withdrawal, locking the amount until withdrawalDelay has passed
+	/// @dev The delay replaces the per-transaction limits and the daily quota, so it also serves amounts above them:
+	///      until executableAt the account or a guardian can cancel
+	/// @param token The token to withdraw (ETH address for ETH)
+	/// @param amount The amount to withdraw (wei for ETH, USDC for USDC, token units for listed assets)
+	/// @return id The id to execute or cancel the withdrawal with
+	function requestWithdrawal(address token, uint256 amount) external whenNotPaused(Operation.Withdrawals) returns (uint256 id) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint256 shares = _moveBalance(_msgSender(), address(this), token, amount);
+
+		id = $.nextWithdrawalId++;
+		uint64 executableAt = uint64(block.timestamp + $.withdrawalDelay);
+		$.delayedWithdrawals[id] = DelayedWithdrawal({
+			account: _msgSender(),
+			executableAt: executableAt,
+			token: token,
+			amount: amount,
+			shares: shares
+		});
+		$.pendingWithdrawalIds[_msgSender()].push(id);
+
+		emit WithdrawalRequested(id, _msgSender(), token, amount, executableAt);
+	}
+
+	/// @notice Pay out one of the caller's delayed withdrawals once its delay has passed
+	/// @dev A USDC withdrawal pays at most what its locked shares are worth now; shares left over after
+	///      paying the requested amount (the yield earned during the delay) go back to the account. The
+	///      Withdraw fee is charged at execution, on the amount paid out before the fee
+	/// @param id The id returned by requestWithdrawal
+	function executeWithdrawal(uint256 id) external nonReentrant whenNotPaused(Operation.Withdrawals) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		DelayedWithdrawal memory w = $.delayedWithdrawals[id];
+		if (w.account != _msgSender()) {
+			revert UnknownWithdrawal(id);
+		}
+		if (block.timestamp < w.executableAt) {
+			revert WithdrawalNotReady(id, w.executableAt);
+		}
+		_removePendingWithdrawal(w.account, id);
+
+		uint256 amount = w.amount;
+		if (w.token == $.USDC) {
+			_accrueUsdcYield();
+			amount = Math.min(amount, _convertToUsdcAssets(w.shares, Math.Rounding.Floor));
+		}
+		uint256 fee = _chargeFee(FeeOperation.Withdraw, w.account, address(this), w.token, amount);
+		amount -= fee;
+
+		if (w.token == ETH) {
+			$.balances[address(this)][ETH] -= amount;
+			$.currentBankCapEth += amount;
+		} else if (w.token == $.USDC) {
+			// the bank's ledger pools the shares of every pending withdrawal: only this one's are burned
+			uint256 lockedShares = w.shares - _convertToUsdcShares(fee, Math.Rounding.Floor);
+			uint256 burnedShares = _convertToUsdcShares(amount, Math.Rounding.Ceil);
+			if (burnedShares > lockedShares) {
+				amount = _convertToUsdcAssets(lockedShares, Math.Rounding.Floor);
+				burnedShares = _convertToUsdcShares(amount, Math.Rounding.Ceil);
+			}
+			_burnUsdcShares(address(this), amount);
+			if (lockedShares > burnedShares) {
+				_moveUsdcShares(address(this), w.account, lockedShares - burnedShares);
+			}
+			$.currentBankCapUsdc += _stableToUsdc($.USDC, amount);
+		} else {
+			$.balances[address(this)][w.token] -= amount;
+			$.assets[w.token].currentCap += amount;
+		}
+		$.countWithdraws += 1;
+
+		if (w.token == ETH) {
+			(bool success, ) = w.account.call{value: amount}("");
+			if (!success) {
+				revert TransferFailed();
+			}
+		} else {
+			IERC20(w.token).safeTransfer(w.account, amount);
+		}
+
+		emit Withdraw(w.account, w.token, amount);
+		emit WithdrawalExecuted(id, w.account, w.token, amount);
+	}
+
+	/// @notice Cancel a pending delayed withdrawal, unlocking its amount back to the account
+	/// @dev Open to the account and to guardians, and not paused so balances can always be unlocked
+	/// @param id The id of the withdrawal
+	function cancelWithdrawal(uint256 id) external {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		DelayedWithdrawal memory w = $.delayedWithdrawals[id];
+		if (w.account == address(0)) {
+			revert UnknownWithdrawal(id);
+		}
+		if (_msgSender() != w.account) {
+			_checkRole(GUARDIAN_ROLE);
+		}
+		_removePendingWithdrawal(w.account, id);
+
+		if (w.token == $.USDC) {
+			_moveUsdcShares(address(this), w.account, w.shares);
+		} else {
+			$.balances[address(this)][w.token] -= w.amount;
+			$.balances[w.account][w.token] += w.amount;
+		}
+
+		emit WithdrawalCancelled(id, w.account, _msgSender());
+	}
+
+	/// ========================== INTERNAL FUNCTIONS ===========================
+
+	/// @notice Internal function to move a balance between two accounts, leaving the bank caps untouched
+	/// @dev The bank's own ledger holds the locked delayed withdrawals and the treasury's only moves through
+	///      fees, so neither can be a recipient
+	/// @param from The account debited
+	/// @param to The account credited
+	/// @param token The token to move (ETH address for ETH)
+	/// @param amount The amount to move, in USDC for USDC
+	function _transferBalance(address from, address to, address token, uint256 amount) internal {
+		if (to == address(0) || to == address(this) || to == TREASURY) {
+			revert InvalidRecipient(to);
+		}
+
+		_moveBalance(from, to, token, amount);
+
+		emit InternalTransfer(from, to, token, amount);
+	}
+
+	/// @notice Internal function to move a balance between two ledger accounts after checking it covers the amount
+	/// @param from The account debited
+	/// @param to The account credited
+	/// @param token The token to move (ETH address for ETH)
+	/// @param amount The amount to move, in USDC for USDC
+	/// @return shares The USDC pool shares moved, 0 for other tokens
+	function _moveBalance(address from, address to, address token, uint256 amount) internal returns (uint256 shares) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (amount == 0) {
+			revert InvalidValue();
+		}
+		if (token != ETH && token != $.USDC && !$.assets[token].listed) {
+			revert UnsupportedToken(token);
+		}
+
+		uint256 bal = token == $.USDC ? _usdcBalanceOf(from) : $.balances[from][token];
+		if (amount > bal) {
+			revert InsufficientBalance({
+				requested: amount,
+				available: bal
+			});
+		}
+
+		if (token == $.USDC) {
+			// rounded up like a withdrawal, so the recipient never gets more than the sender gave up
+			shares = _convertToUsdcShares(amount, Math.Rounding.Ceil);
+			_moveUsdcShares(from, to, shares);
+		} else {
+			$.balances[from][token] -= amount;
+			$.balances[to][token] += amount;
+		}
+	}
+
+	/// @notice Internal function to check a signed intent and consume its nonce
+	/// @param account The account that must have signed the intent
+	/// @param nonce The nonce of the intent
+	/// @param deadline The last timestamp the intent can be submitted at
+	/// @param structHash The EIP-712 struct hash of the intent
+	/// @param signature The signature to check
+	function _useIntent(address account, uint256 nonce, uint256 deadline, bytes32 structHash, bytes calldata signature) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (block.timestamp > deadline) {
+			revert IntentExpired(deadline);
+		}
+
+		uint256 expected = $.nonces[account];
+		if (nonce != expected) {
+			revert InvalidIntentNonce(expected, nonce);
+		}
+
+		if (!SignatureChecker.isValidSignatureNow(account, _hashTypedDataV4(structHash), signature)) {
+			revert InvalidSignature();
+		}
+		$.nonces[account] = expected + 1;
+	}
+
+	/// @notice Internal function to move the relayer fee of an intent to the caller's balance
+	/// @param account The account paying the fee
+	/// @param token The token of the fee
+	/// @param fee The fee, 0 for none
+	function _payRelayer(address account, address token, uint256 fee) internal {
+		if (fee > 0) {
+			_transferBalance(account, _msgSender(), token, fee);
+		}
+	}
+
+	/// @notice Internal function to revert unless the caller holds an unexpired grant of the account with every permission bit
+	/// @dev OPERATOR_WITHDRAW_ANYWHERE includes OPERATOR_WITHDRAW_TO_OWNER
+	/// @param account The account acted for
+	/// @param permissions The permission bits needed
+	function _checkOperator(address account, uint8 permissions) internal view {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		OperatorGrant memory grant = $.operatorGrants[account][_msgSender()];
+		uint8 granted = grant.permissions;
+		if (granted & OPERATOR_WITHDRAW_ANYWHERE != 0) {
+			granted |= OPERATOR_WITHDRAW_TO_OWNER;
+		}
+
+		if (granted & permissions != permissions || block.timestamp > grant.expiry) {
+			revert OperatorNotAllowed(account, _msgSender(), permissions);
+		}
+	}
+
+	/// @notice Internal function to drop a revoked operator from the account's list
+	/// @param account The account
+	/// @param operator The operator revoked
+	function _removeOperator(address account, address operator) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		address[] storage operators = $.operatorList[account];
+		uint256 last = operators.length - 1;
+		for (uint256 i = 0; i <= last; i++) {
+			if (operators[i] == operator) {
+				operators[i] = operators[last];
+				operators.pop();
+				break;
+			}
+		}
+	}
+
+	/// @notice Internal function to forget a delayed withdrawal once executed or cancelled
+	/// @param account The account of the withdrawal
+	/// @param id The id of the withdrawal
+	function _removePendingWithdrawal(address account, uint256 id) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		delete $.delayedWithdrawals[id];
+
+		uint256[] storage ids = $.pendingWithdrawalIds[account];
+		uint256 last = ids.length - 1;
+		for (uint256 i = 0; i <= last; i++) {
+			if (ids[i] == id) {
+				ids[i] = ids[last];
+				ids.pop();
+				break;
+			}
+		}
+	}
+}
@@ -0,0 +1,567 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./KipuBankBase.sol";
+
+/// @title KipuBank admin module
+/// @notice Recovery, limits, asset registry, oracle, USDC strategy, fee, treasury, module and pause administration of KipuBank
+/// @dev Deployed before the KipuBank implementation, which delegatecalls into it so these functions run on the bank's storage.
+///      Its own storage is never initialized, so called directly every restricted function reverts.
+contract KipuBankAdmin is KipuBankBase {
+	using SafeCast for uint256;
+	using SafeERC20 for IERC20;
+
+    /// =========================== FUNCTIONS ===========================
+
+    /// @notice Initialize the bank behind its proxy: caps, oracle, tokens, default limits and every role to the admin
+    /// @param admin The account granted every role
+    /// @param _maxBankCapEthWei The maximum capacity of the bank in ETH
+    /// @param _maxBankCapUsdc The maximum capacity of the bank in USDC
+    /// @param _ethUsdFeed The Chainlink ETH/USD price feed address
+    /// @param _usdc The USDC token address
+    /// @param _universalRouter The Uniswap V4 Universal Router address
+    /// @param _permit2 The Permit2 contract address
+    function initialize(
+        address admin,
+        uint256 _maxBankCapEthWei,
+        uint256 _maxBankCapUsdc,
+        address _ethUsdFeed,
+        address _usdc,
+        address _universalRouter,
+        address _permit2
+    ) external initializer {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (admin == address(0)) {
+			revert InvalidValue();
+		}
+
+		if (_maxBankCapEthWei == 0) {
+			revert InvalidValue();
+		}
+
+		if (_maxBankCapUsdc == 0) {
+			revert InvalidValue();
+		}
+
+		if (_usdc == address(0)) {
+			revert InvalidValue();
+		}
+
+		if (_ethUsdFeed == address(0)) {
+			revert OraclePriceInvalid();
+		}
+
+        if (_universalRouter == address(0)) {
+            revert InvalidValue();
+        }
+
+        if (_permit2 == address(0)) {
+            revert InvalidValue();
+        }
+
+        $.MAX_BANK_CAP_ETH = _maxBankCapEthWei;
+        $.currentBankCapEth = $.MAX_BANK_CAP_ETH;
+
+		$.MAX_BANK_CAP_USDC = _maxBankCapUsdc;
+		$.currentBankCapUsdc = $.MAX_BANK_CAP_USDC;
+
+		$.USDC = _usdc;
+
+		$.ethUsdFeed = AggregatorV3Interface(_ethUsdFeed);
+		$.feedDecimals = _ethFeedDecimals($.ethUsdFeed);
+
+        $.universalRouter = IUniversalRouter(_universalRouter);
+        $.permit2 = IPermit2(_permit2);
+
+		$.etherWithdrawLimit = 10 ether;
+		$.usdcWithdrawLimit = 1_000 * 10 ** 6;
+		$.dailyWithdrawQuota = 10_000 * 10 ** 6;
+		$.oracleMaxDelay = 3 hours;
+		$.maxFeedDeviationBps = 200;
+		$.withdrawalDelay = 1 days;
+
+        __AccessControl_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(RECOVERY_ROLE, admin);
+		_grantRole(LIMITS_MANAGER_ROLE, admin);
+		_grantRole(GUARDIAN_ROLE, admin);
+		_grantRole(TREASURER_ROLE, admin);
+    }
+
+    /// @notice Admin Recovery: set user's internal ETH balance.
+	/// @param account The address of the account to adjust
+	/// @param newBalance The new balance to set for the account
+	/// @dev USDC amounts are in USDC, not pool shares; with a strategy, a USDC credit invests USDC the bank holds idle
+    function setInternalBalance(address account, address token, uint256 newBalance) external onlyRole(RECOVERY_ROLE) {
+		_setInternalBalance(account, token, newBalance);
+    }
+
+    /// @notice Admin Recovery: set the internal balances of many accounts at once, e.g. to migrate a previous bank's ledger
+    /// @param accounts The accounts to adjust
+    /// @param tokens The token of each adjustment (ETH_ADDRESS for Ether)
+    /// @param newBalances The new balance of each account in its token
+    function setInternalBalances(
+        address[] calldata accounts,
+        address[] calldata tokens,
+        uint256[] calldata newBalances
+    ) external onlyRole(RECOVERY_ROLE) {
+		if (accounts.length != tokens.length || accounts.length != newBalances.length) {
+			revert ArrayLengthMismatch();
+		}
+
+		for (uint256 i = 0; i < accounts.length; i++) {
+			_setInternalBalance(accounts[i], tokens[i], newBalances[i]);
+		}
+    }
+
+	/// @notice Admin: send the ETH backing balances seeded by recovery (e.g. a migration), without crediting anyone
+	/// @dev Tokens are funded with a plain ERC-20 transfer; direct ETH sends revert in receive()
+	function fundEth() external payable onlyAdminRole onlyValidValue(msg.value) {}
+
+    /// @notice Grant recovery role to another admin
+    function grantRecovery(address admin) external onlyRole(getRoleAdmin(RECOVERY_ROLE)) {
+        _grantRole(RECOVERY_ROLE, admin);
+    }
+
+    /// @notice Revoke recovery role
+    function revokeRecovery(address admin) external onlyRole(getRoleAdmin(RECOVERY_ROLE)) {
+        _revokeRole(RECOVERY_ROLE, admin);
+    }
+
+	/// @notice Update the global per-transaction withdraw limits
+	/// @param etherLimit The new Ether limit in wei
+	/// @param usdcLimit The new limit in USDC
+	function setWithdrawLimits(uint256 etherLimit, uint256 usdcLimit) external onlyRole(LIMITS_MANAGER_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		_checkWithdrawLimits(etherLimit, usdcLimit);
+
+		$.etherWithdrawLimit = etherLimit;
+		$.usdcWithdrawLimit = usdcLimit;
+
+		emit WithdrawLimitsUpdated(_msgSender(), etherLimit, usdcLimit);
+	}
+
+	/// @notice Update the USDC value each account can withdraw per DAILY_WITHDRAW_WINDOW
+	/// @param quota The new quota in USDC
+	function setDailyWithdrawQuota(uint256 quota) external onlyRole(LIMITS_MANAGER_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (quota == 0 || quota > MAX_DAILY_WITHDRAW_QUOTA) {
+			revert WithdrawLimitOutOfBounds(quota, MAX_DAILY_WITHDRAW_QUOTA);
+		}
+
+		$.dailyWithdrawQuota = quota;
+
+		emit DailyWithdrawQuotaUpdated(_msgSender(), quota);
+	}
+
+	/// @notice Update the delay of withdrawals requested from now on (pending ones keep theirs)
+	/// @param delay The new delay in seconds, up to MAX_WITHDRAWAL_DELAY
+	function setWithdrawalDelay(uint256 delay) external onlyRole(LIMITS_MANAGER_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (delay == 0 || delay > MAX_WITHDRAWAL_DELAY) {
+			revert WithdrawLimitOutOfBounds(delay, MAX_WITHDRAWAL_DELAY);
+		}
+
+		$.withdrawalDelay = delay;
+
+		emit WithdrawalDelayUpdated(_msgSender(), delay);
+	}
+
+	/// @notice Give an account its own withdraw limits instead of the global ones
+	/// @param account The address of the account
+	/// @param etherLimit The Ether limit in wei for this account
+	/// @param usdcLimit The limit in USDC for this account
+	function setWithdrawLimitOverride(address account, uint256 etherLimit, uint256 usdcLimit) external onlyRole(LIMITS_MANAGER_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (account == address(0)) {
+			revert InvalidValue();
+		}
+		_checkWithdrawLimits(etherLimit, usdcLimit);
+
+		$.withdrawLimitOverrides[account] = WithdrawLimitOverride({
+			etherLimit: etherLimit,
+			usdcLimit: usdcLimit,
+			enabled: true
+		});
+
+		emit WithdrawLimitOverrideSet(_msgSender(), account, etherLimit, usdcLimit);
+	}
+
+	/// @notice Remove an account's override so the global limits apply again
+	/// @param account The address of the account
+	function clearWithdrawLimitOverride(address account) external onlyRole(LIMITS_MANAGER_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		delete $.withdrawLimitOverrides[account];
+
+		emit WithdrawLimitOverrideCleared(_msgSender(), account);
+	}
+
+	/// @notice Add an asset to the registry so it can be deposited and withdrawn natively
+	/// @param token The asset address (not ETH nor USDC)
+	/// @param feed The Chainlink USD feed of the asset, or 0x0 for USD stablecoins valued 1:1
+	/// @param maxCap The maximum bank capacity in token units
+	/// @param withdrawLimit The per-transaction withdraw limit in token units
+	function listAsset(address token, address feed, uint256 maxCap, uint256 withdrawLimit) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (token == address(0) || token == ETH || token == $.USDC) {
+			revert UnsupportedToken(token);
+		}
+		if ($.assets[token].listed) {
+			revert AssetAlreadyListed(token);
+		}
+		if (maxCap == 0 || withdrawLimit == 0) {
+			revert InvalidValue();
+		}
+
+		uint8 decimals = IERC20Metadata(token).decimals();
+		$.assets[token] = AssetConfig({
+			listed: true,
+			decimals: decimals,
+			feed: AggregatorV3Interface(feed),
+			feedDecimals: feed == address(0) ? 0 : AggregatorV3Interface(feed).decimals(),
+			maxCap: maxCap,
+			currentCap: maxCap,
+			withdrawLimit: withdrawLimit
+		});
+		$.assetList.push(token);
+
+		emit AssetListed(_msgSender(), token, feed, decimals, maxCap, withdrawLimit);
+	}
+
+	/// @notice Change the feed, cap and withdraw limit of a listed asset
+	/// @dev The current cap moves by the same amount as the max cap, so holdings are preserved
+	/// @param token The asset address
+	/// @param feed The Chainlink USD feed of the asset, or 0x0 for USD stablecoins valued 1:1
+	/// @param maxCap The new maximum bank capacity in token units (at least the amount held)
+	/// @param withdrawLimit The new per-transaction withdraw limit in token units
+	function updateAsset(address token, address feed, uint256 maxCap, uint256 withdrawLimit) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		AssetConfig storage asset = $.assets[token];
+		if (!asset.listed) {
+			revert UnsupportedToken(token);
+		}
+		if (maxCap == 0 || withdrawLimit == 0) {
+			revert InvalidValue();
+		}
+
+		uint256 held = asset.maxCap - asset.currentCap;
+		if (maxCap < held) {
+			revert AssetStillHeld(token, held);
+		}
+
+		asset.feed = AggregatorV3Interface(feed);
+		asset.feedDecimals = feed == address(0) ? 0 : AggregatorV3Interface(feed).decimals();
+		asset.maxCap = maxCap;
+		asset.currentCap = maxCap - held;
+		asset.withdrawLimit = withdrawLimit;
+
+		emit AssetUpdated(_msgSender(), token, feed, maxCap, withdrawLimit);
+	}
+
+	/// @notice Remove an asset from the registry once no account holds it
+	/// @param token The asset address
+	function delistAsset(address token) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		AssetConfig storage asset = $.assets[token];
+		if (!asset.listed) {
+			revert UnsupportedToken(token);
+		}
+
+		uint256 held = asset.maxCap - asset.currentCap;
+		if (held != 0) {
+			revert AssetStillHeld(token, held);
+		}
+
+		delete $.assets[token];
+		uint256 last = $.assetList.length - 1;
+		for (uint256 i = 0; i <= last; i++) {
+			if ($.assetList[i] == token) {
+				$.assetList[i] = $.assetList[last];
+				$.assetList.pop();
+				break;
+			}
+		}
+
+		emit AssetDelisted(_msgSender(), token);
+	}
+
+	/// @notice Configure the ETH/USD fallback feed, the L2 sequencer uptime feed and the oracle bounds
+	/// @param fallbackFeed The secondary ETH/USD feed (0 to disable the fallback)
+	/// @param sequencerFeed The Chainlink sequencer uptime feed on L2s (0 on L1)
+	/// @param maxDelay Max age in seconds of a feed answer, up to MAX_ORACLE_DELAY
+	/// @param maxDeviationBps Max deviation between both ETH/USD feeds, up to MAX_FEED_DEVIATION_BPS
+	function setOracleConfig(
+		address fallbackFeed,
+		address sequencerFeed,
+		uint256 maxDelay,
+		uint256 maxDeviationBps
+	) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (maxDelay == 0 || maxDelay > MAX_ORACLE_DELAY) {
+			revert OracleConfigOutOfBounds(maxDelay, MAX_ORACLE_DELAY);
+		}
+		if (maxDeviationBps > MAX_FEED_DEVIATION_BPS) {
+			revert OracleConfigOutOfBounds(maxDeviationBps, MAX_FEED_DEVIATION_BPS);
+		}
+
+		$.fallbackEthUsdFeed = AggregatorV3Interface(fallbackFeed);
+		$.fallbackFeedDecimals = fallbackFeed == address(0) ? 0 : _ethFeedDecimals(AggregatorV3Interface(fallbackFeed));
+		$.sequencerUptimeFeed = AggregatorV3Interface(sequencerFeed);
+		$.oracleMaxDelay = maxDelay;
+		$.maxFeedDeviationBps = maxDeviationBps;
+
+		emit OracleConfigUpdated(_msgSender(), fallbackFeed, sequencerFeed, maxDelay, maxDeviationBps);
+	}
+
+	/// @notice Set the reference feed that swap deposits of `token` are checked against
+	/// @param token The input token (ETH for native swaps)
+	/// @param feed The token's USD Chainlink feed, 0 to remove the check
+	/// @param toleranceBps Max shortfall of the swap output vs. the oracle-implied value, up to MAX_SWAP_TOLERANCE_BPS
+	function setSwapReference(address token, address feed, uint256 toleranceBps) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (token == $.USDC || token == address(0)) {
+			revert UnsupportedToken(token);
+		}
+
+		if (feed == address(0)) {
+			delete $.swapReferences[token];
+		} else {
+			if (toleranceBps == 0 || toleranceBps > MAX_SWAP_TOLERANCE_BPS) {
+				revert OracleConfigOutOfBounds(toleranceBps, MAX_SWAP_TOLERANCE_BPS);
+			}
+			$.swapReferences[token] = SwapReference({
+				feed: AggregatorV3Interface(feed),
+				feedDecimals: AggregatorV3Interface(feed).decimals(),
+				tokenDecimals: token == ETH ? 18 : IERC20Metadata(token).decimals(),
+				toleranceBps: uint16(toleranceBps)
+			});
+		}
+
+		emit SwapReferenceUpdated(_msgSender(), token, feed, feed == address(0) ? 0 : toleranceBps);
+	}
+
+	/// @notice Invest the USDC pool in an ERC-4626 strategy, or move it back to the bank
+	/// @dev Realizes the old strategy's gain or loss, redeems everything from it and deposits it all into the new one
+	/// @param strategy The ERC-4626 vault of USDC, 0 to hold the USDC idle
+	function setUsdcStrategy(address strategy) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (strategy != address(0) && IERC4626(strategy).asset() != $.USDC) {
+			revert InvalidStrategy(strategy);
+		}
+
+		_accrueUsdcYield();
+		IERC4626 previous = $.usdcStrategy;
+		uint256 moved = $.MAX_BANK_CAP_USDC - $.currentBankCapUsdc;
+		if (address(previous) != address(0)) {
+			moved = previous.redeem(previous.balanceOf(address(this)), address(this), address(this));
+		}
+
+		$.usdcStrategy = IERC4626(strategy);
+		if (strategy != address(0)) {
+			IERC20($.USDC).forceApprove(strategy, moved);
+			IERC4626(strategy).deposit(moved, address(this));
+		}
+		// absorbs the rounding of the new strategy's deposit
+		_accrueUsdcYield();
+
+		emit UsdcStrategyUpdated(_msgSender(), strategy, moved);
+	}
+
+	/// @notice Set the fee of an operation
+	/// @param operation The operation to charge
+	/// @param bps The fee in basis points of the amount, up to MAX_FEE_BPS (0 to make it free)
+	function setFee(FeeOperation operation, uint256 bps) external onlyAdminRole {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (bps > MAX_FEE_BPS) {
+			revert FeeOutOfBounds(bps, MAX_FEE_BPS);
+		}
+
+		$.feeBps[operation] = bps;
+
+		emit FeeUpdated(_msgSender(), operation, bps);
+	}
+
+	/// @notice Send fees accrued to the treasury out of the bank, freeing their share of the cap
+	/// @dev Withdraw limits and the daily quota don't apply; the treasury's balances are those of TREASURY
+	/// @param token The token to withdraw (ETH address for ETH)
+	/// @param amount The amount to withdraw (wei for ETH, USDC for USDC, token units for listed assets)
+	/// @param to The recipient
+	function withdrawTreasury(address token, uint256 amount, address to) external onlyRole(TREASURER_ROLE) nonReentrant whenNotPaused(Operation.Withdrawals) onlyValidValue(amount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (to == address(0)) {
+			revert InvalidRecipient(to);
+		}
+		bool isAsset = token != ETH && token != $.USDC;
+		if (isAsset && !$.assets[token].listed) {
+			revert UnsupportedToken(token);
+		}
+		if (token == $.USDC) {
+			_accrueUsdcYield();
+		}
+
+		uint256 bal = token == $.USDC ? _usdcBalanceOf(TREASURY) : $.balances[TREASURY][token];
+		if (amount > bal) {
+			revert InsufficientBalance({
+				requested: amount,
+				available: bal
+			});
+		}
+
+		if (token == ETH) {
+			$.balances[TREASURY][ETH] -= amount;
+			$.currentBankCapEth += amount;
+		} else if (isAsset) {
+			$.balances[TREASURY][token] -= amount;
+			$.assets[token].currentCap += amount;
+		} else {
+			_burnUsdcShares(TREASURY, amount);
+			$.currentBankCapUsdc += _stableToUsdc($.USDC, amount);
+		}
+
+		if (token == ETH) {
+			(bool success, ) = to.call{value: amount}("");
+			if (!success) {
+				revert TransferFailed();
+			}
+		} else {
+			IERC20(token).safeTransfer(to, amount);
+		}
+
+		emit Withdraw(TREASURY, token, amount);
+		emit TreasuryWithdrawal(_msgSender(), to, token, amount);
+	}
+
+	/// @notice Send the surplus of a token above what the bank owes its accounts out of the bank
+	/// @dev Covers tokens sent with a plain transfer, router refunds and forced ETH; balances and caps don't move.
+	///      With a USDC strategy, only the USDC idle in the bank is surplus
+	/// @param token The token (ETH address for ETH), listed or not
+	/// @param to The recipient
+	/// @return amount The surplus swept (reserveOf(token).surplus)
+	function sweepExcess(address token, address to) external onlyAdminRole nonReentrant returns (uint256 amount) {
+		if (token == address(0)) {
+			revert UnsupportedToken(token);
+		}
+		if (to == address(0)) {
+			revert InvalidRecipient(to);
+		}
+
+		amount = _reserveOf(token).surplus;
+		if (amount == 0) {
+			revert NoSurplus(token);
+		}
+
+		if (token == ETH) {
+			(bool success, ) = to.call{value: amount}("");
+			if (!success) {
+				revert TransferFailed();
+			}
+		} else {
+			IERC20(token).safeTransfer(to, amount);
+		}
+
+		emit ExcessSwept(_msgSender(), token, to, amount);
+	}
+
+	/// @notice Pause an operation group, e.g. Swaps when the router misbehaves while withdrawals keep working
+	/// @param operation The operation group to pause
+	/// @param reason A reason code for monitoring (e.g. "ORACLE", "ROUTER")
+	/// @param duration Seconds until the pause lifts by itself, 0 to stay paused until unpause
+	function pause(Operation operation, bytes32 reason, uint256 duration) external onlyRole(GUARDIAN_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint64 pausedUntil = duration == 0 ? 0 : (block.timestamp + duration).toUint64();
+		$.pauses[operation] = Pause({paused: true, pausedUntil: pausedUntil, reason: reason});
+
+		emit OperationPaused(_msgSender(), operation, reason, pausedUntil);
+	}
+
+	/// @notice Lift the pause of an operation group
+	/// @param operation The operation group to unpause
+	function unpause(Operation operation) external onlyRole(GUARDIAN_ROLE) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		delete $.pauses[operation];
+
+		emit OperationUnpaused(_msgSender(), operation);
+	}
+
+	/// ========================== INTERNAL FUNCTIONS ===========================
+
+	/// @notice Internal function to set an account's internal balance, moving the token's cap by the difference
+	/// @param account The address of the account to adjust
+	/// @param token The token of the balance
+	/// @param newBalance The new balance to set for the account
+	function _setInternalBalance(address account, address token, uint256 newBalance) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		bool isAsset = token != ETH && token != $.USDC;
+		if (isAsset && !$.assets[token].listed) {
+			revert UnsupportedToken(token);
+		}
+
+		if (token == $.USDC) {
+			_accrueUsdcYield();
+		}
+        uint256 oldBalance = token == $.USDC ? _usdcBalanceOf(account) : $.balances[account][token];
+
+        if (newBalance == oldBalance) {
+            emit BalanceAdjusted(_msgSender(), account, token, oldBalance, newBalance, 0);
+            return;
+        }
+
+		if (newBalance > oldBalance) {
+			uint256 delta = newBalance - oldBalance;
+
+			if (token == ETH) {
+				if (delta > $.currentBankCapEth) {
+					revert BankCapEthExceeded({
+						requested: delta,
+						available: $.currentBankCapEth
+					});
+				}
+				$.currentBankCapEth -= delta;
+				$.balances[account][ETH] = newBalance;
+				emit BalanceAdjusted(_msgSender(), account, ETH, oldBalance, newBalance, -int256(delta));
+			} else if (isAsset) {
+				AssetConfig storage asset = $.assets[token];
+				if (delta > asset.currentCap) revert BankCapTokenExceeded(token, delta, asset.currentCap);
+				asset.currentCap -= delta;
+				$.balances[account][token] = newBalance;
+				emit BalanceAdjusted(_msgSender(), account, token, oldBalance, newBalance, -int256(delta));
+			} else {
+				uint256 usdc = _stableToUsdc($.USDC, delta);
+                if (usdc > $.currentBankCapUsdc) revert BankCapUsdcExceeded(usdc, $.currentBankCapUsdc);
+				_mintUsdcShares(account, delta);
+                $.currentBankCapUsdc -= usdc;
+                emit BalanceAdjusted(_msgSender(), account, $.USDC, oldBalance, newBalance, -int256(usdc));
+			}
+
+		} else {
+			uint256 delta = oldBalance - newBalance;
+
+			if (token == ETH) {
+				$.currentBankCapEth += delta;
+				$.balances[account][ETH] = newBalance;
+				emit BalanceAdjusted(_msgSender(), account, ETH, oldBalance, newBalance, int256(delta));
+			} else if (isAsset) {
+				$.assets[token].currentCap += delta;
+				$.balances[account][token] = newBalance;
+				emit BalanceAdjusted(_msgSender(), account, token, oldBalance, newBalance, int256(delta));
+			} else {
+				uint256 usdc = _stableToUsdc($.USDC, delta);
+				_burnUsdcShares(account, delta);
+				$.currentBankCapUsdc += usdc;
+				emit BalanceAdjusted(_msgSender(), account, $.USDC, oldBalance, newBalance, int256(usdc));
+			}
+		}
+    }
+
+	/// @notice Internal function to validate withdraw limits against their sanity bounds
+	/// @param etherLimit The Ether limit in wei
+	/// @param usdcLimit The limit in USDC
+	function _checkWithdrawLimits(uint256 etherLimit, uint256 usdcLimit) internal pure {
+		if (etherLimit == 0 || etherLimit > MAX_ETHER_WITHDRAW_LIMIT) {
+			revert WithdrawLimitOutOfBounds(etherLimit, MAX_ETHER_WITHDRAW_LIMIT);
+		}
+		if (usdcLimit == 0 || usdcLimit > MAX_USDC_WITHDRAW_LIMIT) {
+			revert WithdrawLimitOutOfBounds(usdcLimit, MAX_USDC_WITHDRAW_LIMIT);
+		}
+	}
+}
@@ -0,0 +1,1470 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+/// @title Chainlink Price Feed Interface
+interface AggregatorV3Interface {
+    function latestRoundData() external view returns (
+		uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound
+	);
+    function decimals() external view returns (uint8);
+}
+
+/// @title Uniswap V4 Hook Interface
+interface IHooks {}
+
+/// @title Permit2 Interface
+/// @notice Uniswap's token approval contract
+interface IPermit2 {
+    /// @notice Token and maximum amount a signed permit allows to transfer
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    /// @notice SignatureTransfer permit, signed by the owner for a given spender
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @notice Recipient and amount chosen by the spender when redeeming a permit
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function approve(address token, address spender, uint160 amount, uint48 expiration) external;
+    function transferFrom(address from, address to, uint160 amount, address token) external;
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
+
+/// @title Universal Router Interface
+/// @notice Uniswap's universal router for executing swaps
+interface IUniversalRouter {
+    function execute(
+        bytes calldata commands,
+        bytes[] calldata inputs,
+        uint256 deadline
+    ) external payable;
+}
+
+/// @title Currency Type
+/// @notice Type for representing currencies in Uniswap V4
+type Currency is address;
+
+/// @notice Helper library for Currency type
+library CurrencyLibrary {
+    function isNative(Currency currency) internal pure returns (bool) {
+        return Currency.unwrap(currency) == address(0);
+    }
+}
+
+/// @title Pool Key Structure
+/// @notice Identifies a Uniswap V4 pool
+struct PoolKey {
+    Currency currency0;
+    Currency currency1;
+    uint24 fee;
+    int24 tickSpacing;
+    IHooks hooks;
+}
+
+/// @title Path Key Structure
+/// @notice One hop of a Uniswap V4 multi-hop swap, identified by the currency it swaps into
+struct PathKey {
+    Currency intermediateCurrency;
+    uint24 fee;
+    int24 tickSpacing;
+    IHooks hooks;
+    bytes hookData;
+}
+
+/// @title Exact Input Parameters
+/// @notice Parameters of the Uniswap V4 SWAP_EXACT_IN action
+struct ExactInputParams {
+    Currency currencyIn;
+    PathKey[] path;
+    uint128 amountIn;
+    uint128 amountOutMinimum;
+}
+
+/// @title Commands Library
+/// @notice Command types for Universal Router
+library Commands {
+    uint256 constant V4_SWAP = 0x10;
+    uint256 constant PERMIT2_PERMIT = 0x0a;
+    uint256 constant PERMIT2_TRANSFER_FROM = 0x0b;
+}
+
+/// @title Actions Library
+/// @notice Action types for Uniswap V4 swaps (the V4 periphery's Actions ids)
+library Actions {
+    uint256 constant SWAP_EXACT_IN_SINGLE = 0x06;
+    uint256 constant SWAP_EXACT_IN = 0x07;
+    uint256 constant SWAP_EXACT_OUT = 0x09;
+    uint256 constant SETTLE_ALL = 0x0c;
+    uint256 constant TAKE_ALL = 0x0f;
+}
+
+/// @title KipuBank storage and shared logic
+/// @notice State, events, errors and price helpers shared by KipuBank and its modules
+/// @dev The state lives in the KipuBankStorage namespace (ERC-7201), as do the roles and the reentrancy lock, so the
+///      bank, its modules and future versions behind the proxy all read the same slots: declare new state there only
+abstract contract KipuBankBase is AccessControlUpgradeable, ReentrancyGuard {
+	using Math for uint256;
+	using SafeERC20 for IERC20;
+
+	/// =========================== ROLES ===========================
+    /// @notice recovery role constant
+    bytes32 public constant RECOVERY_ROLE = keccak256("RECOVERY_ROLE");
+
+	/// @notice role allowed to update the withdraw limits and per-user overrides
+	bytes32 public constant LIMITS_MANAGER_ROLE = keccak256("LIMITS_MANAGER_ROLE");
+
+	/// @notice role allowed to pause and unpause operations in an emergency
+	bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+
+	/// @notice role of the accounts (e.g. market makers, partner contracts) that pay no fees
+	bytes32 public constant FEE_EXEMPT_ROLE = keccak256("FEE_EXEMPT_ROLE");
+
+	/// @notice role allowed to withdraw the fees accrued to the treasury
+	bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+
+    /// =========================== STATE VARIABLES ===========================
+
+	/// @notice Upper sanity bound for any Ether withdraw limit
+	uint256 public constant MAX_ETHER_WITHDRAW_LIMIT = 1_000 ether;
+
+	/// @notice Upper sanity bound for any USDC withdraw limit (6 decimals)
+	uint256 public constant MAX_USDC_WITHDRAW_LIMIT = 1_000_000 * 1e6;
+
+	/// @notice Upper sanity bound for the daily withdraw quota in USDC
+	uint256 public constant MAX_DAILY_WITHDRAW_QUOTA = 10_000_000 * 1e6;
+
+	/// @notice Length of the rolling withdraw quota window
+	uint256 public constant DAILY_WITHDRAW_WINDOW = 24 hours;
+
+    /// @notice Upper sanity bound for the oracle staleness window
+    uint256 public constant MAX_ORACLE_DELAY = 2 days;
+
+	/// @notice Upper sanity bound for the tolerance of a swap reference price
+	uint256 public constant MAX_SWAP_TOLERANCE_BPS = 2_000;
+
+	/// @notice Upper sanity bound for the allowed deviation between the primary and fallback ETH/USD feeds
+	uint256 public constant MAX_FEED_DEVIATION_BPS = 1_000;
+
+	/// @notice Time after the L2 sequencer comes back up during which prices are not trusted
+	uint256 public constant SEQUENCER_GRACE_PERIOD = 1 hours;
+
+	/// @notice Minimum output amount for swaps (1 unit = 0.000001 USDC)
+    /// @dev Acts as slippage protection - can be overridden per swap
+    uint256 public constant DEFAULT_MIN_SWAP_OUTPUT = 1;
+
+    /// @notice Maximum deadline extension for swaps (10 minutes)
+    uint256 public constant MAX_SWAP_DEADLINE = 10 minutes;
+
+	/// @notice Maximum number of pools in a multi-hop swap path
+	uint256 public constant MAX_SWAP_HOPS = 4;
+
+	/// @notice ETH token
+	/// @dev https://eips.ethereum.org/EIPS/eip-7528
+	address public constant ETH = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+	/// @notice Per-user withdraw limits replacing the global ones when enabled
+	struct WithdrawLimitOverride {
+		uint256 etherLimit;
+		uint256 usdcLimit;
+		bool enabled;
+	}
+
+	/// @notice Quota window of an account, opened by its first withdrawal after the previous one expired
+	struct WithdrawWindow {
+		uint64 start;
+		uint192 usedUsdc;
+	}
+
+	/// @notice Configuration of an asset held natively by the bank (besides ETH and USDC)
+	/// @dev maxCap, currentCap and withdrawLimit are in token units
+	struct AssetConfig {
+		bool listed;
+		uint8 decimals;
+		AggregatorV3Interface feed;
+		uint8 feedDecimals;
+		uint256 maxCap;
+		uint256 currentCap;
+		uint256 withdrawLimit;
+	}
+
+	/// @notice Groups of operations the guardian can pause independently
+	/// @dev Swap deposits and withdrawAsToken belong to Swaps and to Deposits/Withdrawals
+	enum Operation {
+		Deposits,
+		Withdrawals,
+		Swaps
+	}
+
+	/// @notice Pause of an operation group
+	/// @dev pausedUntil == 0 means paused until unpause is called
+	struct Pause {
+		bool paused;
+		uint64 pausedUntil;
+		bytes32 reason;
+	}
+
+	/// @notice Reference price used to sanity-check the USDC output of swap deposits of a token
+	struct SwapReference {
+		AggregatorV3Interface feed;
+		uint8 feedDecimals;
+		uint8 tokenDecimals;
+		uint16 toleranceBps;
+	}
+
+	/// @notice Upper sanity bound for the delay of a timelocked withdrawal
+	uint256 public constant MAX_WITHDRAWAL_DELAY = 30 days;
+
+	/// @notice A withdrawal above the limits, locked until executableAt
+	/// @dev The locked balance sits on the bank's own account (balances[address(this)]) until executed or cancelled
+	struct DelayedWithdrawal {
+		address account;
+		uint64 executableAt;
+		address token;
+		uint256 amount;
+		uint256 shares;
+	}
+
+	/// @notice Upper sanity bound for any fee
+	uint256 public constant MAX_FEE_BPS = 1_000;
+
+	/// @notice Ledger account the fees accrue to; it holds no key, only the treasurer moves its balance
+	/// @dev Its balances stay in the bank, so they keep counting against the caps until withdrawn
+	address public constant TREASURY = address(uint160(uint256(keccak256("KipuBank.treasury"))));
+
+	/// @notice Operations charged a fee
+	/// @dev Swap covers every swap deposit; Withdraw covers withdraw, withdrawAsToken and delayed withdrawals
+	enum FeeOperation {
+		DepositEth,
+		DepositUsdc,
+		Swap,
+		Withdraw
+	}
+
+	/// @notice A withdrawal signed off-chain by its account (EIP-712), which anyone can submit with withdrawWithSig
+	/// @dev The funds go to the account; `fee` (same token, on top of amount) goes to the submitter's KipuBank balance
+	struct WithdrawIntent {
+		address account;
+		address token;
+		uint256 amount;
+		uint256 fee;
+		uint256 nonce;
+		uint256 deadline;
+	}
+
+	/// @notice An internal transfer signed off-chain by its account (EIP-712), which anyone can submit with transferWithSig
+	/// @dev `fee` (same token, on top of amount) goes to the submitter's KipuBank balance
+	struct TransferIntent {
+		address account;
+		address to;
+		address token;
+		uint256 amount;
+		uint256 fee;
+		uint256 nonce;
+		uint256 deadline;
+	}
+
+	/// @notice Operator permission: swap-deposit the operator's tokens into the account's balance
+	uint8 internal constant OPERATOR_DEPOSIT_FOR = 1;
+	/// @notice Operator permission: withdraw the account's balance to the account itself
+	uint8 internal constant OPERATOR_WITHDRAW_TO_OWNER = 2;
+	/// @notice Operator permission: withdraw the account's balance to any address, the account included
+	uint8 internal constant OPERATOR_WITHDRAW_ANYWHERE = 4;
+
+	/// @notice What an operator may do for an account, and until when
+	struct OperatorGrant {
+		uint8 permissions;
+		uint64 expiry;
+	}
+
+	/// @notice What the bank holds of a token against what it owes its accounts
+	/// @dev Amounts in token units (USDC for USDC); unlisted tokens have no liabilities and no cap
+	struct Reserve {
+		address token;
+		uint256 held;
+		uint256 liabilities;
+		uint256 capUsed;
+		uint256 surplus;
+	}
+
+	/// @notice State of the bank, in its own ERC-7201 namespace so that upgrades can't shift it
+	/// @dev Append new fields at the end only: reordering or removing one corrupts the state of deployed proxies
+	/// @custom:storage-location erc7201:kipubank.storage.KipuBank
+	struct KipuBankStorage {
+		uint256 etherWithdrawLimit;
+		uint256 usdcWithdrawLimit;
+		uint256 dailyWithdrawQuota;
+		uint256 oracleMaxDelay;
+		uint256 maxFeedDeviationBps;
+		AggregatorV3Interface ethUsdFeed;
+		// decimals of the feed
+		uint8 feedDecimals;
+		AggregatorV3Interface fallbackEthUsdFeed;
+		// decimals of the fallback feed
+		uint8 fallbackFeedDecimals;
+		AggregatorV3Interface sequencerUptimeFeed;
+		IUniversalRouter universalRouter;
+		IPermit2 permit2;
+		address USDC;
+		uint256 MAX_BANK_CAP_ETH;
+		uint256 MAX_BANK_CAP_USDC;
+		uint256 currentBankCapEth;
+		uint256 currentBankCapUsdc;
+		IERC4626 usdcStrategy;
+		uint256 totalUsdcShares;
+		uint256 countDeposits;
+		uint256 countWithdraws;
+		// Per-user per-token balances
+		// USDC balances are shares of the USDC pool, worth convertToUsdcAssets(shares)
+		mapping(address => mapping(address => uint256)) balances;
+		mapping(address => WithdrawLimitOverride) withdrawLimitOverrides;
+		// Per-user daily withdraw quota usage
+		mapping(address => WithdrawWindow) withdrawWindows;
+		mapping(address => AssetConfig) assets;
+		// Addresses of the listed assets
+		address[] assetList;
+		mapping(Operation => Pause) pauses;
+		mapping(address => SwapReference) swapReferences;
+		mapping(address => mapping(address => mapping(address => uint256))) allowance;
+		uint256 withdrawalDelay;
+		// Pending delayed withdrawals by id, deleted once executed or cancelled
+		// amount is in USDC for USDC, which locks `shares` pool shares (0 for other tokens)
+		mapping(uint256 => DelayedWithdrawal) delayedWithdrawals;
+		uint256 nextWithdrawalId;
+		// Ids of each account's pending delayed withdrawals
+		mapping(address => uint256[]) pendingWithdrawalIds;
+		mapping(FeeOperation => uint256) feeBps;
+		mapping(address => uint256) nonces;
+		mapping(address => mapping(address => OperatorGrant)) operatorGrants;
+		// Operators each account granted permissions to, expired ones included
+		mapping(address => address[]) operatorList;
+	}
+
+	/// @dev keccak256(abi.encode(uint256(keccak256("kipubank.storage.KipuBank")) - 1)) & ~bytes32(uint256(0xff))
+	bytes32 private constant KIPU_BANK_STORAGE_LOCATION =
+		0x859df6e00880908e3cffa795bc2a74231e18dbc03c9a3b324335eebec16c7600;
+
+	/// @notice The account running a multicall, which the bank's calls to itself act for
+	/// @dev Transient: it takes no storage slot and is cleared at the end of the transaction
+	address transient internal multicallSender;
+
+    /// =========================== EVENTS ===========================
+
+    /// @notice Event emitted when a deposit is made
+    /// @param account The address of the account making the deposit
+	/// @param token The address of the token deposited (ETH address is 0x0)
+    /// @param amount The amount of Ether deposited in wei
+    event Deposit(address indexed account, address indexed token, uint256 amount);
+
+    /// @notice Event emitted when a withdraw is made
+    /// @param account The address of the account making the withdrawal
+	/// @param token The address of the token withdrawn (ETH address is 0x0)
+    /// @param value The amount of Ether withdrawn in wei
+    event Withdraw(address indexed account, address indexed token, uint256 value);
+
+    /// @notice Emitted whenever an admin adjusts a user's internal balance.
+    event BalanceAdjusted(
+        address indexed admin,
+        address indexed account,
+		address indexed token,
+        uint256 previousBalance,
+        uint256 newBalance,
+        int256 capDelta // +X means cap increased (debited user), -X means cap decreased (credited user)
+    );
+
+    /// @notice Emitted when an arbitrary token is swapped to USDC
+    event TokenSwapped(
+        address indexed user,
+        address indexed tokenIn,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
+	/// @notice Emitted when a USDC balance is withdrawn as another token
+	/// @param user The account withdrawing
+	/// @param tokenOut The token received
+	/// @param amountIn The USDC debited from the account
+	/// @param amountOut The amount of tokenOut sent to the account
+	event TokenSwappedOut(
+		address indexed user,
+		address indexed tokenOut,
+		uint256 amountIn,
+		uint256 amountOut
+	);
+
+	/// @notice Emitted when the global withdraw limits are updated
+	/// @param manager The limits manager performing the update
+	/// @param etherLimit The new per-transaction Ether limit in wei
+	/// @param usdcLimit The new per-transaction limit in USDC
+	event WithdrawLimitsUpdated(address indexed manager, uint256 etherLimit, uint256 usdcLimit);
+
+	/// @notice Emitted when a per-user withdraw limit override is set
+	event WithdrawLimitOverrideSet(address indexed manager, address indexed account, uint256 etherLimit, uint256 usdcLimit);
+
+	/// @notice Emitted when a per-user withdraw limit override is removed
+	event WithdrawLimitOverrideCleared(address indexed manager, address indexed account);
+
+	/// @notice Emitted when an asset is added to the registry
+	/// @param admin The admin listing the asset
+	/// @param token The asset address
+	/// @param feed The Chainlink USD feed of the asset (0x0 for USD stablecoins)
+	/// @param decimals The decimals of the asset
+	/// @param maxCap The maximum bank capacity in token units
+	/// @param withdrawLimit The per-transaction withdraw limit in token units
+	event AssetListed(
+		address indexed admin,
+		address indexed token,
+		address feed,
+		uint8 decimals,
+		uint256 maxCap,
+		uint256 withdrawLimit
+	);
+
+	/// @notice Emitted when the configuration of a listed asset changes
+	event AssetUpdated(address indexed admin, address indexed token, address feed, uint256 maxCap, uint256 withdrawLimit);
+
+	/// @notice Emitted when an asset is removed from the registry
+	event AssetDelisted(address indexed admin, address indexed token);
+
+	/// @notice Emitted when the daily withdraw quota is updated
+	/// @param manager The limits manager performing the update
+	/// @param quota The new quota in USDC per DAILY_WITHDRAW_WINDOW
+	event DailyWithdrawQuotaUpdated(address indexed manager, uint256 quota);
+
+	/// @notice Emitted when the oracle configuration is updated
+	/// @param admin The admin performing the update
+	/// @param fallbackFeed The fallback ETH/USD feed (0 = none)
+	/// @param sequencerFeed The L2 sequencer uptime feed (0 = none)
+	/// @param maxDelay The staleness window in seconds
+	/// @param maxDeviationBps The max deviation between both ETH/USD feeds
+	event OracleConfigUpdated(
+		address indexed admin,
+		address fallbackFeed,
+		address sequencerFeed,
+		uint256 maxDelay,
+		uint256 maxDeviationBps
+	);
+
+	/// @notice Emitted when the swap reference of a token is set or removed
+	/// @param admin The admin performing the update
+	/// @param token The input token (ETH for native swaps)
+	/// @param feed The USD reference feed (0 = removed)
+	/// @param toleranceBps How far below the oracle-implied value a swap output may be
+	event SwapReferenceUpdated(address indexed admin, address indexed token, address feed, uint256 toleranceBps);
+
+	/// @notice Emitted when shares of the USDC pool are minted (from = 0), burned (to = 0) or moved
+	/// @param from The account giving up the shares
+	/// @param to The account receiving the shares
+	/// @param shares The amount of shares
+	event UsdcSharesTransfer(address indexed from, address indexed to, uint256 shares);
+
+	/// @notice Emitted when the USDC cap is synced with the strategy's value
+	/// @param totalAssets The USDC value of the pool
+	/// @param capDelta Change of currentBankCapUsdc (negative for a gain, positive for a loss)
+	event UsdcYieldAccrued(uint256 totalAssets, int256 capDelta);
+
+	/// @notice Emitted when the USDC pool moves to another strategy
+	/// @param admin The admin performing the update
+	/// @param strategy The new ERC-4626 strategy (0 = hold USDC idle)
+	/// @param assetsMoved The USDC moved into the new strategy (or left idle)
+	event UsdcStrategyUpdated(address indexed admin, address indexed strategy, uint256 assetsMoved);
+
+	/// @notice Emitted when a balance moves between two accounts, leaving the bank caps untouched
+	/// @param from The account debited
+	/// @param to The account credited
+	/// @param token The token moved (ETH address for ETH)
+	/// @param amount The amount moved (wei for ETH, USDC for USDC, token units for listed assets)
+	event InternalTransfer(address indexed from, address indexed to, address indexed token, uint256 amount);
+
+	/// @notice Emitted when an owner sets a spender's transferFrom allowance
+	/// @param owner The account whose balance can be moved
+	/// @param spender The account allowed to move it
+	/// @param token The token of the allowance
+	/// @param amount The new allowance
+	event InternalApproval(address indexed owner, address indexed spender, address indexed token, uint256 amount);
+
+	/// @notice Emitted when the guardian pauses an operation group
+	/// @param guardian The guardian pausing
+	/// @param operation The paused operation group
+	/// @param reason The reason code (e.g. "ORACLE", "ROUTER")
+	/// @param pausedUntil The automatic unpause timestamp, 0 if none
+	event OperationPaused(address indexed guardian, Operation indexed operation, bytes32 reason, uint256 pausedUntil);
+
+	/// @notice Emitted when the guardian unpauses an operation group
+	/// @param guardian The guardian unpausing
+	/// @param operation The unpaused operation group
+	event OperationUnpaused(address indexed guardian, Operation indexed operation);
+
+	/// @notice Emitted when an account queues a delayed withdrawal, locking the amount
+	/// @param id The id of the withdrawal
+	/// @param account The account withdrawing
+	/// @param token The token withdrawn (ETH address for ETH)
+	/// @param amount The amount locked (USDC for USDC)
+	/// @param executableAt The timestamp from which the account can execute it
+	event WithdrawalRequested(
+		uint256 indexed id,
+		address indexed account,
+		address indexed token,
+		uint256 amount,
+		uint256 executableAt
+	);
+
+	/// @notice Emitted when a delayed withdrawal is paid out
+	/// @param id The id of the withdrawal
+	/// @param account The account paid
+	/// @param token The token withdrawn (ETH address for ETH)
+	/// @param amount The amount sent to the account
+	event WithdrawalExecuted(uint256 indexed id, address indexed account, address indexed token, uint256 amount);
+
+	/// @notice Emitted when a delayed withdrawal is cancelled and its amount unlocked
+	/// @param id The id of the withdrawal
+	/// @param account The account whose balance is unlocked
+	/// @param canceller The account itself or a guardian
+	event WithdrawalCancelled(uint256 indexed id, address indexed account, address indexed canceller);
+
+	/// @notice Emitted when the delay of new withdrawal requests changes
+	/// @param manager The limits manager
+	/// @param delay The new delay in seconds
+	event WithdrawalDelayUpdated(address indexed manager, uint256 delay);
+
+	/// @notice Emitted when a fee moves from an account's balance to the treasury
+	/// @dev Follows the Deposit of a deposit (charged on the credited amount) and precedes the Withdraw of a
+	///      withdrawal (which reports the amount paid out, net of the fee)
+	/// @param account The account charged
+	/// @param token The token of the fee (ETH address for ETH)
+	/// @param operation The operation charged
+	/// @param fee The fee, in token units (USDC for USDC)
+	event FeeCharged(address indexed account, address indexed token, FeeOperation indexed operation, uint256 fee);
+
+	/// @notice Emitted when the admin changes the fee of an operation
+	/// @param admin The admin
+	/// @param operation The operation
+	/// @param bps The new fee in basis points
+	event FeeUpdated(address indexed admin, FeeOperation indexed operation, uint256 bps);
+
+	/// @notice Emitted when the treasurer withdraws accrued fees, after the treasury's Withdraw
+	/// @param treasurer The treasurer
+	/// @param to The recipient
+	/// @param token The token withdrawn (ETH address for ETH)
+	/// @param amount The amount sent
+	event TreasuryWithdrawal(address indexed treasurer, address indexed to, address indexed token, uint256 amount);
+
+	/// @notice Emitted when a signed intent is submitted, after the Withdraw or InternalTransfer it ran
+	/// @param account The account that signed the intent
+	/// @param relayer The submitter, credited with the relayer fee
+	/// @param nonce The nonce consumed
+	/// @param token The token of the intent (ETH address for ETH)
+	/// @param fee The relayer fee, 0 for none
+	event IntentRelayed(address indexed account, address indexed relayer, uint256 indexed nonce, address token, uint256 fee);
+
+	/// @notice Emitted when an account grants or updates an operator's permissions
+	/// @param account The account granting
+	/// @param operator The operator
+	/// @param permissions The permission bits granted
+	/// @param expiry The last timestamp the grant is valid at
+	event OperatorSet(address indexed account, address indexed operator, uint8 permissions, uint64 expiry);
+
+	/// @notice Emitted when an account revokes an operator
+	/// @param account The account revoking
+	/// @param operator The operator
+	event OperatorRevoked(address indexed account, address indexed operator);
+
+	/// @notice Emitted when an operator withdraws for an account, after the Withdraw
+	/// @param account The account withdrawn from
+	/// @param operator The operator
+	/// @param to The recipient of the funds
+	/// @param token The token withdrawn (ETH address for ETH)
+	/// @param amount The amount withdrawn, before the fee
+	event OperatorWithdrawal(address indexed account, address indexed operator, address indexed to, address token, uint256 amount);
+
+	/// @notice Emitted when an admin sends a token surplus nobody owns out of the bank
+	/// @param admin The admin sweeping
+	/// @param token The token swept (ETH address for ETH)
+	/// @param to The recipient
+	/// @param amount The surplus swept
+	event ExcessSwept(address indexed admin, address indexed token, address indexed to, uint256 amount);
+
+    /// =========================== ERRORS ===========================
+
+    /// @notice Invalid value transaction request
+    error InvalidValue();
+
+    /// @notice Bank capacity exceeded
+    /// @param requested The amount requested to deposit
+    /// @param available The available capacity in the bank
+    error BankCapEthExceeded(uint256 requested, uint256 available);
+
+	/// @notice Bank capacity exceeded for USDC
+	/// @param requested The amount requested to deposit
+	/// @param available The available capacity in the bank
+	error BankCapUsdcExceeded(uint256 requested, uint256 available);
+
+    /// @notice Insufficient balance for withdraw
+    /// @param requested The amount requested to withdraw
+    /// @param available The available balance of the account
+    error InsufficientBalance(uint256 requested, uint256 available);
+
+    /// @notice Withdraw limit exceeded
+    /// @param requested The value requested to withdraw
+    /// @param limit The maximum withdraw limit
+    error WithdrawLimitExceeded(uint256 requested, uint256 limit);
+
+    /// @notice Error for failed transfer
+    error TransferFailed();
+
+	/// @notice Oracle price is invalid
+	error OraclePriceInvalid();
+
+	/// @notice Oracle data is stale
+	error OracleStale(uint256 updateAt, uint256 nowTs);
+
+	/// @notice The primary and fallback ETH/USD feeds disagree by more than maxFeedDeviationBps
+	/// @param primaryPrice The primary price, scaled to 18 decimals
+	/// @param fallbackPrice The fallback price, scaled to 18 decimals
+	error OracleDeviationExceeded(uint256 primaryPrice, uint256 fallbackPrice);
+
+	/// @notice Swap output further below the oracle-implied value than the token's tolerance
+	/// @param expectedAmountOut The USDC value implied by the reference feed
+	/// @param amountOut The USDC received from the swap
+	error SwapOutputBelowOracle(uint256 expectedAmountOut, uint256 amountOut);
+
+	/// @notice The L2 sequencer is down
+	error SequencerDown();
+
+	/// @notice The L2 sequencer came back up less than SEQUENCER_GRACE_PERIOD ago
+	/// @param resumesAt The timestamp from which prices are trusted again
+	error SequencerGracePeriodNotOver(uint256 resumesAt);
+
+	/// @notice Oracle configuration value outside its sanity bound
+	/// @param value The value provided
+	/// @param maxValue The sanity bound
+	error OracleConfigOutOfBounds(uint256 value, uint256 maxValue);
+
+	/// @notice Unsupported token error
+	error UnsupportedToken(address token);
+
+    /// @notice Slippage tolerance exceeded
+    error SlippageExceeded(uint256 amountOut, uint256 minAmountOut);
+
+    /// @notice Invalid swap parameters
+    error InvalidSwapParams();
+
+	/// @notice Withdraw limit is zero or above its sanity bound
+	/// @param limit The rejected limit
+	/// @param maxLimit The maximum allowed limit
+	error WithdrawLimitOutOfBounds(uint256 limit, uint256 maxLimit);
+
+	/// @notice Bank capacity exceeded for a listed asset
+	/// @param token The asset address
+	/// @param requested The amount requested to deposit in token units
+	/// @param available The available capacity in token units
+	error BankCapTokenExceeded(address token, uint256 requested, uint256 available);
+
+	/// @notice Asset is already in the registry
+	error AssetAlreadyListed(address token);
+
+	/// @notice The bank still holds more of the asset than the operation allows
+	/// @param token The asset address
+	/// @param held The amount of the asset credited to accounts
+	error AssetStillHeld(address token, uint256 held);
+
+	/// @notice Daily withdraw quota exceeded
+	/// @param requested The USDC value requested to withdraw
+	/// @param remaining The USDC value still available in the current window
+	/// @param resetAt The timestamp at which the window expires and the quota resets
+	error DailyWithdrawQuotaExceeded(uint256 requested, uint256 remaining, uint256 resetAt);
+
+	/// @notice The EIP-2612 permit failed and the bank's allowance does not cover the deposit
+	/// @param allowance The allowance the caller granted the bank
+	/// @param amount The amount to deposit
+	error PermitAllowanceTooLow(uint256 allowance, uint256 amount);
+
+	/// @notice The operation group is paused by the guardian
+	/// @param operation The paused operation group
+	/// @param reason The reason code of the pause
+	/// @param pausedUntil The automatic unpause timestamp, 0 if none
+	error OperationIsPaused(Operation operation, bytes32 reason, uint256 pausedUntil);
+
+	/// @notice The strategy is not an ERC-4626 vault of USDC
+	/// @param strategy The rejected strategy
+	error InvalidStrategy(address strategy);
+
+	/// @notice A module passed to the bank's constructor has no code
+	/// @param module The rejected module
+	error InvalidModule(address module);
+
+	/// @notice Recipient rejected: address(0), or the bank's own or the treasury's ledger for internal transfers
+	/// @param to The rejected recipient
+	error InvalidRecipient(address to);
+
+	/// @notice The spender's allowance does not cover the transfer
+	/// @param allowance The allowance the owner granted the spender
+	/// @param amount The amount to transfer
+	error InsufficientAllowance(uint256 allowance, uint256 amount);
+
+	/// @notice The arrays of a batch call have different lengths
+	error ArrayLengthMismatch();
+
+	/// @notice No pending delayed withdrawal with this id (for the caller, when executing)
+	/// @param id The rejected id
+	error UnknownWithdrawal(uint256 id);
+
+	/// @notice The delayed withdrawal is still locked
+	/// @param id The id of the withdrawal
+	/// @param executableAt The timestamp from which it can be executed
+	error WithdrawalNotReady(uint256 id, uint256 executableAt);
+
+	/// @notice A fee above MAX_FEE_BPS
+	/// @param bps The rejected fee
+	/// @param maxBps The maximum allowed fee
+	error FeeOutOfBounds(uint256 bps, uint256 maxBps);
+
+	/// @notice The signed intent is past its deadline
+	/// @param deadline The deadline of the intent
+	error IntentExpired(uint256 deadline);
+
+	/// @notice The signed intent doesn't carry the account's current nonce (already used, or signed ahead)
+	/// @param expected The account's current nonce
+	/// @param nonce The nonce of the intent
+	error InvalidIntentNonce(uint256 expected, uint256 nonce);
+
+	/// @notice The signature isn't the account's over the intent (ECDSA, or ERC-1271 for contract accounts)
+	error InvalidSignature();
+
+	/// @notice The operator is the zero address or the account itself
+	/// @param operator The operator
+	error InvalidOperator(address operator);
+
+	/// @notice A grant with unknown permission bits or an expiry in the past
+	/// @param permissions The permission bits
+	/// @param expiry The expiry
+	error InvalidOperatorGrant(uint8 permissions, uint64 expiry);
+
+	/// @notice The caller isn't an operator of the account with these permissions, or its grant expired
+	/// @param account The account
+	/// @param operator The caller
+	/// @param permissions The permission bits needed
+	error OperatorNotAllowed(address account, address operator, uint8 permissions);
+
+	/// @notice A call of a multicall reverted
+	/// @param index The position of the call in the batch
+	/// @param reason The revert data of the call
+	error MulticallFailed(uint256 index, bytes reason);
+
+	/// @notice A second ETH deposit of a multicall tried to spend msg.value again
+	error MulticallValueReused();
+
+	/// @notice A multicall received ETH that none of its calls spent
+	/// @param value The msg.value of the multicall
+	error MulticallValueUnused(uint256 value);
+
+	/// @notice The bank holds no more of the token than it owes its accounts
+	/// @param token The token
+	error NoSurplus(address token);
+
+    /// =========================== MODIFIERS ===========================
+	modifier onlyAdminRole() {
+		_checkRole(DEFAULT_ADMIN_ROLE, _msgSender());
+		_;
+	}
+
+    modifier onlyValidValue(uint256 value) {
+        _checkValidValue(value);
+        _;
+    }
+
+	modifier whenNotPaused(Operation operation) {
+		_checkNotPaused(operation);
+		_;
+	}
+
+    /// =========================== FUNCTIONS ===========================
+
+	/// @notice Locks the contract's own storage: the bank and its modules only run on the proxy's, set by initialize
+	/// @custom:oz-upgrades-unsafe-allow constructor
+	constructor() {
+		_disableInitializers();
+	}
+
+	/// @notice USDC value of the USDC pool: the strategy's value of the bank's shares, or the USDC held for accounts
+	function totalUsdcAssets() public view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		IERC4626 strategy = $.usdcStrategy;
+		if (address(strategy) == address(0)) {
+			return $.MAX_BANK_CAP_USDC - $.currentBankCapUsdc;
+		}
+
+		return strategy.previewRedeem(strategy.balanceOf(address(this)));
+	}
+
+	/// @notice Whether an operation group is currently paused (timed pauses lift once pausedUntil is reached)
+	/// @param operation The operation group
+	function isPaused(Operation operation) public view returns (bool) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		Pause memory p = $.pauses[operation];
+		return p.paused && (p.pausedUntil == 0 || block.timestamp < p.pausedUntil);
+	}
+
+	/// @notice Withdraw limits that apply to an account (its override if enabled, the global ones otherwise)
+	/// @param account The address of the account
+	/// @return etherLimit The per-transaction Ether limit in wei
+	/// @return usdcLimit The per-transaction limit in USDC
+	function withdrawLimitsOf(address account) public view returns (uint256 etherLimit, uint256 usdcLimit) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		WithdrawLimitOverride storage o = $.withdrawLimitOverrides[account];
+		if (o.enabled) {
+			return (o.etherLimit, o.usdcLimit);
+		}
+
+		return ($.etherWithdrawLimit, $.usdcWithdrawLimit);
+	}
+
+	/// @notice USDC value an account can still withdraw in its current quota window
+	/// @param account The address of the account
+	/// @return remaining The USDC value still available
+	/// @return resetAt When the current window expires (0 if no window is open)
+	function remainingDailyWithdrawQuota(address account) public view returns (uint256 remaining, uint256 resetAt) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		WithdrawWindow memory w = $.withdrawWindows[account];
+		if (w.start == 0 || block.timestamp >= w.start + DAILY_WITHDRAW_WINDOW) {
+			return ($.dailyWithdrawQuota, 0);
+		}
+
+		resetAt = w.start + DAILY_WITHDRAW_WINDOW;
+		remaining = w.usedUsdc >= $.dailyWithdrawQuota ? 0 : $.dailyWithdrawQuota - w.usedUsdc;
+	}
+
+	/// ========================== INTERNAL FUNCTIONS ===========================
+
+	/// @notice Internal function to get the bank's state, wherever the proxy keeps it
+	function _getKipuBankStorage() internal pure returns (KipuBankStorage storage $) {
+		assembly {
+			$.slot := KIPU_BANK_STORAGE_LOCATION
+		}
+	}
+
+	/// @notice Internal function to revert on a zero amount
+	/// @param value The amount
+	function _checkValidValue(uint256 value) internal pure {
+		if (value == 0) {
+			revert InvalidValue();
+		}
+	}
+
+	/// @notice The account a call acts for: its caller, or the account running the multicall when the bank calls itself
+	/// @dev multicall runs each call as a call from the bank to itself, so that only its ETH deposit receives msg.value
+	function _msgSender() internal view override returns (address) {
+		if (msg.sender == address(this) && multicallSender != address(0)) {
+			return multicallSender;
+		}
+		return msg.sender;
+	}
+
+	/// @notice Internal function to revert while an operation group is paused
+	/// @param operation The operation group
+	function _checkNotPaused(Operation operation) internal view {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (isPaused(operation)) {
+			Pause memory p = $.pauses[operation];
+			revert OperationIsPaused(operation, p.reason, p.pausedUntil);
+		}
+	}
+
+	/// @notice Internal function to charge a withdrawal against the account's daily quota
+	/// @param account The address of the account withdrawing
+	/// @param usdcAmount The USDC value of the withdrawal
+	function _consumeDailyQuota(address account, uint256 usdcAmount) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		(uint256 remaining, uint256 resetAt) = remainingDailyWithdrawQuota(account);
+		if (usdcAmount > remaining) {
+			revert DailyWithdrawQuotaExceeded({
+				requested: usdcAmount,
+				remaining: remaining,
+				resetAt: resetAt
+			});
+		}
+
+		WithdrawWindow storage w = $.withdrawWindows[account];
+		if (resetAt == 0) {
+			w.start = uint64(block.timestamp);
+			w.usedUsdc = uint192(usdcAmount);
+		} else {
+			w.usedUsdc += uint192(usdcAmount);
+		}
+	}
+
+	/// @notice Internal function to check a withdrawal against the account's limits, then charge it to its daily quota
+	/// @param account The address of the account withdrawing
+	/// @param token The token withdrawn (ETH address for ETH), supported
+	/// @param value The amount withdrawn, before the fee
+	function _checkWithdrawalAllowed(address account, address token, uint256 value) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		(uint256 etherLimit, uint256 usdcLimit) = withdrawLimitsOf(account);
+
+		if (token == ETH && value > etherLimit) {
+			revert WithdrawLimitExceeded({
+				requested: value,
+				limit: etherLimit
+			});
+		}
+
+		if (token != ETH && token != $.USDC && value > $.assets[token].withdrawLimit) {
+			revert WithdrawLimitExceeded({
+				requested: value,
+				limit: $.assets[token].withdrawLimit
+			});
+		}
+
+		uint256 usdcAmount = _toUsdc(token, value);
+		if (usdcAmount > usdcLimit) {
+			revert WithdrawLimitExceeded({
+				requested: usdcAmount,
+				limit: usdcLimit
+			});
+		}
+		_consumeDailyQuota(account, usdcAmount);
+	}
+
+	/// @notice Internal function to pay out part of an account's balance, within the account's limits and quota
+	/// @dev The limits apply to the requested amount; the Withdraw fee stays in the bank and the rest is paid out
+	/// @param account The account withdrawing
+	/// @param to The recipient of the funds (the account itself unless an operator withdraws elsewhere)
+	/// @param token The token to withdraw (ETH address for ETH)
+	/// @param value The amount to withdraw, before the fee
+	function _withdraw(address account, address to, address token, uint256 value) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		bool isAsset = token != ETH && token != $.USDC;
+		if (isAsset && !$.assets[token].listed) {
+			revert UnsupportedToken(token);
+		}
+
+		uint256 bal = token == $.USDC ? _usdcBalanceOf(account) : $.balances[account][token];
+
+		if (value > bal) {
+			revert InsufficientBalance({
+				requested: value,
+				available: bal
+			});
+		}
+
+		_checkWithdrawalAllowed(account, token, value);
+
+		if (token == $.USDC) {
+			_accrueUsdcYield();
+		}
+		value -= _chargeFee(FeeOperation.Withdraw, account, account, token, value);
+
+		if (token == ETH) {
+			$.balances[account][ETH] -= value;
+			$.currentBankCapEth += value;
+		} else if (isAsset) {
+			$.balances[account][token] -= value;
+			$.assets[token].currentCap += value;
+		} else {
+			_burnUsdcShares(account, value);
+			$.currentBankCapUsdc += _stableToUsdc($.USDC, value);
+		}
+		$.countWithdraws += 1;
+
+		if (token == ETH) {
+			(bool success, ) = to.call{value: value}("");
+			if (!success) {
+				revert TransferFailed();
+			}
+		} else {
+			IERC20(token).safeTransfer(to, value);
+		}
+
+		emit Withdraw(account, token, value);
+	}
+
+	/// @notice Internal function to credit an account with USDC already received by the bank, then charge its fee
+	/// @param account The account credited
+	/// @param amount The amount of USDC in token units
+	/// @param operation The operation charged, DepositUsdc or Swap
+	function _creditUsdc(address account, uint256 amount, FeeOperation operation) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		_accrueUsdcYield();
+		// usdc has 6 decimals. If it has more, convert to 6 decimals
+		uint256 usdc = _stableToUsdc($.USDC, amount);
+		if (usdc > $.currentBankCapUsdc) {
+			revert BankCapUsdcExceeded({
+				requested: usdc,
+				available: $.currentBankCapUsdc
+			});
+		}
+
+		_mintUsdcShares(account, amount);
+		$.currentBankCapUsdc -= usdc;
+		$.countDeposits += 1;
+
+		emit Deposit(account, $.USDC, amount);
+		_chargeFee(operation, account, account, $.USDC, amount);
+	}
+
+	/// @notice Internal function to credit an account with the USDC output of a swap deposit
+	/// @param account The account credited
+	/// @param tokenIn The token that was swapped (ETH for native input)
+	/// @param amountIn The amount of tokenIn swapped
+	/// @param usdcReceived The USDC received from the swap
+	function _creditSwappedUsdc(address account, address tokenIn, uint256 amountIn, uint256 usdcReceived) internal {
+		emit TokenSwapped(account, tokenIn, amountIn, usdcReceived);
+		_creditUsdc(account, usdcReceived, FeeOperation.Swap);
+	}
+
+	/// @notice Internal function to convert a token amount to USD with 6 decimals
+	/// @param token The address of the token (ETH, USDC or a listed asset)
+	/// @param amount The amount in token units
+    function _toUsdc(address token, uint256 amount) internal view returns (uint256) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        if (token == ETH) {
+			_checkSequencer();
+			(uint256 price, uint8 decimals) = _ethUsdPrice();
+			return _priceToUsdc(price, decimals, amount, 18);
+		}
+		if (token == $.USDC) {
+			return _stableToUsdc($.USDC, amount);
+		}
+
+		AssetConfig storage asset = $.assets[token];
+		if (!asset.listed) {
+			revert UnsupportedToken(token);
+		}
+		if (address(asset.feed) == address(0)) {
+			return _stableToUsdc(token, amount);
+		}
+
+		_checkSequencer();
+		return _priceToUsdc(_latestPrice(asset.feed), asset.feedDecimals, amount, asset.decimals);
+    }
+
+	/// @notice Internal function to revert while the L2 sequencer is down or in its grace period
+	function _checkSequencer() internal view {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		AggregatorV3Interface sequencer = $.sequencerUptimeFeed;
+		if (address(sequencer) == address(0)) {
+			return;
+		}
+
+		// answer 0 = up, 1 = down; startedAt is when the status last changed (0 for an invalid round)
+		(, int256 answer, uint256 startedAt, , ) = sequencer.latestRoundData();
+		if (answer != 0 || startedAt == 0) {
+			revert SequencerDown();
+		}
+		if (block.timestamp - startedAt <= SEQUENCER_GRACE_PERIOD) {
+			revert SequencerGracePeriodNotOver(startedAt + SEQUENCER_GRACE_PERIOD);
+		}
+	}
+
+	/// @notice Internal function to read the decimals of an ETH/USD feed when it is configured
+	/// @dev Both ETH/USD prices are scaled up to 18 decimals to be compared, so feeds with more are rejected
+	/// @param feed The primary or fallback ETH/USD feed
+	function _ethFeedDecimals(AggregatorV3Interface feed) internal view returns (uint8 decimals) {
+		decimals = feed.decimals();
+		if (decimals > 18) {
+			revert OracleConfigOutOfBounds(decimals, 18);
+		}
+	}
+
+	/// @notice Internal function to get the ETH/USD price, from the fallback feed when the primary one fails
+	/// @dev When both feeds answer, they must agree within maxFeedDeviationBps
+	/// @return price The price
+	/// @return decimals The decimals of the feed the price comes from
+	function _ethUsdPrice() internal view returns (uint256 price, uint8 decimals) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		AggregatorV3Interface fallbackFeed = $.fallbackEthUsdFeed;
+		if (address(fallbackFeed) == address(0)) {
+			return (_latestPrice($.ethUsdFeed), $.feedDecimals);
+		}
+
+		(uint256 primary, uint256 primaryAt) = _readFeed($.ethUsdFeed);
+		(uint256 secondary, uint256 secondaryAt) = _readFeed(fallbackFeed);
+		bool primaryOk = primary != 0 && block.timestamp - primaryAt <= $.oracleMaxDelay;
+		bool secondaryOk = secondary != 0 && block.timestamp - secondaryAt <= $.oracleMaxDelay;
+
+		if (!primaryOk) {
+			if (!secondaryOk) {
+				// reverts with the primary feed's error
+				_latestPrice($.ethUsdFeed);
+			}
+			return (secondary, $.fallbackFeedDecimals);
+		}
+
+		if (secondaryOk) {
+			uint256 a = primary * 10 ** (18 - $.feedDecimals);
+			uint256 b = secondary * 10 ** (18 - $.fallbackFeedDecimals);
+			uint256 diff = a > b ? a - b : b - a;
+			if (diff * 10_000 > a * $.maxFeedDeviationBps) {
+				revert OracleDeviationExceeded({primaryPrice: a, fallbackPrice: b});
+			}
+		}
+
+		return (primary, $.feedDecimals);
+	}
+
+	/// @notice Internal function to get a fresh and valid price from a Chainlink feed
+	/// @param feed The Chainlink feed
+	function _latestPrice(AggregatorV3Interface feed) internal view returns (uint256 price) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint256 updatedAt;
+		(price, updatedAt) = _readFeed(feed);
+		if (price == 0) {
+			revert OraclePriceInvalid();
+		}
+		if (block.timestamp - updatedAt > $.oracleMaxDelay) {
+			revert OracleStale({
+				updateAt: updatedAt,
+				nowTs: block.timestamp
+			});
+		}
+	}
+
+	/// @notice Internal function to read the latest answer of a Chainlink feed without reverting
+	/// @dev price is 0 when the feed reverts, answers a non-positive price or an incomplete round
+	///      (answeredInRound behind roundId, or updatedAt 0)
+	/// @param feed The Chainlink feed
+	function _readFeed(AggregatorV3Interface feed) internal view returns (uint256 price, uint256 updatedAt) {
+		try feed.latestRoundData() returns (
+			uint80 roundId,
+			int256 answer,
+			uint256,
+			uint256 _updatedAt,
+			uint80 answeredInRound
+		) {
+			if (answer > 0 && _updatedAt != 0 && answeredInRound >= roundId) {
+				return (uint256(answer), _updatedAt);
+			}
+		} catch {}
+	}
+
+	/// @notice Internal function to convert a token amount to USDC amount using a Chainlink USD price
+	/// @param price The USD price of one token
+	/// @param _feedDecimals The decimals of the price
+	/// @param amount The amount in token units to convert
+	/// @param tokenDecimals The decimals of the token
+	function _priceToUsdc(
+		uint256 price,
+		uint8 _feedDecimals,
+		uint256 amount,
+		uint8 tokenDecimals
+	) internal pure returns (uint256 usdc) {
+		uint256 scaledPrice = price * 1e6;
+		uint256 denom = (10 ** uint256(_feedDecimals)) * (10 ** uint256(tokenDecimals));
+
+		usdc = Math.mulDiv(amount, scaledPrice, denom);
+	}
+
+	/// @notice Internal function to convert stablecoin amount to USDC amount
+	/// @param token The address of the stablecoin token
+	/// @param amount The amount of stablecoin to convert
+	function _stableToUsdc(address token, uint256 amount) internal view returns (uint256 usdc) {
+		uint8 d = IERC20Metadata(token).decimals();
+		if (d == 6) {
+			return amount;
+		} else if (d > 6) {
+			return amount / (10 ** (d - 6));
+		}
+
+		return amount * (10 ** (6 - d));
+	}
+
+	/// @notice Internal function to compare what the bank holds of a token with its liabilities and cap counter
+	/// @dev Liabilities are the balances of every account, the treasury and the locked delayed withdrawals included,
+	///      which the cap counters track. USDC is owed what the pool is worth (totalUsdcAssets), which runs ahead of
+	///      the cap counter by the strategy's yield not accrued yet
+	/// @param token The token (ETH address for ETH)
+	function _reserveOf(address token) internal view returns (Reserve memory r) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		r.token = token;
+		if (token == ETH) {
+			r.held = address(this).balance;
+			r.capUsed = $.MAX_BANK_CAP_ETH - $.currentBankCapEth;
+			r.liabilities = r.capUsed;
+		} else if (token == $.USDC) {
+			IERC4626 strategy = $.usdcStrategy;
+			r.held = IERC20($.USDC).balanceOf(address(this));
+			if (address(strategy) != address(0)) {
+				r.held += strategy.previewRedeem(strategy.balanceOf(address(this)));
+			}
+			r.capUsed = $.MAX_BANK_CAP_USDC - $.currentBankCapUsdc;
+			r.liabilities = totalUsdcAssets();
+		} else {
+			AssetConfig storage asset = $.assets[token];
+			r.held = IERC20(token).balanceOf(address(this));
+			r.capUsed = asset.maxCap - asset.currentCap;
+			r.liabilities = r.capUsed;
+		}
+
+		if (r.held > r.liabilities) {
+			r.surplus = r.held - r.liabilities;
+		}
+	}
+
+	/// @notice Internal function to get the USDC value of an account's shares of the USDC pool
+	/// @param account The address of the account
+	function _usdcBalanceOf(address account) internal view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return _convertToUsdcAssets($.balances[account][$.USDC], Math.Rounding.Floor);
+	}
+
+	/// @notice Internal function to convert USDC to shares of the USDC pool, ERC-4626 style
+	/// @dev The virtual share and asset keep the first deposit 1:1 and make donations unprofitable
+	/// @param amount The USDC amount
+	/// @param rounding Floor when minting, Ceil when burning
+	function _convertToUsdcShares(uint256 amount, Math.Rounding rounding) internal view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return amount.mulDiv($.totalUsdcShares + 1, totalUsdcAssets() + 1, rounding);
+	}
+
+	/// @notice Internal function to convert shares of the USDC pool to USDC
+	/// @param shares The amount of shares
+	/// @param rounding Floor when paying out
+	function _convertToUsdcAssets(uint256 shares, Math.Rounding rounding) internal view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		return shares.mulDiv(totalUsdcAssets() + 1, $.totalUsdcShares + 1, rounding);
+	}
+
+	/// @notice Internal function to move the USDC cap by the strategy's gain or loss since the last sync
+	/// @dev Keeps MAX_BANK_CAP_USDC - currentBankCapUsdc equal to totalUsdcAssets (the cap floors at 0)
+	function _accrueUsdcYield() internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (address($.usdcStrategy) == address(0)) {
+			return;
+		}
+
+		uint256 poolAssets = totalUsdcAssets();
+		uint256 newCap = poolAssets >= $.MAX_BANK_CAP_USDC ? 0 : $.MAX_BANK_CAP_USDC - poolAssets;
+		if (newCap != $.currentBankCapUsdc) {
+			int256 capDelta = int256(newCap) - int256($.currentBankCapUsdc);
+			$.currentBankCapUsdc = newCap;
+			emit UsdcYieldAccrued(poolAssets, capDelta);
+		}
+	}
+
+	/// @notice Internal function to mint shares of the USDC pool for USDC the bank received
+	/// @dev Call before taking the amount out of currentBankCapUsdc, which prices the pool without a strategy
+	/// @param account The account credited
+	/// @param amount The USDC amount, invested in the strategy if there is one
+	function _mintUsdcShares(address account, uint256 amount) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint256 shares = _convertToUsdcShares(amount, Math.Rounding.Floor);
+		$.balances[account][$.USDC] += shares;
+		$.totalUsdcShares += shares;
+
+		IERC4626 strategy = $.usdcStrategy;
+		if (address(strategy) != address(0)) {
+			IERC20($.USDC).forceApprove(address(strategy), amount);
+			strategy.deposit(amount, address(this));
+		}
+
+		emit UsdcSharesTransfer(address(0), account, shares);
+	}
+
+	/// @notice Internal function to burn the shares of the USDC pool worth `amount`, making the USDC available
+	/// @dev Callers check amount against _usdcBalanceOf, and call it before adding the amount back to the cap
+	/// @param account The account debited
+	/// @param amount The USDC amount, withdrawn from the strategy if there is one
+	function _burnUsdcShares(address account, uint256 amount) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		uint256 shares = _convertToUsdcShares(amount, Math.Rounding.Ceil);
+		$.balances[account][$.USDC] -= shares;
+		$.totalUsdcShares -= shares;
+
+		IERC4626 strategy = $.usdcStrategy;
+		if (address(strategy) != address(0)) {
+			strategy.withdraw(amount, address(this), address(this));
+		}
+
+		emit UsdcSharesTransfer(account, address(0), shares);
+	}
+
+	/// @notice Internal function to move USDC pool shares between two ledger accounts
+	/// @param from The account debited
+	/// @param to The account credited
+	/// @param shares The shares to move
+	function _moveUsdcShares(address from, address to, uint256 shares) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		$.balances[from][$.USDC] -= shares;
+		$.balances[to][$.USDC] += shares;
+		emit UsdcSharesTransfer(from, to, shares);
+	}
+
+	/// @notice Internal function to compute the fee an account pays on an operation, rounded down
+	/// @param operation The operation charged
+	/// @param account The account charged, exempt with FEE_EXEMPT_ROLE
+	/// @param amount The amount the fee applies to
+	function _feeOf(FeeOperation operation, address account, uint256 amount) internal view returns (uint256) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (hasRole(FEE_EXEMPT_ROLE, account)) {
+			return 0;
+		}
+
+		return amount * $.feeBps[operation] / 10_000;
+	}
+
+	/// @notice Internal function to move the fee on an amount from a ledger account to the treasury
+	/// @dev The caps don't move: the fee stays in the bank. Deposits charge after crediting the amount and taking
+	///      it out of the cap; withdrawals charge first, then pay out and free the cap by the rest
+	/// @param operation The operation charged
+	/// @param account The account charged
+	/// @param from The ledger account holding the amount (the account, or the bank for delayed withdrawals)
+	/// @param token The token (ETH address for ETH)
+	/// @param amount The amount the fee applies to (USDC for USDC)
+	/// @return fee The fee charged
+	function _chargeFee(FeeOperation operation, address account, address from, address token, uint256 amount) internal returns (uint256 fee) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		fee = _feeOf(operation, account, amount);
+		if (fee == 0) {
+			return 0;
+		}
+
+		if (token == $.USDC) {
+			// rounded down, so the fee shares and the ceil-rounded shares burned for the rest never exceed the amount's
+			_moveUsdcShares(from, TREASURY, _convertToUsdcShares(fee, Math.Rounding.Floor));
+		} else {
+			$.balances[from][token] -= fee;
+			$.balances[TREASURY][token] += fee;
+		}
+
+		emit FeeCharged(account, token, operation, fee);
+	}
+
+	/// @notice Swap exact USDC input for tokenOut using a single Uniswap V4 pool
+	/// @param tokenOut The output token address
+	/// @param usdcAmount The exact amount of USDC to swap
+	/// @param poolKey The Uniswap V4 pool key pairing USDC with tokenOut
+	/// @param minAmountOut Minimum amount of tokenOut to receive (slippage protection)
+	/// @return amountOut The amount of tokenOut received
+	function _swapUsdcForToken(
+		address tokenOut,
+		uint256 usdcAmount,
+		PoolKey calldata poolKey,
+		uint256 minAmountOut
+	) internal returns (uint256 amountOut) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		bool validPool = (
+			(Currency.unwrap(poolKey.currency0) == $.USDC && Currency.unwrap(poolKey.currency1) == tokenOut) ||
+			(Currency.unwrap(poolKey.currency0) == tokenOut && Currency.unwrap(poolKey.currency1) == $.USDC)
+		);
+		if (!validPool) revert InvalidSwapParams();
+
+		IERC20($.USDC).safeIncreaseAllowance(address($.universalRouter), usdcAmount);
+		bool zeroForOne = Currency.unwrap(poolKey.currency0) == $.USDC;
+
+		bytes memory swapInput = abi.encode(address(this), usdcAmount, minAmountOut, poolKey, zeroForOne);
+		return _executeSwap(0, swapInput, tokenOut, minAmountOut);
+	}
+
+    /// @notice Swap exact input amount of tokenIn for USDC using Uniswap V4
+    /// @param tokenIn The input token address
+    /// @param amountIn The exact amount of input token to swap
+    /// @param poolKey The Uniswap V4 pool key
+    /// @param minAmountOut Minimum amount of USDC to receive (slippage protection)
+    /// @return amountOut The amount of USDC received
+    function _swapExactInputSingle(
+        address tokenIn,
+        uint256 amountIn,
+        PoolKey calldata poolKey,
+        uint256 minAmountOut
+    ) internal returns (uint256 amountOut) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        if (amountIn == 0) revert InvalidValue();
+        if (tokenIn == address(0)) revert InvalidSwapParams();
+
+        bool validPool = (
+            (Currency.unwrap(poolKey.currency0) == tokenIn && Currency.unwrap(poolKey.currency1) == $.USDC) ||
+            (Currency.unwrap(poolKey.currency0) == $.USDC && Currency.unwrap(poolKey.currency1) == tokenIn)
+        );
+        if (!validPool) revert InvalidSwapParams();
+        IERC20(tokenIn).safeIncreaseAllowance(address($.universalRouter), amountIn);
+        bool zeroForOne = Currency.unwrap(poolKey.currency0) == tokenIn;
+
+        bytes memory swapInput = abi.encode(address(this), amountIn, minAmountOut, poolKey, zeroForOne);
+        amountOut = _executeSwap(0, swapInput, $.USDC, minAmountOut);
+        _checkSwapReference(tokenIn, amountIn, amountOut);
+    }
+
+	/// @notice Internal function to reject a swap output too far below the token's reference price
+	/// @dev Complements the caller's minAmountOut, which may be as low as 1; no-op without a reference
+	/// @param tokenIn The input token (ETH for native swaps)
+	/// @param amountIn The amount of tokenIn swapped
+	/// @param amountOut The USDC received
+	function _checkSwapReference(address tokenIn, uint256 amountIn, uint256 amountOut) internal view {
+		(uint256 expectedAmountOut, uint256 minAmountOut) = _previewSwapOutput(tokenIn, amountIn);
+		if (amountOut < minAmountOut) {
+			revert SwapOutputBelowOracle({expectedAmountOut: expectedAmountOut, amountOut: amountOut});
+		}
+	}
+
+	/// @notice Internal function returning the oracle-implied USDC output of a swap deposit
+	/// @dev Returns zeros when `tokenIn` has no swap reference
+	/// @param tokenIn The input token (ETH for native swaps)
+	/// @param amountIn The amount of tokenIn to swap
+	/// @return expectedAmountOut The USDC value of amountIn at the reference price
+	/// @return minAmountOut The lowest output the bank accepts (expectedAmountOut minus the tolerance)
+	function _previewSwapOutput(
+		address tokenIn,
+		uint256 amountIn
+	) internal view returns (uint256 expectedAmountOut, uint256 minAmountOut) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		SwapReference memory ref = $.swapReferences[tokenIn];
+		if (address(ref.feed) == address(0)) {
+			return (0, 0);
+		}
+
+		_checkSequencer();
+		expectedAmountOut = _priceToUsdc(_latestPrice(ref.feed), ref.feedDecimals, amountIn, ref.tokenDecimals);
+		minAmountOut = expectedAmountOut * (10_000 - ref.toleranceBps) / 10_000;
+	}
+
+	/// @notice Run a V4_SWAP command through the Universal Router
+	/// @param value The ETH sent with the router call (native input only)
+	/// @param swapInput The encoded V4_SWAP input
+	/// @param tokenOut The token the swap pays out to the bank
+	/// @param minAmountOut Minimum amount of tokenOut to receive (slippage protection)
+	/// @return amountOut The amount of tokenOut received
+	function _executeSwap(
+		uint256 value,
+		bytes memory swapInput,
+		address tokenOut,
+		uint256 minAmountOut
+	) internal returns (uint256 amountOut) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        uint256 balanceBefore = IERC20(tokenOut).balanceOf(address(this));
+        bytes memory commands = abi.encodePacked(uint8(Commands.V4_SWAP));
+
+        bytes[] memory inputs = new bytes[](1);
+        inputs[0] = swapInput;
+        uint256 deadline = block.timestamp + MAX_SWAP_DEADLINE;
+        $.universalRouter.execute{value: value}(commands, inputs, deadline);
+        amountOut = IERC20(tokenOut).balanceOf(address(this)) - balanceBefore;
+
+        if (amountOut < minAmountOut) {
+            revert SlippageExceeded(amountOut, minAmountOut);
+        }
+
+        return amountOut;
+    }
+}
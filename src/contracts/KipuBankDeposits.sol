@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./KipuBankBase.sol";
+
+/// @title KipuBank deposits module
+/// @notice Permit and swap deposits of KipuBank, kept out of the bank for its code size limit
+/// @dev Deployed before the KipuBank implementation, which delegatecalls into it so these functions run on the bank's storage.
+///      Its own storage is never initialized, so called directly every deposit reverts on its zero caps.
+contract KipuBankDeposits is KipuBankBase {
+	using SafeCast for uint256;
+	using SafeERC20 for IERC20;
+
+    /// =========================== FUNCTIONS ===========================
+
+
+	/// @notice Deposit USDC in a single transaction, approving the bank with an EIP-2612 permit
+	/// @dev A permit sent to the mempool can be front-run by submitting it directly to USDC: the
+	///      permit call then reverts on the used nonce, but the allowance is already in place
+	/// @param amount The amount of USDC to deposit, also the permitted allowance
+	/// @param deadline The permit deadline
+	/// @param v The signature recovery id
+	/// @param r The signature r value
+	/// @param s The signature s value
+	function depositUsdcWithPermit(
+		uint256 amount,
+		uint256 deadline,
+		uint8 v,
+		bytes32 r,
+		bytes32 s
+	) external whenNotPaused(Operation.Deposits) onlyValidValue(amount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		try IERC20Permit($.USDC).permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {
+			uint256 allowance = IERC20($.USDC).allowance(_msgSender(), address(this));
+			if (allowance < amount) {
+				revert PermitAllowanceTooLow({allowance: allowance, amount: amount});
+			}
+		}
+
+		IERC20($.USDC).safeTransferFrom(_msgSender(), address(this), amount);
+		_creditUsdc(_msgSender(), amount, FeeOperation.DepositUsdc);
+	}
+
+	/// @notice Deposit USDC in a single transaction, pulled through Permit2 with a signed permit
+	/// @param amount The amount of USDC to deposit (at most the permitted amount)
+	/// @param permit The Permit2 SignatureTransfer permit for USDC, with this contract as spender
+	/// @param signature The caller's EIP-712 signature of the permit
+	function depositUsdcWithPermit2(
+		uint256 amount,
+		IPermit2.PermitTransferFrom calldata permit,
+		bytes calldata signature
+	) external nonReentrant whenNotPaused(Operation.Deposits) onlyValidValue(amount) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (permit.permitted.token != $.USDC) {
+			revert UnsupportedToken(permit.permitted.token);
+		}
+
+		_pullWithPermit(amount, permit, signature);
+		_creditUsdc(_msgSender(), amount, FeeOperation.DepositUsdc);
+	}
+
+    /// @notice Deposit any ERC20 token supported by Uniswap V4, swap to USDC, and credit user balance
+    /// @param tokenIn The address of the token to deposit
+    /// @param amountIn The amount of tokenIn to deposit
+    /// @param poolKey The Uniswap V4 pool key for swapping tokenIn to USDC
+    /// @param minAmountOut Minimum USDC to receive (slippage protection)
+    function depositArbitraryToken(
+        address tokenIn,
+        uint256 amountIn,
+        PoolKey calldata poolKey,
+        uint256 minAmountOut
+    ) external nonReentrant whenNotPaused(Operation.Deposits) whenNotPaused(Operation.Swaps) onlyValidValue(amountIn) {
+        KipuBankStorage storage $ = _getKipuBankStorage();
+        if (tokenIn == ETH || tokenIn == address(0)) {
+            revert UnsupportedToken(tokenIn);
+        }
+        if (tokenIn == $.USDC) {
+            revert UnsupportedToken(tokenIn);
+        }
+
+        IERC20(tokenIn).safeTransferFrom(_msgSender(), address(this), amountIn);
+        uint256 usdcReceived = _swapExactInputSingle(tokenIn, amountIn, poolKey, minAmountOut);
+        _creditSwappedUsdc(_msgSender(), tokenIn, amountIn, usdcReceived);
+    }
+
+	/// @notice Same as depositArbitraryToken, pulling the token through Permit2 with a signed permit
+	/// @param amountIn The amount of the permitted token to deposit (at most the permitted amount)
+	/// @param poolKey The Uniswap V4 pool key for swapping the token to USDC
+	/// @param minAmountOut Minimum USDC to receive (slippage protection)
+	/// @param permit The Permit2 SignatureTransfer permit for the token, with this contract as spender
+	/// @param signature The caller's EIP-712 signature of the permit
+	function depositArbitraryTokenWithPermit(
+		uint256 amountIn,
+		PoolKey calldata poolKey,
+		uint256 minAmountOut,
+		IPermit2.PermitTransferFrom calldata permit,
+		bytes calldata signature
+	) external nonReentrant whenNotPaused(Operation.Deposits) whenNotPaused(Operation.Swaps) onlyValidValue(amountIn) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		address tokenIn = permit.permitted.token;
+		if (tokenIn == ETH || tokenIn == address(0) || tokenIn == $.USDC) {
+			revert UnsupportedToken(tokenIn);
+		}
+
+		_pullWithPermit(amountIn, permit, signature);
+		uint256 usdcReceived = _swapExactInputSingle(tokenIn, amountIn, poolKey, minAmountOut);
+		_creditSwappedUsdc(_msgSender(), tokenIn, amountIn, usdcReceived);
+	}
+
+	/// @notice Deposit an ERC20 token without a direct USDC pool, swap it to USDC along a path of pools
+	/// @param tokenIn The address of the token to deposit
+	/// @param amountIn The amount of tokenIn to deposit
+	/// @param path The Uniswap V4 pools to swap through, starting with a pool of tokenIn and ending with a pool of USDC
+	/// @param minAmountOut Minimum USDC to receive at the end of the path (slippage protection)
+	function depositArbitraryTokenMultiHop(
+		address tokenIn,
+		uint256 amountIn,
+		PoolKey[] calldata path,
+		uint256 minAmountOut
+	) external nonReentrant whenNotPaused(Operation.Deposits) whenNotPaused(Operation.Swaps) onlyValidValue(amountIn) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (tokenIn == ETH || tokenIn == address(0) || tokenIn == $.USDC) {
+			revert UnsupportedToken(tokenIn);
+		}
+
+		IERC20(tokenIn).safeTransferFrom(_msgSender(), address(this), amountIn);
+		uint256 usdcReceived = _swapExactInputMultiHop(tokenIn, amountIn, path, minAmountOut);
+		_creditSwappedUsdc(_msgSender(), tokenIn, amountIn, usdcReceived);
+	}
+
+	/// @notice Deposit ETH, swap it to USDC through a native Uniswap V4 pool, and credit user balance
+	/// @param poolKey The Uniswap V4 pool key, with native ETH (0x0) as currency0 and USDC as currency1
+	/// @param minAmountOut Minimum USDC to receive (slippage protection)
+	function depositEthAsUsdc(
+		PoolKey calldata poolKey,
+		uint256 minAmountOut
+	) external payable nonReentrant whenNotPaused(Operation.Deposits) whenNotPaused(Operation.Swaps) onlyValidValue(msg.value) {
+		uint256 usdcReceived = _swapExactInputNative(msg.value, poolKey, minAmountOut);
+		_creditSwappedUsdc(_msgSender(), ETH, msg.value, usdcReceived);
+	}
+
+	/// ========================== INTERNAL FUNCTIONS ===========================
+
+	/// @notice Internal function to pull the caller's tokens into the bank through a Permit2 signature
+	/// @param amount The amount to transfer
+	/// @param permit The signed Permit2 permit
+	/// @param signature The caller's EIP-712 signature of the permit
+	function _pullWithPermit(
+		uint256 amount,
+		IPermit2.PermitTransferFrom calldata permit,
+		bytes calldata signature
+	) internal {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		$.permit2.permitTransferFrom(
+			permit,
+			IPermit2.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+			_msgSender(),
+			signature
+		);
+	}
+
+	/// @notice Swap exact input amount of tokenIn for USDC along a path of Uniswap V4 pools
+	/// @param tokenIn The input token address
+	/// @param amountIn The exact amount of input token to swap
+	/// @param path The pools to swap through; each must contain the previous hop's output, the last one USDC
+	/// @param minAmountOut Minimum amount of USDC to receive at the end of the path (slippage protection)
+	/// @return amountOut The amount of USDC received
+	function _swapExactInputMultiHop(
+		address tokenIn,
+		uint256 amountIn,
+		PoolKey[] calldata path,
+		uint256 minAmountOut
+	) internal returns (uint256 amountOut) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (path.length == 0 || path.length > MAX_SWAP_HOPS) revert InvalidSwapParams();
+
+		PathKey[] memory pathKeys = new PathKey[](path.length);
+		address current = tokenIn;
+		for (uint256 i = 0; i < path.length; i++) {
+			address currency0 = Currency.unwrap(path[i].currency0);
+			address currency1 = Currency.unwrap(path[i].currency1);
+
+			address next;
+			if (currency0 == current) {
+				next = currency1;
+			} else if (currency1 == current) {
+				next = currency0;
+			} else {
+				revert InvalidSwapParams();
+			}
+			// USDC must be the final output, not an intermediate hop
+			if (next == $.USDC && i != path.length - 1) revert InvalidSwapParams();
+
+			pathKeys[i] = PathKey({
+				intermediateCurrency: Currency.wrap(next),
+				fee: path[i].fee,
+				tickSpacing: path[i].tickSpacing,
+				hooks: path[i].hooks,
+				hookData: ""
+			});
+			current = next;
+		}
+		if (current != $.USDC) revert InvalidSwapParams();
+
+		IERC20(tokenIn).safeIncreaseAllowance(address($.universalRouter), amountIn);
+
+		// the swap, then paying tokenIn to the pool manager and taking the USDC out of it
+		bytes memory actions = abi.encodePacked(uint8(Actions.SWAP_EXACT_IN), uint8(Actions.SETTLE_ALL), uint8(Actions.TAKE_ALL));
+		bytes[] memory params = new bytes[](3);
+		params[0] = abi.encode(ExactInputParams({
+			currencyIn: Currency.wrap(tokenIn),
+			path: pathKeys,
+			amountIn: amountIn.toUint128(),
+			amountOutMinimum: minAmountOut.toUint128()
+		}));
+		params[1] = abi.encode(Currency.wrap(tokenIn), amountIn);
+		params[2] = abi.encode(Currency.wrap($.USDC), minAmountOut);
+		bytes memory swapInput = abi.encode(actions, params);
+
+		amountOut = _executeSwap(0, swapInput, $.USDC, minAmountOut);
+		_checkSwapReference(tokenIn, amountIn, amountOut);
+	}
+
+	/// @notice Swap exact native ETH input for USDC using a Uniswap V4 native pool
+	/// @param amountIn The exact amount of ETH in wei to swap (sent along with the router call)
+	/// @param poolKey The Uniswap V4 pool key (currency0 must be native, currency1 USDC)
+	/// @param minAmountOut Minimum amount of USDC to receive (slippage protection)
+	/// @return amountOut The amount of USDC received
+	function _swapExactInputNative(
+		uint256 amountIn,
+		PoolKey calldata poolKey,
+		uint256 minAmountOut
+	) internal returns (uint256 amountOut) {
+		KipuBankStorage storage $ = _getKipuBankStorage();
+		if (!CurrencyLibrary.isNative(poolKey.currency0) || Currency.unwrap(poolKey.currency1) != $.USDC) {
+			revert InvalidSwapParams();
+		}
+
+		bytes memory swapInput = abi.encode(address(this), amountIn, minAmountOut, poolKey, true);
+		amountOut = _executeSwap(amountIn, swapInput, $.USDC, minAmountOut);
+		_checkSwapReference(ETH, amountIn, amountOut);
+	}
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @title KipuBank Proxy
+/// @notice ERC-1967 proxy in front of KipuBank, upgraded through the implementation (UUPS)
+contract KipuBankProxy is ERC1967Proxy {
+	/// @param implementation The KipuBank implementation
+	/// @param data The encoded initialize call
+	constructor(address implementation, bytes memory data) ERC1967Proxy(implementation, data) {}
+}
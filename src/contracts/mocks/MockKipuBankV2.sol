@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../KipuBank.sol";
+
+/// @notice Next version of KipuBank, to test upgrades keep the storage
+contract MockKipuBankV2 is KipuBank {
+    constructor(address _adminModule, address _depositsModule, address _accountsModule)
+        KipuBank(_adminModule, _depositsModule, _accountsModule) {}
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
@@ -3,14 +3,48 @@ pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 /// @title Mock Permit2 Contract
 /// @notice Simplified mock for testing token approvals
+/// @dev permitTransferFrom follows Permit2's SignatureTransfer: same EIP-712 domain and typehashes,
+///      unordered nonces and deadline checks, so signatures produced for it also work against Permit2
 contract MockPermit2 {
     using SafeERC20 for IERC20;
     // Track approvals: owner => token => spender => amount
     mapping(address => mapping(address => mapping(address => uint256))) public allowance;
 
+    /// @notice Unordered nonces: owner => word position => bitmap
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    bytes32 private constant _DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+    bytes32 private constant _TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+    bytes32 private constant _PERMIT_TRANSFER_FROM_TYPEHASH = keccak256(
+        "PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+    );
+
+    error SignatureExpired(uint256 signatureDeadline);
+    error InvalidNonce();
+    error InvalidAmount(uint256 maxAmount);
+    error InvalidSigner();
+
     event Approval(
         address indexed owner,
         address indexed token,
@@ -65,6 +99,54 @@ contract MockPermit2 {
         emit TransferFrom(from, to, amount, token);
     }
 
+    /// @notice EIP-712 domain separator, matching Permit2's (name "Permit2", no version)
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(_DOMAIN_TYPEHASH, keccak256("Permit2"), block.chainid, address(this)));
+    }
+
+    /// @notice Transfer tokens using a signed permit from `owner`, with `msg.sender` as the signed spender
+    /// @param permit The signed permit
+    /// @param transferDetails The recipient and the amount to transfer (at most the permitted amount)
+    /// @param owner The token owner who signed the permit
+    /// @param signature The EIP-712 signature of `owner`
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > permit.deadline) revert SignatureExpired(permit.deadline);
+        if (transferDetails.requestedAmount > permit.permitted.amount) revert InvalidAmount(permit.permitted.amount);
+
+        _useUnorderedNonce(owner, permit.nonce);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                _PERMIT_TRANSFER_FROM_TYPEHASH,
+                keccak256(abi.encode(_TOKEN_PERMISSIONS_TYPEHASH, permit.permitted.token, permit.permitted.amount)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        (address signer, ECDSA.RecoverError err, ) = ECDSA.tryRecover(digest, signature);
+        if (err != ECDSA.RecoverError.NoError || signer != owner) revert InvalidSigner();
+
+        IERC20(permit.permitted.token).safeTransferFrom(owner, transferDetails.to, transferDetails.requestedAmount);
+
+        emit TransferFrom(owner, transferDetails.to, transferDetails.requestedAmount, permit.permitted.token);
+    }
+
+    /// @notice Flip the nonce bit, reverting if it was already used
+    function _useUnorderedNonce(address from, uint256 nonce) internal {
+        uint256 wordPos = nonce >> 8;
+        uint256 bit = 1 << (nonce & 0xff);
+        uint256 flipped = nonceBitmap[from][wordPos] ^= bit;
+
+        if (flipped & bit == 0) revert InvalidNonce();
+    }
+
     /// @notice Get the allowance for a specific owner/token/spender
     function getAllowance(
         address owner,
@@ -12,12 +12,17 @@ contract MockUniversalRouter {
     using SafeERC20 for IERC20;
     address public immutable USDC;
 
-    // Mock exchange rates (tokenIn address => USDC per token, scaled by 1e6)
+    // Mock exchange rates (tokenIn address => USDC per token, scaled by 1e6; address(0) is native ETH)
     mapping(address => uint256) public exchangeRates;
 
     // Default rate: 1:1 for same decimals
     uint256 public constant DEFAULT_RATE = 1e6;
 
+    // Uniswap V4 action ids of the multi-hop plan
+    uint8 internal constant SWAP_EXACT_IN = 0x07;
+    uint8 internal constant SETTLE_ALL = 0x0c;
+    uint8 internal constant TAKE_ALL = 0x0f;
+
     event SwapExecuted(
         address indexed recipient,
         address indexed tokenIn,
@@ -46,6 +51,23 @@ contract MockUniversalRouter {
         address hooks;
     }
 
+    /// @notice Struct for PathKey (matching KipuBank)
+    struct PathKey {
+        address intermediateCurrency;
+        uint24 fee;
+        int24 tickSpacing;
+        address hooks;
+        bytes hookData;
+    }
+
+    /// @notice Struct for the SWAP_EXACT_IN action params (matching KipuBank)
+    struct ExactInputParams {
+        address currencyIn;
+        PathKey[] path;
+        uint128 amountIn;
+        uint128 amountOutMinimum;
+    }
+
     /// @notice Execute swap commands
     /// @param commands The encoded commands
     /// @param inputs The encoded inputs for each command
@@ -61,6 +83,13 @@ contract MockUniversalRouter {
         uint8 command = uint8(commands[0]);
         require(command == 0x10, "MockUniversalRouter: unsupported command");
 
+        // An action plan abi.encode(bytes actions, bytes[] params) starts with the 0x40 offset of `actions`,
+        // while the single-pool input starts with the recipient address
+        if (uint256(bytes32(inputs[0][:32])) == 0x40) {
+            _executeMultiHop(inputs[0]);
+            return;
+        }
+
         (
             address recipient,
             uint256 amountIn,
@@ -72,14 +101,71 @@ contract MockUniversalRouter {
         address tokenIn = zeroForOne ? poolKey.currency0 : poolKey.currency1;
         address tokenOut = zeroForOne ? poolKey.currency1 : poolKey.currency0;
 
-        require(tokenOut == USDC, "MockUniversalRouter: output must be USDC");
-        uint256 amountOut = _calculateSwapOutput(tokenIn, amountIn);
-        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
-        IERC20(USDC).safeTransfer(recipient, amountOut);
+        require(tokenIn == USDC || tokenOut == USDC, "MockUniversalRouter: pool must include USDC");
+        // USDC -> token pays out of the router's own token balance (mint it to the router first)
+        uint256 amountOut = tokenIn == USDC
+            ? _calculateSwapInput(tokenOut, amountIn)
+            : _calculateSwapOutput(tokenIn, amountIn);
+        if (tokenIn == address(0)) {
+            // native currency of V4 pools: the input comes with the call
+            require(msg.value == amountIn, "MockUniversalRouter: wrong msg.value");
+        } else {
+            IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        }
+        IERC20(tokenOut).safeTransfer(recipient, amountOut);
 
         emit SwapExecuted(recipient, tokenIn, amountIn, amountOut);
     }
 
+    /// @notice Multi-hop mode: run a SWAP_EXACT_IN, SETTLE_ALL, TAKE_ALL plan hop by hop and pay the caller
+    /// @dev Rejects any other action plan, as the V4 router would. Each hop converts through USDC at the
+    ///      configured rates, so TOKEN -> WETH -> USDC yields the same USDC as TOKEN -> USDC (minus rounding)
+    function _executeMultiHop(bytes calldata input) internal {
+        (bytes memory actions, bytes[] memory params) = abi.decode(input, (bytes, bytes[]));
+        require(
+            actions.length == 3 && uint8(actions[0]) == SWAP_EXACT_IN && uint8(actions[1]) == SETTLE_ALL
+                && uint8(actions[2]) == TAKE_ALL && params.length == 3,
+            "MockUniversalRouter: unsupported action"
+        );
+
+        ExactInputParams memory p = abi.decode(params[0], (ExactInputParams));
+        require(p.path.length > 0, "MockUniversalRouter: empty path");
+        require(
+            p.path[p.path.length - 1].intermediateCurrency == USDC,
+            "MockUniversalRouter: output must be USDC"
+        );
+        (address settleCurrency, uint256 maxAmount) = abi.decode(params[1], (address, uint256));
+        require(settleCurrency == p.currencyIn && maxAmount >= p.amountIn, "MockUniversalRouter: bad settle");
+        (address takeCurrency, uint256 minAmount) = abi.decode(params[2], (address, uint256));
+        require(takeCurrency == USDC, "MockUniversalRouter: bad take");
+
+        IERC20(p.currencyIn).safeTransferFrom(msg.sender, address(this), p.amountIn);
+
+        address current = p.currencyIn;
+        uint256 amount = p.amountIn;
+        for (uint256 i = 0; i < p.path.length; i++) {
+            address next = p.path[i].intermediateCurrency;
+            uint256 usdcValue = _calculateSwapOutput(current, amount);
+            amount = next == USDC ? usdcValue : _calculateSwapInput(next, usdcValue);
+            current = next;
+        }
+
+        require(amount >= minAmount, "MockUniversalRouter: too little received");
+        IERC20(USDC).safeTransfer(msg.sender, amount);
+
+        emit SwapExecuted(msg.sender, p.currencyIn, p.amountIn, amount);
+    }
+
+    /// @notice Amount of `token` worth `usdcAmount` at its exchange rate
+    function _calculateSwapInput(address token, uint256 usdcAmount) internal view returns (uint256) {
+        uint256 rate = exchangeRates[token];
+        if (rate == 0) {
+            rate = DEFAULT_RATE;
+        }
+
+        return (usdcAmount * 10 ** IERC20Metadata(token).decimals()) / rate;
+    }
+
     /// @notice Calculate swap output based on exchange rate
     /// @param tokenIn The input token
     /// @param amountIn The input amount
@@ -93,7 +179,7 @@ contract MockUniversalRouter {
             rate = DEFAULT_RATE;
         }
 
-        uint8 decimalsIn = IERC20Metadata(tokenIn).decimals();
+        uint8 decimalsIn = tokenIn == address(0) ? 18 : IERC20Metadata(tokenIn).decimals();
         uint8 decimalsOut = 6; // USDC decimals
 
         // Convert amountIn to USDC decimals and apply rate (rate is scaled by 1e6)
@@ -1,31 +1,61 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+/// @dev Also usable as a Chainlink L2 sequencer uptime feed: answer 0 = up, 1 = down,
+///      startedAt = when the status last changed
 contract MockV3Aggregator {
     uint8 public immutable decimals;
+    uint80 private _roundId;
     int256 private _answer;
+    uint256 private _startedAt;
     uint256 private _updatedAt;
+    uint80 private _answeredInRound;
+    bool private _reverting;
 
     constructor(uint8 _decimals, int256 _initialAnswer) {
         decimals = _decimals;
-        _answer = _initialAnswer;
-        _updatedAt = block.timestamp;
+        setAnswer(_initialAnswer);
     }
 
-    function setAnswer(int256 newAnswer) external {
+    /// @notice Publish a new round with `newAnswer`, started and updated now
+    function setAnswer(int256 newAnswer) public {
+        _roundId += 1;
         _answer = newAnswer;
+        _startedAt = block.timestamp;
         _updatedAt = block.timestamp;
+        _answeredInRound = _roundId;
     }
 
     function setUpdatedAt(uint256 ts) external {
         _updatedAt = ts;
     }
 
+    /// @notice Overwrite the whole latest round, e.g. an answeredInRound behind roundId (stale round)
+    function setRoundData(
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) external {
+        _roundId = roundId;
+        _answer = answer;
+        _startedAt = startedAt;
+        _updatedAt = updatedAt;
+        _answeredInRound = answeredInRound;
+    }
+
+    /// @notice Simulate an outage: latestRoundData reverts while set
+    function setReverting(bool reverting) external {
+        _reverting = reverting;
+    }
+
     function latestRoundData()
         external
         view
         returns (uint80, int256, uint256, uint256, uint80)
     {
-        return (0, _answer, 0, _updatedAt, 0);
+        require(!_reverting, "feed down");
+        return (_roundId, _answer, _startedAt, _updatedAt, _answeredInRound);
     }
 }
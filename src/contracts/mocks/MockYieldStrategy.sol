@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+
+interface IMintableERC20 {
+    function mint(address to, uint256 amount) external;
+}
+
+/// @dev ERC-4626 vault earning `yieldPerSecond` of its (mintable mock) asset, donated to itself over time
+contract MockYieldStrategy is ERC4626 {
+    uint256 public yieldPerSecond;
+    uint256 public lastDrip;
+
+    constructor(IERC20 _asset) ERC20("Mock Yield Strategy", "mYLD") ERC4626(_asset) {
+        lastDrip = block.timestamp;
+    }
+
+    function setYieldPerSecond(uint256 rate) external {
+        drip();
+        yieldPerSecond = rate;
+    }
+
+    /// @dev Mints the yield accrued since the last drip into the vault
+    function drip() public {
+        uint256 pending = _pendingYield();
+        lastDrip = block.timestamp;
+        if (pending > 0) {
+            IMintableERC20(asset()).mint(address(this), pending);
+        }
+    }
+
+    /// @dev Simulates a loss of the strategy
+    function slash(uint256 amount) external {
+        drip();
+        IERC20(asset()).transfer(address(0xdead), amount);
+    }
+
+    function totalAssets() public view override returns (uint256) {
+        return super.totalAssets() + _pendingYield();
+    }
+
+    function _pendingYield() internal view returns (uint256) {
+        return totalSupply() == 0 ? 0 : (block.timestamp - lastDrip) * yieldPerSecond;
+    }
+
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        drip();
+        super._deposit(caller, receiver, assets, shares);
+    }
+
+    function _withdraw(
+        address caller,
+        address receiver,
+        address owner,
+        uint256 assets,
+        uint256 shares
+    ) internal override {
+        drip();
+        super._withdraw(caller, receiver, owner, assets, shares);
+    }
+}
@@ -0,0 +1,181 @@
+// Stateful fuzzing engine for the invariant tests: seeded action sequences, shrinking and replay.
+// It knows nothing about KipuBank; a Property supplies the actions and runs them.
+
+/** Deterministic PRNG (mulberry32), so a seed always generates the same sequence. */
+export class Rng {
+    #state: number;
+
+    constructor(readonly seed: number) {
+        this.#state = seed >>> 0;
+    }
+
+    /** Uniform 32-bit unsigned integer. */
+    next(): number {
+        this.#state = (this.#state + 0x6d2b79f5) >>> 0;
+        let t = this.#state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (t ^ (t >>> 14)) >>> 0;
+    }
+
+    /** Integer in [0, max). */
+    int(max: number): number {
+        return this.next() % max;
+    }
+
+    /** Bigint in [min, max], biased towards the bounds and small values where bugs tend to hide. */
+    bigint(min: bigint, max: bigint): bigint {
+        const roll = this.int(10);
+        if (roll === 0) return min;
+        if (roll === 1) return max;
+
+        const span = max - min + 1n;
+        const random = (BigInt(this.next()) << 32n) | BigInt(this.next());
+        // a third of the values stay within the lowest thousandth of the range
+        const range = roll < 5 && span > 1_000n ? span / 1_000n : span;
+        return min + (random % range);
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    chance(probability: number): boolean {
+        return this.next() / 0x1_0000_0000 < probability;
+    }
+}
+
+/** A broken invariant, or an unexpected revert, at a given step of a sequence. */
+export class PropertyFailure extends Error {
+    constructor(readonly step: number, message: string, options?: { cause?: unknown }) {
+        super(`step ${step}: ${message}`, options);
+        this.name = "PropertyFailure";
+    }
+}
+
+export interface Property<A> {
+    /** Generates the action sequence of one run. */
+    generate(rng: Rng): A[];
+    /** Runs a sequence from a fresh state, throwing a PropertyFailure on the first broken invariant. */
+    run(actions: readonly A[]): Promise<void>;
+    /** Simpler variants of an action (smaller amounts, fewer moving parts), tried while shrinking. */
+    simplify?(action: A): A[];
+    /** One-line description of an action for the reproducer. */
+    describe?(action: A): string;
+}
+
+export interface Counterexample<A> {
+    seed: number;
+    /** The sequence the seed generated. */
+    original: A[];
+    /** The smallest failing sequence shrinking found. */
+    actions: A[];
+    error: unknown;
+    /** Sequences run while shrinking. */
+    shrinkRuns: number;
+}
+
+/**
+ * Runs the sequence generated from `seed` and, if it fails, shrinks it to a minimal reproducer.
+ * Replaying the same seed generates and shrinks the same sequence.
+ */
+export async function checkSeed<A>(
+    property: Property<A>,
+    seed: number,
+    options: { maxShrinkRuns?: number } = {},
+): Promise<Counterexample<A> | undefined> {
+    const original = property.generate(new Rng(seed));
+    const error = await failureOf(property, original);
+    if (error === undefined) {
+        return undefined;
+    }
+
+    const shrunk = await shrink(property, original, error, options.maxShrinkRuns ?? 300);
+    return { seed, original, ...shrunk };
+}
+
+/**
+ * Shrinks a failing sequence: cuts it after the failing step, removes chunks of actions
+ * (halves down to single actions) and simplifies the remaining ones, as long as it still fails.
+ */
+export async function shrink<A>(
+    property: Property<A>,
+    actions: readonly A[],
+    error: unknown,
+    maxRuns: number,
+): Promise<{ actions: A[]; error: unknown; shrinkRuns: number }> {
+    let current = truncate(actions, error);
+    let currentError = error;
+    let runs = 0;
+
+    const attempt = async (candidate: A[]): Promise<boolean> => {
+        if (runs >= maxRuns) {
+            return false;
+        }
+        runs++;
+
+        const candidateError = await failureOf(property, candidate);
+        if (candidateError === undefined) {
+            return false;
+        }
+        current = truncate(candidate, candidateError);
+        currentError = candidateError;
+        return true;
+    };
+
+    let progress = true;
+    while (progress && runs < maxRuns) {
+        progress = false;
+
+        for (let size = Math.floor(current.length / 2); size >= 1; size = Math.floor(size / 2)) {
+            for (let start = 0; start + size <= current.length; ) {
+                if (await attempt([...current.slice(0, start), ...current.slice(start + size)])) {
+                    progress = true;
+                } else {
+                    start += size;
+                }
+            }
+        }
+
+        for (let i = 0; i < current.length; i++) {
+            for (const simpler of property.simplify?.(current[i]) ?? []) {
+                if (await attempt([...current.slice(0, i), simpler, ...current.slice(i + 1)])) {
+                    progress = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    return { actions: current, error: currentError, shrinkRuns: runs };
+}
+
+/** Human-readable reproducer of a counterexample, with the command replaying it. */
+export function formatCounterexample<A>(property: Property<A>, example: Counterexample<A>, replay: string): string {
+    const describe = property.describe ?? ((action: A) => JSON.stringify(action, bigintReplacer));
+    const message = example.error instanceof Error ? example.error.message : String(example.error);
+
+    return [
+        `Invariant broken with seed ${example.seed}: ${message}`,
+        `Shrunk from ${example.original.length} to ${example.actions.length} actions (${example.shrinkRuns} runs):`,
+        ...example.actions.map((action, i) => `  ${i}. ${describe(action)}`),
+        `Replay: FUZZ_SEED=${example.seed} ${replay}`,
+    ].join("\n");
+}
+
+async function failureOf<A>(property: Property<A>, actions: readonly A[]): Promise<unknown> {
+    try {
+        await property.run(actions);
+        return undefined;
+    } catch (error) {
+        return error;
+    }
+}
+
+function truncate<A>(actions: readonly A[], error: unknown): A[] {
+    return error instanceof PropertyFailure ? actions.slice(0, error.step + 1) : [...actions];
+}
+
+function bigintReplacer(_key: string, value: unknown): unknown {
+    return typeof value === "bigint" ? value.toString() : value;
+}
@@ -3,21 +3,37 @@ import type { HardhatUserConfig } from "hardhat/config";
 import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
 import { configVariable } from "hardhat/config";
 
+const compiler = {
+  version: "0.8.28",
+  settings: {
+    optimizer: {
+      enabled: true,
+      runs: 200,
+    },
+  },
+};
+
+// the IR pipeline keeps the bank and its modules under the 24 KiB code size limit
+const sizeLimited = { ...compiler, settings: { ...compiler.settings, viaIR: true } };
+const sizeLimitedOverrides = {
+  "contracts/KipuBank.sol": sizeLimited,
+  "contracts/KipuBankAccounts.sol": sizeLimited,
+  "contracts/KipuBankAdmin.sol": sizeLimited,
+  "contracts/KipuBankDeposits.sol": sizeLimited,
+  "contracts/mocks/MockKipuBankV2.sol": sizeLimited,
+};
+
 const config: HardhatUserConfig = {
   plugins: [hardhatToolboxViemPlugin],
   solidity: {
     profiles: {
       default: {
-        version: "0.8.28",
+        compilers: [compiler],
+        overrides: sizeLimitedOverrides,
       },
       production: {
-        version: "0.8.28",
-        settings: {
-          optimizer: {
-            enabled: true,
-            runs: 200,
-          },
-        },
+        compilers: [compiler],
+        overrides: sizeLimitedOverrides,
       },
     },
   },
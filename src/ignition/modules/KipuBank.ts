@@ -0,0 +1,36 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Deploys the KipuBank implementation behind a UUPS proxy, initialized in the proxy's
+// constructor: the bank is fully configured in the transaction that creates it, and nobody
+// can front-run the initialize call.
+export default buildModule("KipuBankModule", (m) => {
+  const admin = m.getParameter("admin", m.getAccount(0));
+  const maxBankCapEthWei = m.getParameter("maxBankCapEthWei", 100n * 10n ** 18n);
+  const maxBankCapUsdc = m.getParameter("maxBankCapUsdc", 100_000n * 10n ** 6n);
+  const ethUsdFeed = m.getParameter<string>("ethUsdFeed");
+  const usdc = m.getParameter<string>("usdc");
+  const universalRouter = m.getParameter<string>("universalRouter");
+  const permit2 = m.getParameter<string>("permit2");
+
+  // the admin functions, the permit and swap deposits and the account functions live in modules
+  // the implementation forwards to
+  const adminModule = m.contract("KipuBankAdmin");
+  const depositsModule = m.contract("KipuBankDeposits");
+  const accountsModule = m.contract("KipuBankAccounts");
+  const implementation = m.contract("KipuBank", [adminModule, depositsModule, accountsModule]);
+  const initialize = m.encodeFunctionCall(implementation, "initialize", [
+    admin,
+    maxBankCapEthWei,
+    maxBankCapUsdc,
+    ethUsdFeed,
+    usdc,
+    universalRouter,
+    permit2,
+  ]);
+  const proxy = m.contract("KipuBankProxy", [implementation, initialize]);
+
+  // the bank's ABI at the proxy address
+  const bank = m.contractAt("KipuBank", proxy, { id: "KipuBankProxied" });
+
+  return { bank, proxy, implementation };
+});
@@ -0,0 +1,43 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Deploys KipuBank, behind its proxy, wired to the mock feed, USDC, Permit2 and Universal Router,
+// so the edr-simulated networks get a working bank in one command.
+export default buildModule("KipuBankLocalModule", (m) => {
+  const maxBankCapEthWei = m.getParameter("maxBankCapEthWei", 100n * 10n ** 18n);
+  const maxBankCapUsdc = m.getParameter("maxBankCapUsdc", 100_000n * 10n ** 6n);
+  const ethUsdPrice = m.getParameter("ethUsdPrice", 2_500n * 10n ** 8n);
+  const routerFunding = m.getParameter("routerFunding", 1_000_000n * 10n ** 6n);
+
+  const deployer = m.getAccount(0);
+
+  const feed = m.contract("MockV3Aggregator", [8, ethUsdPrice]);
+  const usdc = m.contract("MockERC20", ["USD Coin", "USDC", 6], { id: "USDC" });
+  const permit2 = m.contract("MockPermit2");
+  const router = m.contract("MockUniversalRouter", [usdc]);
+
+  const mint = m.call(usdc, "mint", [deployer, routerFunding], { id: "MintRouterFunding" });
+  const approve = m.call(usdc, "approve", [router, routerFunding], {
+    id: "ApproveRouterFunding",
+    after: [mint],
+  });
+  m.call(router, "fundRouter", [routerFunding], { after: [approve] });
+
+  const adminModule = m.contract("KipuBankAdmin");
+  const depositsModule = m.contract("KipuBankDeposits");
+  const accountsModule = m.contract("KipuBankAccounts");
+  const implementation = m.contract("KipuBank", [adminModule, depositsModule, accountsModule]);
+  const initialize = m.encodeFunctionCall(implementation, "initialize", [
+    deployer,
+    maxBankCapEthWei,
+    maxBankCapUsdc,
+    feed,
+    usdc,
+    router,
+    permit2,
+  ]);
+  const proxy = m.contract("KipuBankProxy", [implementation, initialize]);
+
+  const bank = m.contractAt("KipuBank", proxy, { id: "KipuBankProxied" });
+
+  return { bank, feed, usdc, permit2, router };
+});
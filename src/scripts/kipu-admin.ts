@@ -0,0 +1,397 @@
+import { parseArgs } from "node:util";
+import type { Address } from "viem";
+import { erc20Abi, formatUnits, getAddress, hexToString, isAddress, stringToHex } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, FeeOperation, Operation, decodeKipuBankError } from "../sdk/index.js";
+
+const USAGE = `Usage: npx tsx scripts/kipu-admin.ts [--network <name>] [--bank <address>] [--signer <index>] <command> ...
+
+Commands:
+  balances <account>                        Show an account's ETH, USDC and listed asset balances and the bank caps
+  set-balance <account> <token> <amount>    Set an internal balance (token: eth | usdc | <listed asset address>)
+      [--dry-run]                           Only print the resulting capDelta and cap, do not send
+  grant-recovery <account>                  Grant RECOVERY_ROLE
+  revoke-recovery <account>                 Revoke RECOVERY_ROLE
+  grant-admin <account>                     Grant DEFAULT_ADMIN_ROLE
+  revoke-admin <account>                    Revoke DEFAULT_ADMIN_ROLE
+  rotate-admin start <newAdmin>             Step 1 (old admin): grant DEFAULT_ADMIN_ROLE and RECOVERY_ROLE to newAdmin
+  rotate-admin finish <oldAdmin>            Step 2 (new admin): revoke both roles from oldAdmin
+  grant-guardian <account>                  Grant GUARDIAN_ROLE
+  revoke-guardian <account>                 Revoke GUARDIAN_ROLE
+  pauses                                    Show the pause state of deposits, withdrawals and swaps
+  pause <operation> <reason>                Pause deposits | withdrawals | swaps with a reason code (max 32 chars)
+      [--duration <seconds>]                Lift the pause automatically after this many seconds
+  unpause <operation>                       Unpause deposits | withdrawals | swaps
+  withdrawals <account>                     List an account's pending delayed withdrawals
+  cancel-withdrawal <id>                    Cancel a delayed withdrawal as a guardian, unlocking its amount
+  fees                                      Show the fee of each operation
+  set-fee <operation> <bps>                 Set the fee of depositEth | depositUsdc | swap | withdraw in basis points
+  treasury                                  Show the fees accrued to the treasury
+  withdraw-treasury <token> <amount> <to>   Send accrued fees to <to> as a treasurer (token: eth | usdc | <listed asset>)
+
+Options:
+  --network   Any network from hardhat.config.ts (default: hardhatMainnet)
+  --bank      KipuBank address (default: $KIPU_BANK_ADDRESS)
+  --signer    Index of the configured account to sign with (default: 0)
+  --dry-run   Preview set-balance without sending
+  --duration  Automatic unpause delay for pause (default: 0, paused until unpause)`;
+
+const { values: options, positionals } = parseArgs({
+  options: {
+    network: { type: "string", default: "hardhatMainnet" },
+    bank: { type: "string", default: process.env.KIPU_BANK_ADDRESS },
+    signer: { type: "string", default: "0" },
+    "dry-run": { type: "boolean", default: false },
+    duration: { type: "string", default: "0" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+  allowPositionals: true,
+});
+
+const [command, ...args] = positionals;
+
+if (options.help || command === undefined) {
+  console.log(USAGE);
+  process.exit(command === undefined && !options.help ? 1 : 0);
+}
+
+if (options.bank === undefined || !isAddress(options.bank)) {
+  throw new Error("A KipuBank address is required: pass --bank <address> or set KIPU_BANK_ADDRESS");
+}
+
+const { viem } = await network.connect({ network: options.network });
+const publicClient = await viem.getPublicClient();
+const signer = (await viem.getWalletClients())[Number(options.signer)];
+if (signer === undefined) {
+  throw new Error(`No account #${options.signer} configured for network ${options.network}`);
+}
+
+const bank = await viem.getContractAt("KipuBank", getAddress(options.bank), { client: { wallet: signer } });
+const usdc = await bank.read.USDC();
+const usdcDecimals = await publicClient.readContract({ address: usdc, abi: erc20Abi, functionName: "decimals" });
+
+console.log(`Network ${options.network} | bank ${bank.address} | signer ${getAddress(signer.account.address)}`);
+
+function argAddress(index: number, name: string): Address {
+  const value = args[index];
+  if (value === undefined || !isAddress(value)) {
+    throw new Error(`Expected <${name}> to be an address\n\n${USAGE}`);
+  }
+
+  return getAddress(value);
+}
+
+function argToken(index: number): Address {
+  const value = args[index]?.toLowerCase();
+  if (value === "eth") return ETH_ADDRESS;
+  if (value === "usdc") return usdc;
+
+  return argAddress(index, "token");
+}
+
+function argOperation(index: number): Operation {
+  const value = args[index]?.toLowerCase();
+  const entry = Object.entries(Operation).find(([name]) => name.toLowerCase() === value);
+  if (entry === undefined) {
+    throw new Error(`Expected <operation> to be deposits, withdrawals or swaps\n\n${USAGE}`);
+  }
+
+  return entry[1];
+}
+
+function argFeeOperation(index: number): FeeOperation {
+  const value = args[index]?.toLowerCase();
+  const entry = Object.entries(FeeOperation).find(([name]) => name.toLowerCase() === value);
+  if (entry === undefined) {
+    throw new Error(`Expected <operation> to be depositEth, depositUsdc, swap or withdraw\n\n${USAGE}`);
+  }
+
+  return entry[1];
+}
+
+function argAmount(index: number, name: string): bigint {
+  const value = args[index];
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new Error(`Expected <${name}> in base units\n\n${USAGE}`);
+  }
+
+  return BigInt(value);
+}
+
+function format(token: Address, amount: bigint, decimals?: number): string {
+  if (token === ETH_ADDRESS) return `${formatUnits(amount, 18)} ETH`;
+  if (token === usdc) return `${formatUnits(amount, usdcDecimals)} USDC`;
+
+  return `${formatUnits(amount, decimals ?? 0)} of ${token}`;
+}
+
+/** Mirrors KipuBank._stableToUsdc for the USDC pool; ETH and asset caps are in token units. */
+function toUsdc(amount: bigint): bigint {
+  return usdcDecimals >= 6 ? amount / 10n ** BigInt(usdcDecimals - 6) : amount * 10n ** BigInt(6 - usdcDecimals);
+}
+
+async function send(description: string, write: () => Promise<`0x${string}`>): Promise<void> {
+  console.log(`${description}...`);
+  const hash = await write();
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`  ${receipt.status} in block ${receipt.blockNumber} (${hash})`);
+}
+
+async function showBalances(account: Address): Promise<void> {
+  const [ethBalance, usdcBalance, capEth, capUsdc, maxEth, maxUsdc] = await Promise.all([
+    bank.read.getBalance([account, ETH_ADDRESS], { account: signer.account }),
+    bank.read.getBalance([account, usdc], { account: signer.account }),
+    bank.read.currentBankCapEth(),
+    bank.read.currentBankCapUsdc(),
+    bank.read.MAX_BANK_CAP_ETH(),
+    bank.read.MAX_BANK_CAP_USDC(),
+  ]);
+
+  console.log(`Balances of ${account}`);
+  console.log(`  ETH:  ${format(ETH_ADDRESS, ethBalance)} (${ethBalance} wei)`);
+  console.log(`  USDC: ${format(usdc, usdcBalance)} (${usdcBalance} units)`);
+  console.log("Bank caps (remaining / max)");
+  console.log(`  ETH:  ${format(ETH_ADDRESS, capEth)} / ${format(ETH_ADDRESS, maxEth)}`);
+  console.log(`  USDC: ${format(usdc, capUsdc)} / ${format(usdc, maxUsdc)}`);
+
+  for (const asset of await bank.read.getListedAssets()) {
+    const [, decimals, , , maxCap, currentCap] = await bank.read.assets([asset]);
+    const balance = await bank.read.getBalance([account, asset], { account: signer.account });
+    console.log(`Asset ${asset}`);
+    console.log(`  balance: ${format(asset, balance, decimals)}`);
+    console.log(`  cap:     ${format(asset, currentCap, decimals)} / ${format(asset, maxCap, decimals)}`);
+  }
+}
+
+async function setBalance(account: Address, token: Address, newBalance: bigint, dryRun: boolean): Promise<void> {
+  const isAsset = token !== ETH_ADDRESS && token !== usdc;
+  const [listed, decimals, , , , assetCap] = await bank.read.assets([token]);
+  if (isAsset && !listed) {
+    throw new Error(`Unsupported token ${token}: only ETH, USDC and listed assets can be set`);
+  }
+
+  const previous = await bank.read.getBalance([account, token], { account: signer.account });
+  const currentCap = isAsset
+    ? assetCap
+    : token === ETH_ADDRESS
+      ? await bank.read.currentBankCapEth()
+      : await bank.read.currentBankCapUsdc();
+
+  // Same sign convention as BalanceAdjusted: +X frees cap (user debited), -X consumes it (user credited)
+  const delta = previous - newBalance;
+  const capDelta = token !== usdc ? delta : delta < 0n ? -toUsdc(-delta) : toUsdc(delta);
+  const newCap = currentCap + capDelta;
+
+  console.log(`set-balance preview for ${account}`);
+  console.log(`  balance:  ${format(token, previous, decimals)} -> ${format(token, newBalance, decimals)}`);
+  console.log(`  capDelta: ${capDelta}`);
+  console.log(`  cap:      ${currentCap} -> ${newCap < 0n ? "EXCEEDED" : newCap}`);
+
+  if (newCap < 0n) {
+    throw new Error(`The credit exceeds the remaining cap by ${-newCap}`);
+  }
+
+  await bank.simulate.setInternalBalance([account, token, newBalance], { account: signer.account.address });
+  if (dryRun) {
+    console.log("Dry run: simulation succeeded, nothing sent");
+    return;
+  }
+
+  await send("Sending setInternalBalance", () => bank.write.setInternalBalance([account, token, newBalance]));
+}
+
+async function showPauses(): Promise<void> {
+  const block = await publicClient.getBlock();
+
+  for (const [name, operation] of Object.entries(Operation)) {
+    const [paused, pausedUntil, reason] = await bank.read.pauses([operation]);
+    const active = await bank.read.isPaused([operation]);
+    const detail = paused ? ` (reason "${hexToString(reason, { size: 32 })}"` : "";
+    const until = pausedUntil === 0n ? "until unpaused" : `until ${new Date(Number(pausedUntil) * 1000).toISOString()}`;
+
+    if (active) {
+      console.log(`${name}: PAUSED${detail}, ${until})`);
+    } else if (paused && pausedUntil <= block.timestamp) {
+      console.log(`${name}: active (timed pause expired${detail.replace(" (", ", ")})`);
+    } else {
+      console.log(`${name}: active`);
+    }
+  }
+}
+
+async function showWithdrawals(account: Address): Promise<void> {
+  const [ids, requests] = await bank.read.pendingWithdrawalsOf([account]);
+  if (ids.length === 0) {
+    console.log(`No pending withdrawals for ${account}`);
+    return;
+  }
+
+  const block = await publicClient.getBlock();
+  console.log(`Pending withdrawals of ${account}`);
+  for (const [i, id] of ids.entries()) {
+    const { token, amount, executableAt } = requests[i];
+    const [, decimals] = await bank.read.assets([token]);
+    const when = new Date(Number(executableAt) * 1000).toISOString();
+    const state = executableAt <= block.timestamp ? `executable since ${when}` : `locked until ${when}`;
+    console.log(`  #${id}: ${format(token, amount, decimals)}, ${state}`);
+  }
+}
+
+async function showFees(): Promise<void> {
+  for (const [name, operation] of Object.entries(FeeOperation)) {
+    const bps = await bank.read.feeBps([operation]);
+    console.log(`${name}: ${bps} bps (${Number(bps) / 100}%)`);
+  }
+}
+
+async function showTreasury(): Promise<void> {
+  console.log(`Treasury ${await bank.read.TREASURY()}`);
+  console.log(`  ETH:  ${format(ETH_ADDRESS, await bank.read.treasuryBalance([ETH_ADDRESS]))}`);
+  console.log(`  USDC: ${format(usdc, await bank.read.treasuryBalance([usdc]))}`);
+  for (const asset of await bank.read.getListedAssets()) {
+    const [, decimals] = await bank.read.assets([asset]);
+    console.log(`  ${format(asset, await bank.read.treasuryBalance([asset]), decimals)}`);
+  }
+}
+
+async function rotateAdmin(step: string | undefined, other: Address): Promise<void> {
+  const adminRole = await bank.read.DEFAULT_ADMIN_ROLE();
+  const recoveryRole = await bank.read.RECOVERY_ROLE();
+
+  if (!(await bank.read.hasRole([adminRole, signer.account.address]))) {
+    throw new Error(`Signer ${signer.account.address} does not hold DEFAULT_ADMIN_ROLE`);
+  }
+  if (other === getAddress(signer.account.address)) {
+    throw new Error("The signer and the other admin must be different accounts");
+  }
+
+  if (step === "start") {
+    await send(`Granting DEFAULT_ADMIN_ROLE to ${other}`, () => bank.write.grantRole([adminRole, other]));
+    await send(`Granting RECOVERY_ROLE to ${other}`, () => bank.write.grantRecovery([other]));
+    console.log(`Step 1 done. Now run, signing as ${other}:`);
+    console.log(`  rotate-admin finish ${getAddress(signer.account.address)}`);
+  } else if (step === "finish") {
+    if (await bank.read.hasRole([recoveryRole, other])) {
+      await send(`Revoking RECOVERY_ROLE from ${other}`, () => bank.write.revokeRecovery([other]));
+    }
+    await send(`Revoking DEFAULT_ADMIN_ROLE from ${other}`, () => bank.write.revokeRole([adminRole, other]));
+    console.log(`Rotation complete: ${getAddress(signer.account.address)} is now the admin`);
+  } else {
+    throw new Error(`Expected "start" or "finish", got ${step}\n\n${USAGE}`);
+  }
+}
+
+async function run(): Promise<void> {
+  switch (command) {
+    case "balances":
+      await showBalances(argAddress(0, "account"));
+      break;
+    case "set-balance": {
+      const amount = args[2];
+      if (amount === undefined || !/^\d+$/.test(amount)) {
+        throw new Error(`Expected <amount> in base units (wei / USDC units)\n\n${USAGE}`);
+      }
+      await setBalance(argAddress(0, "account"), argToken(1), BigInt(amount), options["dry-run"]);
+      break;
+    }
+    case "grant-recovery": {
+      const account = argAddress(0, "account");
+      await send(`Granting RECOVERY_ROLE to ${account}`, () => bank.write.grantRecovery([account]));
+      break;
+    }
+    case "revoke-recovery": {
+      const account = argAddress(0, "account");
+      await send(`Revoking RECOVERY_ROLE from ${account}`, () => bank.write.revokeRecovery([account]));
+      break;
+    }
+    case "grant-admin": {
+      const account = argAddress(0, "account");
+      const role = await bank.read.DEFAULT_ADMIN_ROLE();
+      await send(`Granting DEFAULT_ADMIN_ROLE to ${account}`, () => bank.write.grantRole([role, account]));
+      break;
+    }
+    case "revoke-admin": {
+      const account = argAddress(0, "account");
+      const role = await bank.read.DEFAULT_ADMIN_ROLE();
+      await send(`Revoking DEFAULT_ADMIN_ROLE from ${account}`, () => bank.write.revokeRole([role, account]));
+      break;
+    }
+    case "rotate-admin":
+      await rotateAdmin(args[0], argAddress(1, "admin"));
+      break;
+    case "grant-guardian": {
+      const account = argAddress(0, "account");
+      const role = await bank.read.GUARDIAN_ROLE();
+      await send(`Granting GUARDIAN_ROLE to ${account}`, () => bank.write.grantRole([role, account]));
+      break;
+    }
+    case "revoke-guardian": {
+      const account = argAddress(0, "account");
+      const role = await bank.read.GUARDIAN_ROLE();
+      await send(`Revoking GUARDIAN_ROLE from ${account}`, () => bank.write.revokeRole([role, account]));
+      break;
+    }
+    case "pauses":
+      await showPauses();
+      break;
+    case "pause": {
+      const operation = argOperation(0);
+      const reason = args[1];
+      if (reason === undefined || reason.length > 32 || !/^\d+$/.test(options.duration)) {
+        throw new Error(`Expected a <reason> of at most 32 characters and --duration in seconds\n\n${USAGE}`);
+      }
+      await send(`Pausing ${args[0]} (${reason})`, () =>
+        bank.write.pause([operation, stringToHex(reason, { size: 32 }), BigInt(options.duration)]),
+      );
+      break;
+    }
+    case "unpause": {
+      const operation = argOperation(0);
+      await send(`Unpausing ${args[0]}`, () => bank.write.unpause([operation]));
+      break;
+    }
+    case "withdrawals":
+      await showWithdrawals(argAddress(0, "account"));
+      break;
+    case "cancel-withdrawal": {
+      const id = args[0];
+      if (id === undefined || !/^\d+$/.test(id)) {
+        throw new Error(`Expected <id> to be a withdrawal id\n\n${USAGE}`);
+      }
+      await send(`Cancelling withdrawal #${id}`, () => bank.write.cancelWithdrawal([BigInt(id)]));
+      break;
+    }
+    case "fees":
+      await showFees();
+      break;
+    case "set-fee": {
+      const operation = argFeeOperation(0);
+      const bps = argAmount(1, "bps");
+      await send(`Setting the ${args[0]} fee to ${bps} bps`, () => bank.write.setFee([operation, bps]));
+      break;
+    }
+    case "treasury":
+      await showTreasury();
+      break;
+    case "withdraw-treasury": {
+      const token = argToken(0);
+      const amount = argAmount(1, "amount");
+      const to = argAddress(2, "to");
+      await send(`Withdrawing ${amount} of ${token} from the treasury to ${to}`, () =>
+        bank.write.withdrawTreasury([token, amount, to]),
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  }
+}
+
+try {
+  await run();
+} catch (error) {
+  const decoded = decodeKipuBankError(error);
+  console.error(`Error: ${decoded?.message ?? (error instanceof Error ? error.message : String(error))}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,120 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { setTimeout as sleep } from "node:timers/promises";
+import { getAddress, isAddress } from "viem";
+import { network } from "hardhat";
+
+import { KipuBankClient, KipuBankRelayer, parseSignedIntent, type SignedIntent } from "../sdk/index.js";
+
+const USAGE = `Usage: npx tsx scripts/kipu-relayer.ts [--network <name>] [--bank <address>] [--signer <index>] --queue <dir>
+
+Submits the signed withdrawal and transfer intents queued in <dir>, one JSON file per intent
+(as written by serializeSignedIntent), paying their gas and earning their relayer fees.
+Relayed intents move to <dir>/done, intents that can never go through to <dir>/failed (with
+a .reason.txt next to them); the others (a lower nonce is missing, withdrawals are paused, the
+daily quota is spent) stay queued for the next pass.
+
+Options:
+  --network   Any network from hardhat.config.ts (default: hardhatMainnet)
+  --bank      KipuBank address (default: $KIPU_BANK_ADDRESS)
+  --signer    Index of the configured account relaying (default: 0)
+  --queue     Directory of the queued intents
+  --watch     Keep polling the queue instead of exiting after one pass
+  --interval  Seconds between two passes with --watch (default: 15)`;
+
+const { values: options } = parseArgs({
+  options: {
+    network: { type: "string", default: "hardhatMainnet" },
+    bank: { type: "string", default: process.env.KIPU_BANK_ADDRESS },
+    signer: { type: "string", default: "0" },
+    queue: { type: "string" },
+    watch: { type: "boolean", default: false },
+    interval: { type: "string", default: "15" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+if (options.bank === undefined || !isAddress(options.bank) || options.queue === undefined) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const { viem } = await network.connect({ network: options.network });
+const publicClient = await viem.getPublicClient();
+const signer = (await viem.getWalletClients())[Number(options.signer)];
+if (signer === undefined) {
+  throw new Error(`No account #${options.signer} configured for network ${options.network}`);
+}
+
+const queue = options.queue;
+const relayer = new KipuBankRelayer(new KipuBankClient({ address: getAddress(options.bank), publicClient, walletClient: signer }));
+
+console.log(`Network ${options.network} | bank ${relayer.client.address} | relayer ${getAddress(signer.account.address)}`);
+
+/** Reads the queued intents, moving unreadable files to failed/ right away. */
+async function readQueue(): Promise<{ file: string; signed: SignedIntent }[]> {
+  const files = (await readdir(queue)).filter((file) => file.endsWith(".json")).sort();
+  const queued: { file: string; signed: SignedIntent }[] = [];
+
+  for (const file of files) {
+    try {
+      queued.push({ file, signed: parseSignedIntent(await readFile(join(queue, file), "utf8")) });
+    } catch (error) {
+      await settle(file, "failed", `unreadable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return queued;
+}
+
+async function settle(file: string, folder: "done" | "failed", reason?: string): Promise<void> {
+  await mkdir(join(queue, folder), { recursive: true });
+  await rename(join(queue, file), join(queue, folder, file));
+  if (reason !== undefined) {
+    await writeFile(join(queue, folder, `${file}.reason.txt`), `${reason}\n`);
+  }
+}
+
+async function pass(): Promise<void> {
+  const queued = await readQueue();
+  if (queued.length === 0) {
+    return;
+  }
+
+  const outcomes = await relayer.relay(queued.map((entry) => entry.signed));
+  for (const [i, outcome] of outcomes.entries()) {
+    const { file, signed } = queued[i];
+    const label = `${file} (${signed.kind} of ${signed.intent.account}, nonce ${signed.intent.nonce})`;
+
+    switch (outcome.status) {
+      case "relayed":
+        console.log(`Relayed ${label} in ${outcome.receipt.transactionHash}`);
+        await settle(file, "done");
+        break;
+      case "pending":
+        console.log(`Kept ${label}: ${outcome.reason}`);
+        break;
+      case "dropped":
+        console.log(`Dropped ${label}: ${outcome.reason}`);
+        await settle(file, "failed", outcome.reason);
+        break;
+    }
+  }
+}
+
+try {
+  await pass();
+  while (options.watch) {
+    await sleep(Number(options.interval) * 1000);
+    await pass();
+  }
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,88 @@
+import { parseArgs } from "node:util";
+import type { Address } from "viem";
+import { erc20Abi, formatUnits, getAddress, isAddress } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, KipuBankClient, type ReserveInfo } from "../sdk/index.js";
+
+const USAGE = `Usage: npx tsx scripts/kipu-reserves.ts [--network <name>] [--bank <address>] [--token <address>]...
+
+Prints what the bank holds of ETH, USDC and each listed asset against what it owes its accounts
+(their balances, the treasury's and the locked delayed withdrawals) and its cap counters, plus any
+--token it doesn't list, which it owes nobody. A surplus can be moved out with sweepExcess; the
+script exits with code 1 when any token is in deficit.
+
+Options:
+  --network   Any network from hardhat.config.ts (default: hardhatMainnet)
+  --bank      KipuBank address (default: $KIPU_BANK_ADDRESS)
+  --token     Unlisted token to check as well, e.g. one sent to the bank by mistake (repeatable)`;
+
+const { values: options } = parseArgs({
+  options: {
+    network: { type: "string", default: "hardhatMainnet" },
+    bank: { type: "string", default: process.env.KIPU_BANK_ADDRESS },
+    token: { type: "string", multiple: true, default: [] },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const tokens = options.token ?? [];
+if (options.bank === undefined || !isAddress(options.bank) || !tokens.every((token) => isAddress(token))) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const { viem } = await network.connect({ network: options.network });
+const publicClient = await viem.getPublicClient();
+const bank = new KipuBankClient({ address: getAddress(options.bank), publicClient });
+
+console.log(`Network ${options.network} | bank ${bank.address} | block ${await publicClient.getBlockNumber()}`);
+
+async function describeToken(token: Address): Promise<{ symbol: string; decimals: number }> {
+  if (token === ETH_ADDRESS) {
+    return { symbol: "ETH", decimals: 18 };
+  }
+
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "symbol" }).catch(() => token),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: "decimals" }),
+  ]);
+  return { symbol, decimals };
+}
+
+function status(reserve: ReserveInfo, format: (amount: bigint) => string): string {
+  if (reserve.deficit > 0n) return `DEFICIT ${format(reserve.deficit)}`;
+  if (reserve.surplus > 0n) return `surplus ${format(reserve.surplus)} (sweepable)`;
+  return "balanced";
+}
+
+try {
+  const reserves = await bank.reserves(tokens.map((token) => getAddress(token)));
+  const usdc = await bank.usdc();
+
+  for (const reserve of reserves) {
+    const { symbol, decimals } = await describeToken(reserve.token);
+    const format = (amount: bigint) => `${formatUnits(amount, decimals)} ${symbol}`;
+
+    console.log(`${symbol} (${reserve.token}): ${status(reserve, format)}`);
+    console.log(`  held:        ${format(reserve.held)}`);
+    console.log(`  liabilities: ${format(reserve.liabilities)}`);
+    console.log(`  cap used:    ${format(reserve.capUsed)}`);
+    if (reserve.token === usdc && reserve.liabilities !== reserve.capUsed) {
+      // the cap counter catches up with the strategy on the next USDC operation
+      console.log(`  strategy yield not accrued to the cap yet: ${formatUnits(reserve.liabilities - reserve.capUsed, decimals)} ${symbol}`);
+    }
+  }
+
+  if (reserves.some((reserve) => reserve.deficit > 0n)) {
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
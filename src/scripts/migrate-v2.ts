@@ -0,0 +1,98 @@
+import { parseArgs } from "node:util";
+import { formatEther, formatUnits, getAddress, isAddress } from "viem";
+import { network } from "hardhat";
+
+import { KipuBankIndexer, decodeKipuBankError, planMigration, seedMigration } from "../sdk/index.js";
+
+const USAGE = `Usage: npx tsx scripts/migrate-v2.ts --from <address> --to <address> [options]
+
+Reads every balance of a KipuBank V2 (or later) deployment from its events and seeds them
+into a KipuBank proxy with batched setInternalBalances calls. Pause the old bank's deposits
+and withdrawals, cancel its pending delayed withdrawals and list its assets on the new bank first.
+
+Options:
+  --network     Any network from hardhat.config.ts (default: hardhatMainnet)
+  --from        Old KipuBank address
+  --to          New KipuBank proxy address
+  --from-block  Deployment block of the old bank (default: 0)
+  --batch-size  Balances per transaction (default: 100)
+  --signer      Index of the configured account to sign with, needs RECOVERY_ROLE (default: 0)
+  --dry-run     Check the caps and simulate every batch, do not send`;
+
+const { values: options } = parseArgs({
+  options: {
+    network: { type: "string", default: "hardhatMainnet" },
+    from: { type: "string" },
+    to: { type: "string" },
+    "from-block": { type: "string", default: "0" },
+    "batch-size": { type: "string", default: "100" },
+    signer: { type: "string", default: "0" },
+    "dry-run": { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+if (options.from === undefined || !isAddress(options.from) || options.to === undefined || !isAddress(options.to)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const { viem } = await network.connect({ network: options.network });
+const publicClient = await viem.getPublicClient();
+const signer = (await viem.getWalletClients())[Number(options.signer)];
+if (signer === undefined) {
+  throw new Error(`No account #${options.signer} configured for network ${options.network}`);
+}
+
+async function run(): Promise<void> {
+  const indexer = new KipuBankIndexer({
+    address: getAddress(options.from!),
+    publicClient,
+    fromBlock: BigInt(options["from-block"]!),
+  });
+  console.log(`Indexing ${indexer.address} from block ${options["from-block"]}...`);
+  await indexer.sync();
+
+  const plan = await planMigration(indexer);
+  const accounts = new Set(plan.entries.map((entry) => entry.account)).size;
+  console.log(`Balances at block ${plan.blockNumber}: ${plan.entries.length} entries over ${accounts} accounts`);
+  console.log(`  ETH:  ${formatEther(plan.totalEth)}`);
+  console.log(`  USDC: ${formatUnits(plan.totalUsdc, 6)}`);
+  for (const [token, total] of plan.totalAssets) {
+    console.log(`  ${token}: ${total}`);
+  }
+
+  const result = await seedMigration({
+    plan,
+    address: getAddress(options.to!),
+    publicClient,
+    walletClient: signer,
+    batchSize: Number(options["batch-size"]),
+    dryRun: options["dry-run"],
+  });
+
+  if (options["dry-run"]) {
+    console.log(`Dry run: ${result.batches} batches simulated, nothing sent`);
+    return;
+  }
+
+  for (const hash of result.hashes) {
+    console.log(`  seeded batch ${hash}`);
+  }
+  console.log("Migration complete. Remaining caps on the new bank");
+  console.log(`  ETH:  ${formatEther(result.currentBankCapEth)}`);
+  console.log(`  USDC: ${formatUnits(result.currentBankCapUsdc, 6)}`);
+}
+
+try {
+  await run();
+} catch (error) {
+  const decoded = decodeKipuBankError(error);
+  console.error(`Error: ${decoded?.message ?? (error instanceof Error ? error.message : String(error))}`);
+  process.exitCode = 1;
+}
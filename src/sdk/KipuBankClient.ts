@@ -0,0 +1,1205 @@
+import type {
+  Abi,
+  Account,
+  Address,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  Hash,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+  WriteContractParameters,
+} from "viem";
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  maxUint256,
+  parseEventLogs,
+  zeroAddress,
+} from "viem";
+
+import { kipuBankAbi, type FeeOperation, type KipuBankAbi, type Operation } from "./abi.js";
+import { erc2612Abi, getPermitDomain, signErc2612Permit } from "./erc2612.js";
+import { MulticallFailedError, decodeKipuBankError } from "./errors.js";
+import { signTransferIntent, signWithdrawIntent, type SignedIntent } from "./intents.js";
+import { nextPermitNonce, signPermitTransferFrom, type PermitTransferFrom } from "./permit2.js";
+
+/** Uniswap V4 pool identifier, mirroring the `PoolKey` struct of KipuBank. */
+export interface PoolKey {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+}
+
+export interface PoolKeyOptions {
+  /** Pool fee in hundredths of a bip. Defaults to 3000 (0.3%). */
+  fee?: number;
+  /** Defaults to 60, the tick spacing of 0.3% pools. */
+  tickSpacing?: number;
+  /** Defaults to no hooks. */
+  hooks?: Address;
+}
+
+export interface DepositTokenParams extends PoolKeyOptions {
+  tokenIn: Address;
+  amountIn: bigint;
+  /** Expected USDC output (6 decimals) for `amountIn`, e.g. from an off-chain quote. */
+  expectedAmountOut: bigint;
+  /** Maximum accepted slippage in percent (`0.5` = 0.5%). Defaults to 1. */
+  slippagePercent?: number;
+}
+
+export interface DepositTokenMultiHopParams extends DepositTokenParams {
+  /** Intermediate tokens between `tokenIn` and USDC, e.g. `[weth]` for TOKEN -> WETH -> USDC. */
+  via: Address[];
+}
+
+export interface DepositEthAsUsdcParams extends PoolKeyOptions {
+  amountWei: bigint;
+  /** Expected USDC output (6 decimals) for `amountWei`, e.g. from an off-chain quote. */
+  expectedAmountOut: bigint;
+  /** Maximum accepted slippage in percent (`0.5` = 0.5%). Defaults to 1. */
+  slippagePercent?: number;
+}
+
+export interface WithdrawAsTokenParams extends PoolKeyOptions {
+  tokenOut: Address;
+  /** Amount of the USDC balance to swap out (6 decimals). */
+  usdcAmount: bigint;
+  /** Expected `tokenOut` output for `usdcAmount`, e.g. from an off-chain quote. */
+  expectedAmountOut: bigint;
+  /** Maximum accepted slippage in percent (`0.5` = 0.5%). Defaults to 1. */
+  slippagePercent?: number;
+}
+
+export interface InternalTransfer {
+  to: Address;
+  /** `ETH_ADDRESS`, USDC or a listed asset. */
+  token: Address;
+  amount: bigint;
+}
+
+export interface DelayedWithdrawal {
+  id: bigint;
+  account: Address;
+  token: Address;
+  /** Amount locked, in USDC for USDC. */
+  amount: bigint;
+  /** USDC pool shares locked, 0 for other tokens. */
+  shares: bigint;
+  /** Timestamp (seconds) from which the account can execute it. */
+  executableAt: bigint;
+}
+
+/** An operator of an account, as listed by `operators`. */
+export interface OperatorInfo {
+  operator: Address;
+  /** `OperatorPermission` bits. */
+  permissions: number;
+  /** Last timestamp (seconds) the grant is valid at. */
+  expiry: bigint;
+  /** Whether the grant is still valid at the latest block. */
+  active: boolean;
+}
+
+/** What the bank holds of a token against what it owes its accounts, as listed by `reserves`. */
+export interface ReserveInfo {
+  token: Address;
+  /** The bank's balance of the token (USDC: idle plus the strategy's value of the bank's shares). */
+  held: bigint;
+  /** Balances of every account, the treasury's and the locked delayed withdrawals' included (USDC: the pool's value). */
+  liabilities: bigint;
+  /** Cap counter: max cap minus current cap (0 for unlisted tokens). */
+  capUsed: bigint;
+  /** What `sweepExcess` can move out: `held - liabilities`, or 0. */
+  surplus: bigint;
+  /** What the bank lacks to pay every account: `liabilities - held`, or 0. */
+  deficit: bigint;
+}
+
+export interface IntentParams {
+  /** `ETH_ADDRESS`, USDC or a listed asset. */
+  token: Address;
+  amount: bigint;
+  /** Relayer fee in `token`, on top of `amount`. Defaults to 0. */
+  fee?: bigint;
+  /** Defaults to the account's current nonce; pass the following ones to sign several intents in a row. */
+  nonce?: bigint;
+  /** Seconds the intent stays valid, from the latest block. Defaults to 3600. */
+  validitySeconds?: number;
+}
+
+export interface PermitOptions {
+  /** Seconds the Permit2 signature stays valid, from the latest block. Defaults to 1800. */
+  permitValiditySeconds?: number;
+}
+
+export interface Erc2612PermitOptions extends PermitOptions {
+  /** EIP-712 version used when USDC has no `eip712Domain()`. Defaults to "2", Circle's USDC version. */
+  permitVersion?: string;
+}
+
+type WriteFunctionName = ContractFunctionName<KipuBankAbi, "nonpayable" | "payable">;
+
+type WriteFunctionArgs<F extends WriteFunctionName> = ContractFunctionArgs<KipuBankAbi, "nonpayable" | "payable", F>;
+
+interface CallOptions {
+  /** ETH the call spends; only an ETH deposit may, once per batch. */
+  value?: bigint;
+  /** Bank allowance the call pulls, approved before the batch is sent. */
+  approve?: { token: Address; amount: bigint };
+}
+
+/** One call of a multicall batch, encoded once the bank's USDC is known. */
+export type KipuBankCall = {
+  [F in WriteFunctionName]: { functionName: F; args: WriteFunctionArgs<F> } & CallOptions;
+}[WriteFunctionName];
+
+/** Result of one call of a multicall batch. */
+export interface MulticallResult {
+  functionName: WriteFunctionName;
+  /** The decoded return value, `undefined` for functions returning nothing. */
+  result: unknown;
+}
+
+export interface KipuBankClientConfig {
+  address: Address;
+  publicClient: PublicClient;
+  /** Required for every state-changing call. */
+  walletClient?: WalletClient<Transport, Chain | undefined, Account>;
+}
+
+/** Builds the `PoolKey` pairing two tokens, with currencies sorted as Uniswap V4 requires. */
+export function createPoolKey(tokenA: Address, tokenB: Address, options: PoolKeyOptions = {}): PoolKey {
+  const [currency0, currency1] = BigInt(tokenA) < BigInt(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
+
+  return {
+    currency0,
+    currency1,
+    fee: options.fee ?? 3000,
+    tickSpacing: options.tickSpacing ?? 60,
+    hooks: options.hooks ?? zeroAddress,
+  };
+}
+
+/** Builds the pool path through `tokens` in order, one `PoolKey` per consecutive pair. */
+export function createPoolPath(tokens: readonly Address[], options: PoolKeyOptions = {}): PoolKey[] {
+  return tokens.slice(1).map((token, i) => createPoolKey(tokens[i], token, options));
+}
+
+/** Applies a slippage percent to an expected output amount. */
+export function minAmountOutFromSlippage(expectedAmountOut: bigint, slippagePercent: number): bigint {
+  if (!(slippagePercent >= 0 && slippagePercent <= 100)) {
+    throw new RangeError(`slippagePercent must be between 0 and 100, got ${slippagePercent}`);
+  }
+
+  const slippageBps = BigInt(Math.round(slippagePercent * 100));
+
+  return (expectedAmountOut * (10_000n - slippageBps)) / 10_000n;
+}
+
+/**
+ * Composes bank calls run in one transaction by `KipuBankClient.multicall`, in order and as the
+ * wallet account, e.g. a swap deposit followed by a USDC withdrawal. Build it with `client.batch()`.
+ */
+export class KipuBankBatch {
+  readonly #calls: ((usdc: Address) => KipuBankCall)[] = [];
+  #payable = false;
+
+  /** Number of calls added so far. */
+  get length(): number {
+    return this.#calls.length;
+  }
+
+  /** Adds any state-changing bank function with its arguments, e.g. `add({ functionName: "withdraw", args: [token, amount] })`. */
+  add(call: KipuBankCall): this {
+    return this.#push(() => call);
+  }
+
+  depositEth(amountWei: bigint): this {
+    return this.#push(() => ({ functionName: "depositEth", args: [], value: amountWei }));
+  }
+
+  depositUsdc(amount: bigint): this {
+    return this.#push((usdc) => ({ functionName: "depositUsdc", args: [amount], approve: { token: usdc, amount } }));
+  }
+
+  depositToken(params: DepositTokenParams): this {
+    return this.#push((usdc) => ({
+      functionName: "depositArbitraryToken",
+      args: [
+        params.tokenIn,
+        params.amountIn,
+        createPoolKey(params.tokenIn, usdc, params),
+        minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1),
+      ],
+      approve: { token: params.tokenIn, amount: params.amountIn },
+    }));
+  }
+
+  depositEthAsUsdc(params: DepositEthAsUsdcParams): this {
+    return this.#push((usdc) => ({
+      functionName: "depositEthAsUsdc",
+      args: [
+        createPoolKey(zeroAddress, usdc, params),
+        minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1),
+      ],
+      value: params.amountWei,
+    }));
+  }
+
+  depositAsset(token: Address, amount: bigint): this {
+    return this.#push(() => ({ functionName: "depositAsset", args: [token, amount], approve: { token, amount } }));
+  }
+
+  withdraw(token: Address, amount: bigint): this {
+    return this.#push(() => ({ functionName: "withdraw", args: [token, amount] }));
+  }
+
+  withdrawAsToken(params: WithdrawAsTokenParams): this {
+    return this.#push((usdc) => ({
+      functionName: "withdrawAsToken",
+      args: [
+        params.tokenOut,
+        params.usdcAmount,
+        createPoolKey(params.tokenOut, usdc, params),
+        minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1),
+      ],
+    }));
+  }
+
+  transfer(to: Address, token: Address, amount: bigint): this {
+    return this.#push(() => ({ functionName: "transfer", args: [to, token, amount] }));
+  }
+
+  requestWithdrawal(token: Address, amount: bigint): this {
+    return this.#push(() => ({ functionName: "requestWithdrawal", args: [token, amount] }));
+  }
+
+  /** The calls of the batch, with the pools and allowances resolved for `usdc`. */
+  resolve(usdc: Address): KipuBankCall[] {
+    return this.#calls.map((call) => call(usdc));
+  }
+
+  #push(call: (usdc: Address) => KipuBankCall): this {
+    // the bank hands msg.value to the batch's single ETH deposit; every other operation is non-payable
+    const { value } = call(zeroAddress);
+    if (value !== undefined && value > 0n) {
+      if (this.#payable) {
+        throw new Error("KipuBankBatch: only one call of a batch can send ETH");
+      }
+      this.#payable = true;
+    }
+
+    this.#calls.push(call);
+    return this;
+  }
+}
+
+/** Typed wrapper around a deployed KipuBank. */
+export class KipuBankClient {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient<Transport, Chain | undefined, Account>;
+
+  #usdc?: Address;
+  #permit2?: Address;
+
+  constructor(config: KipuBankClientConfig) {
+    this.address = config.address;
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+  }
+
+  /** The USDC token the bank accounts in. */
+  async usdc(): Promise<Address> {
+    this.#usdc ??= await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "USDC",
+    });
+
+    return this.#usdc;
+  }
+
+  async depositEth(amountWei: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositEth",
+        value: amountWei,
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits USDC, approving the bank first if the current allowance is too low. */
+  async depositUsdc(amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    await this.#ensureAllowance(await this.usdc(), amount);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositUsdc",
+        args: [amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /**
+   * Deposits USDC with a Permit2 signature instead of a bank allowance. Only the first
+   * permit deposit of a token sends an approval, to Permit2 itself.
+   */
+  async depositUsdcWithPermit2(amount: bigint, options: PermitOptions = {}): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const { permit, signature } = await this.#signPermit(await this.usdc(), amount, options);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositUsdcWithPermit2",
+        args: [amount, permit, signature],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits USDC in one transaction, approving the bank with a signed EIP-2612 permit of USDC itself. */
+  async depositUsdcWithErc2612Permit(amount: bigint, options: Erc2612PermitOptions = {}): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const usdc = await this.usdc();
+
+    const [chainId, block, nonce, domain] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.publicClient.getBlock(),
+      this.publicClient.readContract({
+        address: usdc,
+        abi: erc2612Abi,
+        functionName: "nonces",
+        args: [wallet.account.address],
+      }),
+      getPermitDomain(this.publicClient, usdc, options.permitVersion ?? "2"),
+    ]);
+    const deadline = block.timestamp + BigInt(options.permitValiditySeconds ?? 1800);
+    const { v, r, s } = await signErc2612Permit(wallet, {
+      token: usdc,
+      chainId,
+      ...domain,
+      spender: this.address,
+      value: amount,
+      nonce,
+      deadline,
+    });
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositUsdcWithPermit",
+        args: [amount, deadline, v, r, s],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits an arbitrary ERC-20, swapped to USDC through its direct USDC pool. */
+  async depositToken(params: DepositTokenParams): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const poolKey = createPoolKey(params.tokenIn, await this.usdc(), params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+
+    await this.#ensureAllowance(params.tokenIn, params.amountIn);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositArbitraryToken",
+        args: [params.tokenIn, params.amountIn, poolKey, minAmountOut],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** `depositToken`, pulling `tokenIn` with a Permit2 signature instead of a bank allowance. */
+  async depositTokenWithPermit(params: DepositTokenParams & PermitOptions): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const poolKey = createPoolKey(params.tokenIn, await this.usdc(), params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+    const { permit, signature } = await this.#signPermit(params.tokenIn, params.amountIn, params);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositArbitraryTokenWithPermit",
+        args: [params.amountIn, poolKey, minAmountOut, permit, signature],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits a token without a direct USDC pool, swapped to USDC through the `via` tokens. */
+  async depositTokenMultiHop(params: DepositTokenMultiHopParams): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const path = createPoolPath([params.tokenIn, ...params.via, await this.usdc()], params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+
+    await this.#ensureAllowance(params.tokenIn, params.amountIn);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositArbitraryTokenMultiHop",
+        args: [params.tokenIn, params.amountIn, path, minAmountOut],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits ETH swapped to USDC through the native ETH/USDC pool; the balance is credited in USDC. */
+  async depositEthAsUsdc(params: DepositEthAsUsdcParams): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    // native ETH is address(0) in V4 pools, so it always sorts as currency0
+    const poolKey = createPoolKey(zeroAddress, await this.usdc(), params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositEthAsUsdc",
+        args: [poolKey, minAmountOut],
+        value: params.amountWei,
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Deposits a listed asset, held natively, approving the bank first if needed. */
+  async depositAsset(token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    await this.#ensureAllowance(token, amount);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositAsset",
+        args: [token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Withdraws `amount` of `token` (use `ETH_ADDRESS` for ether). */
+  async withdraw(token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "withdraw",
+        args: [token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Sends `amount` of the fees accrued to the treasury to `to`; needs TREASURER_ROLE. */
+  async withdrawTreasury(token: Address, amount: bigint, to: Address): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "withdrawTreasury",
+        args: [token, amount, to],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /**
+   * Sends the surplus of `token` above what the bank owes its accounts to `to`; needs DEFAULT_ADMIN_ROLE.
+   * Returns the amount swept.
+   */
+  async sweepExcess(token: Address, to: Address): Promise<{ amount: bigint; receipt: TransactionReceipt }> {
+    const wallet = this.#wallet();
+
+    const receipt = await this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "sweepExcess",
+        args: [token, to],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+    const [swept] = parseEventLogs({ abi: kipuBankAbi, eventName: "ExcessSwept", logs: receipt.logs });
+
+    return { amount: swept.args.amount, receipt };
+  }
+
+  /** Withdraws part of the USDC balance as `tokenOut`, swapped through its direct USDC pool. */
+  async withdrawAsToken(params: WithdrawAsTokenParams): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const poolKey = createPoolKey(params.tokenOut, await this.usdc(), params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "withdrawAsToken",
+        args: [params.tokenOut, params.usdcAmount, poolKey, minAmountOut],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Moves `amount` of the wallet's `token` balance to `to` inside the bank, without leaving it. */
+  async transfer(to: Address, token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "transfer",
+        args: [to, token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Several internal transfers in one transaction; all of them succeed or none does. */
+  async transferBatch(transfers: readonly InternalTransfer[]): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "transferBatch",
+        args: [transfers.map((t) => t.to), transfers.map((t) => t.token), transfers.map((t) => t.amount)],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Nonce the next signed intent of `account` (defaulting to the wallet account) must carry. */
+  async nonce(account?: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "nonces",
+      args: [account ?? this.#wallet().account.address],
+    });
+  }
+
+  /**
+   * Signs, without sending anything, a withdrawal of the wallet's `token` balance to the wallet that
+   * any relayer can submit with `relayIntent` and pay the gas of.
+   */
+  async signWithdrawIntent(params: IntentParams): Promise<SignedIntent> {
+    const wallet = this.#wallet();
+    const { chainId, nonce, deadline } = await this.#intentContext(params);
+
+    return signWithdrawIntent(wallet, {
+      bank: this.address,
+      chainId,
+      intent: { token: params.token, amount: params.amount, fee: params.fee ?? 0n, nonce, deadline },
+    });
+  }
+
+  /** Signs, without sending anything, an internal transfer of the wallet's `token` balance to `to`. */
+  async signTransferIntent(params: IntentParams & { to: Address }): Promise<SignedIntent> {
+    const wallet = this.#wallet();
+    const { chainId, nonce, deadline } = await this.#intentContext(params);
+
+    return signTransferIntent(wallet, {
+      bank: this.address,
+      chainId,
+      intent: { to: params.to, token: params.token, amount: params.amount, fee: params.fee ?? 0n, nonce, deadline },
+    });
+  }
+
+  /** Submits an intent signed by another account, from the wallet, which receives the intent's fee. */
+  async relayIntent(signed: SignedIntent): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    if (getAddress(signed.bank) !== getAddress(this.address)) {
+      throw new Error(`KipuBankClient: intent signed for bank ${signed.bank}, not ${this.address}`);
+    }
+
+    return this.#send(() =>
+      signed.kind === "withdraw"
+        ? this.publicClient.simulateContract({
+            address: this.address,
+            abi: kipuBankAbi,
+            functionName: "withdrawWithSig",
+            args: [signed.intent, signed.signature],
+            account: wallet.account,
+            chain: wallet.chain,
+          })
+        : this.publicClient.simulateContract({
+            address: this.address,
+            abi: kipuBankAbi,
+            functionName: "transferWithSig",
+            args: [signed.intent, signed.signature],
+            account: wallet.account,
+            chain: wallet.chain,
+          }),
+    );
+  }
+
+  /** Lets `spender` move up to `amount` of the wallet's `token` balance with `transferFrom`. */
+  async approve(spender: Address, token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "approve",
+        args: [spender, token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Moves `amount` of `from`'s `token` balance to `to`, spending the wallet's allowance. */
+  async transferFrom(from: Address, to: Address, token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "transferFrom",
+        args: [from, to, token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /**
+   * Lets `operator` act on the wallet's account with the `OperatorPermission` bits in `permissions` until
+   * `expiry` (seconds), replacing any previous grant.
+   */
+  async setOperator(operator: Address, permissions: number, expiry: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "setOperator",
+        args: [operator, permissions, expiry],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Revokes every permission of `operator` on the wallet's account. */
+  async revokeOperator(operator: Address): Promise<TransactionReceipt> {
+    return this.setOperator(operator, 0, 0n);
+  }
+
+  /** Operators of `account` (defaulting to the wallet account), expired grants included but flagged inactive. */
+  async operators(account?: Address): Promise<OperatorInfo[]> {
+    const [[operators, grants], block] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "operatorsOf",
+        args: [account ?? this.#wallet().account.address],
+      }),
+      this.publicClient.getBlock(),
+    ]);
+
+    return operators.map((operator, i) => ({
+      operator,
+      permissions: grants[i].permissions,
+      expiry: grants[i].expiry,
+      active: grants[i].expiry >= block.timestamp,
+    }));
+  }
+
+  /**
+   * Withdraws `amount` of `account`'s `token` balance as its operator, to `to` (default: the account itself),
+   * within the account's limits and quota.
+   */
+  async withdrawFor(account: Address, token: Address, amount: bigint, to: Address = account): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "withdrawFor",
+        args: [account, token, amount, to],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /**
+   * `depositToken` for `account` as its operator: `tokenIn` is pulled from the wallet, approving the bank
+   * first if the current allowance is too low, and the USDC is credited to the account.
+   */
+  async depositTokenFor(account: Address, params: DepositTokenParams): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+    const poolKey = createPoolKey(params.tokenIn, await this.usdc(), params);
+    const minAmountOut = minAmountOutFromSlippage(params.expectedAmountOut, params.slippagePercent ?? 1);
+
+    await this.#ensureAllowance(params.tokenIn, params.amountIn);
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "depositArbitraryTokenFor",
+        args: [account, params.tokenIn, params.amountIn, poolKey, minAmountOut],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /**
+   * Queues a withdrawal above the withdraw limits, locking `amount` until the bank's `withdrawalDelay`
+   * has passed. Returns the id to pass to `executeWithdrawal` or `cancelWithdrawal`.
+   */
+  async requestWithdrawal(token: Address, amount: bigint): Promise<{ id: bigint; receipt: TransactionReceipt }> {
+    const wallet = this.#wallet();
+
+    const receipt = await this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "requestWithdrawal",
+        args: [token, amount],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+    const [requested] = parseEventLogs({ abi: kipuBankAbi, eventName: "WithdrawalRequested", logs: receipt.logs });
+
+    return { id: requested.args.id, receipt };
+  }
+
+  /** Pays out one of the wallet's delayed withdrawals once its delay has passed. */
+  async executeWithdrawal(id: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "executeWithdrawal",
+        args: [id],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Cancels a delayed withdrawal of the wallet (or of any account, for a guardian), unlocking its amount. */
+  async cancelWithdrawal(id: bigint): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    return this.#send(() =>
+      this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "cancelWithdrawal",
+        args: [id],
+        account: wallet.account,
+        chain: wallet.chain,
+      }),
+    );
+  }
+
+  /** Pending delayed withdrawals of `account`, defaulting to the wallet account. */
+  async pendingWithdrawals(account?: Address): Promise<DelayedWithdrawal[]> {
+    const [ids, requests] = await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "pendingWithdrawalsOf",
+      args: [account ?? this.#wallet().account.address],
+    });
+
+    return requests.map((request, i) => ({ id: ids[i], ...request }));
+  }
+
+  /** Internal balance of `token` that `owner` lets `spender` move. */
+  async allowance(owner: Address, spender: Address, token: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "allowance",
+      args: [owner, spender, token],
+    });
+  }
+
+  /** Balance of `token` for `account`, defaulting to the wallet account. */
+  async getMyBalance(token: Address, account?: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "getMyBalance",
+      args: [token],
+      account: account ?? this.#wallet().account.address,
+    });
+  }
+
+  /**
+   * USDC pool shares of `account` (defaulting to the wallet account) and their current USDC value,
+   * which grows with the yield of the bank's USDC strategy.
+   */
+  async usdcPosition(account?: Address): Promise<{ shares: bigint; value: bigint }> {
+    const owner = account ?? this.#wallet().account.address;
+    const shares = await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "usdcSharesOf",
+      args: [owner],
+    });
+    const value = await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "convertToUsdcAssets",
+      args: [shares],
+    });
+
+    return { shares, value };
+  }
+
+  /**
+   * Oracle-implied USDC output of a swap deposit of `amountIn` of `tokenIn` (`ETH_ADDRESS` for native swaps)
+   * and the lowest output the bank accepts, e.g. to prefill `expectedAmountOut`. Both are 0 when the
+   * token has no swap reference feed.
+   */
+  async previewSwapOutput(
+    tokenIn: Address,
+    amountIn: bigint,
+  ): Promise<{ expectedAmountOut: bigint; minAmountOut: bigint }> {
+    try {
+      const [expectedAmountOut, minAmountOut] = await this.publicClient.readContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "previewSwapOutput",
+        args: [tokenIn, amountIn],
+      });
+
+      return { expectedAmountOut, minAmountOut };
+    } catch (error) {
+      throw decodeKipuBankError(error) ?? error;
+    }
+  }
+
+  /**
+   * Fee `account` (defaulting to the wallet account) pays on `amount` for `operation`, and the amount
+   * left after it: the balance credited by a deposit, or the amount paid out by a withdrawal.
+   */
+  async previewFee(
+    operation: FeeOperation,
+    amount: bigint,
+    account?: Address,
+  ): Promise<{ net: bigint; fee: bigint }> {
+    const [net, fee] = await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "previewFee",
+      args: [operation, account ?? this.#wallet().account.address, amount],
+    });
+
+    return { net, fee };
+  }
+
+  /** Fees of `token` accrued to the treasury and not withdrawn yet. */
+  async treasuryBalance(token: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "treasuryBalance",
+      args: [token],
+    });
+  }
+
+  /** An empty batch of calls for `multicall`. */
+  batch(): KipuBankBatch {
+    return new KipuBankBatch();
+  }
+
+  /**
+   * Runs the calls of `batch` in one transaction, after approving what its deposits pull, and returns
+   * each call's result (from the simulation just before sending). A failing call reverts the whole batch
+   * and throws a `MulticallFailedError` with its `index`, `functionName` and decoded `reason`.
+   */
+  async multicall(batch: KipuBankBatch): Promise<{ receipt: TransactionReceipt; results: MulticallResult[] }> {
+    const calls = batch.resolve(await this.usdc());
+
+    const allowances = new Map<Address, bigint>();
+    for (const { approve } of calls) {
+      if (approve !== undefined) {
+        allowances.set(approve.token, (allowances.get(approve.token) ?? 0n) + approve.amount);
+      }
+    }
+    for (const [token, amount] of allowances) {
+      await this.#ensureAllowance(token, amount);
+    }
+
+    let results: MulticallResult[] = [];
+    const receipt = await this.#send(async () => {
+      const simulation = await this.#simulateMulticall(calls);
+      results = simulation.results;
+      return simulation;
+    });
+
+    return { receipt, results };
+  }
+
+  /** Simulates `multicall(batch)` without sending it or approving anything. */
+  async simulateMulticall(batch: KipuBankBatch): Promise<MulticallResult[]> {
+    try {
+      const { results } = await this.#simulateMulticall(batch.resolve(await this.usdc()));
+      return results;
+    } catch (error) {
+      throw decodeKipuBankError(error) ?? error;
+    }
+  }
+
+  /** Whether the guardian currently pauses `operation` (see `Operation`). */
+  async isPaused(operation: Operation): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "isPaused",
+      args: [operation],
+    });
+  }
+
+  /** Assets the bank holds natively besides ETH and USDC. */
+  async listedAssets(): Promise<readonly Address[]> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "getListedAssets",
+    });
+  }
+
+  /**
+   * Reserves of ETH, USDC and the listed assets, then of `tokens` the bank doesn't list (e.g. tokens sent to it
+   * by mistake), which it owes nobody: all of their balance is surplus.
+   */
+  async reserves(tokens: readonly Address[] = []): Promise<ReserveInfo[]> {
+    const listed = await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "reserves",
+    });
+    const known = new Set(listed.map(({ token }) => getAddress(token)));
+    const unlisted = [...new Set(tokens.map((token) => getAddress(token)))].filter((token) => !known.has(token));
+    const held = await Promise.all(
+      unlisted.map((token) =>
+        this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [this.address] }),
+      ),
+    );
+
+    return [
+      ...listed,
+      ...unlisted.map((token, i) => ({ token, held: held[i], liabilities: 0n, capUsed: 0n, surplus: held[i] })),
+    ].map((reserve) => ({
+      ...reserve,
+      deficit: reserve.liabilities > reserve.held ? reserve.liabilities - reserve.held : 0n,
+    }));
+  }
+
+  /** USDC value (6 decimals) of `amount` of ETH, USDC or a listed asset, using the bank's oracles. */
+  async previewToUsdc(token: Address, amount: bigint): Promise<bigint> {
+    try {
+      return await this.publicClient.readContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "previewToUsdc",
+        args: [token, amount],
+      });
+    } catch (error) {
+      throw decodeKipuBankError(error) ?? error;
+    }
+  }
+
+  async #signPermit(
+    token: Address,
+    amount: bigint,
+    options: PermitOptions,
+  ): Promise<{ permit: PermitTransferFrom; signature: Hex }> {
+    const wallet = this.#wallet();
+    this.#permit2 ??= await this.publicClient.readContract({
+      address: this.address,
+      abi: kipuBankAbi,
+      functionName: "permit2",
+    });
+
+    // Permit2 is approved once per token; each deposit after that is signature-only
+    await this.#ensureAllowance(token, amount, this.#permit2, maxUint256);
+
+    const [chainId, block, nonce] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.publicClient.getBlock(),
+      nextPermitNonce(this.publicClient, this.#permit2, wallet.account.address),
+    ]);
+
+    return signPermitTransferFrom(wallet, {
+      permit2: this.#permit2,
+      chainId,
+      spender: this.address,
+      token,
+      amount,
+      nonce,
+      deadline: block.timestamp + BigInt(options.permitValiditySeconds ?? 1800),
+    });
+  }
+
+  async #intentContext(params: IntentParams): Promise<{ chainId: number; nonce: bigint; deadline: bigint }> {
+    const [chainId, block, nonce] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.publicClient.getBlock(),
+      params.nonce ?? this.nonce(),
+    ]);
+
+    return { chainId, nonce, deadline: block.timestamp + BigInt(params.validitySeconds ?? 3600) };
+  }
+
+  async #simulateMulticall(calls: KipuBankCall[]): Promise<{ request: WriteContractParameters; results: MulticallResult[] }> {
+    const wallet = this.#wallet();
+    const data = calls.map(({ value: _value, approve: _approve, ...call }) => encodeFunctionData({ abi: kipuBankAbi, ...call }));
+
+    try {
+      const { request, result } = await this.publicClient.simulateContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "multicall",
+        args: [data],
+        value: calls.reduce<bigint>((sum, call) => sum + (call.value ?? 0n), 0n),
+        account: wallet.account,
+        chain: wallet.chain,
+      });
+
+      // decoded against the plain Abi type: the union of every function's result is too deep to infer
+      const abi: Abi = kipuBankAbi;
+      const results = result.map((returnData, i) => ({
+        functionName: calls[i].functionName,
+        result: decodeFunctionResult({ abi, functionName: calls[i].functionName, data: returnData }),
+      }));
+      return { request, results };
+    } catch (error) {
+      const decoded = decodeKipuBankError(error);
+      if (decoded instanceof MulticallFailedError) {
+        throw new MulticallFailedError(decoded.index, decoded.revertData, {
+          cause: error,
+          functionName: calls[Number(decoded.index)]?.functionName,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async #ensureAllowance(
+    token: Address,
+    amount: bigint,
+    spender: Address = this.address,
+    approveAmount: bigint = amount,
+  ): Promise<void> {
+    const wallet = this.#wallet();
+    const allowance = await this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [wallet.account.address, spender],
+    });
+
+    if (allowance >= amount) {
+      return;
+    }
+
+    const hash = await wallet.writeContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [spender, approveAmount],
+      account: wallet.account,
+      chain: wallet.chain,
+    });
+    await this.#waitForSuccess(hash);
+  }
+
+  async #send(simulate: () => Promise<{ request: WriteContractParameters }>): Promise<TransactionReceipt> {
+    const wallet = this.#wallet();
+
+    let hash: Hash;
+    try {
+      const { request } = await simulate();
+      hash = await wallet.writeContract(request);
+    } catch (error) {
+      throw decodeKipuBankError(error) ?? error;
+    }
+
+    return this.#waitForSuccess(hash);
+  }
+
+  async #waitForSuccess(hash: Hash): Promise<TransactionReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    return receipt;
+  }
+
+  #wallet(): WalletClient<Transport, Chain | undefined, Account> {
+    if (this.walletClient === undefined) {
+      throw new Error("KipuBankClient: a walletClient is required for this call");
+    }
+
+    return this.walletClient;
+  }
+}
@@ -0,0 +1,520 @@
+import type { Address, PublicClient } from "viem";
+import { erc20Abi, getAddress, zeroAddress } from "viem";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { ETH_ADDRESS, TREASURY_ADDRESS, kipuBankAbi } from "./abi.js";
+
+const INDEXED_EVENTS = new Set([
+  "Deposit",
+  "Withdraw",
+  "BalanceAdjusted",
+  "TokenSwapped",
+  "AssetListed",
+  "AssetUpdated",
+  "AssetDelisted",
+  "UsdcSharesTransfer",
+  "UsdcYieldAccrued",
+  "InternalTransfer",
+  "FeeCharged",
+]);
+
+export interface CapDrift {
+  replayed: bigint;
+  onChain: bigint;
+  /** `onChain - replayed`; zero when the replay matches the contract. */
+  drift: bigint;
+}
+
+export interface DriftReport {
+  blockNumber: bigint;
+  eth: CapDrift;
+  usdc: CapDrift;
+  /** Per listed asset, in token units. */
+  assets: Map<Address, CapDrift>;
+  hasDrift: boolean;
+}
+
+export interface AssetCap {
+  maxCap: bigint;
+  currentCap: bigint;
+}
+
+export interface SwapTotals {
+  amountIn: bigint;
+  amountOut: bigint;
+  count: number;
+}
+
+export interface KipuBankIndexerConfig {
+  address: Address;
+  publicClient: PublicClient;
+  /** First block to backfill from, usually the deployment block. Defaults to 0. */
+  fromBlock?: bigint;
+  /** Path of the JSON checkpoint file. Without it the indexer keeps state in memory only. */
+  checkpointPath?: string;
+  /** Maximum block range per `eth_getLogs` request. Defaults to 2,000. */
+  blockRange?: bigint;
+  /** Blocks to stay behind the chain head. Defaults to 0. */
+  confirmations?: bigint;
+  /** Called whenever a sync ends with replayed caps that differ from the chain. */
+  onDrift?: (report: DriftReport) => void;
+  /**
+   * Called for a log moving the cap of a token that is neither ETH, USDC nor a listed asset,
+   * e.g. an asset listed before `fromBlock`. Its cap is not replayed.
+   */
+  onUnknownToken?: (token: Address) => void;
+}
+
+interface Checkpoint {
+  address: Address;
+  lastBlock: string;
+  maxBankCapEth: string;
+  maxBankCapUsdc: string;
+  currentBankCapEth: string;
+  currentBankCapUsdc: string;
+  balances: Record<Address, Record<Address, string>>;
+  swaps: Record<Address, { amountIn: string; amountOut: string; count: number }>;
+  /** Missing in checkpoints written before the asset registry existed. */
+  assets?: Record<Address, { maxCap: string; currentCap: string }>;
+  /** Missing in checkpoints written before USDC pool shares existed. */
+  usdcShares?: Record<Address, string>;
+}
+
+/**
+ * Rebuilds KipuBank's private per-user ledger and the bank caps from
+ * `Deposit`, `Withdraw`, `BalanceAdjusted`, `TokenSwapped`, `InternalTransfer` and
+ * `FeeCharged` logs (fees accrue to `TREASURY_ADDRESS`), plus the listed asset caps
+ * from the `Asset*` registry events and the USDC pool shares from `UsdcSharesTransfer`.
+ *
+ * The USDC ledger sums deposits and withdrawals, so once the USDC strategy earns
+ * yield it no longer equals the on-chain balance; `usdcSharesOf` does track the
+ * on-chain position.
+ *
+ * Amounts locked by `requestWithdrawal` stay in `balanceOf` until the `Withdraw`
+ * emitted when the withdrawal executes; their USDC shares move to the bank's own
+ * address in `usdcSharesOf`, as they do on-chain.
+ */
+export class KipuBankIndexer {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+
+  /** Last block whose logs have been applied. */
+  lastBlock: bigint;
+  maxBankCapEth = 0n;
+  maxBankCapUsdc = 0n;
+  currentBankCapEth = 0n;
+  currentBankCapUsdc = 0n;
+
+  readonly #balances = new Map<Address, Map<Address, bigint>>();
+  readonly #swaps = new Map<Address, SwapTotals>();
+  readonly #assetCaps = new Map<Address, AssetCap>();
+  readonly #usdcShares = new Map<Address, bigint>();
+  readonly #config: KipuBankIndexerConfig;
+
+  #usdc: Address = zeroAddress;
+  #usdcDecimals = 6;
+  #initialized = false;
+  #syncing?: Promise<bigint>;
+  #unwatch?: () => void;
+
+  constructor(config: KipuBankIndexerConfig) {
+    this.address = getAddress(config.address);
+    this.publicClient = config.publicClient;
+    this.lastBlock = (config.fromBlock ?? 0n) - 1n;
+    this.#config = config;
+  }
+
+  /** Indexed balance of `token` for `account`. */
+  balanceOf(account: Address, token: Address): bigint {
+    return this.#balances.get(getAddress(account))?.get(getAddress(token)) ?? 0n;
+  }
+
+  /** Indexed USDC pool shares of `account`. */
+  usdcSharesOf(account: Address): bigint {
+    return this.#usdcShares.get(getAddress(account)) ?? 0n;
+  }
+
+  /** Every non-zero balance, keyed by account then token. */
+  balances(): Map<Address, Map<Address, bigint>> {
+    return new Map([...this.#balances].map(([account, tokens]) => [account, new Map(tokens)]));
+  }
+
+  /** Every non-zero USDC pool share position, keyed by account. */
+  usdcShares(): Map<Address, bigint> {
+    return new Map(this.#usdcShares);
+  }
+
+  /** Swap volume per input token. */
+  swaps(): Map<Address, SwapTotals> {
+    return new Map([...this.#swaps].map(([token, totals]) => [token, { ...totals }]));
+  }
+
+  /** Replayed caps of the listed assets, in token units. */
+  assetCaps(): Map<Address, AssetCap> {
+    return new Map([...this.#assetCaps].map(([token, cap]) => [token, { ...cap }]));
+  }
+
+  /**
+   * Applies every log up to the (confirmed) chain head and saves a checkpoint.
+   * Concurrent calls share the same run. Returns the last indexed block.
+   */
+  async sync(): Promise<bigint> {
+    this.#syncing ??= this.#sync().finally(() => {
+      this.#syncing = undefined;
+    });
+
+    return this.#syncing;
+  }
+
+  /** Backfills, then keeps syncing on every new block until `stop()` is called. */
+  async follow(onError: (error: unknown) => void = console.error): Promise<void> {
+    await this.sync();
+
+    this.#unwatch ??= this.publicClient.watchBlockNumber({
+      onBlockNumber: () => {
+        this.sync().catch(onError);
+      },
+      onError,
+    });
+  }
+
+  stop(): void {
+    this.#unwatch?.();
+    this.#unwatch = undefined;
+  }
+
+  /** Compares the replayed caps against the contract at the last indexed block. */
+  async checkDrift(): Promise<DriftReport> {
+    const blockNumber = this.lastBlock;
+    const [onChainEth, onChainUsdc, onChainAssets] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "currentBankCapEth",
+        blockNumber,
+      }),
+      this.publicClient.readContract({
+        address: this.address,
+        abi: kipuBankAbi,
+        functionName: "currentBankCapUsdc",
+        blockNumber,
+      }),
+      Promise.all(
+        [...this.#assetCaps.keys()].map((token) =>
+          this.publicClient.readContract({
+            address: this.address,
+            abi: kipuBankAbi,
+            functionName: "assets",
+            args: [token],
+            blockNumber,
+          }),
+        ),
+      ),
+    ]);
+
+    const eth = { replayed: this.currentBankCapEth, onChain: onChainEth, drift: onChainEth - this.currentBankCapEth };
+    const usdc = { replayed: this.currentBankCapUsdc, onChain: onChainUsdc, drift: onChainUsdc - this.currentBankCapUsdc };
+    const assets = new Map<Address, CapDrift>(
+      [...this.#assetCaps].map(([token, { currentCap }], i) => {
+        const onChain = onChainAssets[i][5];
+        return [token, { replayed: currentCap, onChain, drift: onChain - currentCap }];
+      }),
+    );
+
+    const hasDrift = eth.drift !== 0n || usdc.drift !== 0n || [...assets.values()].some((cap) => cap.drift !== 0n);
+
+    return { blockNumber, eth, usdc, assets, hasDrift };
+  }
+
+  async #sync(): Promise<bigint> {
+    await this.#init();
+
+    const head = (await this.publicClient.getBlockNumber()) - (this.#config.confirmations ?? 0n);
+    const range = this.#config.blockRange ?? 2_000n;
+
+    while (this.lastBlock < head) {
+      const fromBlock = this.lastBlock + 1n;
+      const toBlock = fromBlock + range - 1n < head ? fromBlock + range - 1n : head;
+
+      const logs = await this.publicClient.getContractEvents({
+        address: this.address,
+        abi: kipuBankAbi,
+        fromBlock,
+        toBlock,
+        strict: true,
+      });
+
+      logs.sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+      );
+      for (const log of logs) {
+        if (INDEXED_EVENTS.has(log.eventName)) {
+          this.#apply(log);
+        }
+      }
+
+      this.lastBlock = toBlock;
+      await this.#saveCheckpoint();
+    }
+
+    if (this.#config.onDrift !== undefined && this.lastBlock >= 0n) {
+      const report = await this.checkDrift();
+      if (report.hasDrift) {
+        this.#config.onDrift(report);
+      }
+    }
+
+    return this.lastBlock;
+  }
+
+  #apply(log: { eventName: string; args: Record<string, unknown> }): void {
+    switch (log.eventName) {
+      case "Deposit": {
+        const { account, token, amount } = log.args as { account: Address; token: Address; amount: bigint };
+        this.#setBalance(account, token, this.balanceOf(account, token) + amount);
+        this.#moveCap(token, -amount);
+        break;
+      }
+      case "Withdraw": {
+        const { account, token, value } = log.args as { account: Address; token: Address; value: bigint };
+        this.#setBalance(account, token, this.balanceOf(account, token) - value);
+        this.#moveCap(token, value);
+        break;
+      }
+      case "BalanceAdjusted": {
+        const { account, token, newBalance, capDelta } = log.args as {
+          account: Address;
+          token: Address;
+          newBalance: bigint;
+          capDelta: bigint;
+        };
+        this.#setBalance(account, token, newBalance);
+        // capDelta is already expressed in the pool's cap units
+        this.#moveCapUnits(token, capDelta);
+        break;
+      }
+      case "TokenSwapped": {
+        const { tokenIn, amountIn, amountOut } = log.args as { tokenIn: Address; amountIn: bigint; amountOut: bigint };
+        const totals = this.#swaps.get(getAddress(tokenIn)) ?? { amountIn: 0n, amountOut: 0n, count: 0 };
+        this.#swaps.set(getAddress(tokenIn), {
+          amountIn: totals.amountIn + amountIn,
+          amountOut: totals.amountOut + amountOut,
+          count: totals.count + 1,
+        });
+        break;
+      }
+      case "AssetListed": {
+        const { token, maxCap } = log.args as { token: Address; maxCap: bigint };
+        this.#assetCaps.set(getAddress(token), { maxCap, currentCap: maxCap });
+        break;
+      }
+      case "AssetUpdated": {
+        const { token, maxCap } = log.args as { token: Address; maxCap: bigint };
+        const previous = this.#assetCaps.get(getAddress(token)) ?? { maxCap: 0n, currentCap: 0n };
+        const held = previous.maxCap - previous.currentCap;
+        this.#assetCaps.set(getAddress(token), { maxCap, currentCap: maxCap - held });
+        break;
+      }
+      case "AssetDelisted": {
+        const { token } = log.args as { token: Address };
+        this.#assetCaps.delete(getAddress(token));
+        break;
+      }
+      case "UsdcSharesTransfer": {
+        const { from, to, shares } = log.args as { from: Address; to: Address; shares: bigint };
+        if (getAddress(from) !== zeroAddress) {
+          this.#setUsdcShares(from, this.usdcSharesOf(from) - shares);
+        }
+        if (getAddress(to) !== zeroAddress) {
+          this.#setUsdcShares(to, this.usdcSharesOf(to) + shares);
+        }
+        break;
+      }
+      case "InternalTransfer": {
+        // moves the ledger between accounts; the caps are untouched
+        const { from, to, token, amount } = log.args as { from: Address; to: Address; token: Address; amount: bigint };
+        this.#setBalance(from, token, this.balanceOf(from, token) - amount);
+        this.#setBalance(to, token, this.balanceOf(to, token) + amount);
+        break;
+      }
+      case "FeeCharged": {
+        // the fee stays in the bank, on the treasury's ledger; the caps are untouched
+        const { account, token, fee } = log.args as { account: Address; token: Address; fee: bigint };
+        this.#setBalance(account, token, this.balanceOf(account, token) - fee);
+        this.#setBalance(TREASURY_ADDRESS, token, this.balanceOf(TREASURY_ADDRESS, token) + fee);
+        break;
+      }
+      case "UsdcYieldAccrued": {
+        // yield consumes USDC cap, losses free it
+        const { capDelta } = log.args as { capDelta: bigint };
+        this.currentBankCapUsdc += capDelta;
+        break;
+      }
+    }
+  }
+
+  /** Moves the cap of `token`'s pool by `amount` token units (negative consumes capacity). */
+  #moveCap(token: Address, amount: bigint): void {
+    if (getAddress(token) === this.#usdc) {
+      const sign = amount < 0n ? -1n : 1n;
+      this.#moveCapUnits(token, sign * this.#stableToUsdc(sign * amount));
+      return;
+    }
+
+    this.#moveCapUnits(token, amount);
+  }
+
+  /** Moves the cap of `token`'s pool by `capDelta` in the pool's cap units; unknown tokens are reported and skipped. */
+  #moveCapUnits(token: Address, capDelta: bigint): void {
+    const key = getAddress(token);
+    const assetCap = this.#assetCaps.get(key);
+
+    if (key === ETH_ADDRESS) {
+      this.currentBankCapEth += capDelta;
+    } else if (key === this.#usdc) {
+      this.currentBankCapUsdc += capDelta;
+    } else if (assetCap !== undefined) {
+      assetCap.currentCap += capDelta;
+    } else {
+      this.#config.onUnknownToken?.(key);
+    }
+  }
+
+  #stableToUsdc(amount: bigint): bigint {
+    if (this.#usdcDecimals >= 6) {
+      return amount / 10n ** BigInt(this.#usdcDecimals - 6);
+    }
+
+    return amount * 10n ** BigInt(6 - this.#usdcDecimals);
+  }
+
+  #setBalance(account: Address, token: Address, amount: bigint): void {
+    const key = getAddress(account);
+    const tokens = this.#balances.get(key) ?? new Map<Address, bigint>();
+
+    if (amount === 0n) {
+      tokens.delete(getAddress(token));
+    } else {
+      tokens.set(getAddress(token), amount);
+    }
+
+    if (tokens.size === 0) {
+      this.#balances.delete(key);
+    } else {
+      this.#balances.set(key, tokens);
+    }
+  }
+
+  #setUsdcShares(account: Address, shares: bigint): void {
+    if (shares === 0n) {
+      this.#usdcShares.delete(getAddress(account));
+    } else {
+      this.#usdcShares.set(getAddress(account), shares);
+    }
+  }
+
+  async #init(): Promise<void> {
+    if (this.#initialized) {
+      return;
+    }
+
+    const [usdc, maxEth, maxUsdc] = await Promise.all([
+      this.publicClient.readContract({ address: this.address, abi: kipuBankAbi, functionName: "USDC" }),
+      this.publicClient.readContract({ address: this.address, abi: kipuBankAbi, functionName: "MAX_BANK_CAP_ETH" }),
+      this.publicClient.readContract({ address: this.address, abi: kipuBankAbi, functionName: "MAX_BANK_CAP_USDC" }),
+    ]);
+    this.#usdc = getAddress(usdc);
+    this.#usdcDecimals = await this.publicClient.readContract({ address: usdc, abi: erc20Abi, functionName: "decimals" });
+    this.maxBankCapEth = maxEth;
+    this.maxBankCapUsdc = maxUsdc;
+    this.currentBankCapEth = maxEth;
+    this.currentBankCapUsdc = maxUsdc;
+
+    await this.#loadCheckpoint();
+    this.#initialized = true;
+  }
+
+  async #loadCheckpoint(): Promise<void> {
+    const file = this.#config.checkpointPath;
+    if (file === undefined) {
+      return;
+    }
+
+    let checkpoint: Checkpoint;
+    try {
+      checkpoint = JSON.parse(await readFile(file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    if (getAddress(checkpoint.address) !== this.address) {
+      throw new Error(`Checkpoint ${file} belongs to ${checkpoint.address}, not ${this.address}`);
+    }
+
+    this.lastBlock = BigInt(checkpoint.lastBlock);
+    this.currentBankCapEth = BigInt(checkpoint.currentBankCapEth);
+    this.currentBankCapUsdc = BigInt(checkpoint.currentBankCapUsdc);
+    for (const [account, tokens] of Object.entries(checkpoint.balances)) {
+      for (const [token, amount] of Object.entries(tokens)) {
+        this.#setBalance(account as Address, token as Address, BigInt(amount));
+      }
+    }
+    for (const [token, totals] of Object.entries(checkpoint.swaps)) {
+      this.#swaps.set(token as Address, {
+        amountIn: BigInt(totals.amountIn),
+        amountOut: BigInt(totals.amountOut),
+        count: totals.count,
+      });
+    }
+    for (const [token, cap] of Object.entries(checkpoint.assets ?? {})) {
+      this.#assetCaps.set(token as Address, { maxCap: BigInt(cap.maxCap), currentCap: BigInt(cap.currentCap) });
+    }
+    for (const [account, shares] of Object.entries(checkpoint.usdcShares ?? {})) {
+      this.#setUsdcShares(account as Address, BigInt(shares));
+    }
+  }
+
+  async #saveCheckpoint(): Promise<void> {
+    const file = this.#config.checkpointPath;
+    if (file === undefined) {
+      return;
+    }
+
+    const checkpoint: Checkpoint = {
+      address: this.address,
+      lastBlock: this.lastBlock.toString(),
+      maxBankCapEth: this.maxBankCapEth.toString(),
+      maxBankCapUsdc: this.maxBankCapUsdc.toString(),
+      currentBankCapEth: this.currentBankCapEth.toString(),
+      currentBankCapUsdc: this.currentBankCapUsdc.toString(),
+      balances: Object.fromEntries(
+        [...this.#balances].map(([account, tokens]) => [
+          account,
+          Object.fromEntries([...tokens].map(([token, amount]) => [token, amount.toString()])),
+        ]),
+      ),
+      swaps: Object.fromEntries(
+        [...this.#swaps].map(([token, totals]) => [
+          token,
+          { amountIn: totals.amountIn.toString(), amountOut: totals.amountOut.toString(), count: totals.count },
+        ]),
+      ),
+      assets: Object.fromEntries(
+        [...this.#assetCaps].map(([token, cap]) => [
+          token,
+          { maxCap: cap.maxCap.toString(), currentCap: cap.currentCap.toString() },
+        ]),
+      ),
+      usdcShares: Object.fromEntries([...this.#usdcShares].map(([account, shares]) => [account, shares.toString()])),
+    };
+
+    // write-then-rename so a crash never leaves a truncated checkpoint behind
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(checkpoint, null, 2));
+    await rename(`${file}.tmp`, file);
+  }
+}
@@ -0,0 +1,275 @@
+import { parseAbi } from "viem";
+
+/** ETH sentinel used by KipuBank for native balances (EIP-7528). */
+export const ETH_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as const;
+
+/** Operation groups of `KipuBank.Operation`, paused independently by the guardian. */
+export const Operation = {
+  Deposits: 0,
+  Withdrawals: 1,
+  Swaps: 2,
+} as const;
+
+export type Operation = (typeof Operation)[keyof typeof Operation];
+
+/** Operations of `KipuBank.FeeOperation`, each with its own fee. */
+export const FeeOperation = {
+  DepositEth: 0,
+  DepositUsdc: 1,
+  Swap: 2,
+  Withdraw: 3,
+} as const;
+
+export type FeeOperation = (typeof FeeOperation)[keyof typeof FeeOperation];
+
+/** Permission bits of `KipuBank.setOperator`, combined with `|`. */
+export const OperatorPermission = {
+  /** Swap-deposit the operator's tokens into the account's balance (`depositArbitraryTokenFor`). */
+  DepositFor: 1,
+  /** Withdraw the account's balance to the account itself (`withdrawFor`). */
+  WithdrawToOwner: 2,
+  /** Withdraw the account's balance to any address (`withdrawFor`). */
+  WithdrawAnywhere: 4,
+} as const;
+
+/** Ledger account KipuBank accrues fees to (`KipuBank.TREASURY`). */
+export const TREASURY_ADDRESS = "0x297b448B0F4d41a29CFe1e2a721B011383404bE4" as const;
+
+/** KipuBank ABI (human-readable, kept in sync with contracts/KipuBank.sol). */
+export const kipuBankAbi = parseAbi([
+  "struct PoolKey { address currency0; address currency1; uint24 fee; int24 tickSpacing; address hooks; }",
+  "struct TokenPermissions { address token; uint256 amount; }",
+  "struct PermitTransferFrom { TokenPermissions permitted; uint256 nonce; uint256 deadline; }",
+  "struct DelayedWithdrawal { address account; uint64 executableAt; address token; uint256 amount; uint256 shares; }",
+  "struct WithdrawIntent { address account; address token; uint256 amount; uint256 fee; uint256 nonce; uint256 deadline; }",
+  "struct OperatorGrant { uint8 permissions; uint64 expiry; }",
+  "struct Reserve { address token; uint256 held; uint256 liabilities; uint256 capUsed; uint256 surplus; }",
+  "struct TransferIntent { address account; address to; address token; uint256 amount; uint256 fee; uint256 nonce; uint256 deadline; }",
+
+  // Roles
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function RECOVERY_ROLE() view returns (bytes32)",
+  "function LIMITS_MANAGER_ROLE() view returns (bytes32)",
+  "function GUARDIAN_ROLE() view returns (bytes32)",
+  "function FEE_EXEMPT_ROLE() view returns (bytes32)",
+  "function TREASURER_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function grantRecovery(address admin)",
+  "function revokeRecovery(address admin)",
+
+  // Configuration
+  "function ETH() view returns (address)",
+  "function USDC() view returns (address)",
+  "function MAX_ETHER_WITHDRAW_LIMIT() view returns (uint256)",
+  "function MAX_USDC_WITHDRAW_LIMIT() view returns (uint256)",
+  "function etherWithdrawLimit() view returns (uint256)",
+  "function usdcWithdrawLimit() view returns (uint256)",
+  "function withdrawLimitOverrides(address account) view returns (uint256 etherLimit, uint256 usdcLimit, bool enabled)",
+  "function withdrawLimitsOf(address account) view returns (uint256 etherLimit, uint256 usdcLimit)",
+  "function MAX_DAILY_WITHDRAW_QUOTA() view returns (uint256)",
+  "function DAILY_WITHDRAW_WINDOW() view returns (uint256)",
+  "function dailyWithdrawQuota() view returns (uint256)",
+  "function remainingDailyWithdrawQuota(address account) view returns (uint256 remaining, uint256 resetAt)",
+  "function MAX_WITHDRAWAL_DELAY() view returns (uint256)",
+  "function withdrawalDelay() view returns (uint256)",
+  "function nextWithdrawalId() view returns (uint256)",
+  "function pendingWithdrawalsOf(address account) view returns (uint256[] ids, DelayedWithdrawal[] requests)",
+  "function operatorGrants(address account, address operator) view returns (uint8 permissions, uint64 expiry)",
+  "function operatorsOf(address account) view returns (address[] operators, OperatorGrant[] grants)",
+  "function MAX_ORACLE_DELAY() view returns (uint256)",
+  "function MAX_FEED_DEVIATION_BPS() view returns (uint256)",
+  "function MAX_SWAP_TOLERANCE_BPS() view returns (uint256)",
+  "function SEQUENCER_GRACE_PERIOD() view returns (uint256)",
+  "function oracleMaxDelay() view returns (uint256)",
+  "function maxFeedDeviationBps() view returns (uint256)",
+  "function MAX_SWAP_HOPS() view returns (uint256)",
+  "function MAX_BANK_CAP_ETH() view returns (uint256)",
+  "function MAX_BANK_CAP_USDC() view returns (uint256)",
+  "function currentBankCapEth() view returns (uint256)",
+  "function currentBankCapUsdc() view returns (uint256)",
+  "function countDeposits() view returns (uint256)",
+  "function countWithdraws() view returns (uint256)",
+  "function ethUsdFeed() view returns (address)",
+  "function fallbackEthUsdFeed() view returns (address)",
+  "function sequencerUptimeFeed() view returns (address)",
+  "function universalRouter() view returns (address)",
+  "function permit2() view returns (address)",
+  "function adminModule() view returns (address)",
+  "function depositsModule() view returns (address)",
+  "function accountsModule() view returns (address)",
+  "function UPGRADE_INTERFACE_VERSION() view returns (string)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function assets(address token) view returns (bool listed, uint8 decimals, address feed, uint8 feedDecimals, uint256 maxCap, uint256 currentCap, uint256 withdrawLimit)",
+  "function getListedAssets() view returns (address[])",
+  "function reserves() view returns (Reserve[] list)",
+  "function swapReferences(address token) view returns (address feed, uint8 feedDecimals, uint8 tokenDecimals, uint16 toleranceBps)",
+  "function previewSwapOutput(address tokenIn, uint256 amountIn) view returns (uint256 expectedAmountOut, uint256 minAmountOut)",
+  "function usdcStrategy() view returns (address)",
+  "function totalUsdcShares() view returns (uint256)",
+  "function totalUsdcAssets() view returns (uint256)",
+  "function usdcSharesOf(address account) view returns (uint256)",
+  "function convertToUsdcShares(uint256 amount) view returns (uint256)",
+  "function convertToUsdcAssets(uint256 shares) view returns (uint256)",
+  "function pauses(uint8 operation) view returns (bool paused, uint64 pausedUntil, bytes32 reason)",
+  "function isPaused(uint8 operation) view returns (bool)",
+  "function allowance(address owner, address spender, address token) view returns (uint256)",
+  "function MAX_FEE_BPS() view returns (uint256)",
+  "function TREASURY() view returns (address)",
+  "function feeBps(uint8 operation) view returns (uint256)",
+  "function previewFee(uint8 operation, address account, uint256 amount) view returns (uint256 net, uint256 fee)",
+  "function treasuryBalance(address token) view returns (uint256)",
+  "function nonces(address account) view returns (uint256)",
+
+  // Operations
+  "function depositEth() payable",
+  "function depositUsdc(uint256 amount)",
+  "function depositArbitraryToken(address tokenIn, uint256 amountIn, PoolKey poolKey, uint256 minAmountOut)",
+  "function depositUsdcWithPermit2(uint256 amount, PermitTransferFrom permit, bytes signature)",
+  "function depositUsdcWithPermit(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function depositArbitraryTokenWithPermit(uint256 amountIn, PoolKey poolKey, uint256 minAmountOut, PermitTransferFrom permit, bytes signature)",
+  "function depositAsset(address token, uint256 amount)",
+  "function depositEthAsUsdc(PoolKey poolKey, uint256 minAmountOut) payable",
+  "function depositArbitraryTokenMultiHop(address tokenIn, uint256 amountIn, PoolKey[] path, uint256 minAmountOut)",
+  "function withdraw(address token, uint256 _value)",
+  "function withdrawAsToken(address tokenOut, uint256 usdcAmount, PoolKey poolKey, uint256 minAmountOut)",
+  "function transfer(address to, address token, uint256 amount)",
+  "function transferBatch(address[] to, address[] tokens, uint256[] amounts)",
+  "function approve(address spender, address token, uint256 amount)",
+  "function transferFrom(address from, address to, address token, uint256 amount)",
+  "function requestWithdrawal(address token, uint256 amount) returns (uint256 id)",
+  "function executeWithdrawal(uint256 id)",
+  "function cancelWithdrawal(uint256 id)",
+  "function withdrawWithSig(WithdrawIntent intent, bytes signature)",
+  "function transferWithSig(TransferIntent intent, bytes signature)",
+  "function multicall(bytes[] data) payable returns (bytes[] results)",
+  "function setOperator(address operator, uint8 permissions, uint64 expiry)",
+  "function withdrawFor(address account, address token, uint256 amount, address to)",
+  "function depositArbitraryTokenFor(address account, address tokenIn, uint256 amountIn, PoolKey poolKey, uint256 minAmountOut)",
+  "function getBalance(address account, address token) view returns (uint256)",
+  "function getMyBalance(address token) view returns (uint256)",
+  "function previewToUsdc(address token, uint256 amount) view returns (uint256)",
+  "function initialize(address admin, uint256 maxBankCapEthWei, uint256 maxBankCapUsdc, address ethUsdFeed, address usdc, address universalRouter, address permit2)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "function setInternalBalance(address account, address token, uint256 newBalance)",
+  "function setInternalBalances(address[] accounts, address[] tokens, uint256[] newBalances)",
+  "function fundEth() payable",
+  "function setWithdrawLimits(uint256 etherLimit, uint256 usdcLimit)",
+  "function setWithdrawLimitOverride(address account, uint256 etherLimit, uint256 usdcLimit)",
+  "function clearWithdrawLimitOverride(address account)",
+  "function setDailyWithdrawQuota(uint256 quota)",
+  "function setWithdrawalDelay(uint256 delay)",
+  "function listAsset(address token, address feed, uint256 maxCap, uint256 withdrawLimit)",
+  "function updateAsset(address token, address feed, uint256 maxCap, uint256 withdrawLimit)",
+  "function delistAsset(address token)",
+  "function setOracleConfig(address fallbackFeed, address sequencerFeed, uint256 maxDelay, uint256 maxDeviationBps)",
+  "function setSwapReference(address token, address feed, uint256 toleranceBps)",
+  "function setUsdcStrategy(address strategy)",
+  "function pause(uint8 operation, bytes32 reason, uint256 duration)",
+  "function unpause(uint8 operation)",
+  "function setFee(uint8 operation, uint256 bps)",
+  "function withdrawTreasury(address token, uint256 amount, address to)",
+  "function sweepExcess(address token, address to) returns (uint256 amount)",
+
+  // Events
+  "event Deposit(address indexed account, address indexed token, uint256 amount)",
+  "event Withdraw(address indexed account, address indexed token, uint256 value)",
+  "event BalanceAdjusted(address indexed admin, address indexed account, address indexed token, uint256 previousBalance, uint256 newBalance, int256 capDelta)",
+  "event TokenSwapped(address indexed user, address indexed tokenIn, uint256 amountIn, uint256 amountOut)",
+  "event TokenSwappedOut(address indexed user, address indexed tokenOut, uint256 amountIn, uint256 amountOut)",
+  "event WithdrawLimitsUpdated(address indexed manager, uint256 etherLimit, uint256 usdcLimit)",
+  "event WithdrawLimitOverrideSet(address indexed manager, address indexed account, uint256 etherLimit, uint256 usdcLimit)",
+  "event WithdrawLimitOverrideCleared(address indexed manager, address indexed account)",
+  "event AssetListed(address indexed admin, address indexed token, address feed, uint8 decimals, uint256 maxCap, uint256 withdrawLimit)",
+  "event AssetUpdated(address indexed admin, address indexed token, address feed, uint256 maxCap, uint256 withdrawLimit)",
+  "event AssetDelisted(address indexed admin, address indexed token)",
+  "event DailyWithdrawQuotaUpdated(address indexed manager, uint256 quota)",
+  "event OracleConfigUpdated(address indexed admin, address fallbackFeed, address sequencerFeed, uint256 maxDelay, uint256 maxDeviationBps)",
+  "event SwapReferenceUpdated(address indexed admin, address indexed token, address feed, uint256 toleranceBps)",
+  "event UsdcStrategyUpdated(address indexed admin, address indexed strategy, uint256 assetsMoved)",
+  "event UsdcSharesTransfer(address indexed from, address indexed to, uint256 shares)",
+  "event UsdcYieldAccrued(uint256 totalAssets, int256 capDelta)",
+  "event InternalTransfer(address indexed from, address indexed to, address indexed token, uint256 amount)",
+  "event InternalApproval(address indexed owner, address indexed spender, address indexed token, uint256 amount)",
+  "event WithdrawalRequested(uint256 indexed id, address indexed account, address indexed token, uint256 amount, uint256 executableAt)",
+  "event WithdrawalExecuted(uint256 indexed id, address indexed account, address indexed token, uint256 amount)",
+  "event WithdrawalCancelled(uint256 indexed id, address indexed account, address indexed canceller)",
+  "event WithdrawalDelayUpdated(address indexed manager, uint256 delay)",
+  "event FeeCharged(address indexed account, address indexed token, uint8 indexed operation, uint256 fee)",
+  "event FeeUpdated(address indexed admin, uint8 indexed operation, uint256 bps)",
+  "event TreasuryWithdrawal(address indexed treasurer, address indexed to, address indexed token, uint256 amount)",
+  "event IntentRelayed(address indexed account, address indexed relayer, uint256 indexed nonce, address token, uint256 fee)",
+  "event OperatorSet(address indexed account, address indexed operator, uint8 permissions, uint64 expiry)",
+  "event OperatorRevoked(address indexed account, address indexed operator)",
+  "event OperatorWithdrawal(address indexed account, address indexed operator, address indexed to, address token, uint256 amount)",
+  "event ExcessSwept(address indexed admin, address indexed token, address indexed to, uint256 amount)",
+  "event OperationPaused(address indexed guardian, uint8 indexed operation, bytes32 reason, uint256 pausedUntil)",
+  "event OperationUnpaused(address indexed guardian, uint8 indexed operation)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event Initialized(uint64 version)",
+  "event Upgraded(address indexed implementation)",
+
+  // Errors
+  "error InvalidValue()",
+  "error BankCapEthExceeded(uint256 requested, uint256 available)",
+  "error BankCapUsdcExceeded(uint256 requested, uint256 available)",
+  "error InsufficientBalance(uint256 requested, uint256 available)",
+  "error WithdrawLimitExceeded(uint256 requested, uint256 limit)",
+  "error TransferFailed()",
+  "error OraclePriceInvalid()",
+  "error OracleStale(uint256 updateAt, uint256 nowTs)",
+  "error OracleDeviationExceeded(uint256 primaryPrice, uint256 fallbackPrice)",
+  "error SequencerDown()",
+  "error SequencerGracePeriodNotOver(uint256 resumesAt)",
+  "error OracleConfigOutOfBounds(uint256 value, uint256 maxValue)",
+  "error UnsupportedToken(address token)",
+  "error SlippageExceeded(uint256 amountOut, uint256 minAmountOut)",
+  "error InvalidSwapParams()",
+  "error SwapOutputBelowOracle(uint256 expectedAmountOut, uint256 amountOut)",
+  "error InvalidStrategy(address strategy)",
+  "error InvalidModule(address module)",
+  "error InvalidRecipient(address to)",
+  "error InsufficientAllowance(uint256 allowance, uint256 amount)",
+  "error ArrayLengthMismatch()",
+  "error UnknownWithdrawal(uint256 id)",
+  "error WithdrawalNotReady(uint256 id, uint256 executableAt)",
+  "error FeeOutOfBounds(uint256 bps, uint256 maxBps)",
+  "error IntentExpired(uint256 deadline)",
+  "error InvalidIntentNonce(uint256 expected, uint256 nonce)",
+  "error InvalidSignature()",
+  "error MulticallFailed(uint256 index, bytes reason)",
+  "error MulticallValueReused()",
+  "error MulticallValueUnused(uint256 value)",
+  "error InvalidOperator(address operator)",
+  "error InvalidOperatorGrant(uint8 permissions, uint64 expiry)",
+  "error OperatorNotAllowed(address account, address operator, uint8 permissions)",
+  "error NoSurplus(address token)",
+  "error WithdrawLimitOutOfBounds(uint256 limit, uint256 maxLimit)",
+  "error BankCapTokenExceeded(address token, uint256 requested, uint256 available)",
+  "error AssetAlreadyListed(address token)",
+  "error AssetStillHeld(address token, uint256 held)",
+  "error DailyWithdrawQuotaExceeded(uint256 requested, uint256 remaining, uint256 resetAt)",
+  "error PermitAllowanceTooLow(uint256 allowance, uint256 amount)",
+  "error OperationIsPaused(uint8 operation, bytes32 reason, uint256 pausedUntil)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error ERC1967NonPayable()",
+  "error FailedCall()",
+  // Permit2 reverts bubbled up by the permit deposits
+  "error SignatureExpired(uint256 signatureDeadline)",
+  "error InvalidNonce()",
+  "error InvalidAmount(uint256 maxAmount)",
+  "error InvalidSigner()",
+]);
+
+export type KipuBankAbi = typeof kipuBankAbi;
@@ -0,0 +1,87 @@
+import type { Account, Address, Chain, Hex, PublicClient, Transport, WalletClient } from "viem";
+import { erc20Abi, parseAbi, parseSignature } from "viem";
+
+/** EIP-2612 extension of ERC-20, used to read permit nonces. */
+export const erc2612Abi = parseAbi([
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+export interface SignErc2612PermitParams {
+  token: Address;
+  chainId: number;
+  /** The token's EIP-712 domain name, usually its `name()`. */
+  name: string;
+  /** The token's EIP-712 domain version: "1" for OpenZeppelin tokens, "2" for Circle's USDC. */
+  version: string;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/** EIP-2612 permit signature split into the `(v, r, s)` arguments token contracts expect. */
+export interface Erc2612Signature {
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+const permitTypes = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** Signs an EIP-2612 `Permit` of the wallet account for `spender` (no transaction). */
+export async function signErc2612Permit(
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  params: SignErc2612PermitParams,
+): Promise<Erc2612Signature> {
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account,
+    domain: { name: params.name, version: params.version, chainId: params.chainId, verifyingContract: params.token },
+    types: permitTypes,
+    primaryType: "Permit",
+    message: {
+      owner: walletClient.account.address,
+      spender: params.spender,
+      value: params.value,
+      nonce: params.nonce,
+      deadline: params.deadline,
+    },
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+
+  return { v: v !== undefined ? Number(v) : yParity + 27, r, s };
+}
+
+/**
+ * EIP-712 domain name and version of `token`, read through ERC-5267 `eip712Domain()`.
+ * Tokens without it (e.g. Circle's USDC) fall back to `name()` and `fallbackVersion`.
+ */
+export async function getPermitDomain(
+  publicClient: PublicClient,
+  token: Address,
+  fallbackVersion = "1",
+): Promise<{ name: string; version: string }> {
+  try {
+    const { domain } = await publicClient.getEip712Domain({ address: token });
+
+    return { name: domain.name, version: domain.version };
+  } catch {
+    const name = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "name",
+    });
+
+    return { name, version: fallbackVersion };
+  }
+}
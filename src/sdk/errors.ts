@@ -0,0 +1,465 @@
+import type { Address, Hex } from "viem";
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, isAddress, isHex } from "viem";
+
+import { kipuBankAbi } from "./abi.js";
+
+/** Base class for every revert decoded from a KipuBank custom error. */
+export class KipuBankError extends Error {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+
+  constructor(errorName: string, args: readonly unknown[] = [], options?: { cause?: unknown }) {
+    super(`KipuBank reverted with ${errorName}(${args.map(String).join(", ")})`, options);
+    this.name = `${errorName}Error`;
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+export class InvalidValueError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("InvalidValue", [], options);
+  }
+}
+
+export class BankCapEthExceededError extends KipuBankError {
+  constructor(readonly requested: bigint, readonly available: bigint, options?: { cause?: unknown }) {
+    super("BankCapEthExceeded", [requested, available], options);
+  }
+}
+
+export class BankCapUsdcExceededError extends KipuBankError {
+  constructor(readonly requested: bigint, readonly available: bigint, options?: { cause?: unknown }) {
+    super("BankCapUsdcExceeded", [requested, available], options);
+  }
+}
+
+export class InsufficientBalanceError extends KipuBankError {
+  constructor(readonly requested: bigint, readonly available: bigint, options?: { cause?: unknown }) {
+    super("InsufficientBalance", [requested, available], options);
+  }
+}
+
+export class WithdrawLimitExceededError extends KipuBankError {
+  constructor(readonly requested: bigint, readonly limit: bigint, options?: { cause?: unknown }) {
+    super("WithdrawLimitExceeded", [requested, limit], options);
+  }
+}
+
+export class TransferFailedError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("TransferFailed", [], options);
+  }
+}
+
+export class OraclePriceInvalidError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("OraclePriceInvalid", [], options);
+  }
+}
+
+export class OracleStaleError extends KipuBankError {
+  constructor(readonly updatedAt: bigint, readonly nowTs: bigint, options?: { cause?: unknown }) {
+    super("OracleStale", [updatedAt, nowTs], options);
+  }
+}
+
+export class OracleDeviationExceededError extends KipuBankError {
+  constructor(readonly primaryPrice: bigint, readonly fallbackPrice: bigint, options?: { cause?: unknown }) {
+    super("OracleDeviationExceeded", [primaryPrice, fallbackPrice], options);
+  }
+}
+
+export class SequencerDownError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("SequencerDown", [], options);
+  }
+}
+
+export class SequencerGracePeriodNotOverError extends KipuBankError {
+  constructor(readonly resumesAt: bigint, options?: { cause?: unknown }) {
+    super("SequencerGracePeriodNotOver", [resumesAt], options);
+  }
+}
+
+export class OracleConfigOutOfBoundsError extends KipuBankError {
+  constructor(readonly value: bigint, readonly maxValue: bigint, options?: { cause?: unknown }) {
+    super("OracleConfigOutOfBounds", [value, maxValue], options);
+  }
+}
+
+export class UnsupportedTokenError extends KipuBankError {
+  constructor(readonly token: Address, options?: { cause?: unknown }) {
+    super("UnsupportedToken", [token], options);
+  }
+}
+
+export class SlippageExceededError extends KipuBankError {
+  constructor(readonly amountOut: bigint, readonly minAmountOut: bigint, options?: { cause?: unknown }) {
+    super("SlippageExceeded", [amountOut, minAmountOut], options);
+  }
+}
+
+export class InvalidSwapParamsError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("InvalidSwapParams", [], options);
+  }
+}
+
+export class SwapOutputBelowOracleError extends KipuBankError {
+  constructor(readonly expectedAmountOut: bigint, readonly amountOut: bigint, options?: { cause?: unknown }) {
+    super("SwapOutputBelowOracle", [expectedAmountOut, amountOut], options);
+  }
+}
+
+export class InvalidStrategyError extends KipuBankError {
+  constructor(readonly strategy: Address, options?: { cause?: unknown }) {
+    super("InvalidStrategy", [strategy], options);
+  }
+}
+
+export class InvalidModuleError extends KipuBankError {
+  constructor(readonly module: Address, options?: { cause?: unknown }) {
+    super("InvalidModule", [module], options);
+  }
+}
+
+export class InvalidRecipientError extends KipuBankError {
+  constructor(readonly to: Address, options?: { cause?: unknown }) {
+    super("InvalidRecipient", [to], options);
+  }
+}
+
+export class InsufficientAllowanceError extends KipuBankError {
+  constructor(readonly allowance: bigint, readonly amount: bigint, options?: { cause?: unknown }) {
+    super("InsufficientAllowance", [allowance, amount], options);
+  }
+}
+
+export class ArrayLengthMismatchError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("ArrayLengthMismatch", [], options);
+  }
+}
+
+export class UnknownWithdrawalError extends KipuBankError {
+  constructor(readonly id: bigint, options?: { cause?: unknown }) {
+    super("UnknownWithdrawal", [id], options);
+  }
+}
+
+export class WithdrawalNotReadyError extends KipuBankError {
+  constructor(readonly id: bigint, readonly executableAt: bigint, options?: { cause?: unknown }) {
+    super("WithdrawalNotReady", [id, executableAt], options);
+  }
+}
+
+export class FeeOutOfBoundsError extends KipuBankError {
+  constructor(readonly bps: bigint, readonly maxBps: bigint, options?: { cause?: unknown }) {
+    super("FeeOutOfBounds", [bps, maxBps], options);
+  }
+}
+
+export class IntentExpiredError extends KipuBankError {
+  constructor(readonly deadline: bigint, options?: { cause?: unknown }) {
+    super("IntentExpired", [deadline], options);
+  }
+}
+
+export class InvalidIntentNonceError extends KipuBankError {
+  constructor(readonly expected: bigint, readonly nonce: bigint, options?: { cause?: unknown }) {
+    super("InvalidIntentNonce", [expected, nonce], options);
+  }
+}
+
+export class InvalidSignatureError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("InvalidSignature", [], options);
+  }
+}
+
+/** A call of a multicall batch reverted; `reason` is its own revert, decoded when it is a known error. */
+export class MulticallFailedError extends KipuBankError {
+  readonly reason: KipuBankError | undefined;
+
+  constructor(
+    readonly index: bigint,
+    readonly revertData: Hex,
+    options?: { cause?: unknown; functionName?: string },
+  ) {
+    super("MulticallFailed", [index, revertData], options);
+    this.reason = decodeRevertData(revertData, options?.cause);
+    const call = options?.functionName !== undefined ? `${options.functionName} (call ${index})` : `call ${index}`;
+    this.message = `KipuBank multicall failed: ${call} reverted with ${this.reason?.message.replace("KipuBank reverted with ", "") ?? revertData}`;
+  }
+}
+
+export class MulticallValueReusedError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("MulticallValueReused", [], options);
+  }
+}
+
+export class MulticallValueUnusedError extends KipuBankError {
+  constructor(readonly value: bigint, options?: { cause?: unknown }) {
+    super("MulticallValueUnused", [value], options);
+  }
+}
+
+export class InvalidOperatorError extends KipuBankError {
+  constructor(readonly operator: Address, options?: { cause?: unknown }) {
+    super("InvalidOperator", [operator], options);
+  }
+}
+
+export class InvalidOperatorGrantError extends KipuBankError {
+  constructor(readonly permissions: number, readonly expiry: bigint, options?: { cause?: unknown }) {
+    super("InvalidOperatorGrant", [permissions, expiry], options);
+  }
+}
+
+export class OperatorNotAllowedError extends KipuBankError {
+  constructor(
+    readonly account: Address,
+    readonly operator: Address,
+    readonly permissions: number,
+    options?: { cause?: unknown },
+  ) {
+    super("OperatorNotAllowed", [account, operator, permissions], options);
+  }
+}
+
+export class NoSurplusError extends KipuBankError {
+  constructor(readonly token: Address, options?: { cause?: unknown }) {
+    super("NoSurplus", [token], options);
+  }
+}
+
+export class WithdrawLimitOutOfBoundsError extends KipuBankError {
+  constructor(readonly limit: bigint, readonly maxLimit: bigint, options?: { cause?: unknown }) {
+    super("WithdrawLimitOutOfBounds", [limit, maxLimit], options);
+  }
+}
+
+export class BankCapTokenExceededError extends KipuBankError {
+  constructor(
+    readonly token: Address,
+    readonly requested: bigint,
+    readonly available: bigint,
+    options?: { cause?: unknown },
+  ) {
+    super("BankCapTokenExceeded", [token, requested, available], options);
+  }
+}
+
+export class AssetAlreadyListedError extends KipuBankError {
+  constructor(readonly token: Address, options?: { cause?: unknown }) {
+    super("AssetAlreadyListed", [token], options);
+  }
+}
+
+export class AssetStillHeldError extends KipuBankError {
+  constructor(readonly token: Address, readonly held: bigint, options?: { cause?: unknown }) {
+    super("AssetStillHeld", [token, held], options);
+  }
+}
+
+export class DailyWithdrawQuotaExceededError extends KipuBankError {
+  constructor(
+    readonly requested: bigint,
+    readonly remaining: bigint,
+    readonly resetAt: bigint,
+    options?: { cause?: unknown },
+  ) {
+    super("DailyWithdrawQuotaExceeded", [requested, remaining, resetAt], options);
+  }
+}
+
+export class PermitAllowanceTooLowError extends KipuBankError {
+  constructor(readonly allowance: bigint, readonly amount: bigint, options?: { cause?: unknown }) {
+    super("PermitAllowanceTooLow", [allowance, amount], options);
+  }
+}
+
+export class OperationIsPausedError extends KipuBankError {
+  constructor(
+    readonly operation: number,
+    readonly reason: Hex,
+    readonly pausedUntil: bigint,
+    options?: { cause?: unknown },
+  ) {
+    super("OperationIsPaused", [operation, reason, pausedUntil], options);
+  }
+}
+
+export class AccessControlUnauthorizedAccountError extends KipuBankError {
+  constructor(readonly account: Address, readonly neededRole: Hex, options?: { cause?: unknown }) {
+    super("AccessControlUnauthorizedAccount", [account, neededRole], options);
+  }
+}
+
+export class SignatureExpiredError extends KipuBankError {
+  constructor(readonly signatureDeadline: bigint, options?: { cause?: unknown }) {
+    super("SignatureExpired", [signatureDeadline], options);
+  }
+}
+
+export class InvalidNonceError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("InvalidNonce", [], options);
+  }
+}
+
+export class InvalidAmountError extends KipuBankError {
+  constructor(readonly maxAmount: bigint, options?: { cause?: unknown }) {
+    super("InvalidAmount", [maxAmount], options);
+  }
+}
+
+export class InvalidSignerError extends KipuBankError {
+  constructor(options?: { cause?: unknown }) {
+    super("InvalidSigner", [], options);
+  }
+}
+
+type ErrorFactory = (args: readonly unknown[], cause: unknown) => KipuBankError;
+
+/** Thrown by the `as*` helpers when a decoded error argument doesn't have the type its factory expects. */
+class ErrorArgumentTypeError extends TypeError {}
+
+function asBigInt(value: unknown): bigint {
+  if (typeof value !== "bigint") throw new ErrorArgumentTypeError(`expected a bigint, got ${typeof value}`);
+  return value;
+}
+
+function asNumber(value: unknown): number {
+  if (typeof value !== "number") throw new ErrorArgumentTypeError(`expected a number, got ${typeof value}`);
+  return value;
+}
+
+function asAddress(value: unknown): Address {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    throw new ErrorArgumentTypeError(`expected an address, got ${String(value)}`);
+  }
+  return value;
+}
+
+function asHex(value: unknown): Hex {
+  if (typeof value !== "string" || !isHex(value)) throw new ErrorArgumentTypeError(`expected hex data, got ${String(value)}`);
+  return value;
+}
+
+const errorFactories: Record<string, ErrorFactory> = {
+  InvalidValue: (_, cause) => new InvalidValueError({ cause }),
+  BankCapEthExceeded: ([requested, available], cause) =>
+    new BankCapEthExceededError(asBigInt(requested), asBigInt(available), { cause }),
+  BankCapUsdcExceeded: ([requested, available], cause) =>
+    new BankCapUsdcExceededError(asBigInt(requested), asBigInt(available), { cause }),
+  InsufficientBalance: ([requested, available], cause) =>
+    new InsufficientBalanceError(asBigInt(requested), asBigInt(available), { cause }),
+  WithdrawLimitExceeded: ([requested, limit], cause) =>
+    new WithdrawLimitExceededError(asBigInt(requested), asBigInt(limit), { cause }),
+  TransferFailed: (_, cause) => new TransferFailedError({ cause }),
+  OraclePriceInvalid: (_, cause) => new OraclePriceInvalidError({ cause }),
+  OracleStale: ([updatedAt, nowTs], cause) => new OracleStaleError(asBigInt(updatedAt), asBigInt(nowTs), { cause }),
+  OracleDeviationExceeded: ([primaryPrice, fallbackPrice], cause) =>
+    new OracleDeviationExceededError(asBigInt(primaryPrice), asBigInt(fallbackPrice), { cause }),
+  SequencerDown: (_, cause) => new SequencerDownError({ cause }),
+  SequencerGracePeriodNotOver: ([resumesAt], cause) =>
+    new SequencerGracePeriodNotOverError(asBigInt(resumesAt), { cause }),
+  OracleConfigOutOfBounds: ([value, maxValue], cause) =>
+    new OracleConfigOutOfBoundsError(asBigInt(value), asBigInt(maxValue), { cause }),
+  UnsupportedToken: ([token], cause) => new UnsupportedTokenError(asAddress(token), { cause }),
+  SlippageExceeded: ([amountOut, minAmountOut], cause) =>
+    new SlippageExceededError(asBigInt(amountOut), asBigInt(minAmountOut), { cause }),
+  InvalidSwapParams: (_, cause) => new InvalidSwapParamsError({ cause }),
+  SwapOutputBelowOracle: ([expectedAmountOut, amountOut], cause) =>
+    new SwapOutputBelowOracleError(asBigInt(expectedAmountOut), asBigInt(amountOut), { cause }),
+  InvalidStrategy: ([strategy], cause) => new InvalidStrategyError(asAddress(strategy), { cause }),
+  InvalidModule: ([module], cause) => new InvalidModuleError(asAddress(module), { cause }),
+  InvalidRecipient: ([to], cause) => new InvalidRecipientError(asAddress(to), { cause }),
+  InsufficientAllowance: ([allowance, amount], cause) =>
+    new InsufficientAllowanceError(asBigInt(allowance), asBigInt(amount), { cause }),
+  ArrayLengthMismatch: (_, cause) => new ArrayLengthMismatchError({ cause }),
+  UnknownWithdrawal: ([id], cause) => new UnknownWithdrawalError(asBigInt(id), { cause }),
+  WithdrawalNotReady: ([id, executableAt], cause) =>
+    new WithdrawalNotReadyError(asBigInt(id), asBigInt(executableAt), { cause }),
+  FeeOutOfBounds: ([bps, maxBps], cause) => new FeeOutOfBoundsError(asBigInt(bps), asBigInt(maxBps), { cause }),
+  IntentExpired: ([deadline], cause) => new IntentExpiredError(asBigInt(deadline), { cause }),
+  InvalidIntentNonce: ([expected, nonce], cause) =>
+    new InvalidIntentNonceError(asBigInt(expected), asBigInt(nonce), { cause }),
+  InvalidSignature: (_, cause) => new InvalidSignatureError({ cause }),
+  MulticallFailed: ([index, revertData], cause) =>
+    new MulticallFailedError(asBigInt(index), asHex(revertData), { cause }),
+  MulticallValueReused: (_, cause) => new MulticallValueReusedError({ cause }),
+  MulticallValueUnused: ([value], cause) => new MulticallValueUnusedError(asBigInt(value), { cause }),
+  InvalidOperator: ([operator], cause) => new InvalidOperatorError(asAddress(operator), { cause }),
+  InvalidOperatorGrant: ([permissions, expiry], cause) =>
+    new InvalidOperatorGrantError(asNumber(permissions), asBigInt(expiry), { cause }),
+  OperatorNotAllowed: ([account, operator, permissions], cause) =>
+    new OperatorNotAllowedError(asAddress(account), asAddress(operator), asNumber(permissions), { cause }),
+  NoSurplus: ([token], cause) => new NoSurplusError(asAddress(token), { cause }),
+  WithdrawLimitOutOfBounds: ([limit, maxLimit], cause) =>
+    new WithdrawLimitOutOfBoundsError(asBigInt(limit), asBigInt(maxLimit), { cause }),
+  BankCapTokenExceeded: ([token, requested, available], cause) =>
+    new BankCapTokenExceededError(asAddress(token), asBigInt(requested), asBigInt(available), { cause }),
+  AssetAlreadyListed: ([token], cause) => new AssetAlreadyListedError(asAddress(token), { cause }),
+  AssetStillHeld: ([token, held], cause) => new AssetStillHeldError(asAddress(token), asBigInt(held), { cause }),
+  DailyWithdrawQuotaExceeded: ([requested, remaining, resetAt], cause) =>
+    new DailyWithdrawQuotaExceededError(asBigInt(requested), asBigInt(remaining), asBigInt(resetAt), { cause }),
+  PermitAllowanceTooLow: ([allowance, amount], cause) =>
+    new PermitAllowanceTooLowError(asBigInt(allowance), asBigInt(amount), { cause }),
+  OperationIsPaused: ([operation, reason, pausedUntil], cause) =>
+    new OperationIsPausedError(asNumber(operation), asHex(reason), asBigInt(pausedUntil), { cause }),
+  AccessControlUnauthorizedAccount: ([account, neededRole], cause) =>
+    new AccessControlUnauthorizedAccountError(asAddress(account), asHex(neededRole), { cause }),
+  SignatureExpired: ([signatureDeadline], cause) => new SignatureExpiredError(asBigInt(signatureDeadline), { cause }),
+  InvalidNonce: (_, cause) => new InvalidNonceError({ cause }),
+  InvalidAmount: ([maxAmount], cause) => new InvalidAmountError(asBigInt(maxAmount), { cause }),
+  InvalidSigner: (_, cause) => new InvalidSignerError({ cause }),
+};
+
+/** Builds the typed error for a decoded revert, or a plain KipuBankError when it has no factory or unexpected args. */
+function createKipuBankError(errorName: string, args: readonly unknown[], cause: unknown): KipuBankError {
+  const factory = errorFactories[errorName];
+  if (factory !== undefined) {
+    try {
+      return factory(args, cause);
+    } catch (error) {
+      if (!(error instanceof ErrorArgumentTypeError)) throw error;
+    }
+  }
+
+  return new KipuBankError(errorName, args, { cause });
+}
+
+/**
+ * Turns a viem contract error into the matching typed KipuBank error.
+ * Returns `undefined` when the error is not a decodable KipuBank revert.
+ */
+export function decodeKipuBankError(error: unknown): KipuBankError | undefined {
+  if (error instanceof KipuBankError) {
+    return error;
+  }
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError) || reverted.data === undefined) {
+    return undefined;
+  }
+
+  const { errorName, args = [] } = reverted.data;
+  return createKipuBankError(errorName, args, error);
+}
+
+/** Decodes raw revert data (e.g. of a call inside a multicall) into a typed KipuBank error, if it is one. */
+function decodeRevertData(data: Hex, cause: unknown): KipuBankError | undefined {
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: kipuBankAbi, data });
+    return createKipuBankError(errorName, args, cause);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,10 @@
+export { ETH_ADDRESS, FeeOperation, Operation, OperatorPermission, TREASURY_ADDRESS, kipuBankAbi } from "./abi.js";
+export type { KipuBankAbi } from "./abi.js";
+export * from "./errors.js";
+export * from "./KipuBankClient.js";
+export * from "./KipuBankIndexer.js";
+export * from "./permit2.js";
+export * from "./erc2612.js";
+export * from "./migration.js";
+export * from "./intents.js";
+export * from "./relayer.js";
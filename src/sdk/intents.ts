@@ -0,0 +1,125 @@
+import type { Account, Address, Chain, Hex, Transport, TypedDataDomain, WalletClient } from "viem";
+import { getAddress, isHex } from "viem";
+
+/** A withdrawal signed by `account`, submitted by a relayer with `withdrawWithSig`. */
+export interface WithdrawIntent {
+  account: Address;
+  /** `ETH_ADDRESS`, USDC or a listed asset. */
+  token: Address;
+  /** Amount withdrawn to `account`, before the bank's Withdraw fee. */
+  amount: bigint;
+  /** Relayer fee in `token`, moved to the submitter's KipuBank balance on top of `amount`. */
+  fee: bigint;
+  /** Must equal the bank's `nonces(account)` when submitted. */
+  nonce: bigint;
+  /** Last timestamp (seconds) the intent can be submitted at. */
+  deadline: bigint;
+}
+
+/** An internal transfer signed by `account`, submitted by a relayer with `transferWithSig`. */
+export interface TransferIntent {
+  account: Address;
+  to: Address;
+  /** `ETH_ADDRESS`, USDC or a listed asset. */
+  token: Address;
+  amount: bigint;
+  /** Relayer fee in `token`, moved to the submitter's KipuBank balance on top of `amount`. */
+  fee: bigint;
+  /** Must equal the bank's `nonces(account)` when submitted. */
+  nonce: bigint;
+  /** Last timestamp (seconds) the intent can be submitted at. */
+  deadline: bigint;
+}
+
+/** An intent with the account's signature, as handed to a relayer. */
+export type SignedIntent =
+  | { kind: "withdraw"; bank: Address; chainId: number; intent: WithdrawIntent; signature: Hex }
+  | { kind: "transfer"; bank: Address; chainId: number; intent: TransferIntent; signature: Hex };
+
+/** EIP-712 types of the KipuBank intents, matching the type hashes of KipuBankAccounts. */
+export const intentTypes = {
+  WithdrawIntent: [
+    { name: "account", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "fee", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TransferIntent: [
+    { name: "account", type: "address" },
+    { name: "to", type: "address" },
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "fee", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** EIP-712 domain KipuBank verifies intents against. */
+export function intentDomain(bank: Address, chainId: number): TypedDataDomain {
+  return { name: "KipuBank", version: "1", chainId, verifyingContract: bank };
+}
+
+/** Signs a withdrawal intent of the wallet account (no transaction). */
+export async function signWithdrawIntent(
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  params: { bank: Address; chainId: number; intent: Omit<WithdrawIntent, "account"> },
+): Promise<SignedIntent & { kind: "withdraw" }> {
+  const intent = { account: walletClient.account.address, ...params.intent };
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account,
+    domain: intentDomain(params.bank, params.chainId),
+    types: intentTypes,
+    primaryType: "WithdrawIntent",
+    message: intent,
+  });
+
+  return { kind: "withdraw", bank: params.bank, chainId: params.chainId, intent, signature };
+}
+
+/** Signs a transfer intent of the wallet account (no transaction). */
+export async function signTransferIntent(
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  params: { bank: Address; chainId: number; intent: Omit<TransferIntent, "account"> },
+): Promise<SignedIntent & { kind: "transfer" }> {
+  const intent = { account: walletClient.account.address, ...params.intent };
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account,
+    domain: intentDomain(params.bank, params.chainId),
+    types: intentTypes,
+    primaryType: "TransferIntent",
+    message: intent,
+  });
+
+  return { kind: "transfer", bank: params.bank, chainId: params.chainId, intent, signature };
+}
+
+/** JSON form of a signed intent, with amounts as decimal strings. */
+export function serializeSignedIntent(signed: SignedIntent): string {
+  return JSON.stringify(signed, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+/** Parses the output of `serializeSignedIntent`, checking its shape. */
+export function parseSignedIntent(json: string): SignedIntent {
+  const raw = JSON.parse(json);
+  if ((raw?.kind !== "withdraw" && raw?.kind !== "transfer") || typeof raw.intent !== "object" || !isHex(raw.signature)) {
+    throw new TypeError("Not a signed KipuBank intent");
+  }
+
+  const intent = raw.intent;
+  const common = {
+    account: getAddress(intent.account),
+    token: getAddress(intent.token),
+    amount: BigInt(intent.amount),
+    fee: BigInt(intent.fee),
+    nonce: BigInt(intent.nonce),
+    deadline: BigInt(intent.deadline),
+  };
+  const base = { bank: getAddress(raw.bank), chainId: Number(raw.chainId), signature: raw.signature as Hex };
+
+  return raw.kind === "withdraw"
+    ? { kind: "withdraw", ...base, intent: common }
+    : { kind: "transfer", ...base, intent: { ...common, to: getAddress(intent.to) } };
+}
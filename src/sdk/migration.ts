@@ -0,0 +1,258 @@
+import type { Account, Address, Chain, Hash, PublicClient, Transport, WalletClient } from "viem";
+import { erc20Abi, getAddress } from "viem";
+
+import { ETH_ADDRESS, kipuBankAbi } from "./abi.js";
+import { decodeKipuBankError } from "./errors.js";
+import type { KipuBankIndexer } from "./KipuBankIndexer.js";
+
+/** Thrown when a source bank cannot be migrated as is, or when the seeded caps do not add up. */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+export interface MigrationEntry {
+  account: Address;
+  /** `ETH_ADDRESS`, the source bank's USDC or one of its listed assets. */
+  token: Address;
+  /** Token units; USDC balances earning yield are valued at their pool shares. */
+  amount: bigint;
+}
+
+export interface MigrationPlan {
+  source: Address;
+  /** Block the balances were read at. */
+  blockNumber: bigint;
+  /** USDC of the source bank. */
+  usdc: Address;
+  usdcDecimals: number;
+  entries: MigrationEntry[];
+  totalEth: bigint;
+  /** Sum of the USDC entries in the caps' 6 decimals. */
+  totalUsdc: bigint;
+  /** Sum of the entries of each listed asset, in token units. */
+  totalAssets: Map<Address, bigint>;
+}
+
+export interface SeedMigrationConfig {
+  plan: MigrationPlan;
+  /** The KipuBank proxy to seed; it must list every asset of the plan. */
+  address: Address;
+  publicClient: PublicClient;
+  /** Needs RECOVERY_ROLE on the new bank. */
+  walletClient: WalletClient<Transport, Chain | undefined, Account>;
+  /** Balances per `setInternalBalances` transaction. Defaults to 100. */
+  batchSize?: number;
+  /** Only simulate the batches. */
+  dryRun?: boolean;
+}
+
+export interface SeedMigrationResult {
+  /** One per batch; empty on a dry run. */
+  hashes: Hash[];
+  batches: number;
+  currentBankCapEth: bigint;
+  currentBankCapUsdc: bigint;
+}
+
+/**
+ * Reads every balance of a V2 (or later) KipuBank from its events, through a synced
+ * indexer, and checks that they add up to the caps the bank has consumed.
+ *
+ * The source should have its deposits and withdrawals paused, and its pending delayed
+ * withdrawals cancelled: USDC locked by one is rejected, as it no longer belongs to
+ * any account's pool shares. Listed asset balances are checked against the replayed
+ * asset caps, so the indexer must have seen the assets being listed.
+ */
+export async function planMigration(indexer: KipuBankIndexer): Promise<MigrationPlan> {
+  const report = await indexer.checkDrift();
+  if (report.hasDrift) {
+    throw new MigrationError(
+      `Indexed caps drift from ${indexer.address} (ETH ${report.eth.drift}, USDC ${report.usdc.drift}); ` +
+        "index from the deployment block",
+    );
+  }
+
+  const { address: source, publicClient, lastBlock: blockNumber } = indexer;
+  const usdc = getAddress(
+    await publicClient.readContract({ address: source, abi: kipuBankAbi, functionName: "USDC", blockNumber }),
+  );
+  const usdcDecimals = await publicClient.readContract({ address: usdc, abi: erc20Abi, functionName: "decimals" });
+
+  if (indexer.usdcSharesOf(source) > 0n) {
+    throw new MigrationError(`${source} holds USDC locked by delayed withdrawals; cancel them before migrating`);
+  }
+
+  // once the bank has a USDC pool (V3) the shares are the balances, the ledger only sums the flows
+  const usdcShares = indexer.usdcShares();
+  const assetCaps = indexer.assetCaps();
+  const entries: MigrationEntry[] = [];
+  for (const [account, tokens] of indexer.balances()) {
+    for (const [token, balance] of tokens) {
+      if (token === usdc && usdcShares.size > 0) {
+        continue;
+      }
+      if (token !== ETH_ADDRESS && token !== usdc && !assetCaps.has(token) && balance !== 0n) {
+        throw new MigrationError(`${account} holds ${balance} of ${token}, whose listing was not indexed; index from the deployment block`);
+      }
+      entries.push({ account, token, amount: balance });
+    }
+  }
+  for (const [account, shares] of usdcShares) {
+    const amount = await publicClient.readContract({
+      address: source,
+      abi: kipuBankAbi,
+      functionName: "convertToUsdcAssets",
+      args: [shares],
+      blockNumber,
+    });
+    entries.push({ account, token: usdc, amount });
+  }
+
+  const usdcEntries = entries.filter((entry) => entry.token === usdc);
+  const totalEth = entries.filter((entry) => entry.token === ETH_ADDRESS).reduce((sum, entry) => sum + entry.amount, 0n);
+  const totalUsdc = usdcEntries.reduce((sum, entry) => sum + stableToUsdc(entry.amount, usdcDecimals), 0n);
+
+  const heldEth = indexer.maxBankCapEth - indexer.currentBankCapEth;
+  if (totalEth !== heldEth) {
+    throw new MigrationError(`ETH balances add up to ${totalEth} but the bank holds ${heldEth}`);
+  }
+
+  const totalAssets = new Map<Address, bigint>();
+  for (const [token, { maxCap, currentCap }] of assetCaps) {
+    const total = entries.filter((entry) => entry.token === token).reduce((sum, entry) => sum + entry.amount, 0n);
+    if (total !== maxCap - currentCap) {
+      throw new MigrationError(`${token} balances add up to ${total} but the bank holds ${maxCap - currentCap}`);
+    }
+    totalAssets.set(token, total);
+  }
+
+  // pool shares are valued rounding down, losing at most one unit per account
+  const heldUsdc = indexer.maxBankCapUsdc - indexer.currentBankCapUsdc;
+  if (totalUsdc > heldUsdc || heldUsdc - totalUsdc > BigInt(usdcEntries.length)) {
+    throw new MigrationError(
+      `USDC balances add up to ${totalUsdc} but the bank holds ${heldUsdc}; accrue the strategy yield first`,
+    );
+  }
+
+  return {
+    source,
+    blockNumber,
+    usdc,
+    usdcDecimals,
+    entries: entries.filter((entry) => entry.amount > 0n),
+    totalEth,
+    totalUsdc,
+    totalAssets,
+  };
+}
+
+/**
+ * Seeds a migration plan into a KipuBank proxy with batched `setInternalBalances`
+ * calls, then checks the new caps moved by exactly the migrated totals. The listed
+ * assets of the plan must be listed on the new bank first. Setting balances is
+ * idempotent, so an interrupted run can be repeated with the same plan.
+ */
+export async function seedMigration(config: SeedMigrationConfig): Promise<SeedMigrationResult> {
+  const { plan, publicClient, walletClient, dryRun = false } = config;
+  const address = getAddress(config.address);
+  const batchSize = config.batchSize ?? 100;
+  if (!(batchSize > 0)) {
+    throw new RangeError(`batchSize must be positive, got ${batchSize}`);
+  }
+
+  const bank = { address, abi: kipuBankAbi } as const;
+
+  const usdc = getAddress(await publicClient.readContract({ ...bank, functionName: "USDC" }));
+  const usdcDecimals = await publicClient.readContract({ address: usdc, abi: erc20Abi, functionName: "decimals" });
+  if (usdcDecimals !== plan.usdcDecimals) {
+    throw new MigrationError(`USDC has ${usdcDecimals} decimals on the new bank and ${plan.usdcDecimals} on the source`);
+  }
+
+  const [maxEth, maxUsdc] = await Promise.all([
+    publicClient.readContract({ ...bank, functionName: "MAX_BANK_CAP_ETH" }),
+    publicClient.readContract({ ...bank, functionName: "MAX_BANK_CAP_USDC" }),
+  ]);
+  if (plan.totalEth > maxEth || plan.totalUsdc > maxUsdc) {
+    throw new MigrationError(
+      `Migrated balances (ETH ${plan.totalEth}, USDC ${plan.totalUsdc}) exceed the new caps (ETH ${maxEth}, USDC ${maxUsdc})`,
+    );
+  }
+
+  const maxAssetCaps = new Map<Address, bigint>();
+  for (const [token, total] of plan.totalAssets) {
+    const [listed, , , , maxCap] = await publicClient.readContract({ ...bank, functionName: "assets", args: [token] });
+    if (!listed) {
+      throw new MigrationError(`${token} is not listed on the new bank`);
+    }
+    if (total > maxCap) {
+      throw new MigrationError(`Migrated ${token} balances (${total}) exceed its new cap (${maxCap})`);
+    }
+    maxAssetCaps.set(token, maxCap);
+  }
+
+  const entries = plan.entries.map((entry) => ({
+    ...entry,
+    token: entry.token === plan.usdc ? usdc : entry.token,
+  }));
+
+  const hashes: Hash[] = [];
+  let batches = 0;
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const batch = entries.slice(i, i + batchSize);
+    batches++;
+
+    try {
+      const { request } = await publicClient.simulateContract({
+        ...bank,
+        functionName: "setInternalBalances",
+        args: [batch.map((entry) => entry.account), batch.map((entry) => entry.token), batch.map((entry) => entry.amount)],
+        account: walletClient.account,
+        chain: walletClient.chain,
+      });
+      if (dryRun) {
+        continue;
+      }
+
+      const hash = await walletClient.writeContract(request);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        throw new Error(`Transaction ${hash} reverted`);
+      }
+      hashes.push(hash);
+    } catch (error) {
+      throw decodeKipuBankError(error) ?? error;
+    }
+  }
+
+  const [currentBankCapEth, currentBankCapUsdc] = await Promise.all([
+    publicClient.readContract({ ...bank, functionName: "currentBankCapEth" }),
+    publicClient.readContract({ ...bank, functionName: "currentBankCapUsdc" }),
+  ]);
+  if (!dryRun && (maxEth - currentBankCapEth !== plan.totalEth || maxUsdc - currentBankCapUsdc !== plan.totalUsdc)) {
+    throw new MigrationError(
+      `The new bank holds ETH ${maxEth - currentBankCapEth} and USDC ${maxUsdc - currentBankCapUsdc} ` +
+        `after seeding, expected ${plan.totalEth} and ${plan.totalUsdc}`,
+    );
+  }
+  for (const [token, maxCap] of dryRun ? [] : maxAssetCaps) {
+    const [, , , , , currentCap] = await publicClient.readContract({ ...bank, functionName: "assets", args: [token] });
+    if (maxCap - currentCap !== plan.totalAssets.get(token)) {
+      throw new MigrationError(
+        `The new bank holds ${maxCap - currentCap} of ${token} after seeding, expected ${plan.totalAssets.get(token)}`,
+      );
+    }
+  }
+
+  return { hashes, batches, currentBankCapEth, currentBankCapUsdc };
+}
+
+function stableToUsdc(amount: bigint, decimals: number): bigint {
+  if (decimals >= 6) {
+    return amount / 10n ** BigInt(decimals - 6);
+  }
+
+  return amount * 10n ** BigInt(6 - decimals);
+}
@@ -0,0 +1,90 @@
+import type { Account, Address, Chain, Hex, PublicClient, Transport, WalletClient } from "viem";
+import { parseAbi } from "viem";
+
+/** Canonical Permit2 deployment, at the same address on every chain. */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as const;
+
+/** The subset of Permit2 used by KipuBank's permit deposits. */
+export const permit2Abi = parseAbi([
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function nonceBitmap(address owner, uint256 wordPos) view returns (uint256)",
+  "error SignatureExpired(uint256 signatureDeadline)",
+  "error InvalidNonce()",
+  "error InvalidAmount(uint256 maxAmount)",
+  "error InvalidSigner()",
+]);
+
+/** Permit2 `PermitTransferFrom` (SignatureTransfer), as passed to the permit deposits. */
+export interface PermitTransferFrom {
+  permitted: { token: Address; amount: bigint };
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface SignPermitTransferFromParams {
+  permit2: Address;
+  chainId: number;
+  /** The contract allowed to redeem the permit, i.e. the bank. */
+  spender: Address;
+  token: Address;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+const permitTransferFromTypes = {
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+  PermitTransferFrom: [
+    { name: "permitted", type: "TokenPermissions" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+/** Signs a Permit2 `PermitTransferFrom` with the wallet account (EIP-712, no transaction). */
+export async function signPermitTransferFrom(
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  params: SignPermitTransferFromParams,
+): Promise<{ permit: PermitTransferFrom; signature: Hex }> {
+  const permit: PermitTransferFrom = {
+    permitted: { token: params.token, amount: params.amount },
+    nonce: params.nonce,
+    deadline: params.deadline,
+  };
+
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account,
+    // Permit2's domain has no version field
+    domain: { name: "Permit2", chainId: params.chainId, verifyingContract: params.permit2 },
+    types: permitTransferFromTypes,
+    primaryType: "PermitTransferFrom",
+    message: { ...permit, spender: params.spender },
+  });
+
+  return { permit, signature };
+}
+
+/**
+ * First unused Permit2 nonce of `owner`. Permit2 nonces are unordered bits,
+ * 256 per bitmap word, so this scans words from zero.
+ */
+export async function nextPermitNonce(publicClient: PublicClient, permit2: Address, owner: Address): Promise<bigint> {
+  for (let wordPos = 0n; ; wordPos++) {
+    const bitmap = await publicClient.readContract({
+      address: permit2,
+      abi: permit2Abi,
+      functionName: "nonceBitmap",
+      args: [owner, wordPos],
+    });
+
+    for (let bit = 0n; bit < 256n; bit++) {
+      if ((bitmap & (1n << bit)) === 0n) {
+        return (wordPos << 8n) | bit;
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { TransactionReceipt } from "viem";
+import { getAddress } from "viem";
+
+import { KipuBankError } from "./errors.js";
+import type { SignedIntent } from "./intents.js";
+import type { KipuBankClient } from "./KipuBankClient.js";
+
+/** What the relayer did with an intent. */
+export type RelayOutcome =
+  | { status: "relayed"; receipt: TransactionReceipt }
+  /** Not submittable yet (a lower nonce is missing, the operation is paused, the daily quota is spent): retry later. */
+  | { status: "pending"; reason: string }
+  /** Never submittable: expired, nonce already used, bad signature, another bank, or a permanent revert. */
+  | { status: "dropped"; reason: string; error?: unknown };
+
+// Reverts that go away with time; any other revert drops the intent
+const RETRYABLE_ERRORS = new Set(["OperationIsPaused", "DailyWithdrawQuotaExceeded", "OracleStale", "SequencerDown"]);
+
+/**
+ * Submits intents signed by other accounts with the client's wallet, which pays the gas and earns
+ * the intents' fees. Intents of the same account are submitted in nonce order.
+ */
+export class KipuBankRelayer {
+  readonly client: KipuBankClient;
+
+  constructor(client: KipuBankClient) {
+    this.client = client;
+  }
+
+  /** Relays a batch of intents; the outcomes are in the order of `intents`. */
+  async relay(intents: readonly SignedIntent[]): Promise<RelayOutcome[]> {
+    const order = intents
+      .map((signed, index) => ({ signed, index }))
+      .sort((a, b) => (a.signed.intent.nonce < b.signed.intent.nonce ? -1 : a.signed.intent.nonce > b.signed.intent.nonce ? 1 : 0));
+
+    const outcomes: RelayOutcome[] = new Array(intents.length);
+    for (const { signed, index } of order) {
+      outcomes[index] = await this.relayOne(signed);
+    }
+
+    return outcomes;
+  }
+
+  /** Checks an intent against the bank's state and submits it when it can go through. */
+  async relayOne(signed: SignedIntent): Promise<RelayOutcome> {
+    const { publicClient } = this.client;
+    if (getAddress(signed.bank) !== getAddress(this.client.address)) {
+      return { status: "dropped", reason: `signed for bank ${signed.bank}` };
+    }
+
+    const [chainId, block, nonce] = await Promise.all([
+      publicClient.getChainId(),
+      publicClient.getBlock(),
+      this.client.nonce(signed.intent.account),
+    ]);
+    if (signed.chainId !== chainId) {
+      return { status: "dropped", reason: `signed for chain ${signed.chainId}` };
+    }
+    if (signed.intent.deadline < block.timestamp) {
+      return { status: "dropped", reason: `expired at ${signed.intent.deadline}` };
+    }
+    if (signed.intent.nonce < nonce) {
+      return { status: "dropped", reason: `nonce ${signed.intent.nonce} already used` };
+    }
+    if (signed.intent.nonce > nonce) {
+      return { status: "pending", reason: `waiting for nonce ${nonce}` };
+    }
+
+    try {
+      return { status: "relayed", receipt: await this.client.relayIntent(signed) };
+    } catch (error) {
+      if (error instanceof KipuBankError && RETRYABLE_ERRORS.has(error.errorName)) {
+        return { status: "pending", reason: error.message };
+      }
+      return { status: "dropped", reason: error instanceof Error ? error.message : String(error), error };
+    }
+  }
+}
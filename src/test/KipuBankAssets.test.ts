@@ -0,0 +1,250 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+describe("KipuBank - Multi-token Asset Registry", async function() {
+    const { viem } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2] = await viem.getWalletClients();
+
+        const ethFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const btcFeed = await viem.deployContract("MockV3Aggregator", [8, 60_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18], {
+            client: { wallet: deployer },
+        });
+
+        const wbtc = await viem.deployContract("MockERC20", ["Wrapped Bitcoin", "WBTC", 8], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract(
+            "KipuBank",
+            [adminModule.address, depositsModule.address, accountsModule.address],
+            { client: { wallet: deployer } },
+        );
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, parseEther("100"), 50_000n * 10n ** 6n, ethFeed.address, usdc.address, router.address, permit2.address],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+            client: { wallet: deployer },
+        });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        await dai.write.mint([user.account.address, parseUnits("10000", 18)], { account: deployer.account });
+        await wbtc.write.mint([user.account.address, parseUnits("10", 8)], { account: deployer.account });
+
+        return { bank, ethFeed, btcFeed, usdc, dai, wbtc, deployer, user, user2, publicClient };
+    }
+
+    async function deployWithAssets() {
+        const ctx = await deployAll();
+        const { bank, btcFeed, dai, wbtc, deployer } = ctx;
+
+        await bank.write.listAsset([wbtc.address, btcFeed.address, parseUnits("5", 8), parseUnits("0.01", 8)], {
+            account: deployer.account,
+        });
+        await bank.write.listAsset([dai.address, zeroAddress, parseUnits("20000", 18), parseUnits("1000", 18)], {
+            account: deployer.account,
+        });
+
+        return ctx;
+    }
+
+    describe("Registry management", () => {
+        it("lists assets with their decimals, feed and caps", async () => {
+            const { bank, btcFeed, dai, wbtc } = await deployWithAssets();
+
+            assert.deepEqual(await bank.read.getListedAssets(), [getAddress(wbtc.address), getAddress(dai.address)]);
+
+            const [listed, decimals, feed, feedDecimals, maxCap, currentCap, withdrawLimit] = await bank.read.assets([
+                wbtc.address,
+            ]);
+            assert.equal(listed, true);
+            assert.equal(decimals, 8);
+            assert.equal(feed, getAddress(btcFeed.address));
+            assert.equal(feedDecimals, 8);
+            assert.equal(maxCap, parseUnits("5", 8));
+            assert.equal(currentCap, parseUnits("5", 8));
+            assert.equal(withdrawLimit, parseUnits("0.01", 8));
+        });
+
+        it("only the admin can manage the registry", async () => {
+            const { bank, btcFeed, wbtc, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.listAsset([wbtc.address, btcFeed.address, 1n, 1n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+
+        it("rejects ETH, USDC and duplicate listings", async () => {
+            const { bank, usdc, wbtc, deployer } = await deployWithAssets();
+
+            await assert.rejects(
+                bank.write.listAsset([usdc.address, zeroAddress, 1n, 1n], { account: deployer.account }),
+                /UnsupportedToken/,
+            );
+            await assert.rejects(
+                bank.write.listAsset(["0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE", zeroAddress, 1n, 1n], {
+                    account: deployer.account,
+                }),
+                /UnsupportedToken/,
+            );
+            await assert.rejects(
+                bank.write.listAsset([wbtc.address, zeroAddress, 1n, 1n], { account: deployer.account }),
+                /AssetAlreadyListed/,
+            );
+        });
+
+        it("updateAsset keeps holdings and cannot shrink the cap below them", async () => {
+            const { bank, btcFeed, wbtc, user, deployer } = await deployWithAssets();
+
+            await wbtc.write.approve([bank.address, parseUnits("2", 8)], { account: user.account });
+            await bank.write.depositAsset([wbtc.address, parseUnits("2", 8)], { account: user.account });
+
+            await assert.rejects(
+                bank.write.updateAsset([wbtc.address, btcFeed.address, parseUnits("1", 8), 1n], {
+                    account: deployer.account,
+                }),
+                /AssetStillHeld/,
+            );
+
+            await bank.write.updateAsset([wbtc.address, btcFeed.address, parseUnits("3", 8), parseUnits("0.5", 8)], {
+                account: deployer.account,
+            });
+            const [, , , , maxCap, currentCap, withdrawLimit] = await bank.read.assets([wbtc.address]);
+            assert.equal(maxCap, parseUnits("3", 8));
+            assert.equal(currentCap, parseUnits("1", 8));
+            assert.equal(withdrawLimit, parseUnits("0.5", 8));
+        });
+
+        it("delists an asset only once nobody holds it", async () => {
+            const { bank, dai, wbtc, user, deployer } = await deployWithAssets();
+
+            await dai.write.approve([bank.address, parseUnits("100", 18)], { account: user.account });
+            await bank.write.depositAsset([dai.address, parseUnits("100", 18)], { account: user.account });
+
+            await assert.rejects(bank.write.delistAsset([dai.address], { account: deployer.account }), /AssetStillHeld/);
+
+            await bank.write.withdraw([dai.address, parseUnits("100", 18)], { account: user.account });
+            await bank.write.delistAsset([dai.address], { account: deployer.account });
+
+            assert.deepEqual(await bank.read.getListedAssets(), [getAddress(wbtc.address)]);
+            await assert.rejects(
+                bank.write.depositAsset([dai.address, 1n], { account: user.account }),
+                /UnsupportedToken/,
+            );
+        });
+    });
+
+    describe("Native deposits and withdrawals", () => {
+        it("holds WBTC natively and consumes its own cap", async () => {
+            const { bank, wbtc, user } = await deployWithAssets();
+            const amount = parseUnits("1.5", 8);
+
+            const usdcCapBefore = await bank.read.currentBankCapUsdc();
+            await wbtc.write.approve([bank.address, amount], { account: user.account });
+            await bank.write.depositAsset([wbtc.address, amount], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([wbtc.address], { account: user.account }), amount);
+            assert.equal(await wbtc.read.balanceOf([bank.address]), amount);
+            assert.equal((await bank.read.assets([wbtc.address]))[5], parseUnits("3.5", 8));
+            assert.equal(await bank.read.currentBankCapUsdc(), usdcCapBefore);
+        });
+
+        it("reverts deposits above the asset cap", async () => {
+            const { bank, wbtc, user } = await deployWithAssets();
+
+            await wbtc.write.approve([bank.address, parseUnits("6", 8)], { account: user.account });
+            await assert.rejects(
+                bank.write.depositAsset([wbtc.address, parseUnits("6", 8)], { account: user.account }),
+                /BankCapTokenExceeded/,
+            );
+        });
+
+        it("values assets through their own feed, or 1:1 without one", async () => {
+            const { bank, dai, wbtc } = await deployWithAssets();
+
+            // 0.01 WBTC at $60,000 = $600
+            assert.equal(await bank.read.previewToUsdc([wbtc.address, parseUnits("0.01", 8)]), 600n * 10n ** 6n);
+            assert.equal(await bank.read.previewToUsdc([dai.address, parseUnits("250", 18)]), 250n * 10n ** 6n);
+        });
+
+        it("withdraw enforces both the token limit and the USD limit", async () => {
+            const { bank, btcFeed, wbtc, user, deployer } = await deployWithAssets();
+
+            await wbtc.write.approve([bank.address, parseUnits("1", 8)], { account: user.account });
+            await bank.write.depositAsset([wbtc.address, parseUnits("1", 8)], { account: user.account });
+
+            await assert.rejects(
+                bank.write.withdraw([wbtc.address, parseUnits("0.02", 8)], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            // raise the token limit: 0.02 WBTC = $1,200 is now above the $1,000 USD limit
+            await bank.write.updateAsset([wbtc.address, btcFeed.address, parseUnits("5", 8), parseUnits("1", 8)], {
+                account: deployer.account,
+            });
+            await assert.rejects(
+                bank.write.withdraw([wbtc.address, parseUnits("0.02", 8)], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            await bank.write.withdraw([wbtc.address, parseUnits("0.01", 8)], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([wbtc.address], { account: user.account }), parseUnits("0.99", 8));
+            assert.equal((await bank.read.assets([wbtc.address]))[5], parseUnits("4.01", 8));
+        });
+
+        it("recovery adjusts asset balances against the asset cap", async () => {
+            const { bank, wbtc, user, deployer } = await deployWithAssets();
+
+            await bank.write.setInternalBalance([user.account.address, wbtc.address, parseUnits("2", 8)], {
+                account: deployer.account,
+            });
+            assert.equal((await bank.read.assets([wbtc.address]))[5], parseUnits("3", 8));
+
+            await assert.rejects(
+                bank.write.setInternalBalance([user.account.address, wbtc.address, parseUnits("6", 8)], {
+                    account: deployer.account,
+                }),
+                /BankCapTokenExceeded/,
+            );
+
+            await bank.write.setInternalBalance([user.account.address, wbtc.address, 0n], { account: deployer.account });
+            assert.equal((await bank.read.assets([wbtc.address]))[5], parseUnits("5", 8));
+        });
+
+        it("still rejects unlisted tokens", async () => {
+            const { bank, dai, user } = await deployAll();
+
+            await assert.rejects(bank.write.withdraw([dai.address, 1n], { account: user.account }), /UnsupportedToken/);
+            await assert.rejects(bank.read.previewToUsdc([dai.address, 1n]), /UnsupportedToken/);
+        });
+    });
+});
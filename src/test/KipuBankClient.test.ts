@@ -0,0 +1,381 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import {
+    BankCapEthExceededError,
+    BankCapTokenExceededError,
+    ETH_ADDRESS,
+    InsufficientAllowanceError,
+    KipuBankClient,
+    OracleStaleError,
+    SlippageExceededError,
+    SwapOutputBelowOracleError,
+    UnsupportedTokenError,
+    WithdrawLimitExceededError,
+    WithdrawalNotReadyError,
+    createPoolKey,
+    createPoolPath,
+    minAmountOutFromSlippage,
+} from "../sdk/index.js";
+
+describe("KipuBankClient", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll(opts?: { maxEthCap?: bigint }) {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user] = await viem.getWalletClients();
+
+        const feed = await viem.deployContract("MockV3Aggregator", [8, 2_500n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [
+                deployer.account.address,
+                opts?.maxEthCap ?? parseEther("100"),
+                100_000n * 10n ** 6n,
+                feed.address,
+                usdc.address,
+                router.address,
+                permit2.address,
+            ],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+
+        await usdc.write.mint([deployer.account.address, 100_000n * 10n ** 6n]);
+        await usdc.write.approve([router.address, 100_000n * 10n ** 6n]);
+        await router.write.fundRouter([100_000n * 10n ** 6n]);
+
+        const client = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+
+        return { bank, feed, usdc, dai, permit2, router, deployer, user, publicClient, client };
+    }
+
+    describe("helpers", () => {
+        it("createPoolKey sorts currencies", () => {
+            const low = "0x0000000000000000000000000000000000000001";
+            const high = "0x00000000000000000000000000000000000000ff";
+
+            assert.deepEqual(createPoolKey(high, low), createPoolKey(low, high));
+            assert.equal(createPoolKey(high, low).currency0, low);
+        });
+
+        it("createPoolPath pairs consecutive tokens", () => {
+            const a = "0x0000000000000000000000000000000000000003";
+            const b = "0x0000000000000000000000000000000000000002";
+            const c = "0x0000000000000000000000000000000000000001";
+
+            assert.deepEqual(createPoolPath([a, b, c]), [createPoolKey(a, b), createPoolKey(b, c)]);
+        });
+
+        it("minAmountOutFromSlippage applies the percent", () => {
+            assert.equal(minAmountOutFromSlippage(1_000n * 10n ** 6n, 0.5), 995n * 10n ** 6n);
+            assert.equal(minAmountOutFromSlippage(1_000n, 0), 1_000n);
+            assert.throws(() => minAmountOutFromSlippage(1_000n, 101), RangeError);
+        });
+    });
+
+    describe("deposits and withdrawals", () => {
+        it("depositEth and withdraw round-trip", async () => {
+            const { client } = await deployAll();
+
+            await client.depositEth(parseEther("1"));
+            assert.equal(await client.getMyBalance(ETH_ADDRESS), parseEther("1"));
+
+            await client.withdraw(ETH_ADDRESS, parseEther("0.2"));
+            assert.equal(await client.getMyBalance(ETH_ADDRESS), parseEther("0.8"));
+        });
+
+        it("depositUsdc approves only when the allowance is too low", async () => {
+            const { client, usdc, user, bank } = await deployAll();
+
+            await usdc.write.mint([user.account.address, 1_000n * 10n ** 6n]);
+
+            await client.depositUsdc(400n * 10n ** 6n);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 0n);
+
+            await usdc.write.approve([bank.address, 600n * 10n ** 6n], { account: user.account });
+            await client.depositUsdc(100n * 10n ** 6n);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 500n * 10n ** 6n);
+
+            assert.equal(await client.getMyBalance(await client.usdc()), 500n * 10n ** 6n);
+        });
+
+        it("usdcPosition values the pool shares including strategy yield", async () => {
+            const { client, bank, usdc, deployer, user } = await deployAll();
+            const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+
+            await bank.write.setUsdcStrategy([strategy.address], { account: deployer.account });
+            await usdc.write.mint([user.account.address, 1_000n * 10n ** 6n]);
+            await client.depositUsdc(1_000n * 10n ** 6n);
+            assert.deepEqual(await client.usdcPosition(), { shares: 1_000n * 10n ** 6n, value: 1_000n * 10n ** 6n });
+
+            await usdc.write.mint([strategy.address, 100n * 10n ** 6n]);
+            const { shares, value } = await client.usdcPosition(user.account.address);
+            assert.equal(shares, 1_000n * 10n ** 6n);
+            assert.ok(value > 1_099n * 10n ** 6n && value <= 1_100n * 10n ** 6n);
+        });
+
+        it("transfers internally and decodes InsufficientAllowance", async () => {
+            const { client, bank, user, publicClient } = await deployAll();
+            const [, , user2, merchant] = await viem.getWalletClients();
+
+            await client.depositEth(parseEther("3"));
+            await client.transferBatch([
+                { to: user2.account.address, token: ETH_ADDRESS, amount: parseEther("1") },
+                { to: merchant.account.address, token: ETH_ADDRESS, amount: parseEther("0.5") },
+            ]);
+            assert.equal(await client.getMyBalance(ETH_ADDRESS, user2.account.address), parseEther("1"));
+
+            await client.approve(merchant.account.address, ETH_ADDRESS, parseEther("1"));
+            const merchantClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: merchant });
+            await merchantClient.transferFrom(user.account.address, merchant.account.address, ETH_ADDRESS, parseEther("0.25"));
+            assert.equal(await client.allowance(user.account.address, merchant.account.address, ETH_ADDRESS), parseEther("0.75"));
+            assert.equal(await client.getMyBalance(ETH_ADDRESS), parseEther("1.25"));
+
+            await assert.rejects(
+                merchantClient.transferFrom(user.account.address, merchant.account.address, ETH_ADDRESS, parseEther("1")),
+                (error: unknown) => {
+                    assert.ok(error instanceof InsufficientAllowanceError);
+                    assert.equal(error.allowance, parseEther("0.75"));
+                    return true;
+                },
+            );
+        });
+
+        it("requests, lists and executes a delayed withdrawal", async () => {
+            const { client } = await deployAll();
+
+            await client.depositEth(parseEther("1"));
+            const { id } = await client.requestWithdrawal(ETH_ADDRESS, parseEther("0.25"));
+
+            const [pending] = await client.pendingWithdrawals();
+            assert.equal(pending.id, id);
+            assert.equal(pending.amount, parseEther("0.25"));
+            await assert.rejects(client.executeWithdrawal(id), (error: unknown) => {
+                assert.ok(error instanceof WithdrawalNotReadyError);
+                assert.equal(error.executableAt, pending.executableAt);
+                return true;
+            });
+
+            await networkHelpers.time.increaseTo(pending.executableAt);
+            await client.executeWithdrawal(id);
+            assert.deepEqual(await client.pendingWithdrawals(), []);
+            assert.equal(await client.getMyBalance(ETH_ADDRESS), parseEther("0.75"));
+        });
+
+        it("depositAsset holds a listed asset natively", async () => {
+            const { client, bank, dai, deployer, user } = await deployAll();
+
+            await bank.write.listAsset([dai.address, zeroAddress, parseUnits("150", 18), parseUnits("50", 18)], {
+                account: deployer.account,
+            });
+            await dai.write.mint([user.account.address, parseUnits("200", 18)]);
+
+            await client.depositAsset(dai.address, parseUnits("100", 18));
+            assert.equal(await client.getMyBalance(dai.address), parseUnits("100", 18));
+            assert.deepEqual(await client.listedAssets(), [getAddress(dai.address)]);
+
+            await assert.rejects(client.depositAsset(dai.address, parseUnits("100", 18)), (error) => {
+                assert.ok(error instanceof BankCapTokenExceededError);
+                assert.equal(error.available, parseUnits("50", 18));
+                return true;
+            });
+        });
+
+        it("depositToken swaps with a slippage-derived minAmountOut", async () => {
+            const { client, dai, user, usdc } = await deployAll();
+
+            await dai.write.mint([user.account.address, parseUnits("100", 18)]);
+            await client.depositToken({
+                tokenIn: dai.address,
+                amountIn: parseUnits("100", 18),
+                expectedAmountOut: 100n * 10n ** 6n,
+                slippagePercent: 0.5,
+            });
+
+            assert.equal(await client.getMyBalance(usdc.address), 100n * 10n ** 6n);
+        });
+
+        it("depositTokenMultiHop routes through the intermediate tokens", async () => {
+            const { client, router, dai, usdc, user } = await deployAll();
+            const weth = await viem.deployContract("MockERC20", ["Wrapped Ether", "WETH", 18]);
+
+            await router.write.setExchangeRate([weth.address, 2_500n * 10n ** 6n]);
+            await dai.write.mint([user.account.address, parseUnits("100", 18)]);
+            await client.depositTokenMultiHop({
+                tokenIn: dai.address,
+                amountIn: parseUnits("100", 18),
+                via: [weth.address],
+                expectedAmountOut: 100n * 10n ** 6n,
+            });
+
+            assert.equal(await client.getMyBalance(usdc.address), 100n * 10n ** 6n);
+        });
+
+        it("withdrawAsToken swaps part of the USDC balance out", async () => {
+            const { client, router, dai, usdc, user } = await deployAll();
+
+            await dai.write.mint([router.address, parseUnits("1000", 18)]);
+            await usdc.write.mint([user.account.address, 300n * 10n ** 6n]);
+            await client.depositUsdc(300n * 10n ** 6n);
+
+            await client.withdrawAsToken({
+                tokenOut: dai.address,
+                usdcAmount: 200n * 10n ** 6n,
+                expectedAmountOut: parseUnits("200", 18),
+            });
+
+            assert.equal(await dai.read.balanceOf([user.account.address]), parseUnits("200", 18));
+            assert.equal(await client.getMyBalance(usdc.address), 100n * 10n ** 6n);
+        });
+
+        it("depositEthAsUsdc swaps through the native pool", async () => {
+            const { client, router, usdc } = await deployAll();
+
+            await router.write.setExchangeRate([zeroAddress, 2_500n * 10n ** 6n]);
+            await client.depositEthAsUsdc({
+                amountWei: parseEther("0.1"),
+                expectedAmountOut: 250n * 10n ** 6n,
+                slippagePercent: 0.5,
+            });
+
+            assert.equal(await client.getMyBalance(usdc.address), 250n * 10n ** 6n);
+            assert.equal(await client.getMyBalance(ETH_ADDRESS), 0n);
+        });
+
+        it("permit deposits approve Permit2 once and then only sign", async () => {
+            const { client, bank, permit2, dai, usdc, user } = await deployAll();
+
+            await usdc.write.mint([user.account.address, 300n * 10n ** 6n]);
+            await client.depositUsdcWithPermit2(100n * 10n ** 6n);
+            await client.depositUsdcWithPermit2(200n * 10n ** 6n);
+
+            await dai.write.mint([user.account.address, parseUnits("50", 18)]);
+            await client.depositTokenWithPermit({
+                tokenIn: dai.address,
+                amountIn: parseUnits("50", 18),
+                expectedAmountOut: 50n * 10n ** 6n,
+            });
+
+            assert.equal(await client.getMyBalance(usdc.address), 350n * 10n ** 6n);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 0n);
+            // three consecutive nonces consumed
+            assert.equal(await permit2.read.nonceBitmap([user.account.address, 0n]), 7n);
+        });
+
+        it("depositUsdcWithErc2612Permit signs the USDC permit instead of approving", async () => {
+            const { client, bank, usdc, user } = await deployAll();
+
+            await usdc.write.mint([user.account.address, 100n * 10n ** 6n]);
+            await client.depositUsdcWithErc2612Permit(100n * 10n ** 6n);
+
+            assert.equal(await client.getMyBalance(usdc.address), 100n * 10n ** 6n);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 0n);
+            assert.equal(await usdc.read.nonces([user.account.address]), 1n);
+        });
+
+        it("previewToUsdc values ETH through the oracle", async () => {
+            const { client } = await deployAll();
+
+            assert.equal(await client.previewToUsdc(ETH_ADDRESS, parseEther("1")), 2_500n * 10n ** 6n);
+        });
+    });
+
+    describe("error decoding", () => {
+        it("decodes BankCapEthExceeded", async () => {
+            const { client } = await deployAll({ maxEthCap: parseEther("1") });
+
+            await assert.rejects(client.depositEth(parseEther("2")), (error: unknown) => {
+                assert.ok(error instanceof BankCapEthExceededError);
+                assert.equal(error.requested, parseEther("2"));
+                assert.equal(error.available, parseEther("1"));
+                return true;
+            });
+        });
+
+        it("decodes WithdrawLimitExceeded", async () => {
+            const { client } = await deployAll();
+
+            await client.depositEth(parseEther("1"));
+
+            await assert.rejects(client.withdraw(ETH_ADDRESS, parseEther("0.5")), (error: unknown) => {
+                assert.ok(error instanceof WithdrawLimitExceededError);
+                assert.equal(error.limit, 1_000n * 10n ** 6n);
+                return true;
+            });
+        });
+
+        it("decodes SlippageExceeded", async () => {
+            const { client, dai, router, user } = await deployAll();
+
+            await router.write.setExchangeRate([dai.address, 900_000n]);
+            await dai.write.mint([user.account.address, parseUnits("100", 18)]);
+
+            await assert.rejects(
+                client.depositToken({
+                    tokenIn: dai.address,
+                    amountIn: parseUnits("100", 18),
+                    expectedAmountOut: 100n * 10n ** 6n,
+                    slippagePercent: 1,
+                }),
+                (error: unknown) => {
+                    assert.ok(error instanceof SlippageExceededError);
+                    assert.equal(error.amountOut, 90n * 10n ** 6n);
+                    assert.equal(error.minAmountOut, 99n * 10n ** 6n);
+                    return true;
+                },
+            );
+        });
+
+        it("previews the oracle-implied swap output and decodes SwapOutputBelowOracle", async () => {
+            const { bank, client, dai, router, user, deployer } = await deployAll();
+            const daiFeed = await viem.deployContract("MockV3Aggregator", [8, 10n ** 8n]);
+
+            await bank.write.setSwapReference([dai.address, daiFeed.address, 100n], { account: deployer.account });
+            await router.write.setExchangeRate([dai.address, 900_000n]);
+            await dai.write.mint([user.account.address, parseUnits("100", 18)]);
+
+            const { expectedAmountOut, minAmountOut } = await client.previewSwapOutput(dai.address, parseUnits("100", 18));
+            assert.equal(expectedAmountOut, 100n * 10n ** 6n);
+            assert.equal(minAmountOut, 99n * 10n ** 6n);
+
+            await assert.rejects(
+                client.depositToken({
+                    tokenIn: dai.address,
+                    amountIn: parseUnits("100", 18),
+                    expectedAmountOut: 90n * 10n ** 6n,
+                    slippagePercent: 1,
+                }),
+                (error: unknown) => {
+                    assert.ok(error instanceof SwapOutputBelowOracleError);
+                    assert.equal(error.expectedAmountOut, 100n * 10n ** 6n);
+                    assert.equal(error.amountOut, 90n * 10n ** 6n);
+                    return true;
+                },
+            );
+        });
+
+        it("decodes OracleStale and UnsupportedToken", async () => {
+            const { client, feed, dai, publicClient } = await deployAll();
+
+            await client.depositEth(parseEther("1"));
+            const latest = await publicClient.getBlock();
+            await feed.write.setUpdatedAt([latest.timestamp - 4n * 3600n]);
+
+            await assert.rejects(client.withdraw(ETH_ADDRESS, parseEther("0.1")), OracleStaleError);
+            await assert.rejects(client.withdraw(dai.address, 1n), UnsupportedTokenError);
+        });
+    });
+});
@@ -0,0 +1,310 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, stringToHex } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, FeeOperation, Operation } from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+const DAY = 24 * 3600;
+
+describe("KipuBank - Delayed Withdrawals", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2, guardian] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address], { client: { wallet: deployer } });
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], { client: { wallet: deployer } });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+        await bank.write.grantRole([await bank.read.GUARDIAN_ROLE(), guardian.account.address], {
+            account: deployer.account,
+        });
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("50") });
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, USDC(10_000n)], { account: user.account });
+        await bank.write.depositUsdc([USDC(5_000n)], { account: user.account });
+
+        return { bank, usdc, deployer, user, user2, guardian, publicClient };
+    }
+
+    async function requestEth(ctx: Awaited<ReturnType<typeof deployAll>>, amount: bigint) {
+        const { bank, user } = ctx;
+        await bank.write.requestWithdrawal([ETH_ADDRESS, amount], { account: user.account });
+        const events = await bank.getEvents.WithdrawalRequested();
+        return events[events.length - 1].args.id!;
+    }
+
+    describe("requestWithdrawal", () => {
+        it("locks the amount until the delay has passed", async () => {
+            const ctx = await deployAll();
+            const { bank, user } = ctx;
+            const capBefore = await bank.read.currentBankCapEth();
+
+            const id = await requestEth(ctx, parseEther("30"));
+            const requestedAt = BigInt(await networkHelpers.time.latest());
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("20"));
+            // the ETH is still in the bank until the withdrawal executes
+            assert.equal(await bank.read.currentBankCapEth(), capBefore);
+
+            const [event] = await bank.getEvents.WithdrawalRequested();
+            assert.equal(event.args.account, getAddress(user.account.address));
+            assert.equal(event.args.token, ETH_ADDRESS);
+            assert.equal(event.args.amount, parseEther("30"));
+            assert.equal(event.args.executableAt, requestedAt + BigInt(DAY));
+
+            const [ids, requests] = await bank.read.pendingWithdrawalsOf([user.account.address]);
+            assert.deepEqual(ids, [id]);
+            assert.equal(requests[0].amount, parseEther("30"));
+            assert.equal(requests[0].executableAt, requestedAt + BigInt(DAY));
+        });
+
+        it("queues and executes an amount above the withdraw limit and the daily quota", async () => {
+            const ctx = await deployAll();
+            const { bank, user } = ctx;
+            await assert.rejects(
+                bank.write.withdraw([ETH_ADDRESS, parseEther("30")], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            const id = await requestEth(ctx, parseEther("30"));
+            await networkHelpers.time.increase(DAY);
+            await bank.write.executeWithdrawal([id], { account: user.account });
+
+            const [executed] = await bank.getEvents.WithdrawalExecuted();
+            assert.equal(executed.args.amount, parseEther("30"));
+            // neither the request nor its execution was charged to the quota
+            const [remaining] = await bank.read.remainingDailyWithdrawQuota([user.account.address]);
+            assert.equal(remaining, await bank.read.dailyWithdrawQuota());
+        });
+
+        it("rejects amounts above the balance and while withdrawals are paused", async () => {
+            const ctx = await deployAll();
+            const { bank, deployer, user } = ctx;
+
+            await assert.rejects(
+                bank.write.requestWithdrawal([ETH_ADDRESS, parseEther("51")], { account: user.account }),
+                /InsufficientBalance/,
+            );
+            await assert.rejects(
+                bank.write.requestWithdrawal([ETH_ADDRESS, 0n], { account: user.account }),
+                /InvalidValue/,
+            );
+
+            await bank.write.pause([Operation.Withdrawals, stringToHex("INCIDENT", { size: 32 }), 0n], {
+                account: deployer.account,
+            });
+            await assert.rejects(
+                bank.write.requestWithdrawal([ETH_ADDRESS, parseEther("20")], { account: user.account }),
+                /OperationIsPaused/,
+            );
+        });
+    });
+
+    describe("executeWithdrawal", () => {
+        it("pays out only once the delay has passed", async () => {
+            const ctx = await deployAll();
+            const { bank, user, publicClient } = ctx;
+            const id = await requestEth(ctx, parseEther("30"));
+
+            await networkHelpers.time.increase(DAY - 10);
+            await assert.rejects(bank.write.executeWithdrawal([id], { account: user.account }), /WithdrawalNotReady/);
+
+            await networkHelpers.time.increase(10);
+            const capBefore = await bank.read.currentBankCapEth();
+            const ethBefore = await publicClient.getBalance({ address: user.account.address });
+            const hash = await bank.write.executeWithdrawal([id], { account: user.account });
+            const receipt = await publicClient.waitForTransactionReceipt({ hash });
+            const gas = receipt.gasUsed * receipt.effectiveGasPrice;
+
+            assert.equal(
+                await publicClient.getBalance({ address: user.account.address }),
+                ethBefore + parseEther("30") - gas,
+            );
+            assert.equal(await bank.read.currentBankCapEth(), capBefore + parseEther("30"));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("20"));
+
+            const [executed] = await bank.getEvents.WithdrawalExecuted();
+            assert.equal(executed.args.id, id);
+            assert.equal(executed.args.amount, parseEther("30"));
+            const [withdraw] = await bank.getEvents.Withdraw();
+            assert.equal(withdraw.args.value, parseEther("30"));
+
+            const [ids] = await bank.read.pendingWithdrawalsOf([user.account.address]);
+            assert.deepEqual(ids, []);
+            await assert.rejects(bank.write.executeWithdrawal([id], { account: user.account }), /UnknownWithdrawal/);
+        });
+
+        it("can only be executed by the account", async () => {
+            const ctx = await deployAll();
+            const { bank, user2 } = ctx;
+            const id = await requestEth(ctx, parseEther("30"));
+
+            await networkHelpers.time.increase(DAY);
+            await assert.rejects(bank.write.executeWithdrawal([id], { account: user2.account }), /UnknownWithdrawal/);
+        });
+
+        it("pays USDC and returns the yield earned during the delay", async () => {
+            const ctx = await deployAll();
+            const { bank, usdc, deployer, user } = ctx;
+            const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+            await bank.write.setUsdcStrategy([strategy.address], { account: deployer.account });
+
+            await bank.write.requestWithdrawal([usdc.address, USDC(4_000n)], { account: user.account });
+            const [{ args: { id } }] = await bank.getEvents.WithdrawalRequested();
+            const remaining = await bank.read.getMyBalance([usdc.address], { account: user.account });
+
+            // +10% on the pool during the delay
+            await usdc.write.mint([strategy.address, USDC(500n)]);
+            await networkHelpers.time.increase(DAY);
+
+            const usdcBefore = await usdc.read.balanceOf([user.account.address]);
+            await bank.write.executeWithdrawal([id!], { account: user.account });
+
+            assert.equal(await usdc.read.balanceOf([user.account.address]), usdcBefore + USDC(4_000n));
+            const balance = await bank.read.getMyBalance([usdc.address], { account: user.account });
+            assert.ok(balance > remaining + USDC(499n) && balance <= remaining + USDC(500n));
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), 0n);
+        });
+
+        it("burns only the executed withdrawal's USDC shares", async () => {
+            const ctx = await deployAll();
+            const { bank, usdc, deployer, user } = ctx;
+            const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+            await bank.write.setUsdcStrategy([strategy.address], { account: deployer.account });
+            await bank.write.setFee([FeeOperation.Withdraw, 30n], { account: deployer.account });
+
+            await bank.write.requestWithdrawal([usdc.address, USDC(1_000n) + 1n], { account: user.account });
+            await bank.write.requestWithdrawal([usdc.address, USDC(2_000n) + 3n], { account: user.account });
+            const [[first, second], requests] = await bank.read.pendingWithdrawalsOf([user.account.address]);
+
+            // a loss at an odd share price: the payout falls back to what the locked shares are worth
+            await strategy.write.slash([USDC(333n) + 7n]);
+            await networkHelpers.time.increase(DAY);
+            await bank.write.executeWithdrawal([first], { account: user.account });
+
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), requests[1].shares);
+            await bank.write.executeWithdrawal([second], { account: user.account });
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), 0n);
+        });
+
+        it("is blocked while withdrawals are paused", async () => {
+            const ctx = await deployAll();
+            const { bank, guardian, user } = ctx;
+            const id = await requestEth(ctx, parseEther("30"));
+
+            await networkHelpers.time.increase(DAY);
+            await bank.write.pause([Operation.Withdrawals, stringToHex("INCIDENT", { size: 32 }), 0n], {
+                account: guardian.account,
+            });
+            await assert.rejects(bank.write.executeWithdrawal([id], { account: user.account }), /OperationIsPaused/);
+        });
+    });
+
+    describe("cancelWithdrawal", () => {
+        it("the account or a guardian unlocks the amount", async () => {
+            const ctx = await deployAll();
+            const { bank, user, guardian } = ctx;
+            const first = await requestEth(ctx, parseEther("30"));
+            const second = await requestEth(ctx, parseEther("15"));
+
+            await bank.write.cancelWithdrawal([first], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("35"));
+
+            await bank.write.cancelWithdrawal([second], { account: guardian.account });
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("50"));
+
+            const cancelled = await bank.getEvents.WithdrawalCancelled();
+            assert.equal(cancelled.length, 1);
+            assert.equal(cancelled[0].args.id, second);
+            assert.equal(cancelled[0].args.canceller, getAddress(guardian.account.address));
+
+            const [ids] = await bank.read.pendingWithdrawalsOf([user.account.address]);
+            assert.deepEqual(ids, []);
+            await networkHelpers.time.increase(DAY);
+            await assert.rejects(bank.write.executeWithdrawal([first], { account: user.account }), /UnknownWithdrawal/);
+        });
+
+        it("rejects other accounts", async () => {
+            const ctx = await deployAll();
+            const { bank, user2 } = ctx;
+            const id = await requestEth(ctx, parseEther("30"));
+
+            await assert.rejects(
+                bank.write.cancelWithdrawal([id], { account: user2.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(bank.write.cancelWithdrawal([id + 1n], { account: user2.account }), /UnknownWithdrawal/);
+        });
+
+        it("gives back the locked USDC shares", async () => {
+            const ctx = await deployAll();
+            const { bank, usdc, user } = ctx;
+            const shares = await bank.read.usdcSharesOf([user.account.address]);
+
+            await bank.write.requestWithdrawal([usdc.address, USDC(2_000n)], { account: user.account });
+            const [{ args: { id } }] = await bank.getEvents.WithdrawalRequested();
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), USDC(2_000n));
+
+            await bank.write.cancelWithdrawal([id!], { account: user.account });
+            assert.equal(await bank.read.usdcSharesOf([user.account.address]), shares);
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), 0n);
+        });
+    });
+
+    describe("setWithdrawalDelay", () => {
+        it("applies to new requests and is bounded", async () => {
+            const ctx = await deployAll();
+            const { bank, deployer, user } = ctx;
+
+            await assert.rejects(
+                bank.write.setWithdrawalDelay([3600n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(
+                bank.write.setWithdrawalDelay([0n], { account: deployer.account }),
+                /WithdrawLimitOutOfBounds/,
+            );
+            await assert.rejects(
+                bank.write.setWithdrawalDelay([31n * BigInt(DAY)], { account: deployer.account }),
+                /WithdrawLimitOutOfBounds/,
+            );
+
+            const early = await requestEth(ctx, parseEther("10"));
+            await bank.write.setWithdrawalDelay([3600n], { account: deployer.account });
+            assert.equal(await bank.read.withdrawalDelay(), 3600n);
+            const [updated] = await bank.getEvents.WithdrawalDelayUpdated();
+            assert.equal(updated.args.delay, 3600n);
+
+            const late = await requestEth(ctx, parseEther("10"));
+            await networkHelpers.time.increase(3600);
+            await bank.write.executeWithdrawal([late], { account: user.account });
+            await assert.rejects(bank.write.executeWithdrawal([early], { account: user.account }), /WithdrawalNotReady/);
+        });
+    });
+});
@@ -0,0 +1,334 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, stringToHex } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, FeeOperation, KipuBankIndexer, Operation, TREASURY_ADDRESS, createPoolKey } from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+const DAY = 24 * 3600;
+
+describe("KipuBank - Fees", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2, treasurer] = await viem.getWalletClients();
+        const fromBlock = await publicClient.getBlockNumber();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address], { client: { wallet: deployer } });
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], { client: { wallet: deployer } });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+        await bank.write.grantRole([await bank.read.TREASURER_ROLE(), treasurer.account.address], {
+            account: deployer.account,
+        });
+
+        await usdc.write.mint([deployer.account.address, USDC(10_000n)]);
+        await usdc.write.approve([router.address, USDC(10_000n)]);
+        await router.write.fundRouter([USDC(10_000n)]);
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, USDC(10_000n)], { account: user.account });
+        await dai.write.mint([user.account.address, parseUnits("1000", 18)]);
+        await dai.write.approve([bank.address, parseUnits("1000", 18)], { account: user.account });
+
+        return { bank, usdc, dai, deployer, user, user2, treasurer, publicClient, fromBlock };
+    }
+
+    async function deployWithFees() {
+        const ctx = await deployAll();
+        const { bank, deployer } = ctx;
+
+        // 1% on deposits, 0.5% on swaps, 0.25% on withdrawals
+        await bank.write.setFee([FeeOperation.DepositEth, 100n], { account: deployer.account });
+        await bank.write.setFee([FeeOperation.DepositUsdc, 100n], { account: deployer.account });
+        await bank.write.setFee([FeeOperation.Swap, 50n], { account: deployer.account });
+        await bank.write.setFee([FeeOperation.Withdraw, 25n], { account: deployer.account });
+
+        return ctx;
+    }
+
+    describe("setFee", () => {
+        it("sets each operation's fee separately", async () => {
+            const { bank, deployer } = await deployWithFees();
+
+            assert.equal(await bank.read.feeBps([FeeOperation.DepositEth]), 100n);
+            assert.equal(await bank.read.feeBps([FeeOperation.DepositUsdc]), 100n);
+            assert.equal(await bank.read.feeBps([FeeOperation.Swap]), 50n);
+            assert.equal(await bank.read.feeBps([FeeOperation.Withdraw]), 25n);
+
+            const events = await bank.getEvents.FeeUpdated();
+            assert.equal(events.length, 1);
+            assert.equal(events[0].args.admin, getAddress(deployer.account.address));
+            assert.equal(events[0].args.operation, FeeOperation.Withdraw);
+            assert.equal(events[0].args.bps, 25n);
+        });
+
+        it("rejects non-admins and fees above MAX_FEE_BPS", async () => {
+            const { bank, deployer, user } = await deployAll();
+            const maxFee = await bank.read.MAX_FEE_BPS();
+
+            await assert.rejects(
+                bank.write.setFee([FeeOperation.Withdraw, 10n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(
+                bank.write.setFee([FeeOperation.Withdraw, maxFee + 1n], { account: deployer.account }),
+                /FeeOutOfBounds/,
+            );
+
+            await bank.write.setFee([FeeOperation.Withdraw, maxFee], { account: deployer.account });
+            assert.equal(await bank.read.feeBps([FeeOperation.Withdraw]), maxFee);
+        });
+    });
+
+    describe("charging", () => {
+        it("credits ETH deposits net of the fee and keeps the gross amount against the cap", async () => {
+            const { bank, user } = await deployWithFees();
+            const capBefore = await bank.read.currentBankCapEth();
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("10") });
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("9.9"));
+            assert.equal(await bank.read.treasuryBalance([ETH_ADDRESS]), parseEther("0.1"));
+            assert.equal(await bank.read.currentBankCapEth(), capBefore - parseEther("10"));
+
+            const [deposit] = await bank.getEvents.Deposit();
+            assert.equal(deposit.args.amount, parseEther("10"));
+            const [fee] = await bank.getEvents.FeeCharged();
+            assert.equal(fee.args.account, getAddress(user.account.address));
+            assert.equal(fee.args.token, ETH_ADDRESS);
+            assert.equal(fee.args.operation, FeeOperation.DepositEth);
+            assert.equal(fee.args.fee, parseEther("0.1"));
+        });
+
+        it("charges USDC deposits and swap deposits their own fee in USDC pool shares", async () => {
+            const { bank, usdc, dai, user } = await deployWithFees();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(990n));
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), USDC(10n));
+
+            await bank.write.depositArbitraryToken(
+                [dai.address, parseUnits("200", 18), createPoolKey(dai.address, usdc.address), 1n],
+                { account: user.account },
+            );
+            // 200 USDC out of the swap, 0.5% to the treasury
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_189n));
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), USDC(11n));
+            assert.equal(await bank.read.usdcSharesOf([TREASURY_ADDRESS]), USDC(11n));
+
+            const fees = await bank.getEvents.FeeCharged({}, { fromBlock: 0n });
+            assert.deepEqual(
+                fees.map((event) => [event.args.operation, event.args.fee]),
+                [
+                    [FeeOperation.DepositUsdc, USDC(10n)],
+                    [FeeOperation.Swap, USDC(1n)],
+                ],
+            );
+            // the fees stay in the bank, so balances still add up to what the caps have consumed
+            const held = (await bank.read.MAX_BANK_CAP_USDC()) - (await bank.read.currentBankCapUsdc());
+            assert.equal(held, USDC(1_200n));
+        });
+
+        it("pays withdrawals out net of the fee, checking the limits on the requested amount", async () => {
+            const { bank, usdc, user, publicClient } = await deployWithFees();
+            await bank.write.depositEth({ account: user.account, value: parseEther("10") });
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            const capBefore = await bank.read.currentBankCapEth();
+            const ethBefore = await publicClient.getBalance({ address: user.account.address });
+
+            const hash = await bank.write.withdraw([ETH_ADDRESS, parseEther("0.2")], { account: user.account });
+            const receipt = await publicClient.waitForTransactionReceipt({ hash });
+            const gas = receipt.gasUsed * receipt.effectiveGasPrice;
+
+            assert.equal(
+                await publicClient.getBalance({ address: user.account.address }),
+                ethBefore + parseEther("0.1995") - gas,
+            );
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("9.7"));
+            assert.equal(await bank.read.treasuryBalance([ETH_ADDRESS]), parseEther("0.1005"));
+            assert.equal(await bank.read.currentBankCapEth(), capBefore + parseEther("0.1995"));
+            const [withdrawal] = await bank.getEvents.Withdraw();
+            assert.equal(withdrawal.args.value, parseEther("0.1995"));
+
+            const usdcBefore = await usdc.read.balanceOf([user.account.address]);
+            await bank.write.withdraw([usdc.address, USDC(400n)], { account: user.account });
+            assert.equal(await usdc.read.balanceOf([user.account.address]), usdcBefore + USDC(399n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(590n));
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), USDC(11n));
+
+            // the limits apply before the fee: 0.4 ETH is $1,200, above the $1,000 USD limit
+            await assert.rejects(
+                bank.write.withdraw([ETH_ADDRESS, parseEther("0.4")], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+        });
+
+        it("charges delayed withdrawals when they execute", async () => {
+            const { bank, usdc, user } = await deployWithFees();
+            await bank.write.depositUsdc([USDC(5_000n)], { account: user.account });
+            const treasuryBefore = await bank.read.treasuryBalance([usdc.address]);
+
+            await bank.write.requestWithdrawal([usdc.address, USDC(800n)], { account: user.account });
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), treasuryBefore);
+
+            await networkHelpers.time.increase(DAY);
+            const usdcBefore = await usdc.read.balanceOf([user.account.address]);
+            await bank.write.executeWithdrawal([0n], { account: user.account });
+
+            assert.equal(await usdc.read.balanceOf([user.account.address]), usdcBefore + USDC(798n));
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), treasuryBefore + USDC(2n));
+            assert.equal(await bank.read.usdcSharesOf([bank.address]), 0n);
+            const [executed] = await bank.getEvents.WithdrawalExecuted();
+            assert.equal(executed.args.amount, USDC(798n));
+        });
+
+        it("exempts FEE_EXEMPT_ROLE accounts", async () => {
+            const { bank, usdc, deployer, user } = await deployWithFees();
+            await bank.write.grantRole([await bank.read.FEE_EXEMPT_ROLE(), user.account.address], {
+                account: deployer.account,
+            });
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.withdraw([usdc.address, USDC(500n)], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("1"));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(500n));
+            assert.equal(await bank.read.treasuryBalance([ETH_ADDRESS]), 0n);
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), 0n);
+            assert.equal((await bank.getEvents.FeeCharged({}, { fromBlock: 0n })).length, 0);
+        });
+    });
+
+    describe("previewFee", () => {
+        it("returns the net amount and fee an account would get", async () => {
+            const { bank, deployer, user, user2 } = await deployWithFees();
+            await bank.write.grantRole([await bank.read.FEE_EXEMPT_ROLE(), user2.account.address], {
+                account: deployer.account,
+            });
+
+            assert.deepEqual(
+                await bank.read.previewFee([FeeOperation.DepositEth, user.account.address, parseEther("10")]),
+                [parseEther("9.9"), parseEther("0.1")],
+            );
+            assert.deepEqual(
+                await bank.read.previewFee([FeeOperation.Withdraw, user.account.address, USDC(400n)]),
+                [USDC(399n), USDC(1n)],
+            );
+            assert.deepEqual(
+                await bank.read.previewFee([FeeOperation.Swap, user2.account.address, USDC(400n)]),
+                [USDC(400n), 0n],
+            );
+        });
+    });
+
+    describe("withdrawTreasury", () => {
+        it("sends accrued fees to a recipient and frees their share of the cap", async () => {
+            const { bank, usdc, user, user2, treasurer, publicClient } = await deployWithFees();
+            await bank.write.depositEth({ account: user.account, value: parseEther("10") });
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            const capEthBefore = await bank.read.currentBankCapEth();
+            const capUsdcBefore = await bank.read.currentBankCapUsdc();
+            const ethBefore = await publicClient.getBalance({ address: user2.account.address });
+
+            await bank.write.withdrawTreasury([ETH_ADDRESS, parseEther("0.1"), user2.account.address], {
+                account: treasurer.account,
+            });
+            await bank.write.withdrawTreasury([usdc.address, USDC(4n), user2.account.address], {
+                account: treasurer.account,
+            });
+
+            assert.equal(await publicClient.getBalance({ address: user2.account.address }), ethBefore + parseEther("0.1"));
+            assert.equal(await usdc.read.balanceOf([user2.account.address]), USDC(4n));
+            assert.equal(await bank.read.treasuryBalance([ETH_ADDRESS]), 0n);
+            assert.equal(await bank.read.treasuryBalance([usdc.address]), USDC(6n));
+            assert.equal(await bank.read.currentBankCapEth(), capEthBefore + parseEther("0.1"));
+            assert.equal(await bank.read.currentBankCapUsdc(), capUsdcBefore + USDC(4n));
+
+            const events = await bank.getEvents.TreasuryWithdrawal({}, { fromBlock: 0n });
+            assert.equal(events.length, 2);
+            assert.equal(events[0].args.treasurer, getAddress(treasurer.account.address));
+            assert.equal(events[0].args.to, getAddress(user2.account.address));
+            assert.equal(events[0].args.amount, parseEther("0.1"));
+        });
+
+        it("rejects non-treasurers, amounts above the treasury and withdrawals while paused", async () => {
+            const { bank, deployer, user, treasurer } = await deployWithFees();
+            await bank.write.depositEth({ account: user.account, value: parseEther("10") });
+
+            await assert.rejects(
+                bank.write.withdrawTreasury([ETH_ADDRESS, 1n, user.account.address], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(
+                bank.write.withdrawTreasury([ETH_ADDRESS, parseEther("0.2"), user.account.address], {
+                    account: treasurer.account,
+                }),
+                /InsufficientBalance/,
+            );
+            await assert.rejects(
+                bank.write.withdrawTreasury([ETH_ADDRESS, 1n, "0x0000000000000000000000000000000000000000"], {
+                    account: treasurer.account,
+                }),
+                /InvalidRecipient/,
+            );
+
+            await bank.write.pause([Operation.Withdrawals, stringToHex("INCIDENT", { size: 32 }), 0n], {
+                account: deployer.account,
+            });
+            await assert.rejects(
+                bank.write.withdrawTreasury([ETH_ADDRESS, 1n, user.account.address], { account: treasurer.account }),
+                /OperationIsPaused/,
+            );
+        });
+    });
+
+    it("replays fees into the treasury's ledger in the indexer", async () => {
+        const { bank, usdc, user, user2, treasurer, publicClient, fromBlock } = await deployWithFees();
+        await bank.write.depositEth({ account: user.account, value: parseEther("10") });
+        await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+        await bank.write.withdraw([ETH_ADDRESS, parseEther("0.2")], { account: user.account });
+        await bank.write.withdrawTreasury([ETH_ADDRESS, parseEther("0.05"), user2.account.address], {
+            account: treasurer.account,
+        });
+
+        const indexer = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock });
+        await indexer.sync();
+
+        assert.equal(indexer.balanceOf(user.account.address, ETH_ADDRESS), parseEther("9.7"));
+        assert.equal(indexer.balanceOf(TREASURY_ADDRESS, ETH_ADDRESS), parseEther("0.0505"));
+        assert.equal(indexer.balanceOf(TREASURY_ADDRESS, usdc.address), USDC(10n));
+        assert.equal(indexer.usdcSharesOf(TREASURY_ADDRESS), await bank.read.usdcSharesOf([TREASURY_ADDRESS]));
+        assert.equal((await indexer.checkDrift()).hasDrift, false);
+    });
+
+    it("exposes the treasury ledger account", async () => {
+        const { bank } = await deployAll();
+        assert.equal(await bank.read.TREASURY(), TREASURY_ADDRESS);
+    });
+});
@@ -0,0 +1,230 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, KipuBankIndexer } from "../sdk/index.js";
+
+describe("KipuBankIndexer", async function() {
+    const { viem } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2] = await viem.getWalletClients();
+
+        const feed = await viem.deployContract("MockV3Aggregator", [8, 2_500n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [
+                deployer.account.address,
+                parseEther("100"),
+                100_000n * 10n ** 6n,
+                feed.address,
+                usdc.address,
+                router.address,
+                permit2.address,
+            ],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        const fromBlock = await publicClient.getBlockNumber();
+
+        await usdc.write.mint([deployer.account.address, 100_000n * 10n ** 6n]);
+        await usdc.write.approve([router.address, 100_000n * 10n ** 6n]);
+        await router.write.fundRouter([100_000n * 10n ** 6n]);
+
+        return { bank, usdc, dai, deployer, user, user2, publicClient, fromBlock };
+    }
+
+    async function runScenario(ctx: Awaited<ReturnType<typeof deployAll>>) {
+        const { bank, usdc, dai, user, user2 } = ctx;
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("2") });
+        await bank.write.withdraw([ETH_ADDRESS, parseEther("0.1")], { account: user.account });
+
+        await usdc.write.mint([user2.account.address, 500n * 10n ** 6n]);
+        await usdc.write.approve([bank.address, 500n * 10n ** 6n], { account: user2.account });
+        await bank.write.depositUsdc([500n * 10n ** 6n], { account: user2.account });
+
+        await dai.write.mint([user2.account.address, parseUnits("100", 18)]);
+        await dai.write.approve([bank.address, parseUnits("100", 18)], { account: user2.account });
+        await bank.write.depositArbitraryToken(
+            [dai.address, parseUnits("100", 18), poolKey(dai.address, usdc.address), 1n],
+            { account: user2.account },
+        );
+
+        await bank.write.setInternalBalance([user.account.address, usdc.address, 42n * 10n ** 6n]);
+    }
+
+    function poolKey(token0: `0x${string}`, token1: `0x${string}`) {
+        return { currency0: token0, currency1: token1, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+    }
+
+    it("rebuilds per-account ledgers and caps from events", async () => {
+        const ctx = await deployAll();
+        const { bank, usdc, dai, user, user2, publicClient, fromBlock } = ctx;
+        await runScenario(ctx);
+
+        const indexer = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock, blockRange: 3n });
+        await indexer.sync();
+
+        assert.equal(indexer.balanceOf(user.account.address, ETH_ADDRESS), parseEther("1.9"));
+        assert.equal(indexer.balanceOf(user.account.address, usdc.address), 42n * 10n ** 6n);
+        assert.equal(indexer.balanceOf(user2.account.address, usdc.address), 600n * 10n ** 6n);
+        assert.equal(indexer.currentBankCapEth, await bank.read.currentBankCapEth());
+        assert.equal(indexer.currentBankCapUsdc, await bank.read.currentBankCapUsdc());
+        assert.deepEqual(indexer.swaps().get(getAddress(dai.address)), {
+            amountIn: parseUnits("100", 18),
+            amountOut: 100n * 10n ** 6n,
+            count: 1,
+        });
+
+        const report = await indexer.checkDrift();
+        assert.equal(report.hasDrift, false);
+    });
+
+    it("replays listed asset caps across registry updates", async () => {
+        const ctx = await deployAll();
+        const { bank, dai, user, publicClient, fromBlock } = ctx;
+
+        await bank.write.listAsset([dai.address, zeroAddress, parseUnits("1000", 18), parseUnits("500", 18)]);
+        await dai.write.mint([user.account.address, parseUnits("300", 18)]);
+        await dai.write.approve([bank.address, parseUnits("300", 18)], { account: user.account });
+        await bank.write.depositAsset([dai.address, parseUnits("300", 18)], { account: user.account });
+        await bank.write.withdraw([dai.address, parseUnits("100", 18)], { account: user.account });
+        await bank.write.updateAsset([dai.address, zeroAddress, parseUnits("400", 18), parseUnits("500", 18)]);
+        await bank.write.setInternalBalance([user.account.address, dai.address, parseUnits("250", 18)]);
+
+        const indexer = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock });
+        await indexer.sync();
+
+        assert.equal(indexer.balanceOf(user.account.address, dai.address), parseUnits("250", 18));
+        assert.deepEqual(indexer.assetCaps().get(getAddress(dai.address)), {
+            maxCap: parseUnits("400", 18),
+            currentCap: parseUnits("150", 18),
+        });
+
+        const report = await indexer.checkDrift();
+        assert.equal(report.assets.get(getAddress(dai.address))?.drift, 0n);
+        assert.equal(report.hasDrift, false);
+    });
+
+    it("reports tokens it doesn't know instead of booking them as USDC", async () => {
+        const ctx = await deployAll();
+        const { bank, usdc, dai, user, publicClient } = ctx;
+
+        await bank.write.listAsset([dai.address, zeroAddress, parseUnits("1000", 18), parseUnits("500", 18)]);
+        const lateStart = (await publicClient.getBlockNumber()) + 1n;
+        await dai.write.mint([user.account.address, parseUnits("300", 18)]);
+        await dai.write.approve([bank.address, parseUnits("300", 18)], { account: user.account });
+        await bank.write.depositAsset([dai.address, parseUnits("300", 18)], { account: user.account });
+        await bank.write.setInternalBalance([user.account.address, dai.address, parseUnits("250", 18)]);
+        await bank.write.setInternalBalance([user.account.address, usdc.address, 42n * 10n ** 6n]);
+
+        const unknown: string[] = [];
+        const indexer = new KipuBankIndexer({
+            address: bank.address,
+            publicClient,
+            fromBlock: lateStart,
+            onUnknownToken: (token) => unknown.push(token),
+        });
+        await indexer.sync();
+
+        assert.deepEqual(unknown, [getAddress(dai.address), getAddress(dai.address)]);
+        assert.equal(indexer.balanceOf(user.account.address, dai.address), parseUnits("250", 18));
+        assert.equal(indexer.currentBankCapUsdc, await bank.read.currentBankCapUsdc());
+        assert.equal((await indexer.checkDrift()).hasDrift, false);
+    });
+
+    it("replays USDC pool shares and the cap consumed by strategy yield", async () => {
+        const ctx = await deployAll();
+        const { bank, usdc, user, user2, publicClient, fromBlock } = ctx;
+        const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+
+        await bank.write.setUsdcStrategy([strategy.address]);
+        for (const account of [user, user2]) {
+            await usdc.write.mint([account.account.address, 1_000n * 10n ** 6n]);
+            await usdc.write.approve([bank.address, 1_000n * 10n ** 6n], { account: account.account });
+        }
+        await bank.write.depositUsdc([1_000n * 10n ** 6n], { account: user.account });
+        await usdc.write.mint([strategy.address, 100n * 10n ** 6n]);
+        await bank.write.depositUsdc([1_000n * 10n ** 6n], { account: user2.account });
+        await bank.write.withdraw([usdc.address, 500n * 10n ** 6n], { account: user.account });
+
+        const indexer = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock });
+        await indexer.sync();
+
+        assert.equal(indexer.usdcSharesOf(user.account.address), await bank.read.usdcSharesOf([user.account.address]));
+        assert.equal(indexer.usdcSharesOf(user2.account.address), await bank.read.usdcSharesOf([user2.account.address]));
+        assert.equal(indexer.currentBankCapUsdc, await bank.read.currentBankCapUsdc());
+        assert.equal((await indexer.checkDrift()).hasDrift, false);
+    });
+
+    it("follows internal transfers between accounts", async () => {
+        const ctx = await deployAll();
+        const { bank, user, user2, publicClient, fromBlock } = ctx;
+        await bank.write.depositEth({ account: user.account, value: parseEther("3") });
+        await bank.write.transfer([user2.account.address, ETH_ADDRESS, parseEther("1.25")], { account: user.account });
+
+        const indexer = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock });
+        await indexer.sync();
+
+        assert.equal(indexer.balanceOf(user.account.address, ETH_ADDRESS), parseEther("1.75"));
+        assert.equal(indexer.balanceOf(user2.account.address, ETH_ADDRESS), parseEther("1.25"));
+        assert.equal((await indexer.checkDrift()).hasDrift, false);
+    });
+
+    it("resumes from a JSON checkpoint", async () => {
+        const ctx = await deployAll();
+        const { bank, user, publicClient, fromBlock } = ctx;
+        const checkpointPath = path.join(await mkdtemp(path.join(tmpdir(), "kipu-indexer-")), "checkpoint.json");
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+        const first = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock, checkpointPath });
+        const indexedUpTo = await first.sync();
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("2") });
+        const resumed = new KipuBankIndexer({ address: bank.address, publicClient, fromBlock, checkpointPath });
+        await resumed.sync();
+
+        assert.ok(resumed.lastBlock > indexedUpTo);
+        assert.equal(resumed.balanceOf(user.account.address, ETH_ADDRESS), parseEther("3"));
+        assert.equal(resumed.currentBankCapEth, await bank.read.currentBankCapEth());
+    });
+
+    it("flags drift when the replay starts after activity it missed", async () => {
+        const ctx = await deployAll();
+        const { bank, user, publicClient } = ctx;
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+        const lateStart = (await publicClient.getBlockNumber()) + 1n;
+        await bank.write.depositEth({ account: user.account, value: parseEther("2") });
+
+        const reports: unknown[] = [];
+        const indexer = new KipuBankIndexer({
+            address: bank.address,
+            publicClient,
+            fromBlock: lateStart,
+            onDrift: (report) => reports.push(report),
+        });
+        await indexer.sync();
+
+        const report = await indexer.checkDrift();
+        assert.equal(report.hasDrift, true);
+        assert.equal(report.eth.drift, -parseEther("1"));
+        assert.equal(reports.length, 1);
+    });
+});
@@ -0,0 +1,321 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, stringToHex } from "viem";
+import { network } from "hardhat";
+
+import {
+    ETH_ADDRESS,
+    IntentExpiredError,
+    InvalidIntentNonceError,
+    InvalidSignatureError,
+    KipuBankClient,
+    KipuBankRelayer,
+    Operation,
+    parseSignedIntent,
+    serializeSignedIntent,
+    signTransferIntent,
+    signWithdrawIntent,
+} from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+
+describe("KipuBank - Signed Intents", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, relayer, recipient] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        await bank.write.setWithdrawLimits([parseEther("10"), USDC(20_000n)]);
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, USDC(10_000n)], { account: user.account });
+        await bank.write.depositEth({ account: user.account, value: parseEther("5") });
+        await bank.write.depositUsdc([USDC(5_000n)], { account: user.account });
+        // the user keeps funds in the bank but has nothing left to pay gas with
+        await networkHelpers.setBalance(user.account.address, 0n);
+
+        const chainId = await publicClient.getChainId();
+        const deadline = (await networkHelpers.time.latest()) + 3_600;
+
+        return { bank, usdc, deployer, user, relayer, recipient, publicClient, chainId, deadline: BigInt(deadline) };
+    }
+
+    describe("withdrawWithSig", () => {
+        it("withdraws to an account without ETH, paying the relayer fee from its balance", async () => {
+            const { bank, user, relayer, publicClient, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+
+            const { intent, signature } = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { token: ETH_ADDRESS, amount: parseEther("1"), fee: parseEther("0.01"), nonce: 0n, deadline },
+            });
+            await bank.write.withdrawWithSig([intent, signature], { account: relayer.account });
+
+            assert.equal(await publicClient.getBalance({ address: user.account.address }), parseEther("1"));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("3.99"));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: relayer.account }), parseEther("0.01"));
+            assert.equal(await bank.read.nonces([user.account.address]), 1n);
+
+            const [event] = await bank.getEvents.IntentRelayed();
+            assert.equal(event.args.account, getAddress(user.account.address));
+            assert.equal(event.args.relayer, getAddress(relayer.account.address));
+            assert.equal(event.args.nonce, 0n);
+            assert.equal(event.args.fee, parseEther("0.01"));
+        });
+
+        it("applies the account's withdraw limits and requires the balance to cover amount + fee", async () => {
+            const { bank, usdc, user, relayer, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setWithdrawLimits([parseEther("10"), USDC(1_000n)]);
+
+            const overLimit = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { token: usdc.address, amount: USDC(2_000n), fee: 0n, nonce: 0n, deadline },
+            });
+            await assert.rejects(
+                bank.write.withdrawWithSig([overLimit.intent, overLimit.signature], { account: relayer.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            const overBalance = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { token: ETH_ADDRESS, amount: parseEther("5"), fee: 1n, nonce: 0n, deadline },
+            });
+            await assert.rejects(
+                bank.write.withdrawWithSig([overBalance.intent, overBalance.signature], { account: relayer.account }),
+                /InsufficientBalance/,
+            );
+            assert.equal(await bank.read.nonces([user.account.address]), 0n);
+        });
+
+        it("rejects replays, expired intents and signatures of anyone but the account", async () => {
+            const { bank, user, relayer, recipient, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+            const params = { token: ETH_ADDRESS, amount: parseEther("1"), fee: 0n, nonce: 0n, deadline };
+
+            const forged = await signWithdrawIntent(recipient, { bank: bank.address, chainId, intent: params });
+            await assert.rejects(
+                bank.write.withdrawWithSig([{ ...forged.intent, account: user.account.address }, forged.signature], {
+                    account: relayer.account,
+                }),
+                /InvalidSignature/,
+            );
+
+            const signed = await signWithdrawIntent(user, { bank: bank.address, chainId, intent: params });
+            await assert.rejects(
+                bank.write.withdrawWithSig([{ ...signed.intent, amount: parseEther("2") }, signed.signature], {
+                    account: relayer.account,
+                }),
+                /InvalidSignature/,
+            );
+
+            const otherBank = await signWithdrawIntent(user, { bank: recipient.account.address, chainId, intent: params });
+            await assert.rejects(
+                bank.write.withdrawWithSig([otherBank.intent, otherBank.signature], { account: relayer.account }),
+                /InvalidSignature/,
+            );
+
+            await bank.write.withdrawWithSig([signed.intent, signed.signature], { account: relayer.account });
+            await assert.rejects(
+                bank.write.withdrawWithSig([signed.intent, signed.signature], { account: relayer.account }),
+                /InvalidIntentNonce/,
+            );
+
+            const expiring = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { ...params, nonce: 1n },
+            });
+            await networkHelpers.time.increaseTo(deadline + 1n);
+            await assert.rejects(
+                bank.write.withdrawWithSig([expiring.intent, expiring.signature], { account: relayer.account }),
+                /IntentExpired/,
+            );
+        });
+
+        it("is stopped by the Withdrawals pause", async () => {
+            const { bank, user, relayer, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.pause([Operation.Withdrawals, stringToHex("incident", { size: 32 }), 0n]);
+
+            const { intent, signature } = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { token: ETH_ADDRESS, amount: parseEther("1"), fee: 0n, nonce: 0n, deadline },
+            });
+            await assert.rejects(
+                bank.write.withdrawWithSig([intent, signature], { account: relayer.account }),
+                /OperationIsPaused/,
+            );
+        });
+    });
+
+    describe("transferWithSig", () => {
+        it("moves a balance to another account and pays the relayer", async () => {
+            const { bank, usdc, user, relayer, recipient, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+
+            const { intent, signature } = await signTransferIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { to: recipient.account.address, token: usdc.address, amount: USDC(1_000n), fee: USDC(1n), nonce: 0n, deadline },
+            });
+            await bank.write.transferWithSig([intent, signature], { account: relayer.account });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(3_999n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: recipient.account }), USDC(1_000n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: relayer.account }), USDC(1n));
+            assert.equal(await bank.read.nonces([user.account.address]), 1n);
+
+            const transfers = await bank.getEvents.InternalTransfer({}, { fromBlock: 0n });
+            assert.deepEqual(
+                transfers.map((e) => [e.args.to, e.args.amount]),
+                [
+                    [getAddress(relayer.account.address), USDC(1n)],
+                    [getAddress(recipient.account.address), USDC(1_000n)],
+                ],
+            );
+        });
+
+        it("does not accept a withdrawal signature as a transfer", async () => {
+            const { bank, user, relayer, recipient, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+
+            const withdrawal = await signWithdrawIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { token: ETH_ADDRESS, amount: parseEther("1"), fee: 0n, nonce: 0n, deadline },
+            });
+            await assert.rejects(
+                bank.write.transferWithSig(
+                    [{ ...withdrawal.intent, to: recipient.account.address }, withdrawal.signature],
+                    { account: relayer.account },
+                ),
+                /InvalidSignature/,
+            );
+        });
+    });
+
+    describe("SDK", () => {
+        it("signs with the client and relays from another wallet, decoding the reverts", async () => {
+            const { bank, user, relayer, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const userClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+            const relayerClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: relayer });
+
+            const signed = await userClient.signWithdrawIntent({ token: ETH_ADDRESS, amount: parseEther("2"), fee: parseEther("0.001") });
+            assert.equal(signed.intent.nonce, 0n);
+            await relayerClient.relayIntent(signed);
+
+            assert.equal(await userClient.nonce(), 1n);
+            assert.equal(await publicClient.getBalance({ address: user.account.address }), parseEther("2"));
+
+            await assert.rejects(relayerClient.relayIntent(signed), (error) => {
+                assert.ok(error instanceof InvalidIntentNonceError);
+                assert.equal(error.expected, 1n);
+                return true;
+            });
+
+            const expired = await userClient.signTransferIntent({
+                to: relayer.account.address,
+                token: ETH_ADDRESS,
+                amount: 1n,
+                validitySeconds: 10,
+            });
+            await networkHelpers.time.increase(60);
+            await assert.rejects(relayerClient.relayIntent(expired), IntentExpiredError);
+
+            const next = await userClient.signWithdrawIntent({ token: ETH_ADDRESS, amount: parseEther("1") });
+            await assert.rejects(relayerClient.relayIntent({ ...next, signature: signed.signature }), InvalidSignatureError);
+        });
+
+        it("round-trips signed intents through JSON", async () => {
+            const { bank, user, recipient, usdc, chainId, deadline } = await networkHelpers.loadFixture(deployAll);
+
+            const signed = await signTransferIntent(user, {
+                bank: bank.address,
+                chainId,
+                intent: { to: recipient.account.address, token: usdc.address, amount: USDC(5n), fee: 0n, nonce: 3n, deadline },
+            });
+
+            assert.deepEqual(parseSignedIntent(serializeSignedIntent(signed)), {
+                ...signed,
+                bank: getAddress(signed.bank),
+                intent: {
+                    ...signed.intent,
+                    account: getAddress(signed.intent.account),
+                    to: getAddress(signed.intent.to),
+                    token: getAddress(signed.intent.token),
+                },
+            });
+            assert.throws(() => parseSignedIntent(JSON.stringify({ kind: "mint" })), TypeError);
+        });
+    });
+
+    describe("KipuBankRelayer", () => {
+        it("relays a batch in nonce order, keeps intents ahead of the nonce and drops stale ones", async () => {
+            const { bank, user, relayer, recipient, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const userClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+            const relayerClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: relayer });
+
+            const intent = (nonce: bigint) =>
+                userClient.signTransferIntent({ to: recipient.account.address, token: ETH_ADDRESS, amount: parseEther("0.1"), nonce });
+            const [second, first, gap] = [await intent(1n), await intent(0n), await intent(3n)];
+            const otherBank = { ...(await intent(2n)), bank: getAddress(recipient.account.address) };
+
+            const outcomes = await new KipuBankRelayer(relayerClient).relay([second, first, gap, otherBank]);
+            assert.deepEqual(
+                outcomes.map((outcome) => outcome.status),
+                ["relayed", "relayed", "pending", "dropped"],
+            );
+            assert.equal(await userClient.nonce(), 2n);
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: recipient.account }), parseEther("0.2"));
+
+            const [replayed] = await new KipuBankRelayer(relayerClient).relay([first]);
+            assert.equal(replayed.status, "dropped");
+        });
+
+        it("keeps intents blocked by a pause and drops the ones the bank rejects for good", async () => {
+            const { bank, user, relayer, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const userClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+            const relayerClient = new KipuBankClient({ address: bank.address, publicClient, walletClient: relayer });
+            const relayerService = new KipuBankRelayer(relayerClient);
+
+            const tooLarge = await userClient.signWithdrawIntent({ token: ETH_ADDRESS, amount: parseEther("50") });
+            const [dropped] = await relayerService.relay([tooLarge]);
+            assert.equal(dropped.status, "dropped");
+            assert.match(dropped.status === "dropped" ? dropped.reason : "", /InsufficientBalance/);
+
+            await bank.write.pause([Operation.Withdrawals, stringToHex("incident", { size: 32 }), 0n]);
+            const blocked = await userClient.signWithdrawIntent({ token: ETH_ADDRESS, amount: parseEther("1") });
+            const [pending] = await relayerService.relay([blocked]);
+            assert.equal(pending.status, "pending");
+
+            await bank.write.unpause([Operation.Withdrawals]);
+            const [relayed] = await relayerService.relay([blocked]);
+            assert.equal(relayed.status, "relayed");
+        });
+    });
+});
@@ -0,0 +1,342 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, formatEther, formatUnits, maxUint256, parseEther, parseUnits } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, FeeOperation, TREASURY_ADDRESS, createPoolKey, decodeKipuBankError } from "../sdk/index.js";
+import { PropertyFailure, Rng, checkSeed, formatCounterexample, shrink, type Property } from "../fuzz/harness.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+
+// FUZZ_SEED replays one seed; FUZZ_RUNS and FUZZ_STEPS widen the search (e.g. in a nightly job)
+const RUNS = Number(process.env.FUZZ_RUNS ?? 4);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 25);
+const SEEDS = process.env.FUZZ_SEED !== undefined
+    ? [Number(process.env.FUZZ_SEED)]
+    : Array.from({ length: RUNS }, (_, i) => 0x6b697075 + i);
+const REPLAY = "npx hardhat test nodejs test/KipuBankInvariants.test.ts";
+
+const USERS = 5;
+
+type Token = "ETH" | "USDC";
+
+type Action =
+    | { kind: "depositEth"; user: number; amount: bigint }
+    | { kind: "depositUsdc"; user: number; amount: bigint }
+    | { kind: "depositArbitraryToken"; user: number; amount: bigint }
+    | { kind: "withdraw"; user: number; token: Token; amount: bigint }
+    | { kind: "setInternalBalance"; user: number; token: Token; balance: bigint }
+    | { kind: "setEthPrice"; price: bigint }
+    | { kind: "setDaiRate"; rate: bigint }
+    | { kind: "advanceTime"; seconds: number };
+
+// Reverts a random sequence legitimately runs into; any other revert (a panic, a token error) fails the run
+const EXPECTED_REVERTS = new Set([
+    "InvalidValue",
+    "BankCapEthExceeded",
+    "BankCapUsdcExceeded",
+    "InsufficientBalance",
+    "WithdrawLimitExceeded",
+    "DailyWithdrawQuotaExceeded",
+    "OracleStale",
+]);
+
+describe("KipuBank - Invariants", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployBank() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, ...wallets] = await viem.getWalletClients();
+        const users = wallets.slice(0, USERS);
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [
+                deployer.account.address,
+                parseEther("100"),
+                USDC(50_000n),
+                priceFeed.address,
+                usdc.address,
+                router.address,
+                permit2.address,
+            ],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        await bank.write.setWithdrawLimits([parseEther("10"), USDC(20_000n)]);
+        // fees route part of every flow through the treasury's balance, which the invariants count too
+        await bank.write.setFee([FeeOperation.DepositEth, 30n]);
+        await bank.write.setFee([FeeOperation.DepositUsdc, 10n]);
+        await bank.write.setFee([FeeOperation.Swap, 50n]);
+        await bank.write.setFee([FeeOperation.Withdraw, 20n]);
+
+        await usdc.write.mint([deployer.account.address, USDC(10_000_000n)]);
+        await usdc.write.approve([router.address, maxUint256]);
+        await router.write.fundRouter([USDC(10_000_000n)]);
+
+        for (const user of users) {
+            await usdc.write.mint([user.account.address, USDC(1_000_000n)]);
+            await usdc.write.approve([bank.address, maxUint256], { account: user.account });
+            await dai.write.mint([user.account.address, parseUnits("1000000", 18)]);
+            await dai.write.approve([bank.address, maxUint256], { account: user.account });
+        }
+
+        return { bank, usdc, dai, priceFeed, router, deployer, users, publicClient };
+    }
+
+    type Context = Awaited<ReturnType<typeof deployBank>>;
+
+    function generate(rng: Rng, steps: number): Action[] {
+        return Array.from({ length: steps }, (): Action => {
+            const user = rng.int(USERS);
+            const token = rng.pick<Token>(["ETH", "USDC"]);
+            switch (rng.int(11)) {
+                case 0:
+                case 1:
+                    return { kind: "depositEth", user, amount: rng.bigint(1n, parseEther("30")) };
+                case 2:
+                case 3:
+                    return { kind: "depositUsdc", user, amount: rng.bigint(1n, USDC(20_000n)) };
+                case 4:
+                    return { kind: "depositArbitraryToken", user, amount: rng.bigint(1n, parseUnits("20000", 18)) };
+                case 5:
+                case 6:
+                case 7: {
+                    const max = token === "ETH" ? parseEther("12") : USDC(25_000n);
+                    return { kind: "withdraw", user, token, amount: rng.bigint(1n, max) };
+                }
+                case 8: {
+                    const max = token === "ETH" ? parseEther("30") : USDC(20_000n);
+                    return { kind: "setInternalBalance", user, token, balance: rng.bigint(0n, max) };
+                }
+                case 9:
+                    return rng.chance(0.5)
+                        ? { kind: "setEthPrice", price: rng.bigint(500n, 10_000n) * 10n ** 8n }
+                        : { kind: "setDaiRate", rate: rng.bigint(500_000n, 1_500_000n) };
+                default:
+                    return { kind: "advanceTime", seconds: rng.pick([60, 3_600, 4 * 3_600, 24 * 3_600]) };
+            }
+        });
+    }
+
+    async function execute(ctx: Context, action: Action): Promise<void> {
+        const { bank, usdc, dai, priceFeed, router, users } = ctx;
+
+        switch (action.kind) {
+            case "depositEth":
+                await bank.write.depositEth({ account: users[action.user].account, value: action.amount });
+                break;
+            case "depositUsdc":
+                await bank.write.depositUsdc([action.amount], { account: users[action.user].account });
+                break;
+            case "depositArbitraryToken":
+                await bank.write.depositArbitraryToken(
+                    [dai.address, action.amount, createPoolKey(dai.address, usdc.address), 1n],
+                    { account: users[action.user].account },
+                );
+                break;
+            case "withdraw":
+                await bank.write.withdraw([tokenAddress(ctx, action.token), action.amount], {
+                    account: users[action.user].account,
+                });
+                break;
+            case "setInternalBalance": {
+                // recovery credits funds that reached the bank outside a deposit: send them first
+                const account = users[action.user].account.address;
+                const token = tokenAddress(ctx, action.token);
+                const previous = await bank.read.getBalance([account, token]);
+                if (action.balance > previous && action.token === "ETH") {
+                    const held = await ctx.publicClient.getBalance({ address: bank.address });
+                    await networkHelpers.setBalance(bank.address, held + action.balance - previous);
+                } else if (action.balance > previous) {
+                    await usdc.write.mint([bank.address, action.balance - previous]);
+                }
+                await bank.write.setInternalBalance([account, token, action.balance]);
+                break;
+            }
+            case "setEthPrice":
+                await priceFeed.write.setAnswer([action.price]);
+                break;
+            case "setDaiRate":
+                await router.write.setExchangeRate([dai.address, action.rate]);
+                break;
+            case "advanceTime":
+                await networkHelpers.time.increase(action.seconds);
+                break;
+        }
+    }
+
+    async function checkInvariants(ctx: Context, step: number): Promise<void> {
+        const { bank, usdc, publicClient } = ctx;
+        const accounts = [...ctx.users.map((user) => user.account.address), TREASURY_ADDRESS];
+
+        const [maxEth, capEth, maxUsdc, capUsdc, totalShares, heldEth, heldUsdc] = await Promise.all([
+            bank.read.MAX_BANK_CAP_ETH(),
+            bank.read.currentBankCapEth(),
+            bank.read.MAX_BANK_CAP_USDC(),
+            bank.read.currentBankCapUsdc(),
+            bank.read.totalUsdcShares(),
+            publicClient.getBalance({ address: bank.address }),
+            usdc.read.balanceOf([bank.address]),
+        ]);
+        const ethBalances = await Promise.all(accounts.map((account) => bank.read.getBalance([account, ETH_ADDRESS])));
+        const usdcBalances = await Promise.all(accounts.map((account) => bank.read.getBalance([account, usdc.address])));
+        const shares = await Promise.all(accounts.map((account) => bank.read.usdcSharesOf([account])));
+
+        const sumEth = ethBalances.reduce((sum, balance) => sum + balance, 0n);
+        const sumUsdc = usdcBalances.reduce((sum, balance) => sum + balance, 0n);
+        const sumShares = shares.reduce((sum, balance) => sum + balance, 0n);
+
+        const check = (holds: boolean, message: string) => {
+            if (!holds) {
+                throw new PropertyFailure(step, message);
+            }
+        };
+        check(
+            maxEth - capEth === sumEth,
+            `ETH cap consumed ${formatEther(maxEth - capEth)} != sum of balances ${formatEther(sumEth)}`,
+        );
+        // without a strategy the USDC pool prices shares 1:1, so the pool's balances add up exactly
+        check(
+            maxUsdc - capUsdc === sumUsdc,
+            `USDC cap consumed ${formatUnits(maxUsdc - capUsdc, 6)} != sum of balances ${formatUnits(sumUsdc, 6)}`,
+        );
+        check(sumShares === totalShares, `USDC shares held ${sumShares} != totalUsdcShares ${totalShares}`);
+        check(heldEth >= sumEth, `bank holds ${formatEther(heldEth)} ETH for ${formatEther(sumEth)} of balances`);
+        check(heldUsdc >= sumUsdc, `bank holds ${formatUnits(heldUsdc, 6)} USDC for ${formatUnits(sumUsdc, 6)} of balances`);
+    }
+
+    const property: Property<Action> = {
+        generate: (rng) => generate(rng, STEPS),
+
+        async run(actions) {
+            const ctx = await networkHelpers.loadFixture(deployBank);
+
+            for (const [step, action] of actions.entries()) {
+                try {
+                    await execute(ctx, action);
+                } catch (error) {
+                    const decoded = decodeKipuBankError(error);
+                    if (decoded === undefined || !EXPECTED_REVERTS.has(decoded.errorName)) {
+                        const reason = decoded?.message ?? (error instanceof Error ? error.message.split("\n")[0] : String(error));
+                        throw new PropertyFailure(step, `unexpected revert: ${reason}`, { cause: error });
+                    }
+                }
+                await checkInvariants(ctx, step);
+            }
+        },
+
+        simplify(action) {
+            switch (action.kind) {
+                case "depositEth":
+                case "depositUsdc":
+                case "depositArbitraryToken":
+                case "withdraw":
+                    return [
+                        ...(action.amount > 1n ? [{ ...action, amount: action.amount / 2n }] : []),
+                        ...(action.user !== 0 ? [{ ...action, user: 0 }] : []),
+                    ];
+                case "setInternalBalance":
+                    return [
+                        ...(action.balance > 0n ? [{ ...action, balance: action.balance / 2n }] : []),
+                        ...(action.user !== 0 ? [{ ...action, user: 0 }] : []),
+                    ];
+                default:
+                    return [];
+            }
+        },
+
+        describe(action) {
+            switch (action.kind) {
+                case "depositEth":
+                    return `user ${action.user} depositEth ${formatEther(action.amount)} ETH`;
+                case "depositUsdc":
+                    return `user ${action.user} depositUsdc ${formatUnits(action.amount, 6)} USDC`;
+                case "depositArbitraryToken":
+                    return `user ${action.user} depositArbitraryToken ${formatUnits(action.amount, 18)} DAI`;
+                case "withdraw":
+                    return `user ${action.user} withdraw ${format(action.token, action.amount)}`;
+                case "setInternalBalance":
+                    return `setInternalBalance user ${action.user} to ${format(action.token, action.balance)}`;
+                case "setEthPrice":
+                    return `ETH/USD feed answers $${formatUnits(action.price, 8)}`;
+                case "setDaiRate":
+                    return `router pays ${formatUnits(action.rate, 6)} USDC per DAI`;
+                case "advanceTime":
+                    return `advance ${action.seconds}s`;
+            }
+        },
+    };
+
+    for (const seed of SEEDS) {
+        it(`keeps caps and holdings in line with balances (seed ${seed})`, async () => {
+            const counterexample = await checkSeed(property, seed);
+            if (counterexample !== undefined) {
+                assert.fail(formatCounterexample(property, counterexample, REPLAY));
+            }
+        });
+    }
+
+    describe("harness", () => {
+        // a toy property failing once the running sum reaches 100
+        const toy: Property<number> = {
+            generate: (rng) => Array.from({ length: 30 }, () => rng.int(61)),
+            async run(actions) {
+                let sum = 0;
+                for (const [step, value] of actions.entries()) {
+                    sum += value;
+                    if (sum >= 100) {
+                        throw new PropertyFailure(step, `sum ${sum}`);
+                    }
+                }
+            },
+            simplify: (value) => (value > 0 ? [value - 1] : []),
+        };
+
+        it("shrinks a failing sequence to a minimal reproducer", async () => {
+            const example = await checkSeed(toy, 7);
+            assert.ok(example !== undefined);
+            assert.ok(example.actions.length < example.original.length);
+            // minimal: dropping any action or lowering any value makes the sequence pass
+            assert.equal(example.actions.reduce((sum, value) => sum + value, 0), 100);
+            assert.ok(example.actions.every((value) => value > 0));
+        });
+
+        it("replays the same counterexample from the same seed", async () => {
+            const first = await checkSeed(toy, 11);
+            const replayed = await checkSeed(toy, 11);
+            assert.deepEqual(replayed, first);
+        });
+
+        it("keeps the original failure when nothing smaller fails", async () => {
+            const error = new PropertyFailure(0, "sum 100");
+            const shrunk = await shrink(toy, [100], error, 10);
+            assert.deepEqual(shrunk.actions, [100]);
+            assert.equal(shrunk.error, error);
+        });
+
+        it("generates the same sequence from the same seed", () => {
+            assert.deepEqual(toy.generate(new Rng(42)), toy.generate(new Rng(42)));
+            assert.notDeepEqual(toy.generate(new Rng(42)), toy.generate(new Rng(43)));
+        });
+    });
+});
+
+function tokenAddress(ctx: { usdc: { address: `0x${string}` } }, token: Token) {
+    return token === "ETH" ? ETH_ADDRESS : ctx.usdc.address;
+}
+
+function format(token: Token, amount: bigint): string {
+    return token === "ETH" ? `${formatEther(amount)} ETH` : `${formatUnits(amount, 6)} USDC`;
+}
@@ -0,0 +1,251 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, maxUint256, parseEther, parseUnits } from "viem";
+import { network } from "hardhat";
+
+import {
+    ETH_ADDRESS,
+    InvalidValueError,
+    KipuBankClient,
+    type KipuBankCall,
+    MulticallFailedError,
+    MulticallValueReusedError,
+    MulticallValueUnusedError,
+    WithdrawLimitExceededError,
+    createPoolKey,
+    decodeKipuBankError,
+    kipuBankAbi,
+} from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+
+const call = (call: KipuBankCall) => encodeFunctionData({ abi: kipuBankAbi, ...call });
+
+describe("KipuBank - Multicall", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, other] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        await bank.write.setWithdrawLimits([parseEther("10"), USDC(5_000n)]);
+
+        await usdc.write.mint([deployer.account.address, USDC(100_000n)]);
+        await usdc.write.approve([router.address, maxUint256]);
+        await router.write.fundRouter([USDC(100_000n)]);
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, maxUint256], { account: user.account });
+        await dai.write.mint([user.account.address, parseUnits("10000", 18)]);
+        await dai.write.approve([bank.address, maxUint256], { account: user.account });
+
+        return { bank, usdc, dai, deployer, user, other, publicClient };
+    }
+
+    describe("multicall", () => {
+        it("runs several operations in one transaction as the caller", async () => {
+            const { bank, usdc, user, other, publicClient } = await networkHelpers.loadFixture(deployAll);
+
+            const hash = await bank.write.multicall(
+                [[
+                    call({ functionName: "depositEth", args: [] }),
+                    call({ functionName: "depositUsdc", args: [USDC(2_000n)] }),
+                    call({ functionName: "withdraw", args: [usdc.address, USDC(500n)] }),
+                    call({ functionName: "transfer", args: [other.account.address, ETH_ADDRESS, parseEther("0.5")] }),
+                ]],
+                { account: user.account, value: parseEther("2") },
+            );
+            const receipt = await publicClient.waitForTransactionReceipt({ hash });
+            assert.equal(receipt.status, "success");
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("1.5"));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_500n));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: other.account }), parseEther("0.5"));
+            assert.equal(await bank.read.countDeposits(), 2n);
+            assert.equal(await bank.read.countWithdraws(), 1n);
+        });
+
+        it("returns the return data of each call", async () => {
+            const { bank, usdc, user } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.depositUsdc([USDC(5_000n)], { account: user.account });
+
+            const { result } = await bank.simulate.multicall(
+                [[
+                    call({ functionName: "requestWithdrawal", args: [usdc.address, USDC(1_000n)] }),
+                    call({ functionName: "requestWithdrawal", args: [usdc.address, USDC(1_000n)] }),
+                ]],
+                { account: user.account.address },
+            );
+            assert.deepEqual(result, [
+                "0x0000000000000000000000000000000000000000000000000000000000000000",
+                "0x0000000000000000000000000000000000000000000000000000000000000001",
+            ]);
+        });
+
+        it("lets nonReentrant functions run one after the other", async () => {
+            const { bank, usdc, dai, user } = await networkHelpers.loadFixture(deployAll);
+            const poolKey = createPoolKey(dai.address, usdc.address);
+
+            await bank.write.multicall(
+                [[
+                    call({ functionName: "depositArbitraryToken", args: [dai.address, parseUnits("100", 18), poolKey, 1n] }),
+                    call({ functionName: "depositArbitraryToken", args: [dai.address, parseUnits("200", 18), poolKey, 1n] }),
+                ]],
+                { account: user.account },
+            );
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(300n));
+        });
+
+        it("reverts the whole batch with the index and reason of the failing call", async () => {
+            const { bank, usdc, user } = await networkHelpers.loadFixture(deployAll);
+
+            await assert.rejects(
+                bank.write.multicall(
+                    [[
+                        call({ functionName: "depositUsdc", args: [USDC(9_000n)] }),
+                        call({ functionName: "withdraw", args: [usdc.address, USDC(6_000n)] }),
+                    ]],
+                    { account: user.account },
+                ),
+                /MulticallFailed/,
+            );
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 0n);
+        });
+
+        it("does not let two calls spend the same msg.value", async () => {
+            const { bank, user, publicClient } = await networkHelpers.loadFixture(deployAll);
+
+            await assert.rejects(
+                bank.write.multicall([[call({ functionName: "depositEth", args: [] }), call({ functionName: "depositEth", args: [] })]], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                (error) => decodeKipuBankError(error) instanceof MulticallValueReusedError,
+            );
+
+            // a nested multicall is one of the non-payable calls: its ETH deposit receives nothing
+            const nested = call({ functionName: "multicall", args: [[call({ functionName: "depositEth", args: [] })]] });
+            await assert.rejects(
+                bank.write.multicall([[call({ functionName: "depositEth", args: [] }), nested]], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                (error) => {
+                    const decoded = decodeKipuBankError(error);
+                    assert.ok(decoded instanceof MulticallFailedError);
+                    assert.equal(decoded.index, 1n);
+                    assert.ok(decoded.reason instanceof MulticallFailedError);
+                    assert.ok(decoded.reason.reason instanceof InvalidValueError);
+                    return true;
+                },
+            );
+            assert.equal(await publicClient.getBalance({ address: bank.address }), 0n);
+        });
+
+        it("rejects ETH that no call spends", async () => {
+            const { bank, usdc, user } = await networkHelpers.loadFixture(deployAll);
+
+            await assert.rejects(
+                bank.write.multicall([[call({ functionName: "depositUsdc", args: [USDC(1n)] })]], { account: user.account, value: 1n }),
+                /MulticallValueUnused/,
+            );
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 0n);
+        });
+
+        it("keeps every operation but the ETH deposits non-payable", async () => {
+            const { bank, usdc, user } = await networkHelpers.loadFixture(deployAll);
+
+            await assert.rejects(
+                user.sendTransaction({ to: bank.address, data: call({ functionName: "depositUsdc", args: [USDC(1n)] }), value: 1n }),
+            );
+            await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 0n);
+        });
+    });
+
+    describe("SDK batch", () => {
+        it("swaps DAI in and withdraws $1,000 USDC in one transaction", async () => {
+            const { bank, usdc, dai, user, publicClient } = await networkHelpers.loadFixture(deployAll);
+            await dai.write.approve([bank.address, 0n], { account: user.account });
+            const client = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+            const usdcBefore = await usdc.read.balanceOf([user.account.address]);
+
+            const batch = client
+                .batch()
+                .depositToken({ tokenIn: dai.address, amountIn: parseUnits("3000", 18), expectedAmountOut: USDC(3_000n) })
+                .withdraw(usdc.address, USDC(1_000n))
+                .requestWithdrawal(usdc.address, USDC(500n));
+            const { receipt, results } = await client.multicall(batch);
+
+            assert.equal(receipt.status, "success");
+            assert.deepEqual(results, [
+                { functionName: "depositArbitraryToken", result: undefined },
+                { functionName: "withdraw", result: undefined },
+                { functionName: "requestWithdrawal", result: 0n },
+            ]);
+            assert.equal(await usdc.read.balanceOf([user.account.address]), usdcBefore + USDC(1_000n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_500n));
+            // the builder approved exactly the DAI the swap pulled
+            assert.equal(await dai.read.balanceOf([user.account.address]), parseUnits("7000", 18));
+            assert.equal(await dai.read.allowance([user.account.address, bank.address]), 0n);
+        });
+
+        it("throws the failing call's index, function and decoded reason", async () => {
+            const { bank, usdc, user, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const client = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+
+            const batch = client.batch().depositEth(parseEther("1")).depositUsdc(USDC(9_000n)).withdraw(usdc.address, USDC(6_000n));
+            await assert.rejects(client.multicall(batch), (error) => {
+                assert.ok(error instanceof MulticallFailedError);
+                assert.equal(error.index, 2n);
+                assert.match(error.message, /withdraw \(call 2\) reverted with WithdrawLimitExceeded/);
+                assert.ok(error.reason instanceof WithdrawLimitExceededError);
+                assert.equal(error.reason.limit, USDC(5_000n));
+                return true;
+            });
+
+            await assert.rejects(
+                client.simulateMulticall(client.batch().add({ functionName: "depositUsdc", args: [USDC(1n)], value: 1n })),
+                MulticallValueUnusedError,
+            );
+        });
+
+        it("allows a single ETH-spending call per batch", async () => {
+            const { bank, user, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const client = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+
+            assert.throws(() => client.batch().depositEth(1n).depositEth(1n), /only one call of a batch can send ETH/);
+
+            const results = await client.simulateMulticall(client.batch().depositEth(parseEther("1")).withdraw(ETH_ADDRESS, parseEther("0.5")));
+            assert.equal(results.length, 2);
+            assert.equal(await bank.read.countDeposits(), 0n);
+        });
+    });
+});
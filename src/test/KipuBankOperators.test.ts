@@ -0,0 +1,263 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, maxUint256, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import {
+    ETH_ADDRESS,
+    InsufficientBalanceError,
+    KipuBankClient,
+    OperatorNotAllowedError,
+    OperatorPermission,
+    createPoolKey,
+} from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+const DAY = 24n * 60n * 60n;
+
+describe("KipuBank - Operators", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, operator, other] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        await bank.write.setWithdrawLimits([parseEther("10"), USDC(5_000n)]);
+
+        await usdc.write.mint([deployer.account.address, USDC(100_000n)]);
+        await usdc.write.approve([router.address, maxUint256]);
+        await router.write.fundRouter([USDC(100_000n)]);
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, maxUint256], { account: user.account });
+        await bank.write.depositUsdc([USDC(3_000n)], { account: user.account });
+        await dai.write.mint([user.account.address, parseUnits("10000", 18)]);
+        await dai.write.approve([bank.address, maxUint256], { account: user.account });
+        await dai.write.mint([operator.account.address, parseUnits("10000", 18)]);
+
+        const expiry = BigInt(await networkHelpers.time.latest()) + DAY;
+
+        return { bank, usdc, dai, user, operator, other, publicClient, expiry };
+    }
+
+    describe("setOperator", () => {
+        it("grants, updates and revokes an operator, listing it once", async () => {
+            const { bank, user, operator, expiry } = await networkHelpers.loadFixture(deployAll);
+
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawToOwner, expiry], {
+                account: user.account,
+            });
+            const [granted] = await bank.getEvents.OperatorSet();
+            assert.equal(granted.args.account, getAddress(user.account.address));
+            assert.equal(granted.args.operator, getAddress(operator.account.address));
+            assert.equal(granted.args.permissions, OperatorPermission.WithdrawToOwner);
+
+            await bank.write.setOperator(
+                [operator.account.address, OperatorPermission.WithdrawAnywhere | OperatorPermission.DepositFor, expiry * 2n],
+                { account: user.account },
+            );
+            const [operators, grants] = await bank.read.operatorsOf([user.account.address]);
+            assert.deepEqual(operators, [getAddress(operator.account.address)]);
+            assert.deepEqual(grants, [{ permissions: 5, expiry: expiry * 2n }]);
+
+            await bank.write.setOperator([operator.account.address, 0, 0n], { account: user.account });
+            const [revoked] = await bank.getEvents.OperatorRevoked();
+            assert.equal(revoked.args.operator, getAddress(operator.account.address));
+            assert.deepEqual(await bank.read.operatorsOf([user.account.address]), [[], []]);
+            assert.deepEqual(await bank.read.operatorGrants([user.account.address, operator.account.address]), [0, 0n]);
+        });
+
+        it("rejects invalid operators and grants", async () => {
+            const { bank, user, operator, expiry } = await networkHelpers.loadFixture(deployAll);
+
+            await assert.rejects(
+                bank.write.setOperator([zeroAddress, OperatorPermission.DepositFor, expiry], { account: user.account }),
+                /InvalidOperator\(/,
+            );
+            await assert.rejects(
+                bank.write.setOperator([user.account.address, OperatorPermission.DepositFor, expiry], { account: user.account }),
+                /InvalidOperator\(/,
+            );
+            await assert.rejects(
+                bank.write.setOperator([operator.account.address, 8, expiry], { account: user.account }),
+                /InvalidOperatorGrant/,
+            );
+            await assert.rejects(
+                bank.write.setOperator([operator.account.address, OperatorPermission.DepositFor, 1n], { account: user.account }),
+                /InvalidOperatorGrant/,
+            );
+        });
+    });
+
+    describe("withdrawFor", () => {
+        it("withdraws to the owner with WithdrawToOwner, but nowhere else", async () => {
+            const { bank, usdc, user, operator, other, expiry } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawToOwner, expiry], {
+                account: user.account,
+            });
+            const before = await usdc.read.balanceOf([user.account.address]);
+
+            await bank.write.withdrawFor([user.account.address, usdc.address, USDC(1_000n), user.account.address], {
+                account: operator.account,
+            });
+            assert.equal(await usdc.read.balanceOf([user.account.address]), before + USDC(1_000n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(2_000n));
+
+            const [withdrawal] = await bank.getEvents.OperatorWithdrawal();
+            assert.equal(withdrawal.args.account, getAddress(user.account.address));
+            assert.equal(withdrawal.args.operator, getAddress(operator.account.address));
+            assert.equal(withdrawal.args.to, getAddress(user.account.address));
+
+            await assert.rejects(
+                bank.write.withdrawFor([user.account.address, usdc.address, USDC(1_000n), other.account.address], {
+                    account: operator.account,
+                }),
+                /OperatorNotAllowed/,
+            );
+        });
+
+        it("withdraws anywhere with WithdrawAnywhere, within the account's limits", async () => {
+            const { bank, usdc, user, operator, other, expiry } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setWithdrawLimitOverride([user.account.address, parseEther("10"), USDC(1_000n)]);
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawAnywhere, expiry], {
+                account: user.account,
+            });
+
+            await bank.write.withdrawFor([user.account.address, usdc.address, USDC(1_000n), other.account.address], {
+                account: operator.account,
+            });
+            await bank.write.withdrawFor([user.account.address, usdc.address, USDC(500n), user.account.address], {
+                account: operator.account,
+            });
+            assert.equal(await usdc.read.balanceOf([other.account.address]), USDC(1_000n));
+
+            await assert.rejects(
+                bank.write.withdrawFor([user.account.address, usdc.address, USDC(1_001n), other.account.address], {
+                    account: operator.account,
+                }),
+                /WithdrawLimitExceeded/,
+            );
+        });
+
+        it("stops working once the grant expires or is revoked", async () => {
+            const { bank, usdc, user, operator, other, expiry } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawAnywhere, expiry], {
+                account: user.account,
+            });
+
+            // someone else's operator grant doesn't count
+            await assert.rejects(
+                bank.write.withdrawFor([user.account.address, usdc.address, USDC(1n), other.account.address], {
+                    account: other.account,
+                }),
+                /OperatorNotAllowed/,
+            );
+
+            await networkHelpers.time.increaseTo(expiry + 1n);
+            await assert.rejects(
+                bank.write.withdrawFor([user.account.address, usdc.address, USDC(1n), user.account.address], {
+                    account: operator.account,
+                }),
+                /OperatorNotAllowed/,
+            );
+
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawAnywhere, expiry * 2n], {
+                account: user.account,
+            });
+            await bank.write.setOperator([operator.account.address, 0, 0n], { account: user.account });
+            await assert.rejects(
+                bank.write.withdrawFor([user.account.address, usdc.address, USDC(1n), user.account.address], {
+                    account: operator.account,
+                }),
+                /OperatorNotAllowed/,
+            );
+        });
+    });
+
+    describe("depositArbitraryTokenFor", () => {
+        it("swap-deposits the operator's tokens for the account with DepositFor", async () => {
+            const { bank, usdc, dai, user, operator, expiry } = await networkHelpers.loadFixture(deployAll);
+            const poolKey = createPoolKey(dai.address, usdc.address);
+            const args = [user.account.address, dai.address, parseUnits("500", 18), poolKey, 1n] as const;
+            await dai.write.approve([bank.address, maxUint256], { account: operator.account });
+
+            await bank.write.setOperator([operator.account.address, OperatorPermission.WithdrawAnywhere, expiry], {
+                account: user.account,
+            });
+            await assert.rejects(bank.write.depositArbitraryTokenFor([...args], { account: operator.account }), /OperatorNotAllowed/);
+
+            await bank.write.setOperator([operator.account.address, OperatorPermission.DepositFor, expiry], {
+                account: user.account,
+            });
+            await bank.write.depositArbitraryTokenFor([...args], { account: operator.account });
+
+            // the operator pays; the account's wallet and its allowance are left alone
+            assert.equal(await dai.read.balanceOf([operator.account.address]), parseUnits("9500", 18));
+            assert.equal(await dai.read.balanceOf([user.account.address]), parseUnits("10000", 18));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(3_500n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: operator.account }), 0n);
+        });
+    });
+
+    describe("SDK", () => {
+        it("grants, lists and uses an operator through the client", async () => {
+            const { bank, usdc, dai, user, operator, publicClient, expiry } = await networkHelpers.loadFixture(deployAll);
+            const owner = new KipuBankClient({ address: bank.address, publicClient, walletClient: user });
+            const hotKey = new KipuBankClient({ address: bank.address, publicClient, walletClient: operator });
+
+            await owner.setOperator(operator.account.address, OperatorPermission.WithdrawToOwner | OperatorPermission.DepositFor, expiry);
+            assert.deepEqual(await owner.operators(), [
+                { operator: getAddress(operator.account.address), permissions: 3, expiry, active: true },
+            ]);
+
+            await hotKey.depositTokenFor(user.account.address, {
+                tokenIn: dai.address,
+                amountIn: parseUnits("1000", 18),
+                expectedAmountOut: USDC(1_000n),
+            });
+            // the client approved the operator's DAI first
+            assert.equal(await dai.read.balanceOf([operator.account.address]), parseUnits("9000", 18));
+            await hotKey.withdrawFor(user.account.address, usdc.address, USDC(2_000n));
+            assert.equal(await owner.getMyBalance(usdc.address), USDC(2_000n));
+
+            await assert.rejects(hotKey.withdrawFor(user.account.address, ETH_ADDRESS, 1n, operator.account.address), (error) => {
+                assert.ok(error instanceof OperatorNotAllowedError);
+                assert.equal(error.permissions, OperatorPermission.WithdrawAnywhere);
+                return true;
+            });
+            await assert.rejects(hotKey.withdrawFor(user.account.address, usdc.address, USDC(2_001n)), InsufficientBalanceError);
+
+            await networkHelpers.time.increaseTo(expiry + 1n);
+            assert.equal((await owner.operators(user.account.address))[0].active, false);
+
+            await owner.revokeOperator(operator.account.address);
+            assert.deepEqual(await owner.operators(), []);
+        });
+    });
+});
@@ -0,0 +1,287 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+const ETH = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as `0x${string}`;
+
+describe("KipuBank - Oracle Resilience", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user] = await viem.getWalletClients();
+
+        const feed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        // different decimals on purpose: prices are compared at 18 decimals
+        const fallbackFeed = await viem.deployContract("MockV3Aggregator", [18, parseEther("3010")], {
+            client: { wallet: deployer },
+        });
+
+        const sequencerFeed = await viem.deployContract("MockV3Aggregator", [0, 0n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract(
+            "KipuBank",
+            [adminModule.address, depositsModule.address, accountsModule.address],
+            { client: { wallet: deployer } },
+        );
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, parseEther("100"), 50_000n * 10n ** 6n, feed.address, usdc.address, router.address, permit2.address],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+            client: { wallet: deployer },
+        });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        return { bank, implementation, feed, fallbackFeed, sequencerFeed, usdc, router, permit2, deployer, user, publicClient };
+    }
+
+    async function deployWithFallback() {
+        const ctx = await deployAll();
+        await ctx.bank.write.setOracleConfig([ctx.fallbackFeed.address, zeroAddress, 3_600n * 3n, 200n], {
+            account: ctx.deployer.account,
+        });
+
+        return ctx;
+    }
+
+    describe("Configuration", () => {
+        it("defaults to a single feed and a 3h staleness window", async () => {
+            const { bank } = await deployAll();
+
+            assert.equal(await bank.read.fallbackEthUsdFeed(), zeroAddress);
+            assert.equal(await bank.read.sequencerUptimeFeed(), zeroAddress);
+            assert.equal(await bank.read.oracleMaxDelay(), 3n * 3600n);
+            assert.equal(await bank.read.maxFeedDeviationBps(), 200n);
+        });
+
+        it("the admin sets the feeds and bounds, emitting OracleConfigUpdated", async () => {
+            const { bank, fallbackFeed, sequencerFeed, deployer } = await deployAll();
+
+            await bank.write.setOracleConfig([fallbackFeed.address, sequencerFeed.address, 86_400n, 500n], {
+                account: deployer.account,
+            });
+
+            assert.equal(await bank.read.fallbackEthUsdFeed(), getAddress(fallbackFeed.address));
+            assert.equal(await bank.read.sequencerUptimeFeed(), getAddress(sequencerFeed.address));
+            assert.equal(await bank.read.oracleMaxDelay(), 86_400n);
+            assert.equal(await bank.read.maxFeedDeviationBps(), 500n);
+
+            const [event] = await bank.getEvents.OracleConfigUpdated();
+            assert.equal(event.args.admin, getAddress(deployer.account.address));
+            assert.equal(event.args.maxDelay, 86_400n);
+        });
+
+        it("rejects out-of-bounds values and non-admins", async () => {
+            const { bank, deployer, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setOracleConfig([zeroAddress, zeroAddress, 0n, 200n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/,
+            );
+            await assert.rejects(
+                bank.write.setOracleConfig([zeroAddress, zeroAddress, 3n * 86_400n, 200n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/,
+            );
+            await assert.rejects(
+                bank.write.setOracleConfig([zeroAddress, zeroAddress, 3_600n, 1_001n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/,
+            );
+            await assert.rejects(
+                bank.write.setOracleConfig([zeroAddress, zeroAddress, 3_600n, 200n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+
+        it("rejects ETH/USD feeds with more than 18 decimals", async () => {
+            const { bank, implementation, usdc, router, permit2, deployer } = await deployAll();
+            const wideFeed = await viem.deployContract("MockV3Aggregator", [20, 3_000n * 10n ** 20n], {
+                client: { wallet: deployer },
+            });
+
+            await assert.rejects(
+                bank.write.setOracleConfig([wideFeed.address, zeroAddress, 3_600n, 200n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/,
+            );
+            const initialize = encodeFunctionData({
+                abi: implementation.abi,
+                functionName: "initialize",
+                args: [
+                    deployer.account.address,
+                    parseEther("100"),
+                    50_000n * 10n ** 6n,
+                    wideFeed.address,
+                    usdc.address,
+                    router.address,
+                    permit2.address,
+                ],
+            });
+            await assert.rejects(
+                viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+                    client: { wallet: deployer },
+                }),
+                /OracleConfigOutOfBounds/,
+            );
+        });
+
+        it("the staleness window is configurable", async () => {
+            const { bank, feed, deployer } = await deployAll();
+
+            await networkHelpers.time.increase(2 * 3600);
+            await bank.write.setOracleConfig([zeroAddress, zeroAddress, 3_600n, 200n], { account: deployer.account });
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OracleStale/);
+
+            await feed.write.setAnswer([3_000n * 10n ** 8n]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_000n * 10n ** 6n);
+        });
+    });
+
+    describe("Round validation", () => {
+        it("rejects a round answered in an earlier round", async () => {
+            const { bank, feed } = await deployAll();
+            const now = BigInt(await networkHelpers.time.latest());
+
+            await feed.write.setRoundData([5n, 3_000n * 10n ** 8n, now, now, 4n]);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OraclePriceInvalid/);
+        });
+
+        it("rejects an incomplete round and a reverting feed", async () => {
+            const { bank, feed } = await deployAll();
+
+            await feed.write.setRoundData([5n, 3_000n * 10n ** 8n, 0n, 0n, 5n]);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OraclePriceInvalid/);
+
+            await feed.write.setAnswer([3_000n * 10n ** 8n]);
+            await feed.write.setReverting([true]);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OraclePriceInvalid/);
+        });
+    });
+
+    describe("Fallback feed", () => {
+        it("uses the primary price while both feeds agree", async () => {
+            const { bank } = await deployWithFallback();
+
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_000n * 10n ** 6n);
+        });
+
+        it("falls back when the primary feed is down, stale or invalid", async () => {
+            const { bank, feed } = await deployWithFallback();
+
+            await feed.write.setReverting([true]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_010n * 10n ** 6n);
+
+            await feed.write.setReverting([false]);
+            await feed.write.setUpdatedAt([BigInt(await networkHelpers.time.latest()) - 4n * 3600n]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_010n * 10n ** 6n);
+
+            await feed.write.setAnswer([0n]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_010n * 10n ** 6n);
+        });
+
+        it("keeps the primary price when only the fallback fails", async () => {
+            const { bank, fallbackFeed } = await deployWithFallback();
+
+            await fallbackFeed.write.setReverting([true]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_000n * 10n ** 6n);
+        });
+
+        it("reverts with the primary error when both feeds fail", async () => {
+            const { bank, feed, fallbackFeed } = await deployWithFallback();
+
+            await networkHelpers.time.increase(4 * 3600);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OracleStale/);
+
+            await feed.write.setReverting([true]);
+            await fallbackFeed.write.setReverting([true]);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OraclePriceInvalid/);
+        });
+
+        it("reverts when the feeds deviate beyond the bound", async () => {
+            const { bank, fallbackFeed, user } = await deployWithFallback();
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+
+            // 3000 vs 3100: 3.33% > 2%
+            await fallbackFeed.write.setAnswer([parseEther("3100")]);
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /OracleDeviationExceeded/);
+            await assert.rejects(
+                bank.write.withdraw([ETH, parseEther("0.1")], { account: user.account }),
+                /OracleDeviationExceeded/,
+            );
+        });
+    });
+
+    describe("L2 sequencer uptime", () => {
+        it("reverts while the sequencer is down", async () => {
+            const { bank, sequencerFeed, deployer } = await deployAll();
+
+            await bank.write.setOracleConfig([zeroAddress, sequencerFeed.address, 3n * 3600n, 200n], {
+                account: deployer.account,
+            });
+            await networkHelpers.time.increase(3600);
+            await sequencerFeed.write.setAnswer([1n]);
+
+            await assert.rejects(bank.read.previewToUsdc([ETH, parseEther("1")]), /SequencerDown/);
+        });
+
+        it("enforces the grace period after the sequencer comes back up", async () => {
+            const { bank, feed, sequencerFeed, deployer } = await deployAll();
+
+            await bank.write.setOracleConfig([zeroAddress, sequencerFeed.address, 3n * 3600n, 200n], {
+                account: deployer.account,
+            });
+            await sequencerFeed.write.setAnswer([0n]);
+            const upSince = BigInt(await networkHelpers.time.latest());
+
+            await assert.rejects(
+                bank.read.previewToUsdc([ETH, parseEther("1")]),
+                (error: Error) =>
+                    error.message.includes("SequencerGracePeriodNotOver") &&
+                    error.message.includes((upSince + 3600n).toString()),
+            );
+
+            await networkHelpers.time.increase(3601);
+            await feed.write.setAnswer([3_000n * 10n ** 8n]);
+            assert.equal(await bank.read.previewToUsdc([ETH, parseEther("1")]), 3_000n * 10n ** 6n);
+        });
+
+        it("applies to listed assets but not to USDC", async () => {
+            const { bank, sequencerFeed, usdc, deployer } = await deployAll();
+            const btcFeed = await viem.deployContract("MockV3Aggregator", [8, 60_000n * 10n ** 8n]);
+            const wbtc = await viem.deployContract("MockERC20", ["Wrapped Bitcoin", "WBTC", 8]);
+
+            await bank.write.listAsset([wbtc.address, btcFeed.address, parseUnits("5", 8), parseUnits("1", 8)], {
+                account: deployer.account,
+            });
+            await bank.write.setOracleConfig([zeroAddress, sequencerFeed.address, 3n * 3600n, 200n], {
+                account: deployer.account,
+            });
+            await sequencerFeed.write.setAnswer([1n]);
+
+            await assert.rejects(bank.read.previewToUsdc([wbtc.address, parseUnits("1", 8)]), /SequencerDown/);
+            assert.equal(await bank.read.previewToUsdc([usdc.address, 10n ** 6n]), 10n ** 6n);
+        });
+    });
+});
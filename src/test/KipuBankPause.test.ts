@@ -0,0 +1,208 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, parseEther, parseUnits, stringToHex, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, Operation, createPoolKey } from "../sdk/index.js";
+
+const ORACLE = stringToHex("ORACLE", { size: 32 });
+const ROUTER = stringToHex("ROUTER", { size: 32 });
+
+describe("KipuBank - Pausable Circuit Breaker", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, guardian] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const args = [parseEther("100"), 50_000n * 10n ** 6n, priceFeed.address, usdc.address, router.address, permit2.address] as const;
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address], { client: { wallet: deployer } });
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], { client: { wallet: deployer } });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        await usdc.write.mint([deployer.account.address, 10_000n * 10n ** 6n], { account: deployer.account });
+        await usdc.write.approve([router.address, 10_000n * 10n ** 6n], { account: deployer.account });
+        await router.write.fundRouter([10_000n * 10n ** 6n], { account: deployer.account });
+        await dai.write.mint([router.address, parseUnits("10000", 18)], { account: deployer.account });
+
+        await dai.write.mint([user.account.address, parseUnits("1000", 18)], { account: deployer.account });
+        await dai.write.approve([bank.address, parseUnits("1000", 18)], { account: user.account });
+
+        // some ETH and USDC to withdraw
+        await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+        const poolKey = createPoolKey(dai.address, usdc.address);
+        await bank.write.depositArbitraryToken([dai.address, parseUnits("500", 18), poolKey, 1n], {
+            account: user.account,
+        });
+
+        const guardianRole = await bank.read.GUARDIAN_ROLE();
+        await bank.write.grantRole([guardianRole, guardian.account.address], { account: deployer.account });
+
+        return { bank, usdc, dai, router, deployer, user, guardian, publicClient };
+    }
+
+    describe("Guardian", () => {
+        it("only the guardian can pause and unpause", async () => {
+            const { bank, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.pause([Operation.Deposits, ORACLE, 0n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(
+                bank.write.unpause([Operation.Deposits], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+
+        it("records the reason and emits events", async () => {
+            const { bank, guardian, publicClient } = await deployAll();
+
+            const hash = await bank.write.pause([Operation.Swaps, ROUTER, 0n], { account: guardian.account });
+            await publicClient.waitForTransactionReceipt({ hash });
+
+            const [event] = await bank.getEvents.OperationPaused();
+            assert.equal(event.args.operation, Operation.Swaps);
+            assert.equal(event.args.reason, ROUTER);
+            assert.equal(event.args.pausedUntil, 0n);
+            assert.deepEqual(await bank.read.pauses([Operation.Swaps]), [true, 0n, ROUTER]);
+            assert.equal(await bank.read.isPaused([Operation.Swaps]), true);
+
+            await bank.write.unpause([Operation.Swaps], { account: guardian.account });
+            const [unpaused] = await bank.getEvents.OperationUnpaused();
+            assert.equal(unpaused.args.operation, Operation.Swaps);
+            assert.equal(await bank.read.isPaused([Operation.Swaps]), false);
+        });
+
+        it("reverts with the pause reason and deadline", async () => {
+            const { bank, user, guardian } = await deployAll();
+
+            await bank.write.pause([Operation.Deposits, ORACLE, 3_600n], { account: guardian.account });
+            const [, pausedUntil] = await bank.read.pauses([Operation.Deposits]);
+            assert.equal(pausedUntil, BigInt(await networkHelpers.time.latest()) + 3_600n);
+
+            await assert.rejects(
+                bank.write.depositEth({ account: user.account, value: 1n }),
+                (error: Error) =>
+                    error.message.includes("OperationIsPaused") && error.message.includes(pausedUntil.toString()),
+            );
+        });
+
+        it("a timed pause lifts by itself", async () => {
+            const { bank, user, guardian } = await deployAll();
+
+            await bank.write.pause([Operation.Withdrawals, ORACLE, 600n], { account: guardian.account });
+            await assert.rejects(
+                bank.write.withdraw([ETH_ADDRESS, 1n], { account: user.account }),
+                /OperationIsPaused/,
+            );
+
+            await networkHelpers.time.increase(600);
+            assert.equal(await bank.read.isPaused([Operation.Withdrawals]), false);
+            await bank.write.withdraw([ETH_ADDRESS, 1n], { account: user.account });
+        });
+
+        it("recovery adjustments are never paused", async () => {
+            const { bank, usdc, user, deployer, guardian } = await deployAll();
+
+            for (const operation of Object.values(Operation)) {
+                await bank.write.pause([operation, ORACLE, 0n], { account: guardian.account });
+            }
+            await bank.write.setInternalBalance([user.account.address, usdc.address, 0n], { account: deployer.account });
+        });
+    });
+
+    describe("Pause combinations", () => {
+        const names = Object.keys(Operation) as (keyof typeof Operation)[];
+        const combinations = [0, 1, 2, 3, 4, 5, 6, 7].map((mask) => names.filter((_, i) => mask & (1 << i)));
+
+        for (const paused of combinations) {
+            const label = paused.length === 0 ? "nothing" : paused.join(" + ");
+
+            it(`with ${label} paused, only the affected operations revert`, async () => {
+                const { bank, usdc, dai, user, guardian } = await deployAll();
+
+                for (const name of paused) {
+                    await bank.write.pause([Operation[name], ORACLE, 0n], { account: guardian.account });
+                }
+
+                const isBlocked = (...needs: (keyof typeof Operation)[]) => needs.some((n) => paused.includes(n));
+                const operations: [string, (keyof typeof Operation)[], () => Promise<unknown>][] = [
+                    ["depositEth", ["Deposits"], () => bank.write.depositEth({ account: user.account, value: 1n })],
+                    [
+                        "depositArbitraryToken",
+                        ["Deposits", "Swaps"],
+                        () =>
+                            bank.write.depositArbitraryToken(
+                                [dai.address, parseUnits("1", 18), createPoolKey(dai.address, usdc.address), 1n],
+                                { account: user.account },
+                            ),
+                    ],
+                    ["withdraw", ["Withdrawals"], () => bank.write.withdraw([ETH_ADDRESS, 1n], { account: user.account })],
+                    [
+                        "withdrawAsToken",
+                        ["Withdrawals", "Swaps"],
+                        () =>
+                            bank.write.withdrawAsToken(
+                                [dai.address, 10n ** 6n, createPoolKey(dai.address, usdc.address), 1n],
+                                { account: user.account },
+                            ),
+                    ],
+                ];
+
+                for (const [name, needs, call] of operations) {
+                    if (isBlocked(...needs)) {
+                        await assert.rejects(call(), /OperationIsPaused/, `${name} should be paused`);
+                    } else {
+                        await call();
+                    }
+                }
+            });
+        }
+
+        it("native swap deposits follow both the Deposits and Swaps pauses", async () => {
+            const { bank, router, usdc, user, guardian } = await deployAll();
+            await router.write.setExchangeRate([zeroAddress, 3_000n * 10n ** 6n]);
+            const poolKey = createPoolKey(zeroAddress, usdc.address);
+
+            await bank.write.pause([Operation.Swaps, ROUTER, 0n], { account: guardian.account });
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([poolKey, 1n], { account: user.account, value: parseEther("0.1") }),
+                /OperationIsPaused/,
+            );
+            // plain ETH deposits don't touch the router
+            await bank.write.depositEth({ account: user.account, value: parseEther("0.1") });
+
+            await bank.write.unpause([Operation.Swaps], { account: guardian.account });
+            await bank.write.depositEthAsUsdc([poolKey, 1n], { account: user.account, value: parseEther("0.1") });
+        });
+    });
+});
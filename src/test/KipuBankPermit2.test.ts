@@ -0,0 +1,282 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, maxUint256, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import { createPoolKey, signErc2612Permit, signPermitTransferFrom } from "../sdk/index.js";
+
+describe("KipuBank - Permit2 and EIP-2612 Signature Deposits", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract(
+            "KipuBank",
+            [adminModule.address, depositsModule.address, accountsModule.address],
+            { client: { wallet: deployer } },
+        );
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, parseEther("100"), 50_000n * 10n ** 6n, priceFeed.address, usdc.address, router.address, permit2.address],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+            client: { wallet: deployer },
+        });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        await usdc.write.mint([user.account.address, 10_000n * 10n ** 6n], { account: deployer.account });
+        await dai.write.mint([user.account.address, parseUnits("10000", 18)], { account: deployer.account });
+
+        // the one-time approval to Permit2 itself; the bank never gets an allowance
+        await usdc.write.approve([permit2.address, maxUint256], { account: user.account });
+        await dai.write.approve([permit2.address, maxUint256], { account: user.account });
+
+        const chainId = await publicClient.getChainId();
+
+        async function sign(
+            signer: typeof user,
+            token: `0x${string}`,
+            amount: bigint,
+            opts?: { nonce?: bigint; deadline?: bigint; spender?: `0x${string}` },
+        ) {
+            return signPermitTransferFrom(signer, {
+                permit2: permit2.address,
+                chainId,
+                spender: opts?.spender ?? bank.address,
+                token,
+                amount,
+                nonce: opts?.nonce ?? 0n,
+                deadline: opts?.deadline ?? BigInt(await networkHelpers.time.latest()) + 3600n,
+            });
+        }
+
+        async function signUsdcPermit(signer: typeof user, value: bigint, deadline?: bigint) {
+            const resolvedDeadline = deadline ?? BigInt(await networkHelpers.time.latest()) + 3600n;
+            const signature = await signErc2612Permit(signer, {
+                token: usdc.address,
+                chainId,
+                name: "USD Coin",
+                version: "1",
+                spender: bank.address,
+                value,
+                nonce: await usdc.read.nonces([signer.account.address]),
+                deadline: resolvedDeadline,
+            });
+
+            return { ...signature, deadline: resolvedDeadline };
+        }
+
+        return { bank, usdc, dai, permit2, router, deployer, user, user2, publicClient, sign, signUsdcPermit };
+    }
+
+    describe("depositUsdcWithPermit2", () => {
+        it("deposits USDC in one transaction without a bank allowance", async () => {
+            const { bank, usdc, permit2, user, sign } = await deployAll();
+            const amount = 1_000n * 10n ** 6n;
+
+            const { permit, signature } = await sign(user, usdc.address, amount);
+            await bank.write.depositUsdcWithPermit2([amount, permit, signature], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), amount);
+            assert.equal(await usdc.read.balanceOf([bank.address]), amount);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 0n);
+            assert.equal(await permit2.read.nonceBitmap([user.account.address, 0n]), 1n);
+            assert.equal(await bank.read.currentBankCapUsdc(), 49_000n * 10n ** 6n);
+        });
+
+        it("can redeem less than the permitted amount", async () => {
+            const { bank, usdc, user, sign } = await deployAll();
+
+            const { permit, signature } = await sign(user, usdc.address, 500n * 10n ** 6n);
+            await bank.write.depositUsdcWithPermit2([200n * 10n ** 6n, permit, signature], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 200n * 10n ** 6n);
+        });
+
+        it("rejects a reused nonce", async () => {
+            const { bank, usdc, user, sign } = await deployAll();
+            const amount = 100n * 10n ** 6n;
+
+            const { permit, signature } = await sign(user, usdc.address, amount, { nonce: 7n });
+            await bank.write.depositUsdcWithPermit2([amount, permit, signature], { account: user.account });
+
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([amount, permit, signature], { account: user.account }),
+                /InvalidNonce/,
+            );
+        });
+
+        it("rejects an expired permit", async () => {
+            const { bank, usdc, user, sign } = await deployAll();
+            const amount = 100n * 10n ** 6n;
+            const deadline = BigInt(await networkHelpers.time.latest()) + 60n;
+
+            const { permit, signature } = await sign(user, usdc.address, amount, { deadline });
+            await networkHelpers.time.increase(120);
+
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([amount, permit, signature], { account: user.account }),
+                /SignatureExpired/,
+            );
+        });
+
+        it("rejects a requested amount above the permitted amount", async () => {
+            const { bank, usdc, user, sign } = await deployAll();
+
+            const { permit, signature } = await sign(user, usdc.address, 100n * 10n ** 6n);
+
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([101n * 10n ** 6n, permit, signature], { account: user.account }),
+                /InvalidAmount/,
+            );
+        });
+
+        it("rejects a permit signed by someone else or for another spender", async () => {
+            const { bank, usdc, user, user2, sign } = await deployAll();
+            const amount = 100n * 10n ** 6n;
+
+            // user2 signs, user submits: the caller is the owner, so the signer does not match
+            const foreign = await sign(user2, usdc.address, amount);
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([amount, foreign.permit, foreign.signature], {
+                    account: user.account,
+                }),
+                /InvalidSigner/,
+            );
+
+            const otherSpender = await sign(user, usdc.address, amount, { spender: user2.account.address });
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([amount, otherSpender.permit, otherSpender.signature], {
+                    account: user.account,
+                }),
+                /InvalidSigner/,
+            );
+        });
+
+        it("rejects a permit for another token", async () => {
+            const { bank, dai, user, sign } = await deployAll();
+            const amount = parseUnits("100", 18);
+
+            const { permit, signature } = await sign(user, dai.address, amount);
+
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit2([amount, permit, signature], { account: user.account }),
+                /UnsupportedToken/,
+            );
+        });
+    });
+
+    describe("depositArbitraryTokenWithPermit", () => {
+        it("pulls the permitted token, swaps it and credits USDC", async () => {
+            const { bank, usdc, dai, router, deployer, user, sign } = await deployAll();
+
+            await usdc.write.mint([deployer.account.address, 10_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([router.address, 10_000n * 10n ** 6n], { account: deployer.account });
+            await router.write.fundRouter([10_000n * 10n ** 6n], { account: deployer.account });
+
+            const amountIn = parseUnits("1000", 18);
+            const { permit, signature } = await sign(user, dai.address, amountIn);
+            const poolKey = createPoolKey(dai.address, usdc.address);
+
+            await bank.write.depositArbitraryTokenWithPermit([amountIn, poolKey, 1n, permit, signature], {
+                account: user.account,
+            });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 1_000n * 10n ** 6n);
+            assert.equal(await dai.read.balanceOf([bank.address]), 0n);
+            assert.equal(await dai.read.allowance([user.account.address, bank.address]), 0n);
+        });
+
+        it("rejects a USDC permit, which has its own entry point", async () => {
+            const { bank, usdc, user, sign } = await deployAll();
+            const poolKey = createPoolKey(zeroAddress, usdc.address);
+
+            const { permit, signature } = await sign(user, usdc.address, 100n * 10n ** 6n);
+            await assert.rejects(
+                bank.write.depositArbitraryTokenWithPermit([100n * 10n ** 6n, poolKey, 1n, permit, signature], {
+                    account: user.account,
+                }),
+                /UnsupportedToken/,
+            );
+        });
+    });
+
+    describe("depositUsdcWithPermit (EIP-2612)", () => {
+        it("approves through the USDC permit and deposits in one transaction", async () => {
+            const { bank, usdc, user, signUsdcPermit } = await deployAll();
+            const amount = 1_000n * 10n ** 6n;
+
+            // the fixture's max approval is to Permit2, the bank has none
+            const { deadline, v, r, s } = await signUsdcPermit(user, amount);
+            await bank.write.depositUsdcWithPermit([amount, deadline, v, r, s], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), amount);
+            assert.equal(await usdc.read.allowance([user.account.address, bank.address]), 0n);
+            assert.equal(await usdc.read.nonces([user.account.address]), 1n);
+        });
+
+        it("still deposits when the permit was front-run", async () => {
+            const { bank, usdc, user, user2, signUsdcPermit } = await deployAll();
+            const amount = 1_000n * 10n ** 6n;
+
+            const { deadline, v, r, s } = await signUsdcPermit(user, amount);
+            // someone submits the permit from the mempool straight to USDC
+            await usdc.write.permit([user.account.address, bank.address, amount, deadline, v, r, s], {
+                account: user2.account,
+            });
+
+            await bank.write.depositUsdcWithPermit([amount, deadline, v, r, s], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), amount);
+        });
+
+        it("reverts when the permit fails and no allowance covers the deposit", async () => {
+            const { bank, usdc, user, user2, signUsdcPermit } = await deployAll();
+            const amount = 1_000n * 10n ** 6n;
+
+            const foreign = await signUsdcPermit(user2, amount);
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit([amount, foreign.deadline, foreign.v, foreign.r, foreign.s], {
+                    account: user.account,
+                }),
+                /PermitAllowanceTooLow/,
+            );
+
+            const deadline = BigInt(await networkHelpers.time.latest()) + 60n;
+            const expired = await signUsdcPermit(user, amount, deadline);
+            await networkHelpers.time.increase(120);
+            await assert.rejects(
+                bank.write.depositUsdcWithPermit([amount, deadline, expired.v, expired.r, expired.s], {
+                    account: user.account,
+                }),
+                /PermitAllowanceTooLow/,
+            );
+            assert.equal(await usdc.read.nonces([user.account.address]), 0n);
+        });
+    });
+});
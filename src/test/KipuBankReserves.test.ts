@@ -0,0 +1,203 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, maxUint256, parseEther, parseUnits, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, FeeOperation, KipuBankClient, NoSurplusError } from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+const DAI = (amount: bigint) => parseUnits(amount.toString(), 18);
+
+describe("KipuBank - Reserves", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, other] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const stray = await viem.deployContract("MockERC20", ["Stray Token", "STRAY", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+        const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+        const bank = await viem.getContractAt("KipuBank", proxy.address);
+        await bank.write.listAsset([dai.address, zeroAddress, DAI(20_000n), DAI(1_000n)]);
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)]);
+        await usdc.write.approve([bank.address, maxUint256], { account: user.account });
+        await dai.write.mint([user.account.address, DAI(10_000n)]);
+        await dai.write.approve([bank.address, maxUint256], { account: user.account });
+        await stray.write.mint([user.account.address, DAI(10_000n)]);
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("5") });
+        await bank.write.depositUsdc([USDC(4_000n)], { account: user.account });
+        await bank.write.depositAsset([dai.address, DAI(2_000n)], { account: user.account });
+
+        return { bank, usdc, dai, stray, strategy, deployer, user, other, publicClient };
+    }
+
+    describe("reserves", () => {
+        it("matches holdings with liabilities, fees and locked withdrawals included", async () => {
+            const { bank, usdc, dai, user } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setFee([FeeOperation.Withdraw, 100n]);
+            await bank.write.withdraw([usdc.address, USDC(1_000n)], { account: user.account });
+            await bank.write.requestWithdrawal([ETH_ADDRESS, parseEther("0.2")], { account: user.account });
+
+            assert.deepEqual(await bank.read.reserves(), [
+                { token: ETH_ADDRESS, held: parseEther("5"), liabilities: parseEther("5"), capUsed: parseEther("5"), surplus: 0n },
+                // the 1% withdrawal fee stays with the treasury
+                { token: getAddress(usdc.address), held: USDC(3_010n), liabilities: USDC(3_010n), capUsed: USDC(3_010n), surplus: 0n },
+                { token: getAddress(dai.address), held: DAI(2_000n), liabilities: DAI(2_000n), capUsed: DAI(2_000n), surplus: 0n },
+            ]);
+        });
+
+        it("reports tokens sent with a plain transfer as surplus", async () => {
+            const { bank, usdc, dai, user } = await networkHelpers.loadFixture(deployAll);
+            await usdc.write.transfer([bank.address, USDC(300n)], { account: user.account });
+            await dai.write.transfer([bank.address, DAI(40n)], { account: user.account });
+
+            const [, usdcReserve, daiReserve] = await bank.read.reserves();
+            assert.equal(usdcReserve.held, USDC(4_300n));
+            assert.equal(usdcReserve.liabilities, USDC(4_000n));
+            assert.equal(usdcReserve.surplus, USDC(300n));
+            assert.equal(daiReserve.surplus, DAI(40n));
+        });
+
+        it("counts the strategy's value as owed and only idle USDC as surplus", async () => {
+            const { bank, usdc, strategy, user } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setUsdcStrategy([strategy.address]);
+            await strategy.write.setYieldPerSecond([USDC(1n)]);
+            await networkHelpers.time.increase(100);
+            await strategy.write.drip();
+            await usdc.write.transfer([bank.address, USDC(25n)], { account: user.account });
+
+            const [, reserve] = await bank.read.reserves();
+            assert.equal(reserve.held, reserve.liabilities + USDC(25n));
+            assert.equal(reserve.surplus, USDC(25n));
+            // the yield belongs to the depositors; the cap counter catches up on the next USDC operation
+            assert.ok(reserve.liabilities > reserve.capUsed);
+            assert.ok(reserve.liabilities >= USDC(4_000n) + USDC(100n) - 2n);
+        });
+    });
+
+    describe("sweepExcess", () => {
+        it("sweeps only the surplus, leaving every balance withdrawable", async () => {
+            const { bank, usdc, dai, user, other } = await networkHelpers.loadFixture(deployAll);
+            await usdc.write.transfer([bank.address, USDC(300n)], { account: user.account });
+            await dai.write.transfer([bank.address, DAI(40n)], { account: user.account });
+
+            await bank.write.sweepExcess([usdc.address, other.account.address]);
+            const [event] = await bank.getEvents.ExcessSwept();
+            assert.equal(event.args.token, getAddress(usdc.address));
+            assert.equal(event.args.to, getAddress(other.account.address));
+            assert.equal(event.args.amount, USDC(300n));
+
+            await bank.write.sweepExcess([dai.address, other.account.address]);
+            assert.equal(await usdc.read.balanceOf([other.account.address]), USDC(300n));
+            assert.equal(await dai.read.balanceOf([other.account.address]), DAI(40n));
+
+            await assert.rejects(bank.write.sweepExcess([usdc.address, other.account.address]), /NoSurplus/);
+            await bank.write.withdraw([usdc.address, USDC(1_000n)], { account: user.account });
+            await bank.write.withdraw([dai.address, DAI(1_000n)], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(3_000n));
+        });
+
+        it("sweeps forced ETH and unlisted tokens", async () => {
+            const { bank, stray, user, other, publicClient } = await networkHelpers.loadFixture(deployAll);
+            await networkHelpers.setBalance(bank.address, parseEther("5.5"));
+            await stray.write.transfer([bank.address, DAI(7n)], { account: user.account });
+            const before = await publicClient.getBalance({ address: other.account.address });
+
+            await bank.write.sweepExcess([ETH_ADDRESS, other.account.address]);
+            await bank.write.sweepExcess([stray.address, other.account.address]);
+
+            assert.equal(await publicClient.getBalance({ address: other.account.address }), before + parseEther("0.5"));
+            assert.equal(await publicClient.getBalance({ address: bank.address }), parseEther("5"));
+            assert.equal(await stray.read.balanceOf([other.account.address]), DAI(7n));
+        });
+
+        it("sweeps idle USDC without touching the strategy", async () => {
+            const { bank, usdc, strategy, user, other } = await networkHelpers.loadFixture(deployAll);
+            await bank.write.setUsdcStrategy([strategy.address]);
+            await usdc.write.transfer([bank.address, USDC(25n)], { account: user.account });
+            const invested = await usdc.read.balanceOf([strategy.address]);
+
+            await bank.write.sweepExcess([usdc.address, other.account.address]);
+
+            assert.equal(await usdc.read.balanceOf([other.account.address]), USDC(25n));
+            assert.equal(await usdc.read.balanceOf([strategy.address]), invested);
+        });
+
+        it("is restricted to the admin and rejects bad arguments", async () => {
+            const { bank, usdc, user, other } = await networkHelpers.loadFixture(deployAll);
+            await usdc.write.transfer([bank.address, USDC(300n)], { account: user.account });
+
+            await assert.rejects(
+                bank.write.sweepExcess([usdc.address, user.account.address], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(bank.write.sweepExcess([usdc.address, zeroAddress]), /InvalidRecipient/);
+            await assert.rejects(bank.write.sweepExcess([zeroAddress, other.account.address]), /UnsupportedToken/);
+            await assert.rejects(bank.write.sweepExcess([ETH_ADDRESS, other.account.address]), /NoSurplus/);
+        });
+    });
+
+    describe("SDK", () => {
+        it("lists unlisted tokens, flags a deficit and sweeps", async () => {
+            const { bank, usdc, stray, deployer, user, other, publicClient } = await networkHelpers.loadFixture(deployAll);
+            const admin = new KipuBankClient({ address: bank.address, publicClient, walletClient: deployer });
+            await stray.write.transfer([bank.address, DAI(7n)], { account: user.account });
+            // a recovery credit without the USDC to back it
+            await bank.write.setInternalBalance([other.account.address, usdc.address, USDC(500n)]);
+
+            const reserves = await admin.reserves([stray.address, usdc.address]);
+            assert.equal(reserves.length, 4);
+            assert.deepEqual(reserves[1], {
+                token: getAddress(usdc.address),
+                held: USDC(4_000n),
+                liabilities: USDC(4_500n),
+                capUsed: USDC(4_500n),
+                surplus: 0n,
+                deficit: USDC(500n),
+            });
+            assert.deepEqual(reserves[3], {
+                token: getAddress(stray.address),
+                held: DAI(7n),
+                liabilities: 0n,
+                capUsed: 0n,
+                surplus: DAI(7n),
+                deficit: 0n,
+            });
+
+            const { amount } = await admin.sweepExcess(stray.address, other.account.address);
+            assert.equal(amount, DAI(7n));
+            await assert.rejects(admin.sweepExcess(usdc.address, other.account.address), (error) => {
+                assert.ok(error instanceof NoSurplusError);
+                assert.equal(error.token, getAddress(usdc.address));
+                return true;
+            });
+        });
+    });
+});
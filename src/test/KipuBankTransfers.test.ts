@@ -0,0 +1,288 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, maxUint256, parseEther, parseUnits, stringToHex, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import { ETH_ADDRESS, Operation } from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+
+describe("KipuBank - Internal Transfers", async function() {
+    const { viem } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2, merchant] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const args = [
+            parseEther("100"),
+            USDC(50_000n),
+            priceFeed.address,
+            usdc.address,
+            router.address,
+            permit2.address,
+        ] as const;
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address], { client: { wallet: deployer } });
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], { client: { wallet: deployer } });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        await usdc.write.mint([user.account.address, USDC(10_000n)], { account: deployer.account });
+        await usdc.write.approve([bank.address, USDC(10_000n)], { account: user.account });
+
+        return { bank, adminModule, depositsModule, accountsModule, usdc, deployer, user, user2, merchant, publicClient };
+    }
+
+    async function deployWithBalances() {
+        const ctx = await deployAll();
+        const { bank, user } = ctx;
+
+        await bank.write.depositEth({ account: user.account, value: parseEther("50") });
+        await bank.write.depositUsdc([USDC(5_000n)], { account: user.account });
+
+        return ctx;
+    }
+
+    describe("Module", () => {
+        it("delegates the account functions to the module the implementation was built with", async () => {
+            const { bank, accountsModule, user, user2 } = await deployAll();
+            assert.equal(await bank.read.accountsModule(), getAddress(accountsModule.address));
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+            await bank.write.transfer([user2.account.address, ETH_ADDRESS, parseEther("1")], { account: user.account });
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user2.account }), parseEther("1"));
+        });
+
+        it("rejects a module without code", async () => {
+            const { adminModule, depositsModule, deployer } = await deployAll();
+
+            await assert.rejects(
+                viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, deployer.account.address]),
+                /InvalidModule/,
+            );
+        });
+    });
+
+    describe("transfer", () => {
+        it("moves ETH between accounts without touching the cap", async () => {
+            const { bank, user, user2 } = await deployWithBalances();
+            const capBefore = await bank.read.currentBankCapEth();
+
+            await bank.write.transfer([user2.account.address, ETH_ADDRESS, parseEther("20")], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("30"));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user2.account }), parseEther("20"));
+            assert.equal(await bank.read.currentBankCapEth(), capBefore);
+
+            const [event] = await bank.getEvents.InternalTransfer();
+            assert.equal(event.args.from, getAddress(user.account.address));
+            assert.equal(event.args.to, getAddress(user2.account.address));
+            assert.equal(event.args.token, ETH_ADDRESS);
+            assert.equal(event.args.amount, parseEther("20"));
+        });
+
+        it("is not bound by the withdraw limits", async () => {
+            const { bank, usdc, user, user2 } = await deployWithBalances();
+
+            // 20 ETH is above the 10 ETH per-transaction withdraw limit
+            await bank.write.transfer([user2.account.address, ETH_ADDRESS, parseEther("20")], { account: user.account });
+            // and $2,000 above the $1,000 one
+            await bank.write.transfer([user2.account.address, usdc.address, USDC(2_000n)], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user2.account }), USDC(2_000n));
+        });
+
+        it("moves USDC pool shares, worth the same under a strategy", async () => {
+            const { bank, usdc, deployer, user, user2 } = await deployWithBalances();
+            const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+
+            await bank.write.setUsdcStrategy([strategy.address], { account: deployer.account });
+            await usdc.write.mint([strategy.address, USDC(500n)]);
+            const capBefore = await bank.read.currentBankCapUsdc();
+
+            await bank.write.transfer([user2.account.address, usdc.address, USDC(1_100n)], { account: user.account });
+
+            const received = await bank.read.getMyBalance([usdc.address], { account: user2.account });
+            assert.ok(received <= USDC(1_100n) && USDC(1_100n) - received <= 2n);
+            assert.equal(await bank.read.currentBankCapUsdc(), capBefore);
+
+            const [shares] = await bank.getEvents.UsdcSharesTransfer();
+            assert.equal(shares.args.from, getAddress(user.account.address));
+            assert.equal(shares.args.to, getAddress(user2.account.address));
+            assert.equal(shares.args.shares, await bank.read.usdcSharesOf([user2.account.address]));
+        });
+
+        it("moves listed assets", async () => {
+            const { bank, deployer, user, user2 } = await deployWithBalances();
+            const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+
+            await bank.write.listAsset([dai.address, zeroAddress, parseUnits("1000", 18), parseUnits("100", 18)], {
+                account: deployer.account,
+            });
+            await dai.write.mint([user.account.address, parseUnits("300", 18)]);
+            await dai.write.approve([bank.address, parseUnits("300", 18)], { account: user.account });
+            await bank.write.depositAsset([dai.address, parseUnits("300", 18)], { account: user.account });
+
+            await bank.write.transfer([user2.account.address, dai.address, parseUnits("250", 18)], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([dai.address], { account: user2.account }), parseUnits("250", 18));
+            const [, , , , , currentCap] = await bank.read.assets([dai.address]);
+            assert.equal(currentCap, parseUnits("700", 18));
+        });
+
+        it("rejects invalid transfers", async () => {
+            const { bank, user, user2 } = await deployWithBalances();
+            const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+
+            await assert.rejects(
+                bank.write.transfer([user2.account.address, ETH_ADDRESS, 0n], { account: user.account }),
+                /InvalidValue/,
+            );
+            await assert.rejects(
+                bank.write.transfer([zeroAddress, ETH_ADDRESS, 1n], { account: user.account }),
+                /InvalidRecipient/,
+            );
+            await assert.rejects(
+                bank.write.transfer([bank.address, ETH_ADDRESS, 1n], { account: user.account }),
+                /InvalidRecipient/,
+            );
+            await assert.rejects(
+                bank.write.transfer([await bank.read.TREASURY(), ETH_ADDRESS, 1n], { account: user.account }),
+                /InvalidRecipient/,
+            );
+            await assert.rejects(
+                bank.write.transfer([user2.account.address, dai.address, 1n], { account: user.account }),
+                /UnsupportedToken/,
+            );
+            await assert.rejects(
+                bank.write.transfer([user.account.address, ETH_ADDRESS, 1n], { account: user2.account }),
+                /InsufficientBalance/,
+            );
+        });
+
+        it("is blocked while withdrawals are paused", async () => {
+            const { bank, deployer, user, user2 } = await deployWithBalances();
+
+            await bank.write.pause([Operation.Withdrawals, stringToHex("INCIDENT", { size: 32 }), 0n], {
+                account: deployer.account,
+            });
+            await assert.rejects(
+                bank.write.transfer([user2.account.address, ETH_ADDRESS, 1n], { account: user.account }),
+                /OperationIsPaused/,
+            );
+        });
+    });
+
+    describe("transferBatch", () => {
+        it("moves several balances in one transaction", async () => {
+            const { bank, usdc, user, user2, merchant } = await deployWithBalances();
+
+            await bank.write.transferBatch(
+                [
+                    [user2.account.address, merchant.account.address, merchant.account.address],
+                    [ETH_ADDRESS, ETH_ADDRESS, usdc.address],
+                    [parseEther("1"), parseEther("2"), USDC(300n)],
+                ],
+                { account: user.account },
+            );
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("47"));
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: merchant.account }), parseEther("2"));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: merchant.account }), USDC(300n));
+            assert.equal((await bank.getEvents.InternalTransfer()).length, 3);
+        });
+
+        it("is all or nothing", async () => {
+            const { bank, user, user2 } = await deployWithBalances();
+
+            await assert.rejects(
+                bank.write.transferBatch([[user2.account.address], [ETH_ADDRESS, ETH_ADDRESS], [1n, 1n]], {
+                    account: user.account,
+                }),
+                /ArrayLengthMismatch/,
+            );
+            await assert.rejects(
+                bank.write.transferBatch(
+                    [
+                        [user2.account.address, user2.account.address],
+                        [ETH_ADDRESS, ETH_ADDRESS],
+                        [parseEther("1"), parseEther("100")],
+                    ],
+                    { account: user.account },
+                ),
+                /InsufficientBalance/,
+            );
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user2.account }), 0n);
+        });
+    });
+
+    describe("approve and transferFrom", () => {
+        it("lets a spender pull up to its allowance", async () => {
+            const { bank, usdc, user, merchant } = await deployWithBalances();
+
+            await bank.write.approve([merchant.account.address, usdc.address, USDC(500n)], { account: user.account });
+            assert.equal(await bank.read.allowance([user.account.address, merchant.account.address, usdc.address]), USDC(500n));
+
+            const [approval] = await bank.getEvents.InternalApproval();
+            assert.equal(approval.args.owner, getAddress(user.account.address));
+            assert.equal(approval.args.spender, getAddress(merchant.account.address));
+            assert.equal(approval.args.amount, USDC(500n));
+
+            await bank.write.transferFrom([user.account.address, merchant.account.address, usdc.address, USDC(200n)], {
+                account: merchant.account,
+            });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: merchant.account }), USDC(200n));
+            assert.equal(await bank.read.allowance([user.account.address, merchant.account.address, usdc.address]), USDC(300n));
+
+            await assert.rejects(
+                bank.write.transferFrom([user.account.address, merchant.account.address, usdc.address, USDC(301n)], {
+                    account: merchant.account,
+                }),
+                /InsufficientAllowance/,
+            );
+        });
+
+        it("allowances are per token and an unlimited one is never spent", async () => {
+            const { bank, usdc, user, user2, merchant } = await deployWithBalances();
+
+            await bank.write.approve([merchant.account.address, ETH_ADDRESS, maxUint256], { account: user.account });
+            await assert.rejects(
+                bank.write.transferFrom([user.account.address, merchant.account.address, usdc.address, 1n], {
+                    account: merchant.account,
+                }),
+                /InsufficientAllowance/,
+            );
+
+            // the spender can also send to a third account
+            await bank.write.transferFrom([user.account.address, user2.account.address, ETH_ADDRESS, parseEther("5")], {
+                account: merchant.account,
+            });
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user2.account }), parseEther("5"));
+            assert.equal(await bank.read.allowance([user.account.address, merchant.account.address, ETH_ADDRESS]), maxUint256);
+        });
+    });
+});
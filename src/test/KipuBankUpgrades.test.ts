@@ -0,0 +1,391 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, parseUnits, toFunctionSelector, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+import {
+    ETH_ADDRESS,
+    KipuBankIndexer,
+    MigrationError,
+    planMigration,
+    seedMigration,
+} from "../sdk/index.js";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+const DAI = (amount: bigint) => parseUnits(amount.toString(), 18);
+// keccak256(abi.encode(uint256(keccak256("kipubank.storage.KipuBank")) - 1)) & ~bytes32(uint256(0xff))
+const STORAGE_LOCATION = 0x859df6e00880908e3cffa795bc2a74231e18dbc03c9a3b324335eebec16c7600n;
+// the node leaves Initializable's error undecoded, so match its selector in the return data
+const INVALID_INITIALIZATION = new RegExp(toFunctionSelector("InvalidInitialization()"));
+
+describe("KipuBank - Upgrades", async function() {
+    const { viem } = await network.connect();
+
+    async function deployAll(maxBankCapEth = parseEther("100"), maxBankCapUsdc = USDC(50_000n)) {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n]);
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+        const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+        const permit2 = await viem.deployContract("MockPermit2", []);
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address]);
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", []);
+        const depositsModule = await viem.deployContract("KipuBankDeposits", []);
+        const accountsModule = await viem.deployContract("KipuBankAccounts", []);
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address]);
+
+        async function deployBank(maxEth: bigint, maxUsdc: bigint) {
+            const initialize = encodeFunctionData({
+                abi: implementation.abi,
+                functionName: "initialize",
+                args: [
+                    deployer.account.address,
+                    maxEth,
+                    maxUsdc,
+                    priceFeed.address,
+                    usdc.address,
+                    router.address,
+                    permit2.address,
+                ],
+            });
+            const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize]);
+            const bank = await viem.getContractAt("KipuBank", proxy.address);
+            for (const account of [user, user2]) {
+                await usdc.write.approve([bank.address, USDC(10_000n)], { account: account.account });
+                await dai.write.approve([bank.address, DAI(10_000n)], { account: account.account });
+            }
+            return bank;
+        }
+
+        for (const account of [user, user2]) {
+            await usdc.write.mint([account.account.address, USDC(10_000n)]);
+            await dai.write.mint([account.account.address, DAI(10_000n)]);
+        }
+        const bank = await deployBank(maxBankCapEth, maxBankCapUsdc);
+
+        return {
+            bank,
+            deployBank,
+            implementation,
+            adminModule,
+            depositsModule,
+            accountsModule,
+            priceFeed,
+            usdc,
+            dai,
+            router,
+            permit2,
+            deployer,
+            user,
+            user2,
+            publicClient,
+        };
+    }
+
+    describe("Initialization", () => {
+        it("is configured through the proxy", async () => {
+            const { bank, priceFeed, usdc, router, deployer } = await deployAll();
+
+            assert.equal(await bank.read.MAX_BANK_CAP_ETH(), parseEther("100"));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(50_000n));
+            assert.equal(await bank.read.USDC(), getAddress(usdc.address));
+            assert.equal(await bank.read.ethUsdFeed(), getAddress(priceFeed.address));
+            assert.equal(await bank.read.universalRouter(), getAddress(router.address));
+            assert.equal(await bank.read.etherWithdrawLimit(), parseEther("10"));
+            assert.equal(await bank.read.hasRole([await bank.read.RECOVERY_ROLE(), deployer.account.address]), true);
+        });
+
+        it("cannot be initialized twice, nor on the implementation or its modules", async () => {
+            const { bank, implementation, adminModule, priceFeed, usdc, router, permit2, user } = await deployAll();
+            const args = [
+                user.account.address,
+                parseEther("1"),
+                USDC(1n),
+                priceFeed.address,
+                usdc.address,
+                router.address,
+                permit2.address,
+            ] as const;
+
+            await assert.rejects(bank.write.initialize([...args], { account: user.account }), INVALID_INITIALIZATION);
+            await assert.rejects(
+                implementation.write.initialize([...args], { account: user.account }),
+                INVALID_INITIALIZATION,
+            );
+            await assert.rejects(adminModule.write.initialize([...args], { account: user.account }), INVALID_INITIALIZATION);
+        });
+
+        it("keeps its state in the namespaced storage slot", async () => {
+            const { bank, publicClient } = await deployAll();
+
+            const slot = async (offset: bigint) =>
+                BigInt((await publicClient.getStorageAt({
+                    address: bank.address,
+                    slot: `0x${(STORAGE_LOCATION + offset).toString(16)}`,
+                }))!);
+
+            // the withdraw limits lead the struct; both feeds share their slots with their decimals
+            assert.equal(await slot(0n), parseEther("10"));
+            assert.equal(await slot(11n), parseEther("100"));
+            assert.equal(await slot(12n), USDC(50_000n));
+        });
+    });
+
+    describe("Operations", () => {
+        it("deposits and withdraws ETH and USDC against the caps", async () => {
+            const { bank, usdc, user } = await deployAll();
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("3") });
+            await bank.write.depositUsdc([USDC(700n)], { account: user.account });
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("97"));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(49_300n));
+
+            await bank.write.withdraw([ETH_ADDRESS, parseEther("0.2")], { account: user.account });
+            await bank.write.withdraw([usdc.address, USDC(200n)], { account: user.account });
+
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("2.8"));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(500n));
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("97.2"));
+            assert.equal(await bank.read.countDeposits(), 2n);
+            assert.equal(await bank.read.countWithdraws(), 2n);
+        });
+
+        it("enforces the caps and the withdraw limits", async () => {
+            const { bank, usdc, user } = await deployAll(parseEther("20"), USDC(5_000n));
+
+            await assert.rejects(
+                bank.write.depositEth({ account: user.account, value: parseEther("21") }),
+                /BankCapEthExceeded/,
+            );
+            await assert.rejects(bank.write.depositUsdc([USDC(5_001n)], { account: user.account }), /BankCapUsdcExceeded/);
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("20") });
+            await assert.rejects(
+                bank.write.withdraw([ETH_ADDRESS, parseEther("11")], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+            await assert.rejects(bank.write.withdraw([usdc.address, 1n], { account: user.account }), /InsufficientBalance/);
+        });
+
+        it("sets balances in batch within the caps", async () => {
+            const { bank, usdc, user, user2 } = await deployAll(parseEther("10"), USDC(5_000n));
+
+            await bank.write.setInternalBalances([
+                [user.account.address, user2.account.address, user2.account.address],
+                [ETH_ADDRESS, ETH_ADDRESS, usdc.address],
+                [parseEther("4"), parseEther("5"), USDC(1_000n)],
+            ]);
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("1"));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(4_000n));
+            assert.equal((await bank.getEvents.BalanceAdjusted()).length, 3);
+
+            await assert.rejects(
+                bank.write.setInternalBalances([[user.account.address], [ETH_ADDRESS], [parseEther("6")]]),
+                /BankCapEthExceeded/,
+            );
+            await assert.rejects(
+                bank.write.setInternalBalances([[user.account.address], [ETH_ADDRESS, ETH_ADDRESS], [1n]]),
+                /ArrayLengthMismatch/,
+            );
+            await assert.rejects(
+                bank.write.setInternalBalances([[user.account.address], [ETH_ADDRESS], [1n]], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+    });
+
+    describe("Upgrades", () => {
+        it("the admin upgrades and the balances stay", async () => {
+            const { bank, adminModule, depositsModule, accountsModule, user, publicClient } = await deployAll();
+            await bank.write.depositEth({ account: user.account, value: parseEther("3") });
+
+            const v2 = await viem.deployContract("MockKipuBankV2", [adminModule.address, depositsModule.address, accountsModule.address]);
+            await bank.write.upgradeToAndCall([v2.address, "0x"]);
+
+            const upgraded = await viem.getContractAt("MockKipuBankV2", bank.address);
+            assert.equal(await upgraded.read.version(), "2");
+            assert.equal(await upgraded.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("3"));
+            assert.equal(await upgraded.read.currentBankCapEth(), parseEther("97"));
+
+            const [event] = await upgraded.getEvents.Upgraded();
+            assert.equal(event.args.implementation, getAddress(v2.address));
+            assert.equal(await publicClient.getBalance({ address: bank.address }), parseEther("3"));
+        });
+
+        it("rejects upgrades from other accounts, to non-UUPS contracts and on the implementation", async () => {
+            const { bank, implementation, adminModule, depositsModule, accountsModule, usdc, user } = await deployAll();
+            const v2 = await viem.deployContract("MockKipuBankV2", [adminModule.address, depositsModule.address, accountsModule.address]);
+
+            await assert.rejects(
+                bank.write.upgradeToAndCall([v2.address, "0x"], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(bank.write.upgradeToAndCall([usdc.address, "0x"]), /ERC1967InvalidImplementation/);
+            await assert.rejects(
+                implementation.write.upgradeToAndCall([v2.address, "0x"]),
+                /UUPSUnauthorizedCallContext/,
+            );
+        });
+    });
+
+    describe("Migration from KipuBank", () => {
+        async function deployOldBank(ctx: Awaited<ReturnType<typeof deployAll>>) {
+            const { bank, deployBank, usdc, dai, user, user2, publicClient } = ctx;
+            const fromBlock = await publicClient.getBlockNumber();
+            const old = await deployBank(parseEther("100"), USDC(50_000n));
+            await old.write.listAsset([dai.address, zeroAddress, DAI(20_000n), DAI(1_000n)]);
+            await bank.write.listAsset([dai.address, zeroAddress, DAI(20_000n), DAI(1_000n)]);
+
+            await old.write.depositEth({ account: user.account, value: parseEther("4") });
+            await old.write.withdraw([ETH_ADDRESS, parseEther("0.2")], { account: user.account });
+            await old.write.depositEth({ account: user2.account, value: parseEther("2") });
+            await old.write.depositAsset([dai.address, DAI(100n)], { account: user.account });
+            await old.write.depositUsdc([USDC(1_500n)], { account: user2.account });
+            await old.write.setInternalBalance([user.account.address, usdc.address, USDC(250n)]);
+
+            return { old, fromBlock };
+        }
+
+        it("seeds the indexed balances and the caps add up", async () => {
+            const ctx = await deployAll();
+            const { bank, deployer, user, user2, usdc, dai, publicClient } = ctx;
+            const { old, fromBlock } = await deployOldBank(ctx);
+
+            const indexer = new KipuBankIndexer({ address: old.address, publicClient, fromBlock });
+            await indexer.sync();
+            const plan = await planMigration(indexer);
+
+            assert.equal(plan.totalEth, parseEther("5.8"));
+            assert.equal(plan.totalUsdc, USDC(1_750n));
+            assert.equal(plan.totalAssets.get(getAddress(dai.address)), DAI(100n));
+            assert.equal(plan.entries.length, 5);
+
+            const result = await seedMigration({
+                plan,
+                address: bank.address,
+                publicClient,
+                walletClient: deployer,
+                batchSize: 3,
+            });
+
+            assert.equal(result.batches, 2);
+            assert.equal(result.hashes.length, 2);
+            assert.equal(await bank.read.getMyBalance([ETH_ADDRESS], { account: user.account }), parseEther("3.8"));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(250n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user2.account }), USDC(1_500n));
+            assert.equal(await bank.read.getMyBalance([dai.address], { account: user.account }), DAI(100n));
+            assert.equal(await bank.read.currentBankCapEth(), await old.read.currentBankCapEth());
+            assert.equal(await bank.read.currentBankCapUsdc(), await old.read.currentBankCapUsdc());
+
+            // once funded, migrated balances can be withdrawn
+            await bank.write.fundEth({ value: parseEther("5.8") });
+            await usdc.write.mint([bank.address, USDC(1_750n)]);
+            await dai.write.mint([bank.address, DAI(100n)]);
+            for (const reserve of await bank.read.reserves()) {
+                assert.equal(reserve.held, reserve.liabilities);
+            }
+            await bank.write.withdraw([usdc.address, USDC(1_000n)], { account: user2.account });
+            await bank.write.withdraw([dai.address, DAI(100n)], { account: user.account });
+            await assert.rejects(bank.write.fundEth({ account: user.account, value: 1n }), /AccessControlUnauthorizedAccount/);
+
+            // the proxy speaks the same events, so the indexer replays it too
+            const replay = new KipuBankIndexer({ address: bank.address, publicClient });
+            await replay.sync();
+            assert.equal((await replay.checkDrift()).hasDrift, false);
+        });
+
+        it("values USDC at the pool shares once the old bank earns yield", async () => {
+            const ctx = await deployAll();
+            const { usdc, user, user2, publicClient } = ctx;
+            const { old, fromBlock } = await deployOldBank(ctx);
+            const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address]);
+
+            // back the balance credited by recovery, so the strategy can take every USDC the cap counts
+            await usdc.write.mint([old.address, USDC(250n)]);
+            await old.write.setUsdcStrategy([strategy.address]);
+            await usdc.write.mint([strategy.address, USDC(175n)]);
+            // any USDC operation accrues the yield into the cap
+            await old.write.withdraw([usdc.address, USDC(900n)], { account: user2.account });
+
+            const indexer = new KipuBankIndexer({ address: old.address, publicClient, fromBlock });
+            await indexer.sync();
+            const plan = await planMigration(indexer);
+
+            const usdcOf = (account: `0x${string}`) =>
+                plan.entries.find((entry) => entry.account === getAddress(account) && entry.token === getAddress(usdc.address))
+                    ?.amount;
+            assert.equal(usdcOf(user.account.address), await old.read.getMyBalance([usdc.address], { account: user.account }));
+            assert.equal(usdcOf(user2.account.address), await old.read.getMyBalance([usdc.address], { account: user2.account }));
+        });
+
+        it("rejects a plan with assets the new bank does not list", async () => {
+            const ctx = await deployAll();
+            const { bank, deployer, dai, publicClient } = ctx;
+            const { old, fromBlock } = await deployOldBank(ctx);
+            await bank.write.delistAsset([dai.address]);
+
+            const indexer = new KipuBankIndexer({ address: old.address, publicClient, fromBlock });
+            await indexer.sync();
+            const plan = await planMigration(indexer);
+
+            await assert.rejects(
+                seedMigration({ plan, address: bank.address, publicClient, walletClient: deployer }),
+                MigrationError,
+            );
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("100"));
+        });
+
+        it("rejects a plan that does not fit the new caps", async () => {
+            const ctx = await deployAll(parseEther("4"));
+            const { bank, deployer, publicClient } = ctx;
+            const { old, fromBlock } = await deployOldBank(ctx);
+
+            const indexer = new KipuBankIndexer({ address: old.address, publicClient, fromBlock });
+            await indexer.sync();
+            const plan = await planMigration(indexer);
+
+            await assert.rejects(
+                seedMigration({ plan, address: bank.address, publicClient, walletClient: deployer }),
+                MigrationError,
+            );
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("4"));
+        });
+
+        it("dry runs only simulate", async () => {
+            const ctx = await deployAll();
+            const { bank, deployer, publicClient } = ctx;
+            const { old, fromBlock } = await deployOldBank(ctx);
+
+            const indexer = new KipuBankIndexer({ address: old.address, publicClient, fromBlock });
+            await indexer.sync();
+
+            const result = await seedMigration({
+                plan: await planMigration(indexer),
+                address: bank.address,
+                publicClient,
+                walletClient: deployer,
+                dryRun: true,
+            });
+            assert.equal(result.batches, 1);
+            assert.deepEqual(result.hashes, []);
+            assert.equal(await bank.read.currentBankCapEth(), parseEther("100"));
+        });
+
+        it("refuses to plan from an incomplete replay", async () => {
+            const ctx = await deployAll();
+            const { publicClient } = ctx;
+            const { old } = await deployOldBank(ctx);
+
+            const indexer = new KipuBankIndexer({
+                address: old.address,
+                publicClient,
+                fromBlock: await publicClient.getBlockNumber(),
+            });
+            await indexer.sync();
+
+            await assert.rejects(planMigration(indexer), MigrationError);
+        });
+    });
+});
@@ -1,12 +1,12 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { parseEther } from "viem";
+import { encodeFunctionData, parseEther } from "viem";
 import { network } from "hardhat";
 
 const ETH = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
 
 describe("KipuBankV2", async function() {
-    const { viem } = await network.connect();
+    const { viem, networkHelpers } = await network.connect();
 
     async function deployAll(opts?: {
         ethPriceUsd8?: bigint;
@@ -38,11 +38,23 @@ describe("KipuBankV2", async function() {
             client: { wallet: deployer },
         });
 
-        const bank = await viem.deployContract(
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract(
             "KipuBank",
-            [maxEthCap, maxUsdCap, feed.address, usdc.address, router.address, permit2.address],
+            [adminModule.address, depositsModule.address, accountsModule.address],
             { client: { wallet: deployer } },
         );
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, maxEthCap, maxUsdCap, feed.address, usdc.address, router.address, permit2.address],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+            client: { wallet: deployer },
+        });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
 
         return { deployer, user, recovery, publicClient, feed, usdc, bank };
     }
@@ -142,6 +154,173 @@ describe("KipuBankV2", async function() {
         });
     });
 
+    describe("Withdraw Limits Governance", () => {
+        it("only LIMITS_MANAGER_ROLE can update the global limits", async () => {
+            const { bank, deployer, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setWithdrawLimits([parseEther("20"), 2_000n * 10n ** 6n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+
+            const LIMITS_MANAGER_ROLE = await bank.read.LIMITS_MANAGER_ROLE();
+            await bank.write.grantRole([LIMITS_MANAGER_ROLE, user.account.address], { account: deployer.account });
+            await bank.write.setWithdrawLimits([parseEther("20"), 2_000n * 10n ** 6n], { account: user.account });
+
+            assert.equal(await bank.read.etherWithdrawLimit(), parseEther("20"));
+            assert.equal(await bank.read.usdcWithdrawLimit(), 2_000n * 10n ** 6n);
+        });
+
+        it("rejects limits outside the sanity bounds", async () => {
+            const { bank, deployer } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setWithdrawLimits([0n, 2_000n * 10n ** 6n], { account: deployer.account }),
+                /WithdrawLimitOutOfBounds/,
+            );
+            await assert.rejects(
+                bank.write.setWithdrawLimits([parseEther("1"), 2_000_000n * 10n ** 6n], { account: deployer.account }),
+                /WithdrawLimitOutOfBounds/,
+            );
+        });
+
+        it("withdraw enforces the updated global limit", async () => {
+            const { bank, user, usdc, deployer } = await deployAll();
+
+            await usdc.write.mint([user.account.address, 2_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([bank.address, 2_000n * 10n ** 6n], { account: user.account });
+            await bank.write.depositUsdc([2_000n * 10n ** 6n], { account: user.account });
+
+            await bank.write.setWithdrawLimits([parseEther("10"), 500n * 10n ** 6n], { account: deployer.account });
+
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, 600n * 10n ** 6n], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+            await bank.write.withdraw([usdc.address, 500n * 10n ** 6n], { account: user.account });
+        });
+
+        it("per-user override replaces the global limits until cleared", async () => {
+            const { bank, user, recovery, usdc, deployer } = await deployAll();
+
+            for (const account of [user, recovery]) {
+                await usdc.write.mint([account.account.address, 5_000n * 10n ** 6n], { account: deployer.account });
+                await usdc.write.approve([bank.address, 5_000n * 10n ** 6n], { account: account.account });
+                await bank.write.depositUsdc([5_000n * 10n ** 6n], { account: account.account });
+            }
+
+            await bank.write.setWithdrawLimitOverride(
+                [user.account.address, parseEther("50"), 3_000n * 10n ** 6n],
+                { account: deployer.account },
+            );
+            assert.deepEqual(await bank.read.withdrawLimitsOf([user.account.address]), [parseEther("50"), 3_000n * 10n ** 6n]);
+
+            await bank.write.withdraw([usdc.address, 2_500n * 10n ** 6n], { account: user.account });
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, 2_500n * 10n ** 6n], { account: recovery.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            await bank.write.clearWithdrawLimitOverride([user.account.address], { account: deployer.account });
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, 2_000n * 10n ** 6n], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+        });
+
+        it("only LIMITS_MANAGER_ROLE can set overrides", async () => {
+            const { bank, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setWithdrawLimitOverride(
+                    [user.account.address, parseEther("50"), 3_000n * 10n ** 6n],
+                    { account: user.account },
+                ),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+    });
+
+    describe("Daily Withdraw Quota", () => {
+        async function deployWithUsdc(quota: bigint) {
+            const ctx = await deployAll();
+            const { bank, user, usdc, deployer } = ctx;
+
+            await usdc.write.mint([user.account.address, 5_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([bank.address, 5_000n * 10n ** 6n], { account: user.account });
+            await bank.write.depositUsdc([5_000n * 10n ** 6n], { account: user.account });
+            await bank.write.setDailyWithdrawQuota([quota], { account: deployer.account });
+
+            return ctx;
+        }
+
+        it("exposes the full quota before any withdrawal", async () => {
+            const { bank, user } = await deployWithUsdc(1_500n * 10n ** 6n);
+
+            assert.deepEqual(
+                await bank.read.remainingDailyWithdrawQuota([user.account.address]),
+                [1_500n * 10n ** 6n, 0n],
+            );
+        });
+
+        it("blocks splitting withdrawals beyond the quota and reports remaining and reset time", async () => {
+            const { bank, user, usdc } = await deployWithUsdc(1_500n * 10n ** 6n);
+
+            await bank.write.withdraw([usdc.address, 1_000n * 10n ** 6n], { account: user.account });
+            const windowStart = BigInt(await networkHelpers.time.latest());
+            await bank.write.withdraw([usdc.address, 400n * 10n ** 6n], { account: user.account });
+
+            const [remaining, resetAt] = await bank.read.remainingDailyWithdrawQuota([user.account.address]);
+            assert.equal(remaining, 100n * 10n ** 6n);
+            assert.equal(resetAt, windowStart + 24n * 3600n);
+
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, 200n * 10n ** 6n], { account: user.account }),
+                new RegExp(`DailyWithdrawQuotaExceeded\\(${200n * 10n ** 6n}, ${remaining}, ${resetAt}\\)`),
+            );
+        });
+
+        it("counts ETH withdrawals at their oracle USD value", async () => {
+            const { bank, user } = await deployWithUsdc(1_500n * 10n ** 6n);
+
+            await bank.write.depositEth({ account: user.account, value: parseEther("1") });
+            // 0.2 ETH at $2,500 = $500
+            await bank.write.withdraw([ETH, parseEther("0.2")], { account: user.account });
+
+            const [remaining] = await bank.read.remainingDailyWithdrawQuota([user.account.address]);
+            assert.equal(remaining, 1_000n * 10n ** 6n);
+        });
+
+        it("resets exactly when the 24h window expires", async () => {
+            const { bank, user, usdc } = await deployWithUsdc(1_000n * 10n ** 6n);
+
+            await bank.write.withdraw([usdc.address, 1_000n * 10n ** 6n], { account: user.account });
+            const [, resetAt] = await bank.read.remainingDailyWithdrawQuota([user.account.address]);
+
+            await networkHelpers.time.setNextBlockTimestamp(resetAt - 1n);
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, 1n], { account: user.account }),
+                /DailyWithdrawQuotaExceeded/,
+            );
+
+            await networkHelpers.time.setNextBlockTimestamp(resetAt);
+            await bank.write.withdraw([usdc.address, 1_000n * 10n ** 6n], { account: user.account });
+
+            const [remaining, nextResetAt] = await bank.read.remainingDailyWithdrawQuota([user.account.address]);
+            assert.equal(remaining, 0n);
+            assert.equal(nextResetAt, resetAt + 24n * 3600n);
+        });
+
+        it("only LIMITS_MANAGER_ROLE can change the quota", async () => {
+            const { bank, user } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setDailyWithdrawQuota([1n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+        });
+    });
+
     describe("Oracle Integration", () => {
         it("stale oracle blocks ETH withdrawals", async () => {
             const { bank, user, feed, publicClient } = await deployAll();
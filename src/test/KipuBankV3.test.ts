@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { parseEther, parseUnits, zeroAddress } from "viem";
+import { encodeAbiParameters, encodeFunctionData, getAddress, maxUint256, parseEther, parseUnits, zeroAddress } from "viem";
 import { network } from "hardhat";
 
 // Helper to generate poolKey for Uniswap V4
@@ -49,11 +49,18 @@ describe("KipuBankV3 - Uniswap V4 Integration Tests", async function() {
 
         const maxEthCap = parseEther("100");
         const maxUsdCap = opts?.maxUsdCap ?? 50_000n * 10n ** 6n;
-        const bank = await viem.deployContract(
-            "KipuBank",
-            [maxEthCap, maxUsdCap, priceFeed.address, usdc.address, router.address, permit2.address],
-            { client: { wallet: deployer } },
-        );
+        const args = [maxEthCap, maxUsdCap, priceFeed.address, usdc.address, router.address, permit2.address] as const;
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract("KipuBank", [adminModule.address, depositsModule.address, accountsModule.address], { client: { wallet: deployer } });
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, ...args],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], { client: { wallet: deployer } });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
 
         return { bank, priceFeed, usdc, dai, wbtc, permit2, router, deployer, user, user2, publicClient };
     }
@@ -721,4 +728,472 @@ describe("KipuBankV3 - Uniswap V4 Integration Tests", async function() {
             assert.equal(capUsed, remainingBalance, "Cap used should equal remaining balance");
         });
     });
+
+    describe("V3: Native ETH Swaps", () => {
+        async function deployWithNativePool(opts?: { maxUsdCap?: bigint }) {
+            const ctx = await deployAll(opts);
+            const { usdc, deployer, router } = ctx;
+
+            await usdc.write.mint([deployer.account.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([router.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await router.write.fundRouter([100_000n * 10n ** 6n], { account: deployer.account });
+            // 1 ETH = 3,000 USDC
+            await router.write.setExchangeRate([zeroAddress, 3_000n * 10n ** 6n], { account: deployer.account });
+
+            return { ...ctx, poolKey: createPoolKey(zeroAddress, usdc.address) };
+        }
+
+        it("swaps msg.value to USDC and credits the USDC balance", async () => {
+            const { bank, user, usdc, router, poolKey, publicClient } = await deployWithNativePool();
+
+            const usdcCapBefore = await bank.read.currentBankCapUsdc();
+            const ethCapBefore = await bank.read.currentBankCapEth();
+
+            await bank.write.depositEthAsUsdc([poolKey, 2_900n * 10n ** 6n], {
+                account: user.account,
+                value: parseEther("1"),
+            });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 3_000n * 10n ** 6n);
+            assert.equal(await bank.read.getMyBalance([ETH], { account: user.account }), 0n);
+            assert.equal(usdcCapBefore - (await bank.read.currentBankCapUsdc()), 3_000n * 10n ** 6n);
+            assert.equal(await bank.read.currentBankCapEth(), ethCapBefore);
+            assert.equal(await publicClient.getBalance({ address: router.address }), parseEther("1"));
+
+            const [swapped] = await bank.getEvents.TokenSwapped();
+            assert.equal(swapped.args.tokenIn, ETH);
+            assert.equal(swapped.args.amountIn, parseEther("1"));
+            assert.equal(swapped.args.amountOut, 3_000n * 10n ** 6n);
+        });
+
+        it("reverts if currency0 is not native", async () => {
+            const { bank, user, dai, usdc } = await deployWithNativePool();
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([createPoolKey(dai.address, usdc.address), 1n], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                /InvalidSwapParams/
+            );
+        });
+
+        it("reverts if the pool does not pay out USDC", async () => {
+            const { bank, user, dai } = await deployWithNativePool();
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([createPoolKey(zeroAddress, dai.address), 1n], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                /InvalidSwapParams/
+            );
+        });
+
+        it("reverts when output is below minAmountOut", async () => {
+            const { bank, user, poolKey } = await deployWithNativePool();
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([poolKey, 3_001n * 10n ** 6n], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                /SlippageExceeded/
+            );
+        });
+
+        it("reverts when output exceeds the USDC cap", async () => {
+            const { bank, user, poolKey } = await deployWithNativePool({ maxUsdCap: 1_000n * 10n ** 6n });
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([poolKey, 1n], {
+                    account: user.account,
+                    value: parseEther("1"),
+                }),
+                /BankCapUsdcExceeded/
+            );
+        });
+
+        it("reverts if msg.value is zero", async () => {
+            const { bank, user, poolKey } = await deployWithNativePool();
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([poolKey, 1n], { account: user.account, value: 0n }),
+                /InvalidValue/
+            );
+        });
+    });
+
+    describe("V3: Multi-hop Swaps", () => {
+        async function deployWithPath() {
+            const ctx = await deployAll();
+            const { usdc, deployer, router, user } = ctx;
+
+            const link = await viem.deployContract("MockERC20", ["Chainlink", "LINK", 18], {
+                client: { wallet: deployer },
+            });
+            const weth = await viem.deployContract("MockERC20", ["Wrapped Ether", "WETH", 18], {
+                client: { wallet: deployer },
+            });
+
+            await usdc.write.mint([deployer.account.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([router.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await router.write.fundRouter([100_000n * 10n ** 6n], { account: deployer.account });
+            // 1 LINK = $15, 1 WETH = $3,000
+            await router.write.setExchangeRate([link.address, 15n * 10n ** 6n], { account: deployer.account });
+            await router.write.setExchangeRate([weth.address, 3_000n * 10n ** 6n], { account: deployer.account });
+
+            await link.write.mint([user.account.address, parseUnits("1000", 18)], { account: deployer.account });
+            await link.write.approve([ctx.bank.address, parseUnits("1000", 18)], { account: user.account });
+
+            const path = [createPoolKey(link.address, weth.address), createPoolKey(weth.address, usdc.address)];
+
+            return { ...ctx, link, weth, path };
+        }
+
+        it("swaps TOKEN -> WETH -> USDC and credits the USDC balance", async () => {
+            const { bank, user, usdc, link, router, path } = await deployWithPath();
+
+            const capBefore = await bank.read.currentBankCapUsdc();
+            await bank.write.depositArbitraryTokenMultiHop(
+                [link.address, parseUnits("100", 18), path, 1_490n * 10n ** 6n],
+                { account: user.account }
+            );
+
+            // 100 LINK = $1,500 (routed through 0.5 WETH)
+            const balance = await bank.read.getMyBalance([usdc.address], { account: user.account });
+            assert.equal(balance, 1_500n * 10n ** 6n);
+            assert.equal(capBefore - (await bank.read.currentBankCapUsdc()), balance);
+            assert.equal(await link.read.balanceOf([router.address]), parseUnits("100", 18));
+            assert.equal(await link.read.balanceOf([bank.address]), 0n);
+        });
+
+        it("enforces slippage on the final USDC amount", async () => {
+            const { bank, user, link, path } = await deployWithPath();
+
+            // minAmountOut travels with TAKE_ALL, so the router rejects the swap before the bank's own check
+            await assert.rejects(
+                bank.write.depositArbitraryTokenMultiHop(
+                    [link.address, parseUnits("100", 18), path, 1_501n * 10n ** 6n],
+                    { account: user.account }
+                ),
+                /too little received/
+            );
+        });
+
+        it("is encoded as SWAP_EXACT_IN, SETTLE_ALL and TAKE_ALL, which the router checks", async () => {
+            const { bank, user, link, router, path } = await deployWithPath();
+            const amountIn = parseUnits("100", 18);
+            // a lone swap action, without the settle and take steps the V4 router needs
+            const swapOnly = encodeAbiParameters([{ type: "bytes" }, { type: "bytes[]" }], ["0x07", ["0x"]]);
+            await assert.rejects(
+                router.write.execute(["0x10", [swapOnly], maxUint256], { account: user.account }),
+                /unsupported action/
+            );
+
+            await bank.write.depositArbitraryTokenMultiHop([link.address, amountIn, path, 1n], { account: user.account });
+            const [swap] = await router.getEvents.SwapExecuted();
+            assert.equal(swap.args.recipient, getAddress(bank.address));
+            assert.equal(swap.args.amountIn, amountIn);
+        });
+
+        it("reverts if the path does not start at tokenIn", async () => {
+            const { bank, user, link, weth, usdc, dai } = await deployWithPath();
+
+            const path = [createPoolKey(dai.address, weth.address), createPoolKey(weth.address, usdc.address)];
+            await assert.rejects(
+                bank.write.depositArbitraryTokenMultiHop([link.address, parseUnits("1", 18), path, 1n], {
+                    account: user.account,
+                }),
+                /InvalidSwapParams/
+            );
+        });
+
+        it("reverts if the path does not end at USDC", async () => {
+            const { bank, user, link, weth, dai } = await deployWithPath();
+
+            const path = [createPoolKey(link.address, weth.address), createPoolKey(weth.address, dai.address)];
+            await assert.rejects(
+                bank.write.depositArbitraryTokenMultiHop([link.address, parseUnits("1", 18), path, 1n], {
+                    account: user.account,
+                }),
+                /InvalidSwapParams/
+            );
+        });
+
+        it("reverts if consecutive pools are not connected", async () => {
+            const { bank, user, link, weth, usdc, dai } = await deployWithPath();
+
+            const path = [createPoolKey(link.address, weth.address), createPoolKey(dai.address, usdc.address)];
+            await assert.rejects(
+                bank.write.depositArbitraryTokenMultiHop([link.address, parseUnits("1", 18), path, 1n], {
+                    account: user.account,
+                }),
+                /InvalidSwapParams/
+            );
+        });
+
+        it("reverts on an empty path", async () => {
+            const { bank, user, link } = await deployWithPath();
+
+            await assert.rejects(
+                bank.write.depositArbitraryTokenMultiHop([link.address, parseUnits("1", 18), [], 1n], {
+                    account: user.account,
+                }),
+                /InvalidSwapParams/
+            );
+        });
+    });
+
+    describe("V3: Swap-out Withdrawals", () => {
+        async function deployWithUsdcBalance() {
+            const ctx = await deployAll();
+            const { bank, usdc, wbtc, deployer, router, user } = ctx;
+
+            // 1 WBTC = $50,000, router holds WBTC to pay out
+            await router.write.setExchangeRate([wbtc.address, 50_000n * 10n ** 6n], { account: deployer.account });
+            await wbtc.write.mint([router.address, 10n * 10n ** 8n], { account: deployer.account });
+
+            await usdc.write.mint([user.account.address, 5_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([bank.address, 5_000n * 10n ** 6n], { account: user.account });
+            await bank.write.depositUsdc([5_000n * 10n ** 6n], { account: user.account });
+
+            return { ...ctx, poolKey: createPoolKey(wbtc.address, usdc.address) };
+        }
+
+        it("debits USDC, frees the USDC cap and sends WBTC", async () => {
+            const { bank, user, usdc, wbtc, poolKey } = await deployWithUsdcBalance();
+
+            const capBefore = await bank.read.currentBankCapUsdc();
+            const countBefore = await bank.read.countWithdraws();
+
+            await bank.write.withdrawAsToken([wbtc.address, 500n * 10n ** 6n, poolKey, 990_000n], {
+                account: user.account,
+            });
+
+            // $500 at $50,000 = 0.01 WBTC
+            assert.equal(await wbtc.read.balanceOf([user.account.address]), 1_000_000n);
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 4_500n * 10n ** 6n);
+            assert.equal((await bank.read.currentBankCapUsdc()) - capBefore, 500n * 10n ** 6n);
+            assert.equal(await bank.read.countWithdraws(), countBefore + 1n);
+            assert.equal(await wbtc.read.balanceOf([bank.address]), 0n);
+
+            const [swapped] = await bank.getEvents.TokenSwappedOut();
+            assert.equal(swapped.args.tokenOut, getAddress(wbtc.address));
+            assert.equal(swapped.args.amountIn, 500n * 10n ** 6n);
+            assert.equal(swapped.args.amountOut, 1_000_000n);
+        });
+
+        it("respects the USDC withdraw limit", async () => {
+            const { bank, user, wbtc, poolKey } = await deployWithUsdcBalance();
+
+            await assert.rejects(
+                bank.write.withdrawAsToken([wbtc.address, 1_001n * 10n ** 6n, poolKey, 1n], { account: user.account }),
+                /WithdrawLimitExceeded/
+            );
+        });
+
+        it("reverts above the USDC balance", async () => {
+            const { bank, user2, wbtc, poolKey } = await deployWithUsdcBalance();
+
+            await assert.rejects(
+                bank.write.withdrawAsToken([wbtc.address, 1n, poolKey, 1n], { account: user2.account }),
+                /InsufficientBalance/
+            );
+        });
+
+        it("reverts when output is below minAmountOut and keeps the balance", async () => {
+            const { bank, user, usdc, wbtc, poolKey } = await deployWithUsdcBalance();
+
+            await assert.rejects(
+                bank.write.withdrawAsToken([wbtc.address, 500n * 10n ** 6n, poolKey, 1_000_001n], {
+                    account: user.account,
+                }),
+                /SlippageExceeded/
+            );
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 5_000n * 10n ** 6n);
+        });
+
+        it("reverts for USDC, ETH or a pool without tokenOut", async () => {
+            const { bank, user, usdc, wbtc, dai, poolKey } = await deployWithUsdcBalance();
+
+            await assert.rejects(
+                bank.write.withdrawAsToken([usdc.address, 1n, poolKey, 1n], { account: user.account }),
+                /UnsupportedToken/
+            );
+            await assert.rejects(
+                bank.write.withdrawAsToken([ETH, 1n, poolKey, 1n], { account: user.account }),
+                /UnsupportedToken/
+            );
+            await assert.rejects(
+                bank.write.withdrawAsToken([dai.address, 1n, createPoolKey(wbtc.address, usdc.address), 1n], {
+                    account: user.account,
+                }),
+                /InvalidSwapParams/
+            );
+        });
+    });
+
+    describe("V3: Oracle Swap Sanity Check", () => {
+        async function deployWithReference() {
+            const ctx = await deployAll();
+            const { bank, usdc, dai, deployer, router, user } = ctx;
+
+            await usdc.write.mint([deployer.account.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await usdc.write.approve([router.address, 100_000n * 10n ** 6n], { account: deployer.account });
+            await router.write.fundRouter([100_000n * 10n ** 6n], { account: deployer.account });
+
+            await dai.write.mint([user.account.address, parseUnits("10000", 18)], { account: deployer.account });
+            await dai.write.approve([bank.address, parseUnits("10000", 18)], { account: user.account });
+
+            // 1 DAI = $1, 1% tolerance
+            const daiFeed = await viem.deployContract("MockV3Aggregator", [8, 10n ** 8n], {
+                client: { wallet: deployer },
+            });
+            await bank.write.setSwapReference([dai.address, daiFeed.address, 100n], { account: deployer.account });
+
+            return { ...ctx, daiFeed, poolKey: createPoolKey(dai.address, usdc.address) };
+        }
+
+        it("previews nothing for tokens without a reference", async () => {
+            const { bank, dai } = await deployAll();
+
+            assert.deepEqual(await bank.read.previewSwapOutput([dai.address, parseUnits("1000", 18)]), [0n, 0n]);
+        });
+
+        it("stores the reference and previews the oracle-implied output", async () => {
+            const { bank, dai, daiFeed, deployer } = await deployWithReference();
+
+            assert.deepEqual(await bank.read.swapReferences([dai.address]), [getAddress(daiFeed.address), 8, 18, 100]);
+            assert.deepEqual(await bank.read.previewSwapOutput([dai.address, parseUnits("1000", 18)]), [
+                1_000n * 10n ** 6n,
+                990n * 10n ** 6n,
+            ]);
+
+            const [event] = await bank.getEvents.SwapReferenceUpdated();
+            assert.equal(event.args.admin, getAddress(deployer.account.address));
+            assert.equal(event.args.token, getAddress(dai.address));
+            assert.equal(event.args.toleranceBps, 100n);
+        });
+
+        it("rejects a swap output below the tolerance even with minAmountOut = 1", async () => {
+            const { bank, user, dai, usdc, router, deployer, poolKey } = await deployWithReference();
+
+            // the pool pays 0.95 USDC per DAI, 5% below the feed
+            await router.write.setExchangeRate([dai.address, 950_000n], { account: deployer.account });
+
+            await assert.rejects(
+                bank.write.depositArbitraryToken([dai.address, parseUnits("1000", 18), poolKey, 1n], {
+                    account: user.account,
+                }),
+                /SwapOutputBelowOracle/
+            );
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 0n);
+            assert.equal(await dai.read.balanceOf([user.account.address]), parseUnits("10000", 18));
+        });
+
+        it("accepts a swap output within the tolerance", async () => {
+            const { bank, user, dai, usdc, router, deployer, poolKey } = await deployWithReference();
+
+            await router.write.setExchangeRate([dai.address, 995_000n], { account: deployer.account });
+            await bank.write.depositArbitraryToken([dai.address, parseUnits("1000", 18), poolKey, 1n], {
+                account: user.account,
+            });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 995n * 10n ** 6n);
+        });
+
+        it("checks native swaps against the ETH reference", async () => {
+            const { bank, user, usdc, router, priceFeed, deployer } = await deployWithReference();
+            const poolKey = createPoolKey(zeroAddress, usdc.address);
+
+            await bank.write.setSwapReference([ETH, priceFeed.address, 200n], { account: deployer.account });
+            // 1 ETH = 2,900 USDC in the pool vs. $3,000 on the feed: 3.3% short
+            await router.write.setExchangeRate([zeroAddress, 2_900n * 10n ** 6n], { account: deployer.account });
+
+            await assert.rejects(
+                bank.write.depositEthAsUsdc([poolKey, 1n], { account: user.account, value: parseEther("1") }),
+                /SwapOutputBelowOracle/
+            );
+
+            await router.write.setExchangeRate([zeroAddress, 2_950n * 10n ** 6n], { account: deployer.account });
+            await bank.write.depositEthAsUsdc([poolKey, 1n], { account: user.account, value: parseEther("1") });
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 2_950n * 10n ** 6n);
+        });
+
+        it("a stale reference feed blocks the swap", async () => {
+            const { bank, user, dai, daiFeed, poolKey } = await deployWithReference();
+
+            await daiFeed.write.setUpdatedAt([1n]);
+            await assert.rejects(
+                bank.write.depositArbitraryToken([dai.address, parseUnits("1000", 18), poolKey, 1n], {
+                    account: user.account,
+                }),
+                /OracleStale/
+            );
+        });
+
+        it("removing the reference disables the check", async () => {
+            const { bank, user, dai, usdc, router, deployer, poolKey } = await deployWithReference();
+
+            await bank.write.setSwapReference([dai.address, zeroAddress, 0n], { account: deployer.account });
+            await router.write.setExchangeRate([dai.address, 950_000n], { account: deployer.account });
+            await bank.write.depositArbitraryToken([dai.address, parseUnits("1000", 18), poolKey, 1n], {
+                account: user.account,
+            });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), 950n * 10n ** 6n);
+            assert.deepEqual(await bank.read.previewSwapOutput([dai.address, 1n]), [0n, 0n]);
+        });
+
+        it("only the admin sets references, within bounds and not for USDC", async () => {
+            const { bank, user, dai, usdc, priceFeed, deployer } = await deployAll();
+
+            await assert.rejects(
+                bank.write.setSwapReference([dai.address, priceFeed.address, 100n], { account: user.account }),
+                /AccessControlUnauthorizedAccount/
+            );
+            await assert.rejects(
+                bank.write.setSwapReference([dai.address, priceFeed.address, 0n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/
+            );
+            await assert.rejects(
+                bank.write.setSwapReference([dai.address, priceFeed.address, 2_001n], { account: deployer.account }),
+                /OracleConfigOutOfBounds/
+            );
+            await assert.rejects(
+                bank.write.setSwapReference([usdc.address, priceFeed.address, 100n], { account: deployer.account }),
+                /UnsupportedToken/
+            );
+        });
+    });
+
+    describe("V3: Admin Module", () => {
+        it("runs admin functions on the bank's storage through the module", async () => {
+            const { bank, deployer, dai } = await deployAll();
+            const module = await viem.getContractAt("KipuBankAdmin", await bank.read.adminModule());
+
+            await bank.write.listAsset([dai.address, zeroAddress, parseUnits("1000", 18), parseUnits("100", 18)], {
+                account: deployer.account,
+            });
+
+            assert.equal((await bank.read.assets([dai.address]))[0], true);
+            // the module's own storage was never initialized
+            assert.equal(await module.read.hasRole([await bank.read.DEFAULT_ADMIN_ROLE(), deployer.account.address]), false);
+            const [event] = await bank.getEvents.AssetListed();
+            assert.equal(event.args.admin, getAddress(deployer.account.address));
+        });
+
+        it("the module can't be administered directly", async () => {
+            const { bank, deployer, dai } = await deployAll();
+            const module = await viem.getContractAt("KipuBankAdmin", await bank.read.adminModule());
+
+            await assert.rejects(
+                module.write.listAsset([dai.address, zeroAddress, parseUnits("1000", 18), parseUnits("100", 18)], {
+                    account: deployer.account,
+                }),
+                /AccessControlUnauthorizedAccount/
+            );
+        });
+    });
 });
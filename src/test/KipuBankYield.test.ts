@@ -0,0 +1,288 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeFunctionData, getAddress, parseEther, zeroAddress } from "viem";
+import { network } from "hardhat";
+
+const USDC = (amount: bigint) => amount * 10n ** 6n;
+
+// the strategy's own share math rounds against the bank by a few units
+function assertClose(actual: bigint, expected: bigint, tolerance = 2n) {
+    const diff = actual > expected ? actual - expected : expected - actual;
+    assert.ok(diff <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+describe("KipuBank - USDC Pool Shares and Yield Strategy", async function() {
+    const { viem, networkHelpers } = await network.connect();
+
+    async function deployAll() {
+        const publicClient = await viem.getPublicClient();
+        const [deployer, user, user2] = await viem.getWalletClients();
+
+        const priceFeed = await viem.deployContract("MockV3Aggregator", [8, 3_000n * 10n ** 8n], {
+            client: { wallet: deployer },
+        });
+
+        const usdc = await viem.deployContract("MockERC20", ["USD Coin", "USDC", 6], {
+            client: { wallet: deployer },
+        });
+
+        const permit2 = await viem.deployContract("MockPermit2", [], {
+            client: { wallet: deployer },
+        });
+
+        const router = await viem.deployContract("MockUniversalRouter", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        const adminModule = await viem.deployContract("KipuBankAdmin", [], { client: { wallet: deployer } });
+        const depositsModule = await viem.deployContract("KipuBankDeposits", [], { client: { wallet: deployer } });
+        const accountsModule = await viem.deployContract("KipuBankAccounts", [], { client: { wallet: deployer } });
+        const implementation = await viem.deployContract(
+            "KipuBank",
+            [adminModule.address, depositsModule.address, accountsModule.address],
+            { client: { wallet: deployer } },
+        );
+        const initialize = encodeFunctionData({
+            abi: implementation.abi,
+            functionName: "initialize",
+            args: [deployer.account.address, parseEther("100"), USDC(50_000n), priceFeed.address, usdc.address, router.address, permit2.address],
+        });
+        const proxy = await viem.deployContract("KipuBankProxy", [implementation.address, initialize], {
+            client: { wallet: deployer },
+        });
+        const bank = await viem.getContractAt("KipuBank", proxy.address, { client: { wallet: deployer } });
+
+        const strategy = await viem.deployContract("MockYieldStrategy", [usdc.address], {
+            client: { wallet: deployer },
+        });
+
+        for (const account of [user, user2]) {
+            await usdc.write.mint([account.account.address, USDC(10_000n)], { account: deployer.account });
+            await usdc.write.approve([bank.address, USDC(10_000n)], { account: account.account });
+        }
+
+        return { bank, usdc, strategy, router, deployer, user, user2, publicClient };
+    }
+
+    async function deployWithStrategy() {
+        const ctx = await deployAll();
+        await ctx.bank.write.setUsdcStrategy([ctx.strategy.address], { account: ctx.deployer.account });
+
+        return ctx;
+    }
+
+    describe("Share accounting", () => {
+        it("mints shares 1:1 while the pool earns nothing", async () => {
+            const { bank, usdc, user, user2 } = await deployAll();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.depositUsdc([USDC(3_000n)], { account: user2.account });
+
+            assert.equal(await bank.read.usdcSharesOf([user.account.address]), USDC(1_000n));
+            assert.equal(await bank.read.totalUsdcShares(), USDC(4_000n));
+            assert.equal(await bank.read.totalUsdcAssets(), USDC(4_000n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user2.account }), USDC(3_000n));
+
+            const events = await bank.getEvents.UsdcSharesTransfer();
+            assert.equal(events.at(-1)?.args.from, zeroAddress);
+            assert.equal(events.at(-1)?.args.to, getAddress(user2.account.address));
+            assert.equal(events.at(-1)?.args.shares, USDC(3_000n));
+        });
+
+        it("burns shares on withdrawal", async () => {
+            const { bank, usdc, user } = await deployAll();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.withdraw([usdc.address, USDC(400n)], { account: user.account });
+
+            assert.equal(await bank.read.usdcSharesOf([user.account.address]), USDC(600n));
+            assert.equal(await bank.read.totalUsdcShares(), USDC(600n));
+
+            const [burned] = await bank.getEvents.UsdcSharesTransfer();
+            assert.equal(burned.args.from, getAddress(user.account.address));
+            assert.equal(burned.args.to, zeroAddress);
+        });
+    });
+
+    describe("Strategy", () => {
+        it("invests the existing pool and later deposits", async () => {
+            const { bank, usdc, strategy, deployer, user } = await deployAll();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.setUsdcStrategy([strategy.address], { account: deployer.account });
+
+            assert.equal(await bank.read.usdcStrategy(), getAddress(strategy.address));
+            assert.equal(await usdc.read.balanceOf([bank.address]), 0n);
+            assert.equal(await usdc.read.balanceOf([strategy.address]), USDC(1_000n));
+
+            const [event] = await bank.getEvents.UsdcStrategyUpdated();
+            assert.equal(event.args.strategy, getAddress(strategy.address));
+            assert.equal(event.args.assetsMoved, USDC(1_000n));
+
+            await bank.write.depositUsdc([USDC(500n)], { account: user.account });
+            assert.equal(await usdc.read.balanceOf([strategy.address]), USDC(1_500n));
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_500n));
+        });
+
+        it("only the admin sets a strategy, which must be a USDC vault", async () => {
+            const { bank, usdc, strategy, deployer, user } = await deployAll();
+            const dai = await viem.deployContract("MockERC20", ["Dai Stablecoin", "DAI", 18]);
+            const daiStrategy = await viem.deployContract("MockYieldStrategy", [dai.address]);
+
+            await assert.rejects(
+                bank.write.setUsdcStrategy([strategy.address], { account: user.account }),
+                /AccessControlUnauthorizedAccount/,
+            );
+            await assert.rejects(
+                bank.write.setUsdcStrategy([daiStrategy.address], { account: deployer.account }),
+                /InvalidStrategy/,
+            );
+            assert.equal(await bank.read.usdcStrategy(), zeroAddress);
+            assert.equal(await usdc.read.balanceOf([bank.address]), 0n);
+        });
+
+        it("moving back to idle redeems everything, yield included", async () => {
+            const { bank, usdc, strategy, deployer, user } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await usdc.write.mint([strategy.address, USDC(100n)]);
+            await bank.write.setUsdcStrategy([zeroAddress], { account: deployer.account });
+
+            assertClose(await usdc.read.balanceOf([bank.address]), USDC(1_100n));
+            assert.equal(await bank.read.totalUsdcAssets(), await usdc.read.balanceOf([bank.address]));
+            assertClose(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_100n));
+        });
+    });
+
+    describe("Yield", () => {
+        it("accrues to depositors pro-rata", async () => {
+            const { bank, usdc, strategy, user, user2 } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.depositUsdc([USDC(3_000n)], { account: user2.account });
+            // the strategy earns 10%
+            await usdc.write.mint([strategy.address, USDC(400n)]);
+
+            const userBalance = await bank.read.getMyBalance([usdc.address], { account: user.account });
+            const user2Balance = await bank.read.getMyBalance([usdc.address], { account: user2.account });
+            assertClose(userBalance, USDC(1_100n));
+            assertClose(user2Balance, USDC(3_300n));
+            assertClose(await bank.read.totalUsdcAssets(), USDC(4_400n));
+        });
+
+        it("accrues over time from the strategy's yield rate", async () => {
+            const { bank, usdc, strategy, user, publicClient } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await strategy.write.setYieldPerSecond([USDC(1n)]);
+            await networkHelpers.time.increase(99);
+            await networkHelpers.mine();
+
+            const { timestamp } = await publicClient.getBlock();
+            const earned = (timestamp - (await strategy.read.lastDrip())) * USDC(1n);
+            assert.ok(earned >= USDC(100n));
+
+            const balance = await bank.read.getMyBalance([usdc.address], { account: user.account });
+            assertClose(balance, USDC(1_000n) + earned);
+        });
+
+        it("later depositors buy in at the higher share price", async () => {
+            const { bank, usdc, strategy, user, user2 } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await usdc.write.mint([strategy.address, USDC(1_000n)]);
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user2.account });
+
+            const shares = await bank.read.usdcSharesOf([user2.account.address]);
+            assertClose(shares, USDC(500n));
+            assertClose(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(2_000n));
+            assertClose(await bank.read.getMyBalance([usdc.address], { account: user2.account }), USDC(1_000n));
+        });
+
+        it("counts realized yield against the USDC cap", async () => {
+            const { bank, usdc, strategy, user } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await usdc.write.mint([strategy.address, USDC(250n)]);
+            // the cap moves on the next USDC operation
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(49_000n));
+
+            await bank.write.depositUsdc([USDC(100n)], { account: user.account });
+
+            const [accrued] = await bank.getEvents.UsdcYieldAccrued();
+            assertClose(accrued.args.capDelta!, -USDC(250n));
+            assertClose(accrued.args.totalAssets!, USDC(1_250n));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(50_000n) - (await bank.read.totalUsdcAssets()));
+        });
+
+        it("applies the withdraw limit to the USDC value", async () => {
+            const { bank, usdc, strategy, user } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(2_000n)], { account: user.account });
+            await usdc.write.mint([strategy.address, USDC(200n)]);
+
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, USDC(1_001n)], { account: user.account }),
+                /WithdrawLimitExceeded/,
+            );
+
+            const before = await usdc.read.balanceOf([user.account.address]);
+            await bank.write.withdraw([usdc.address, USDC(1_000n)], { account: user.account });
+            assert.equal((await usdc.read.balanceOf([user.account.address])) - before, USDC(1_000n));
+            assertClose(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(1_200n));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(50_000n) - (await bank.read.totalUsdcAssets()));
+        });
+
+        it("withdraws a balance grown above the deposit", async () => {
+            const { bank, usdc, strategy, user } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(500n)], { account: user.account });
+            await usdc.write.mint([strategy.address, USDC(50n)]);
+
+            const balance = await bank.read.getMyBalance([usdc.address], { account: user.account });
+            await assert.rejects(
+                bank.write.withdraw([usdc.address, balance + 1n], { account: user.account }),
+                /InsufficientBalance/,
+            );
+            await bank.write.withdraw([usdc.address, balance], { account: user.account });
+
+            assert.equal(await bank.read.usdcSharesOf([user.account.address]), 0n);
+            assert.ok((await bank.read.currentBankCapUsdc()) <= USDC(50_000n));
+        });
+
+        it("passes a strategy loss on to depositors and frees cap", async () => {
+            const { bank, usdc, strategy, user, user2 } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user2.account });
+            await strategy.write.slash([USDC(200n)]);
+
+            assertClose(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(900n));
+
+            await bank.write.withdraw([usdc.address, USDC(100n)], { account: user2.account });
+            const [accrued] = await bank.getEvents.UsdcYieldAccrued();
+            assertClose(accrued.args.capDelta!, USDC(200n));
+        });
+    });
+
+    describe("Recovery", () => {
+        it("setInternalBalance works in USDC, invests credits and frees debits", async () => {
+            const { bank, usdc, strategy, deployer, user } = await deployWithStrategy();
+
+            await bank.write.depositUsdc([USDC(1_000n)], { account: user.account });
+            await bank.write.setInternalBalance([user.account.address, usdc.address, USDC(400n)], {
+                account: deployer.account,
+            });
+
+            assert.equal(await bank.read.getMyBalance([usdc.address], { account: user.account }), USDC(400n));
+            assert.equal(await usdc.read.balanceOf([bank.address]), USDC(600n));
+            assert.equal(await usdc.read.balanceOf([strategy.address]), USDC(400n));
+
+            await bank.write.setInternalBalance([user.account.address, usdc.address, USDC(700n)], {
+                account: deployer.account,
+            });
+            assert.equal(await usdc.read.balanceOf([strategy.address]), USDC(700n));
+            assert.equal(await bank.read.currentBankCapUsdc(), USDC(49_300n));
+        });
+    });
+});